@@ -3,11 +3,51 @@ import VoiceCLI from './src/cli/voice-cli';
 
 // Export main components for use as library
 export { default as RealtimeVoiceClient } from './src/voice/realtime-client';
+export { default as RealtimeSession } from './src/voice/realtime-session';
 export { default as AgentServer } from './src/agent/agent-server';
 export { default as MCPClient } from './src/mcp/mcp-client';
 export { VoiceCLI };
+export { validateAgainstSchema, validateToolSchema } from './src/mcp/schema-validator';
+export { detectAudioFormat } from './src/voice/audio-format';
+export { createSpeechToText, createTextToSpeech } from './src/voice/speech-provider';
+export { Cassette, CassetteMismatchError } from './src/lib/cassette';
+export { AuditLog } from './src/agent/audit-log';
+export { TokenKeystore } from './src/agent/keystore';
+export { Scheduler, InvalidScheduleError } from './src/agent/scheduler';
+export { CronExpression, CronParseError } from './src/lib/cron';
+export { WorkflowRegistry, WorkflowError, parseWorkflow, runWorkflow } from './src/agent/workflows';
+export { renderTemplate, evaluateCondition, TemplateError } from './src/lib/template';
+export { resolveTimeExpression, TimeExpressionError, AmbiguousTimeError } from './src/lib/time-expression';
+export { Directory, DirectoryLookupError, AmbiguousEntryError, InvalidDirectoryEntryError } from './src/agent/directory';
+export { matchScore, phoneticKey } from './src/lib/fuzzy-match';
+export { withRetry, isRetryableError } from './src/lib/retry';
+export { CircuitBreaker, CircuitOpenError } from './src/mcp/circuit-breaker';
+export { RateLimiter, RateLimitError } from './src/mcp/rate-limiter';
+export { ConnectionManager, ConnectionStore, ConnectionError } from './src/mcp/connections';
+export { OAuthError } from './src/lib/oauth';
+export { Logger, createLogger, configureLogging, withLogContext } from './src/lib/logger';
+export { MetricsRegistry, Counter, Histogram, metrics } from './src/lib/metrics';
+export { startSpan, withSpan } from './src/lib/tracing';
 
 // Re-export types
-export type { VoiceInput, VoiceOutput } from './src/voice/realtime-client';
+export type { VoiceInput, VoiceOutput, RealtimeInteractionHandlers } from './src/voice/realtime-client';
+export type { RealtimeSessionOptions, RealtimeSessionEvents } from './src/voice/realtime-session';
+export type { AudioFormat, AudioFormatId } from './src/voice/audio-format';
+export type { SpeechConfig, SpeechToText, TextToSpeech } from './src/voice/speech-provider';
+export type { CassetteMode, Interaction, InteractionKind } from './src/lib/cassette';
+export type { AuditEntry, AuditQuery } from './src/agent/audit-log';
+export type { TokenRecord } from './src/agent/keystore';
+export type { Schedule, ScheduleAction, ScheduleInput, ScheduleRun } from './src/agent/scheduler';
+export type { Workflow, WorkflowStep, WorkflowRun, WorkflowStepResult } from './src/agent/workflows';
+export type { Principal } from './src/agent/auth';
 export type { AgentRequest, AgentResponse } from './src/agent/agent-server';
-export type { MCPTool, ToolResult } from './src/mcp/mcp-client';
\ No newline at end of file
+export type { MCPTool, ToolResult, ExecuteToolOptions } from './src/mcp/mcp-client';
+export type { RetryPolicy } from './src/lib/retry';
+export type { LimitRule, LimitUsage, RateLimitConfig } from './src/mcp/rate-limiter';
+export type { IntegrationConfig, ConnectionStatus, PendingAuthorization } from './src/mcp/connections';
+export type { OAuthClientConfig, OAuthTokens } from './src/lib/oauth';
+export type { ResolvedTime, TimeResolveOptions } from './src/lib/time-expression';
+export type { DirectoryEntry, DirectoryEntryInput, DirectoryKind, DirectoryMatch, DirectoryConfig, DiscoverySource } from './src/agent/directory';
+export type { ValidationError, ValidationResult } from './src/mcp/schema-validator';
+export type { LogLevel, LogFormat, LogFields, LoggingOptions } from './src/lib/logger';
+export type { Span, SpanName, SpanStatus } from './src/lib/tracing';
\ No newline at end of file
@@ -0,0 +1,26 @@
+import type { ToolResult } from '../mcp/mcp-client';
+import type { AgentResponse } from './agent-server';
+import type { PendingAction } from './pending-actions';
+
+/**
+ * Events emitted while the agent works on a request
+ * Sent as SSE events (`event: <type>`) and as socket.io events of the same name.
+ */
+export type AgentStreamEvent =
+  | { type: 'text_delta'; delta: string }
+  | { type: 'tool_call_started'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; result: ToolResult }
+  | { type: 'confirmation_required'; pendingAction: PendingAction }
+  | {
+      type: 'workflow_step';
+      workflow: string;
+      step: string;
+      index: number;
+      total: number;
+      status: 'started' | 'skipped' | 'retrying';
+      error?: string;
+    }
+  | { type: 'done'; response: AgentResponse }
+  | { type: 'error'; error: string };
+
+export type AgentEventHandler = (event: AgentStreamEvent) => void;
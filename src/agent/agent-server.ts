@@ -1,162 +1,2007 @@
 import type { Request, Response, Express } from 'express';
+import { randomUUID } from 'crypto';
 import express from 'express';
 import { OpenAI } from 'openai';
+import type {
+  ChatCompletionFunctionTool,
+  ChatCompletionMessage,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+} from 'openai/resources/chat/completions';
+import type { Server } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
 import { MCPClient } from '../mcp/mcp-client';
+import type { MCPClientOptions, MCPTool, ToolResult } from '../mcp/mcp-client';
+import { ConnectionError } from '../mcp/connections';
+import { OAuthError } from '../lib/oauth';
+import { TimeExpressionError, AmbiguousTimeError, defaultTimeZone, isValidTimeZone } from '../lib/time-expression';
+import { resolveTimeArguments } from './time-arguments';
+import { AmbiguousEntryError, Directory, DirectoryLookupError, InvalidDirectoryEntryError, syncIntervalMs } from './directory';
+import type { DirectoryConfig, DirectoryImportFormat, DirectoryKind, DirectorySyncResult } from './directory';
+import { resolveDirectoryArguments } from './directory-arguments';
+import { isReadOnlyTool } from '../mcp/tool-safety';
+import { validateAgainstSchema } from '../mcp/schema-validator';
+import { PendingActionStore } from './pending-actions';
+import type { PendingAction } from './pending-actions';
+import { SessionStore, repairDanglingToolCalls, splitHistory } from './session-store';
+import type { Session } from './session-store';
+import type { AgentEventHandler, AgentStreamEvent } from './agent-events';
+import { formatSseEvent } from '../lib/sse';
+import { CassetteMismatchError } from '../lib/cassette';
+import { AuditLog, parseTimeBound } from './audit-log';
+import type { AuditQuery } from './audit-log';
+import { TokenKeystore } from './keystore';
+import { IdempotencyCache, IdempotencyKeyReusedError } from '../lib/idempotency';
+import {
+  authenticate,
+  canUseTool,
+  createAuthMiddleware,
+  createCorsMiddleware,
+  hasScope,
+  isLoopbackHost,
+  parseBearerToken,
+} from './auth';
+import type { Principal } from './auth';
+import type { Cassette } from '../lib/cassette';
+import { InvalidScheduleError, SCHEDULE_TASK_TOOL, Scheduler } from './scheduler';
+import type { Schedule, ScheduleInput, ScheduleOutcome, ScheduleUpdate } from './scheduler';
+import {
+  WORKFLOW_TOOL_PREFIX,
+  WorkflowError,
+  WorkflowRegistry,
+  resolveInputs,
+  runWorkflow,
+  workflowTool,
+} from './workflows';
+import type { Workflow, WorkflowRun, WorkflowToolExecutor } from './workflows';
+import { createLogger, logContext, withLogContext } from '../lib/logger';
+import { PROMETHEUS_CONTENT_TYPE, metrics } from '../lib/metrics';
+import { startSpan } from '../lib/tracing';
 
 export interface AgentRequest {
   userInput: string;
   context?: Record<string, unknown>;
   tools?: string[];
+  /** Continue an existing conversation; a new session is started when omitted */
+  sessionId?: string;
+}
+
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result: ToolResult;
 }
 
 export interface AgentResponse {
   response: string;
+  sessionId?: string;
   context?: Record<string, unknown>;
   toolsUsed?: string[];
+  toolCalls?: ToolCallRecord[];
+  /**
+   * `max_iterations` when the tool loop was cut off before a final answer,
+   * `confirmation_required` when a side-effecting call awaits approval
+   */
+  stopReason?: 'completed' | 'max_iterations' | 'confirmation_required';
+  /** Set when `stopReason` is `confirmation_required` */
+  pendingAction?: PendingAction;
+  /** Step-by-step outcome, for runs of /agent/workflows/:name/run */
+  workflow?: WorkflowRun;
+  /** ID of the request in the server's logs (the caller's X-Request-Id when valid) */
+  requestId?: string;
+}
+
+export interface AgentServerOptions {
+  /** Rube MCP endpoint (Streamable HTTP) */
+  mcpServerUrl?: string;
+  mcp?: MCPClientOptions;
+  /** Chat completions model used for reasoning and tool calls */
+  model?: string;
+  /** OpenAI-compatible API base URL (e.g. a local mock or proxy) */
+  baseURL?: string;
+  /** Maximum model round-trips per request */
+  maxIterations?: number;
+  /** Pause side-effecting tool calls until the user approves them (default: true) */
+  requireConfirmation?: boolean;
+  /** Directory for persisted sessions (default: ~/.rube/sessions) */
+  sessionDir?: string;
+  /** History length (messages) above which older turns are summarized */
+  maxHistoryMessages?: number;
+  /** Record model completions, or replay them instead of calling the API */
+  cassette?: Cassette;
+  /** JSONL file receiving an entry per executed tool call (default: ~/.rube/audit.jsonl) */
+  auditLogPath?: string;
+  /**
+   * Require a bearer token from the keystore on every /agent route (default: false).
+   * Binding to a non-loopback host without it is refused.
+   */
+  requireAuth?: boolean;
+  /** Token keystore file (default: ~/.rube/tokens.json) */
+  keystorePath?: string;
+  /** Origins allowed to call the API from a browser (`*` for any; default: none) */
+  corsOrigins?: string[];
+  /** Maximum request body size (default: 1mb) */
+  maxBodySize?: string;
+  /** Scheduled jobs file (default: ~/.rube/schedules.json) */
+  schedulesPath?: string;
+  /**
+   * Run scheduled jobs when they come due, and directory discovery on its
+   * interval (default: true). Without it the schedules can still be managed,
+   * but only another server runs them.
+   */
+  runSchedules?: boolean;
+  /** Directory of workflow definitions (default: ~/.rube/workflows) */
+  workflowsDir?: string;
+  /**
+   * IANA time zone for spoken dates and times when the request context has
+   * no `timezone` (default: the system's)
+   */
+  timeZone?: string;
+  /** Contacts, channels and repos file (default: ~/.rube/directory.json) */
+  directoryPath?: string;
+  /** Discovery tools that keep the directory up to date */
+  directory?: DirectoryConfig;
+}
+
+/**
+ * Everything needed to continue a tool loop, including after a pause for confirmation
+ */
+interface AgentRunState {
+  /** Generated when the run starts; tool call ids alone are reused by some providers */
+  runId: string;
+  session: Session;
+  /** Number of session tool calls recorded before this run */
+  priorToolCallCount: number;
+  context: Record<string, unknown>;
+  /** The user input that started this run */
+  userInput: string;
+  messages: ChatCompletionMessageParam[];
+  definitions: ChatCompletionFunctionTool[];
+  functionToTool: Map<string, string>;
+  toolCalls: ToolCallRecord[];
+  /** Tool calls from the latest assistant message that have not been handled yet */
+  queue: ChatCompletionMessageFunctionToolCall[];
+  iterations: number;
+  /** Receives progress events when the caller is streaming */
+  emit?: AgentEventHandler;
+  /** Caller of the run when auth is enabled; limits which tools may be used */
+  principal?: Principal;
+  /** Run side-effecting tools without pausing (scheduled runs approved in advance) */
+  autoApprove?: boolean;
+}
+
+/**
+ * A request the agent cannot act on (bad input, unknown session or action)
+ */
+export class AgentRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'AgentRequestError';
+    this.status = status;
+  }
+}
+
+/**
+ * `context.timezone`, when given, must be an IANA time zone such as `Europe/Berlin`
+ */
+function checkTimeZone(context: Record<string, unknown>): void {
+  const { timezone } = context;
+  if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+    throw new AgentRequestError(`Unknown time zone in context.timezone: ${String(timezone)}`);
+  }
 }
 
-export class AgentServer {
-  private app: Express;
-  private openai: OpenAI;
-  private mcpClient: MCPClient;
-  private port: number;
-  private host: string;
+const DEFAULT_MODEL = 'gpt-4o-mini';
+const DEFAULT_MAX_ITERATIONS = 8;
+const DEFAULT_MAX_HISTORY_MESSAGES = 40;
+const DEFAULT_MAX_BODY_SIZE = '1mb';
+
+/** Caller-supplied request IDs are used as is when they look like one */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const log = createLogger('agent-server');
+const httpRequests = metrics.counter(
+  'rube_http_requests_total',
+  'HTTP requests by route and status code',
+  ['method', 'route', 'status']
+);
+const httpRequestDuration = metrics.histogram(
+  'rube_http_request_duration_seconds',
+  'HTTP request duration by route',
+  ['method', 'route']
+);
+const agentRuns = metrics.counter(
+  'rube_agent_runs_total',
+  'Agent runs by how they stopped',
+  ['stop_reason']
+);
+
+export class AgentServer {
+  private app: Express;
+  private openai: OpenAI;
+  private mcpClient: MCPClient;
+  private port: number;
+  private host: string;
+  private server?: Server;
+  private io?: SocketIOServer;
+  private model: string;
+  private maxIterations: number;
+  private requireConfirmation: boolean;
+  private pendingActions = new PendingActionStore<AgentRunState>();
+  private sessions: SessionStore;
+  private maxHistoryMessages: number;
+  private cassette?: Cassette;
+  private auditLog: AuditLog;
+  private keystore: TokenKeystore;
+  private completedRequests = new IdempotencyCache<AgentResponse>();
+  private requireAuth: boolean;
+  private scheduler: Scheduler;
+  private runSchedules: boolean;
+  private workflows: WorkflowRegistry;
+  private timeZone: string;
+  private directory: Directory;
+  private directoryConfig?: DirectoryConfig;
+  private directorySyncTimer?: NodeJS.Timeout;
+
+  constructor(
+    apiKey: string,
+    port: number = 3000,
+    host: string = 'localhost',
+    options: AgentServerOptions = {}
+  ) {
+    this.app = express();
+    this.openai = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.mcpClient = new MCPClient(options.mcpServerUrl, { ...options.mcp, cassette: options.cassette });
+    this.cassette = options.cassette;
+    this.auditLog = new AuditLog(options.auditLogPath);
+    this.port = port;
+    this.host = host;
+    this.model = options.model ?? DEFAULT_MODEL;
+    this.maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    this.requireConfirmation = options.requireConfirmation ?? true;
+    this.sessions = new SessionStore(options.sessionDir);
+    this.maxHistoryMessages = options.maxHistoryMessages ?? DEFAULT_MAX_HISTORY_MESSAGES;
+    this.keystore = new TokenKeystore(options.keystorePath);
+    this.requireAuth = options.requireAuth ?? false;
+    this.scheduler = new Scheduler(schedule => this.runSchedule(schedule), options.schedulesPath);
+    this.runSchedules = options.runSchedules ?? true;
+    this.workflows = new WorkflowRegistry(options.workflowsDir);
+    this.timeZone = options.timeZone ?? defaultTimeZone();
+    this.directory = new Directory(options.directoryPath);
+    this.directoryConfig = options.directory;
+    if (!isValidTimeZone(this.timeZone)) {
+      throw new Error(`Unknown time zone: ${this.timeZone}`);
+    }
+
+    this.setupMiddleware(options);
+    this.setupRoutes();
+  }
+
+  private setupMiddleware(options: AgentServerOptions): void {
+    // Tag everything logged while serving a request with its ID, and count it
+    this.app.use((req, res, next) => {
+      const header = req.get('X-Request-Id');
+      const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+      const started = Date.now();
+      res.locals.requestId = requestId;
+      res.setHeader('X-Request-Id', requestId);
+
+      res.on('finish', () => {
+        const durationMs = Date.now() - started;
+        const route = req.route ? `${req.baseUrl}${String(req.route.path)}` : 'unmatched';
+        httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+        httpRequestDuration.observe({ method: req.method, route }, durationMs / 1000);
+        // Probes would drown out everything else at info
+        log.log(route === '/health' || route === '/metrics' ? 'debug' : 'info', 'Request finished', {
+          requestId,
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs,
+        });
+      });
+
+      withLogContext({ requestId }, next);
+    });
+
+    if (options.corsOrigins && options.corsOrigins.length > 0) {
+      this.app.use(createCorsMiddleware(options.corsOrigins));
+    }
+
+    const limit = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    this.app.use(express.json({ limit }));
+    this.app.use(express.urlencoded({ extended: true, limit }));
+
+    // /health stays public so load balancers and the CLI can probe it
+    if (this.requireAuth) {
+      this.app.use('/agent', createAuthMiddleware(this.keystore));
+      this.app.use('/metrics', createAuthMiddleware(this.keystore));
+    }
+  }
+
+  private setupRoutes(): void {
+    /**
+     * Main agent endpoint for processing user input
+     * POST /agent/run
+     */
+    this.app.post('/agent/run', async (req: Request, res: Response) => {
+      try {
+        res.json(await this.idempotent(req, res, () => this.run(req.body as AgentRequest, undefined, this.principalOf(res))));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Streaming variant of /agent/run (Server-Sent Events)
+     * POST /agent/run/stream
+     */
+    this.app.post('/agent/run/stream', (req: Request, res: Response) => {
+      this.streamEvents(res, emit =>
+        this.idempotent(req, res, () => this.run(req.body as AgentRequest, emit, this.principalOf(res)))
+      );
+    });
+
+    /**
+     * List saved sessions
+     * GET /agent/sessions
+     */
+    this.app.get('/agent/sessions', async (req: Request, res: Response) => {
+      try {
+        const principal = this.principalOf(res);
+        const sessions = await this.sessions.list();
+        res.json({ sessions: sessions.filter(session => this.ownsConversation(principal, session.owner)) });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Fetch a session with its full history
+     * GET /agent/sessions/:sessionId
+     */
+    this.app.get('/agent/sessions/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
+      const session = await this.sessions.get(req.params.sessionId).catch(() => undefined);
+      if (!session || !this.ownsConversation(this.principalOf(res), session.owner)) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.json(session);
+    });
+
+    /**
+     * Delete a session
+     * DELETE /agent/sessions/:sessionId
+     */
+    this.app.delete('/agent/sessions/:sessionId', async (req: Request<{ sessionId: string }>, res: Response) => {
+      const session = await this.sessions.get(req.params.sessionId).catch(() => undefined);
+      const owned = session !== undefined && this.ownsConversation(this.principalOf(res), session.owner);
+      const deleted = owned && await this.sessions.delete(req.params.sessionId).catch(() => false);
+      if (!deleted) {
+        res.status(404).json({ error: 'Session not found' });
+        return;
+      }
+      res.status(204).end();
+    });
+
+    /**
+     * Inspect a pending action
+     * GET /agent/actions/:actionId
+     */
+    this.app.get('/agent/actions/:actionId', (req: Request<{ actionId: string }>, res: Response) => {
+      const action = this.accessibleAction(this.principalOf(res), req.params.actionId);
+      if (!action) {
+        res.status(404).json({ error: 'Action not found or expired' });
+        return;
+      }
+      res.json(action);
+    });
+
+    /**
+     * Approve a pending action and resume the agent
+     * POST /agent/actions/:actionId/approve
+     */
+    this.app.post('/agent/actions/:actionId/approve', async (req: Request<{ actionId: string }>, res: Response) => {
+      try {
+        res.json(await this.idempotent(req, res, () =>
+          this.approveAction(req.params.actionId, undefined, this.principalOf(res))
+        ));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Streaming variant of approve (Server-Sent Events)
+     * POST /agent/actions/:actionId/approve/stream
+     */
+    this.app.post('/agent/actions/:actionId/approve/stream', (req: Request<{ actionId: string }>, res: Response) => {
+      this.streamEvents(res, emit =>
+        this.idempotent(req, res, () => this.approveAction(req.params.actionId, emit, this.principalOf(res)))
+      );
+    });
+
+    /**
+     * Replace the arguments of a pending action (it stays pending)
+     * POST /agent/actions/:actionId/edit  { arguments: {...} }
+     */
+    this.app.post('/agent/actions/:actionId/edit', (req: Request<{ actionId: string }>, res: Response) => {
+      const { arguments: args } = (req.body ?? {}) as { arguments?: Record<string, unknown> };
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        res.status(400).json({ error: 'arguments object is required' });
+        return;
+      }
+
+      const action = this.accessibleAction(this.principalOf(res), req.params.actionId);
+      if (!action) {
+        res.status(404).json({ error: 'Action not found or expired' });
+        return;
+      }
+
+      const tool = this.findTool(action.toolName);
+      if (tool && !this.mayUseTool(this.principalOf(res), tool)) {
+        res.status(403).json({ error: `Token is not allowed to use '${action.toolName}'` });
+        return;
+      }
+      if (tool) {
+        const validation = validateAgainstSchema(args, tool.inputSchema);
+        if (!validation.valid) {
+          res.status(400).json({ error: 'Invalid arguments', validationErrors: validation.errors });
+          return;
+        }
+      }
+
+      res.json(this.pendingActions.update(
+        action.actionId,
+        args,
+        this.summarizeToolCall(action.toolName, args)
+      ));
+    });
+
+    /**
+     * Reject a pending action and let the agent respond
+     * POST /agent/actions/:actionId/reject  { reason?: string }
+     */
+    this.app.post('/agent/actions/:actionId/reject', async (req: Request<{ actionId: string }>, res: Response) => {
+      try {
+        const { reason } = (req.body ?? {}) as { reason?: string };
+        res.json(await this.idempotent(req, res, () =>
+          this.rejectAction(req.params.actionId, reason, undefined, this.principalOf(res))
+        ));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Streaming variant of reject (Server-Sent Events)
+     * POST /agent/actions/:actionId/reject/stream
+     */
+    this.app.post('/agent/actions/:actionId/reject/stream', (req: Request<{ actionId: string }>, res: Response) => {
+      const { reason } = (req.body ?? {}) as { reason?: string };
+      this.streamEvents(res, emit =>
+        this.idempotent(req, res, () => this.rejectAction(req.params.actionId, reason, emit, this.principalOf(res)))
+      );
+    });
+
+    /**
+     * Scheduled jobs the caller can see
+     * GET /agent/schedules
+     */
+    this.app.get('/agent/schedules', (req: Request, res: Response) => {
+      try {
+        const principal = this.requireScope(res, 'schedules:read');
+        res.json({ schedules: this.scheduler.list().filter(schedule => this.ownsSchedule(principal, schedule)) });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Create a one-shot (`runAt`) or recurring (`cron`) job
+     * POST /agent/schedules  { name?, action, runAt | cron, enabled?, autoApprove? }
+     */
+    this.app.post('/agent/schedules', (req: Request, res: Response) => {
+      try {
+        const principal = this.requireScope(res, 'schedules:write');
+        const input = (req.body ?? {}) as ScheduleInput;
+        this.checkScheduleAction(input.action, principal);
+        res.status(201).json(this.scheduler.create(input, principal));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Fetch a schedule with its recent runs
+     * GET /agent/schedules/:scheduleId
+     */
+    this.app.get('/agent/schedules/:scheduleId', (req: Request<{ scheduleId: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'schedules:read');
+        res.json(this.accessibleSchedule(res, req.params.scheduleId));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Change a schedule, e.g. `{ enabled: false }` to pause it
+     * PATCH /agent/schedules/:scheduleId
+     */
+    this.app.patch('/agent/schedules/:scheduleId', (req: Request<{ scheduleId: string }>, res: Response) => {
+      try {
+        const principal = this.requireScope(res, 'schedules:write');
+        const schedule = this.accessibleSchedule(res, req.params.scheduleId);
+        const patch = (req.body ?? {}) as ScheduleUpdate;
+        this.checkScheduleAction(patch.action, principal);
+        res.json(this.scheduler.update(schedule.id, patch));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Delete a schedule
+     * DELETE /agent/schedules/:scheduleId
+     */
+    this.app.delete('/agent/schedules/:scheduleId', (req: Request<{ scheduleId: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'schedules:write');
+        this.scheduler.delete(this.accessibleSchedule(res, req.params.scheduleId).id);
+        res.status(204).end();
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Run a schedule now; its next due time is unchanged
+     * POST /agent/schedules/:scheduleId/run
+     */
+    this.app.post('/agent/schedules/:scheduleId/run', async (req: Request<{ scheduleId: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'schedules:write');
+        const schedule = this.accessibleSchedule(res, req.params.scheduleId);
+        res.json(await this.scheduler.runNow(schedule.id));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Workflows the caller may run, plus files that failed to load
+     * GET /agent/workflows
+     */
+    this.app.get('/agent/workflows', (req: Request, res: Response) => {
+      try {
+        const principal = this.principalOf(res);
+        res.json({
+          workflows: this.workflows.list().filter(workflow => this.mayUseTool(principal, this.toolForWorkflow(workflow))),
+          errors: this.workflows.errors(),
+        });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Fetch a workflow definition
+     * GET /agent/workflows/:name
+     */
+    this.app.get('/agent/workflows/:name', (req: Request<{ name: string }>, res: Response) => {
+      try {
+        res.json(this.accessibleWorkflow(res, req.params.name));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Run a workflow without confirmation; each step still needs the caller's permission
+     * POST /agent/workflows/:name/run  { inputs?, sessionId?, context? }
+     */
+    this.app.post('/agent/workflows/:name/run', async (req: Request<{ name: string }>, res: Response) => {
+      try {
+        res.json(await this.idempotent(req, res, () => this.runWorkflowRequest(req.params.name, req.body, undefined, res)));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Streaming variant, reporting each step as it starts and finishes
+     * POST /agent/workflows/:name/run/stream
+     */
+    this.app.post('/agent/workflows/:name/run/stream', (req: Request<{ name: string }>, res: Response) => {
+      this.streamEvents(res, emit =>
+        this.idempotent(req, res, () => this.runWorkflowRequest(req.params.name, req.body, emit, res))
+      );
+    });
+
+    /**
+     * Configured integrations and whether each is connected
+     * GET /agent/connections
+     */
+    this.app.get('/agent/connections', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:read');
+        res.json({ connections: this.mcpClient.connections.list() });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * One integration's connection
+     * GET /agent/connections/:integration
+     */
+    this.app.get('/agent/connections/:integration', (req: Request<{ integration: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:read');
+        res.json(this.mcpClient.connections.status(this.integrationParam(req.params.integration)));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Start the OAuth flow; the caller opens `authorizationUrl` and listens on `redirectUri`
+     * POST /agent/connections/:integration/authorize  { redirectUri }
+     */
+    this.app.post('/agent/connections/:integration/authorize', (req: Request<{ integration: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:write');
+        const integration = this.integrationParam(req.params.integration);
+        const { redirectUri } = (req.body ?? {}) as { redirectUri?: unknown };
+        if (typeof redirectUri !== 'string') {
+          throw new AgentRequestError('redirectUri is required');
+        }
+        res.json(this.mcpClient.connections.beginAuthorization(integration, redirectUri));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Finish the OAuth flow with what the provider sent to the redirect URI
+     * POST /agent/connections/:integration/callback  { state, code }
+     */
+    this.app.post('/agent/connections/:integration/callback', async (req: Request<{ integration: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:write');
+        const integration = this.integrationParam(req.params.integration);
+        const { state, code } = (req.body ?? {}) as { state?: unknown; code?: unknown };
+        if (typeof state !== 'string' || typeof code !== 'string') {
+          throw new AgentRequestError('state and code are required');
+        }
+        res.json(await this.mcpClient.connections.completeAuthorization(integration, state, code));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Refresh the access token now
+     * POST /agent/connections/:integration/refresh
+     */
+    this.app.post('/agent/connections/:integration/refresh', async (req: Request<{ integration: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:write');
+        const integration = this.integrationParam(req.params.integration);
+        await this.mcpClient.connections.refresh(integration);
+        res.json(this.mcpClient.connections.status(integration));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Disconnect, revoking the tokens when the provider supports it
+     * DELETE /agent/connections/:integration
+     */
+    this.app.delete('/agent/connections/:integration', async (req: Request<{ integration: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'connections:write');
+        if (!await this.mcpClient.connections.disconnect(this.integrationParam(req.params.integration))) {
+          throw new AgentRequestError(`${req.params.integration} is not connected`, 404);
+        }
+        res.status(204).end();
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Directory entries, or those matching a spoken name when `q` is given
+     * GET /agent/directory?kind=contact&q=alice
+     */
+    this.app.get('/agent/directory', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'directory:read');
+        const { kind, q } = req.query as Record<string, unknown>;
+        const directoryKind = this.directoryKindParam(kind);
+        if (q !== undefined) {
+          if (typeof q !== 'string' || !q.trim()) {
+            throw new AgentRequestError('q must be a non-empty string');
+          }
+          res.json({ matches: this.directory.search(q, directoryKind) });
+        } else {
+          res.json({ entries: this.directory.list(directoryKind) });
+        }
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Add an entry, or update the one with the same kind and value
+     * POST /agent/directory  { kind, name, value, aliases?, label? }
+     */
+    this.app.post('/agent/directory', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'directory:write');
+        res.status(201).json(this.directory.add(req.body ?? {}));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Import a vCard or CSV file's contents
+     * POST /agent/directory/import  { format: "vcard" | "csv", content, kind? }
+     */
+    this.app.post('/agent/directory/import', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'directory:write');
+        const { format, content, kind } = (req.body ?? {}) as { format?: unknown; content?: unknown; kind?: unknown };
+        if (typeof content !== 'string') {
+          throw new AgentRequestError('content is required');
+        }
+        res.json(this.directory.import(format as DirectoryImportFormat, content, this.directoryKindParam(kind)));
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Run the configured discovery tools now
+     * POST /agent/directory/sync
+     */
+    this.app.post('/agent/directory/sync', async (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'directory:write');
+        if (!this.directoryConfig?.discovery?.length) {
+          throw new AgentRequestError('No discovery sources configured (see "directory" in the MCP config file)');
+        }
+        res.json({ results: await this.syncDirectory() });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * DELETE /agent/directory/:id
+     */
+    this.app.delete('/agent/directory/:id', (req: Request<{ id: string }>, res: Response) => {
+      try {
+        this.requireScope(res, 'directory:write');
+        if (!this.directory.remove(req.params.id)) {
+          throw new AgentRequestError(`Directory entry not found: ${req.params.id}`, 404);
+        }
+        res.status(204).end();
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Health check endpoint
+     */
+    this.app.get('/health', (req: Request, res: Response) => {
+      const servers = this.mcpClient.getServerHealth();
+      const allConnected = servers.every(server => server.status === 'connected');
+
+      res.json({
+        status: allConnected ? 'ok' : 'degraded',
+        mcpConnected: this.mcpClient.isConnected(),
+        servers,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    /**
+     * Request counts, tool latencies and error rates in the Prometheus text format
+     * GET /metrics
+     */
+    this.app.get('/metrics', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'metrics:read');
+        res.set('Content-Type', PROMETHEUS_CONTENT_TYPE).send(metrics.render());
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * Executed tool calls, newest first
+     * Filters: tool, session, success=true|false, since/until (ISO time or
+     * a duration ago like 24h), limit
+     */
+    this.app.get('/agent/audit', async (req: Request, res: Response) => {
+      try {
+        if (!hasScope(this.principalOf(res), 'audit:read')) {
+          throw new AgentRequestError('Token lacks the audit:read scope', 403);
+        }
+        const query = this.parseAuditQuery(req.query as Record<string, unknown>);
+        res.json({ entries: await this.auditLog.query(query) });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    /**
+     * List available tools/integrations
+     */
+    this.app.get('/agent/tools', (req: Request, res: Response) => {
+      const principal = this.principalOf(res);
+      const availableTools = this.mcpClient.getAvailableTools().filter(tool => canUseTool(principal, tool));
+      res.json({ tools: availableTools });
+    });
+
+    /**
+     * Rate limits and today's quota usage per tool, integration and user
+     * GET /agent/limits
+     */
+    this.app.get('/agent/limits', (req: Request, res: Response) => {
+      try {
+        this.requireScope(res, 'limits:read');
+        res.json({ limits: this.mcpClient.getRateLimits() });
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    });
+
+    // Body parser failures (oversized or malformed JSON) as JSON errors
+    this.app.use((error: Error & { status?: number }, req: Request, res: Response, next: (error?: unknown) => void) => {
+      if (res.headersSent) {
+        next(error);
+        return;
+      }
+      const status = error.status ?? 500;
+      res.status(status).json({ error: status === 413 ? 'Request body too large' : error.message });
+    });
+  }
+
+  private principalOf(res: Response): Principal | undefined {
+    return res.locals.principal as Principal | undefined;
+  }
+
+  /**
+   * Honour an `Idempotency-Key` header: a retried request (e.g. after a dropped
+   * connection) gets the original response instead of running again. The
+   * plain and /stream variants of an endpoint share keys.
+   */
+  private idempotent<P>(
+    req: Request<P>,
+    res: Response,
+    perform: () => Promise<AgentResponse>
+  ): Promise<AgentResponse> {
+    const key = req.get('Idempotency-Key');
+    if (!key) return perform();
+
+    const endpoint = req.path.replace(/\/stream$/, '');
+    const caller = this.principalOf(res)?.tokenId ?? '';
+    return this.completedRequests.run(`${caller}:${endpoint}:${key}`, req.body ?? null, perform).catch(error => {
+      throw error instanceof IdempotencyKeyReusedError ? new AgentRequestError(error.message, 422) : error;
+    });
+  }
+
+  /**
+   * Socket.io namespace `/agent`
+   * Clients emit `run` (AgentRequest), `approve` ({ actionId }) or
+   * `reject` ({ actionId, reason }) and receive AgentStreamEvents by type.
+   */
+  private setupSocket(server: Server): void {
+    this.io = new SocketIOServer(server);
+    const namespace = this.io.of('/agent');
+
+    if (this.requireAuth) {
+      // Token from `auth: { token }` in the client handshake, or an Authorization header
+      namespace.use((socket, next) => {
+        const token = typeof socket.handshake.auth?.token === 'string'
+          ? socket.handshake.auth.token
+          : parseBearerToken(socket.handshake.headers.authorization);
+        const principal = authenticate(this.keystore, token);
+        if (!principal) {
+          next(new Error('A valid bearer token is required'));
+          return;
+        }
+        socket.data.principal = principal;
+        next();
+      });
+    }
+
+    namespace.on('connection', socket => {
+      const principal = socket.data.principal as Principal | undefined;
+      const emit: AgentEventHandler = event => {
+        socket.emit(event.type, event);
+      };
+      const handle = (work: Promise<AgentResponse>): void => {
+        work
+          .then(response => emit({ type: 'done', response }))
+          .catch(error => emit({ type: 'error', error: this.errorMessage(error) }));
+      };
+
+      // Each message is a request of its own
+      const traced = (work: () => Promise<AgentResponse>): void => {
+        withLogContext({ requestId: randomUUID() }, () => handle(work()));
+      };
+
+      socket.on('run', (request: AgentRequest) => {
+        traced(() => this.run(request, emit, principal));
+      });
+      socket.on('approve', ({ actionId }: { actionId: string }) => {
+        traced(() => this.approveAction(actionId, emit, principal));
+      });
+      socket.on('reject', ({ actionId, reason }: { actionId: string; reason?: string }) => {
+        traced(() => this.rejectAction(actionId, reason, emit, principal));
+      });
+    });
+  }
+
+  /**
+   * Run a request through the agent
+   * Pass `onEvent` to receive text deltas and tool progress as they happen.
+   */
+  async run(
+    request: AgentRequest,
+    onEvent?: AgentEventHandler,
+    principal?: Principal
+  ): Promise<AgentResponse> {
+    return this.startRun(request, onEvent, principal, false);
+  }
+
+  private async startRun(
+    request: AgentRequest,
+    emit: AgentEventHandler | undefined,
+    principal: Principal | undefined,
+    autoApprove: boolean
+  ): Promise<AgentResponse> {
+    const { userInput, context = {}, tools = [], sessionId } = request ?? {};
+
+    if (!userInput) {
+      throw new AgentRequestError('userInput is required');
+    }
+    checkTimeZone(context);
+
+    const session = await this.openSession(sessionId, userInput, context, principal);
+    return this.processUserInput(userInput, context, tools, session, emit, principal, autoApprove);
+  }
+
+  /**
+   * Run a pending action and resume the agent
+   */
+  async approveAction(
+    actionId: string,
+    onEvent?: AgentEventHandler,
+    principal?: Principal
+  ): Promise<AgentResponse> {
+    return this.resolveAction(actionId, true, undefined, onEvent, principal);
+  }
+
+  /**
+   * Skip a pending action and let the agent respond
+   */
+  async rejectAction(
+    actionId: string,
+    reason?: string,
+    onEvent?: AgentEventHandler,
+    principal?: Principal
+  ): Promise<AgentResponse> {
+    return this.resolveAction(actionId, false, reason, onEvent, principal);
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : 'Internal server error';
+  }
+
+  private sendError(res: Response, error: unknown): void {
+    const status = error instanceof AgentRequestError
+      ? error.status
+      : error instanceof InvalidScheduleError || error instanceof ConnectionError ||
+        error instanceof InvalidDirectoryEntryError
+        ? 400
+        // The OAuth provider refused or failed the token request
+        : error instanceof OAuthError ? 502 : 500;
+    if (status >= 500) {
+      log.error('Agent error', { error });
+    }
+    res.status(status).json({ error: this.errorMessage(error) });
+  }
+
+  /**
+   * Stream agent events to the client as Server-Sent Events,
+   * finishing with `done` (or `error`)
+   */
+  private streamEvents(
+    res: Response,
+    work: (emit: AgentEventHandler) => Promise<AgentResponse>
+  ): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const emit = (event: AgentStreamEvent): void => {
+      if (!res.writableEnded) {
+        res.write(formatSseEvent(event.type, event));
+      }
+    };
+
+    work(emit)
+      .then(response => emit({ type: 'done', response }))
+      .catch(error => {
+        if (!(error instanceof AgentRequestError)) {
+          log.error('Agent error', { error });
+        }
+        emit({ type: 'error', error: this.errorMessage(error) });
+      })
+      .finally(() => res.end());
+  }
+
+  /**
+   * Process user input through the agent
+   * 1. Create system prompt and expose MCP tools as functions
+   * 2. Ask the model for the next step
+   * 3. Execute any tool calls via MCP and feed results back
+   * 4. Repeat until the model answers (or the iteration cap is hit)
+   */
+  private async processUserInput(
+    userInput: string,
+    context: Record<string, unknown>,
+    requestedTools: string[],
+    session: Session,
+    emit?: AgentEventHandler,
+    principal?: Principal,
+    autoApprove: boolean = false
+  ): Promise<AgentResponse> {
+    // Get the MCP and built-in tools this caller may use
+    const availableTools = this.agentTools();
+    const forbidden = availableTools.filter(t => requestedTools.includes(t.name) && !this.mayUseTool(principal, t));
+    if (forbidden.length > 0) {
+      throw new AgentRequestError(
+        `Token is not allowed to use: ${forbidden.map(t => t.name).join(', ')}`,
+        403
+      );
+    }
+
+    const permitted = availableTools.filter(t => this.mayUseTool(principal, t));
+    const toolsToUse = requestedTools.length > 0
+      ? permitted.filter(t => requestedTools.includes(t.name))
+      : permitted;
+
+    const { definitions, functionToTool } = this.createToolDefinitions(toolsToUse);
+
+    await this.compactSession(session);
+    session.context = { ...session.context, ...context };
+
+    const state: AgentRunState = {
+      runId: randomUUID(),
+      session,
+      priorToolCallCount: session.toolCalls.length,
+      context,
+      userInput,
+      messages: [
+        { role: 'system', content: this.createSystemPrompt(toolsToUse, session.context, session.summary) },
+        ...repairDanglingToolCalls(session.messages),
+        { role: 'user', content: userInput },
+      ],
+      definitions,
+      functionToTool,
+      toolCalls: [],
+      queue: [],
+      iterations: 0,
+      emit,
+      principal,
+      autoApprove,
+    };
+
+    // A workflow's trigger phrase runs it directly, through the usual confirmation
+    const triggered = requestedTools.length === 0 ? this.workflows.match(userInput) : undefined;
+    const tool = triggered && toolsToUse.find(t => t.name === `${WORKFLOW_TOOL_PREFIX}${triggered.workflow.name}`);
+    if (triggered && tool) {
+      const call = this.syntheticToolCall(functionToTool, tool.name, triggered.inputs);
+      state.messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      state.queue = [call];
+    }
+
+    return this.runAgentLoop(state);
+  }
+
+  /**
+   * Drive the tool loop until a final answer, the iteration cap,
+   * or a side-effecting call that needs the user's approval
+   */
+  private async runAgentLoop(state: AgentRunState): Promise<AgentResponse> {
+    while (true) {
+      while (state.queue.length > 0) {
+        const call = state.queue[0];
+        const toolName = state.functionToTool.get(call.function.name) ?? call.function.name;
+        const tool = this.findTool(toolName);
+        let args = this.parseToolArguments(call.function.arguments);
+
+        // Spoken times and names are resolved before confirmation, so the user approves concrete ones
+        if (args && tool) {
+          try {
+            args = resolveTimeArguments(tool, args, { timeZone: this.timeZoneFor(state.session.context) });
+            args = resolveDirectoryArguments(tool, args, this.directory);
+          } catch (error) {
+            if (!(error instanceof TimeExpressionError || error instanceof DirectoryLookupError)) throw error;
+            state.queue.shift();
+            state.emit?.({ type: 'tool_call_started', id: call.id, name: toolName, arguments: args });
+            this.recordToolCall(state, call.id, toolName, args, {
+              success: false,
+              error: error instanceof AmbiguousTimeError || error instanceof AmbiguousEntryError
+                ? `${error.message} Ask the user this and call the tool again with their answer.`
+                : error instanceof TimeExpressionError
+                  ? `${error.message}. Ask the user when they mean instead of guessing.`
+                  : `${error.message}. Ask the user for the exact one instead of guessing.`,
+            });
+            continue;
+          }
+        }
+
+        if (args && tool && this.requireConfirmation && !state.autoApprove && !isReadOnlyTool(tool)) {
+          const action = this.pendingActions.create(
+            toolName,
+            args,
+            this.summarizeToolCall(toolName, args),
+            state
+          );
+          state.emit?.({ type: 'confirmation_required', pendingAction: action });
+          return this.buildResponse(
+            state,
+            `I'm about to ${action.summary}. Should I go ahead?`,
+            'confirmation_required',
+            action
+          );
+        }
+
+        state.queue.shift();
+        await this.executeToolCall(state, call.id, toolName, args);
+      }
+
+      if (state.iterations >= this.maxIterations) {
+        return this.buildResponse(
+          state,
+          `I stopped after ${this.maxIterations} steps without finishing the request.`,
+          'max_iterations'
+        );
+      }
+      state.iterations++;
+
+      const message = await this.requestCompletion(state);
+      if (!message) {
+        throw new Error('Model returned no choices');
+      }
+      state.messages.push(message);
+
+      state.queue = (message.tool_calls ?? []).filter(
+        (call): call is ChatCompletionMessageFunctionToolCall => call.type === 'function'
+      );
+      if (state.queue.length === 0) {
+        return this.buildResponse(state, message.content || 'No response generated', 'completed');
+      }
+    }
+  }
+
+  /**
+   * Ask the model for the next step, streaming text deltas when the caller listens
+   */
+  private async requestCompletion(state: AgentRunState): Promise<ChatCompletionMessage | undefined> {
+    return this.createCompletion({
+      model: this.model,
+      messages: state.messages,
+      tools: state.definitions.length > 0 ? state.definitions : undefined,
+    }, state.emit);
+  }
+
+  /**
+   * Call the model, streaming text deltas when `emit` is set. With a
+   * cassette the call is recorded or replayed; system prompts are left out
+   * of the match key because they embed the request context and timestamp.
+   */
+  private async createCompletion(
+    params: { model: string; messages: ChatCompletionMessageParam[]; tools?: ChatCompletionFunctionTool[] },
+    emit?: AgentEventHandler
+  ): Promise<ChatCompletionMessage | undefined> {
+    const perform = async (): Promise<ChatCompletionMessage | undefined> => {
+      if (!emit) {
+        const completion = await this.openai.chat.completions.create(params);
+        return completion.choices[0]?.message;
+      }
+
+      const stream = this.openai.chat.completions.stream(params);
+      stream.on('content.delta', ({ delta }) => {
+        emit({ type: 'text_delta', delta });
+      });
+      const completion = await stream.finalChatCompletion();
+      return completion.choices[0]?.message;
+    };
+
+    const complete = async (): Promise<ChatCompletionMessage | undefined> => {
+      if (!this.cassette) return perform();
+
+      const message = await this.cassette.intercept('completion', {
+        model: params.model,
+        messages: params.messages.filter(message => message.role !== 'system'),
+        tools: params.tools?.map(tool => tool.function.name),
+      }, perform);
+      if (this.cassette.mode === 'replay' && emit && message?.content) {
+        emit({ type: 'text_delta', delta: message.content });
+      }
+      return message;
+    };
+
+    const span = startSpan('reason', { model: params.model });
+    try {
+      const message = await complete();
+      span.end('ok', { toolCalls: message?.tool_calls?.length ?? 0 });
+      return message;
+    } catch (error) {
+      span.end('error', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve or reject a pending action, then resume the paused run
+   */
+  private async resolveAction(
+    actionId: string,
+    approved: boolean,
+    reason: string | undefined,
+    emit: AgentEventHandler | undefined,
+    principal?: Principal
+  ): Promise<AgentResponse> {
+    // Only the run's own caller may resolve it, and only if allowed to run the tool themselves
+    const pending = this.accessibleAction(principal, actionId);
+    if (!pending) {
+      throw new AgentRequestError('Action not found or expired', 404);
+    }
+    const tool = this.findTool(pending.toolName);
+    if (approved && tool && !this.mayUseTool(principal, tool)) {
+      throw new AgentRequestError(`Token is not allowed to use '${pending.toolName}'`, 403);
+    }
+
+    const entry = this.pendingActions.take(actionId);
+    if (!entry) {
+      throw new AgentRequestError('Action not found or expired', 404);
+    }
 
-  constructor(apiKey: string, port: number = 3000, host: string = 'localhost') {
-    this.app = express();
-    this.openai = new OpenAI({ apiKey });
-    this.mcpClient = new MCPClient();
-    this.port = port;
-    this.host = host;
+    const { action, state } = entry;
+    state.emit = emit;
+    const call = state.queue.shift();
+    if (!call) {
+      throw new Error(`Pending action ${actionId} has no queued tool call`);
+    }
 
-    this.setupMiddleware();
-    this.setupRoutes();
+    if (approved) {
+      await this.executeToolCall(state, call.id, action.toolName, action.arguments);
+    } else {
+      this.recordToolCall(state, call.id, action.toolName, action.arguments, {
+        success: false,
+        error: `The user declined this action${reason ? `: ${reason}` : ''}. Do not retry it.`,
+      });
+    }
+
+    return this.runAgentLoop(state);
   }
 
-  private setupMiddleware(): void {
-    this.app.use(express.json());
-    this.app.use(express.urlencoded({ extended: true }));
+  private async executeToolCall(
+    state: AgentRunState,
+    callId: string,
+    toolName: string,
+    args: Record<string, unknown> | undefined
+  ): Promise<void> {
+    state.emit?.({ type: 'tool_call_started', id: callId, name: toolName, arguments: args ?? {} });
+
+    const tool = this.findTool(toolName);
+    if (tool && !this.mayUseTool(state.principal, tool)) {
+      this.recordToolCall(state, callId, toolName, args ?? {}, {
+        success: false,
+        error: `This caller is not allowed to use '${toolName}'`,
+      });
+      return;
+    }
+
+    const workflow = tool && this.workflowOf(tool);
+    const startedAt = Date.now();
+    const result = !args
+      ? { success: false, error: 'Tool arguments were not valid JSON' }
+      : tool === SCHEDULE_TASK_TOOL
+        ? this.scheduleFromAgent(state, args)
+        : workflow
+          ? await this.runWorkflowCall(state, callId, workflow, args)
+          : await this.mcpClient.executeTool(toolName, args, {
+              // Stable across retries and repeated approvals of the same call
+              idempotencyKey: this.toolCallKey(state, callId),
+              userId: typeof state.context.userId === 'string' ? state.context.userId : undefined,
+            });
+
+    // Workflow steps are audited one by one instead
+    if (!workflow) {
+      await this.auditToolCall(state, toolName, args ?? {}, result, Date.now() - startedAt);
+    }
+    this.recordToolCall(state, callId, toolName, args ?? {}, result);
   }
 
-  private setupRoutes(): void {
-    /**
-     * Main agent endpoint for processing user input
-     * POST /agent/run
-     */
-    this.app.post('/agent/run', async (req: Request, res: Response) => {
-      try {
-        const { userInput, context = {}, tools = [] } = req.body as AgentRequest;
+  /**
+   * Idempotency key of one model-proposed call: the run and the model step
+   * that proposed it, since providers number call ids per response
+   */
+  private toolCallKey(state: AgentRunState, callId: string): string {
+    return `${state.runId}:${state.iterations}:${callId}`;
+  }
 
-        if (!userInput) {
-          res.status(400).json({ error: 'userInput is required' });
-          return;
-        }
+  /**
+   * Run a workflow's steps as MCP tool calls on behalf of the run's caller
+   */
+  private async runWorkflowCall(
+    state: AgentRunState,
+    callId: string,
+    workflow: Workflow,
+    args: Record<string, unknown>
+  ): Promise<ToolResult> {
+    const execute: WorkflowToolExecutor = async (toolName, stepArgs, { stepId }) => {
+      const tool = this.mcpClient.getAvailableTools().find(t => t.name === toolName);
+      if (!tool) {
+        return { success: false, error: `Tool '${toolName}' is not available` };
+      }
+      if (!canUseTool(state.principal, tool)) {
+        return { success: false, error: `This caller is not allowed to use '${toolName}'` };
+      }
 
-        const response = await this.processUserInput(userInput, context, tools);
-        res.json(response);
-      } catch (error) {
-        console.error('Agent error:', error);
-        res.status(500).json({
-          error: error instanceof Error ? error.message : 'Internal server error',
-        });
+      const startedAt = Date.now();
+      const result = await this.mcpClient.executeTool(toolName, stepArgs, {
+        idempotencyKey: `${this.toolCallKey(state, callId)}:${stepId}`,
+        userId: typeof state.context.userId === 'string' ? state.context.userId : undefined,
+      });
+      await this.auditToolCall(state, toolName, stepArgs, result, Date.now() - startedAt);
+      return result;
+    };
+
+    try {
+      const run = await runWorkflow(workflow, args, execute, state.emit);
+      return run.status === 'succeeded'
+        ? { success: true, result: run }
+        : { success: false, result: run, error: run.response };
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return { success: false, error: error.message };
       }
-    });
+      throw error;
+    }
+  }
 
-    /**
-     * Health check endpoint
-     */
-    this.app.get('/health', (req: Request, res: Response) => {
-      res.json({ status: 'ok', timestamp: new Date().toISOString() });
-    });
+  /**
+   * Run a workflow by name for the API, recorded in a session like an agent turn
+   */
+  private async runWorkflowRequest(
+    name: string,
+    body: unknown,
+    emit: AgentEventHandler | undefined,
+    res: Response
+  ): Promise<AgentResponse> {
+    const principal = this.principalOf(res);
+    const workflow = this.accessibleWorkflow(res, name);
+    const { inputs = {}, sessionId, context = {} } = (body ?? {}) as {
+      inputs?: Record<string, unknown>;
+      sessionId?: string;
+      context?: Record<string, unknown>;
+    };
+    if (typeof inputs !== 'object' || Array.isArray(inputs)) {
+      throw new AgentRequestError('inputs must be an object');
+    }
+    checkTimeZone(context);
+    try {
+      resolveInputs(workflow, inputs);
+    } catch (error) {
+      if (error instanceof WorkflowError) throw new AgentRequestError(error.message);
+      throw error;
+    }
 
-    /**
-     * List available tools/integrations
-     */
-    this.app.get('/agent/tools', (req: Request, res: Response) => {
-      const availableTools = this.mcpClient.getAvailableTools();
-      res.json({ tools: availableTools });
+    const userInput = `Run workflow ${workflow.name}`;
+    const session = await this.openSession(sessionId, userInput, context, principal);
+    session.context = { ...session.context, ...context };
+
+    const tool = this.toolForWorkflow(workflow);
+    const { definitions, functionToTool } = this.createToolDefinitions([tool]);
+    const call = this.syntheticToolCall(functionToTool, tool.name, inputs);
+    const state: AgentRunState = {
+      runId: randomUUID(),
+      session,
+      priorToolCallCount: session.toolCalls.length,
+      context,
+      userInput,
+      messages: [
+        ...repairDanglingToolCalls(session.messages),
+        { role: 'user', content: userInput },
+        { role: 'assistant', content: null, tool_calls: [call] },
+      ],
+      definitions,
+      functionToTool,
+      toolCalls: [],
+      queue: [],
+      iterations: 0,
+      emit,
+      principal,
+    };
+
+    await this.executeToolCall(state, call.id, tool.name, inputs);
+    const { result } = state.toolCalls[0];
+    const run = result.result as WorkflowRun | undefined;
+    const text = run?.response ?? result.error ?? `Workflow ${workflow.name} failed`;
+    state.messages.push({ role: 'assistant', content: text });
+    emit?.({ type: 'text_delta', delta: text });
+
+    return { ...await this.buildResponse(state, text, 'completed'), workflow: run };
+  }
+
+  /**
+   * Append an executed call to the audit log. A failed write is reported but
+   * does not fail the run, since the action itself has already happened.
+   */
+  private async auditToolCall(
+    state: AgentRunState,
+    toolName: string,
+    args: Record<string, unknown>,
+    result: ToolResult,
+    durationMs: number
+  ): Promise<void> {
+    const { source, user } = state.context;
+    try {
+      await this.auditLog.append({
+        sessionId: state.session.id,
+        source: typeof source === 'string' ? source : undefined,
+        user: typeof user === 'string' ? user : undefined,
+        tool: toolName,
+        arguments: args,
+        success: result.success,
+        result: result.result,
+        error: result.error,
+        durationMs,
+        utterance: state.userInput,
+      });
+    } catch (error) {
+      log.error('Failed to write audit log entry', { error });
+    }
+  }
+
+  /**
+   * The schedule_task tool: replay the instruction later as an agent request
+   * in the caller's name. The user confirmed the instruction when approving
+   * this call, so the scheduled run does not ask again.
+   */
+  private scheduleFromAgent(state: AgentRunState, args: Record<string, unknown>): ToolResult {
+    // Models tend to send the unused timing field as an empty string
+    const text = (value: unknown): string | undefined =>
+      typeof value === 'string' && value.trim() ? value : undefined;
+
+    try {
+      const schedule = this.scheduler.create({
+        name: text(args.name),
+        action: { type: 'agent', request: { userInput: text(args.instruction) ?? '', context: state.context } },
+        runAt: text(args.runAt),
+        cron: text(args.cron),
+        autoApprove: true,
+      }, state.principal);
+      return {
+        success: true,
+        result: { scheduleId: schedule.id, name: schedule.name, nextRunAt: schedule.nextRunAt },
+      };
+    } catch (error) {
+      if (error instanceof InvalidScheduleError) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Carry out a due schedule with its owner's current permissions
+   */
+  private async runSchedule(schedule: Schedule): Promise<ScheduleOutcome> {
+    return withLogContext({ requestId: randomUUID(), scheduleId: schedule.id }, () => this.runScheduleAction(schedule));
+  }
+
+  private async runScheduleAction(schedule: Schedule): Promise<ScheduleOutcome> {
+    const principal = this.scheduleOwner(schedule);
+    const { action } = schedule;
+
+    if (action.type === 'agent') {
+      const response = await this.startRun(
+        { ...action.request, context: { ...action.request.context, source: 'scheduler', scheduleId: schedule.id } },
+        undefined,
+        principal,
+        schedule.autoApprove
+      );
+      const failedCall = response.toolCalls?.find(call => !call.result.success);
+      const error = response.stopReason === 'max_iterations'
+        ? 'Stopped before finishing'
+        : failedCall && `${failedCall.name} failed: ${failedCall.result.error ?? 'unknown error'}`;
+      return {
+        status: response.pendingAction ? 'confirmation_required' : error ? 'failed' : 'succeeded',
+        output: response.response,
+        error: error || undefined,
+        sessionId: response.sessionId,
+        actionId: response.pendingAction?.actionId,
+      };
+    }
+
+    const tool = this.mcpClient.getAvailableTools().find(t => t.name === action.tool);
+    if (!tool) {
+      return { status: 'failed', error: `Tool '${action.tool}' is not available` };
+    }
+    if (!canUseTool(principal, tool)) {
+      return { status: 'failed', error: `The schedule's token is not allowed to use '${action.tool}'` };
+    }
+
+    const startedAt = Date.now();
+    const result = await this.mcpClient.executeTool(tool.name, action.arguments, {
+      idempotencyKey: `schedule:${schedule.id}:${schedule.runCount}`,
     });
+    try {
+      await this.auditLog.append({
+        sessionId: `schedule:${schedule.id}`,
+        source: 'scheduler',
+        user: principal?.name,
+        tool: tool.name,
+        arguments: action.arguments,
+        success: result.success,
+        result: result.result,
+        error: result.error,
+        durationMs: Date.now() - startedAt,
+        utterance: schedule.name,
+      });
+    } catch (error) {
+      log.error('Failed to write audit log entry', { error });
+    }
+
+    return {
+      status: result.success ? 'succeeded' : 'failed',
+      output: typeof result.result === 'string' ? result.result : JSON.stringify(result.result),
+      error: result.error,
+    };
   }
 
   /**
-   * Process user input through the agent
-   * 1. Create system prompt with available tools
-   * 2. Send to Claude for reasoning
-   * 3. Execute any required tool calls via MCP
-   * 4. Return response to user
+   * The schedule owner with the scopes its token has now; a schedule whose
+   * token was revoked stops running
    */
-  private async processUserInput(
-    userInput: string,
+  private scheduleOwner(schedule: Schedule): Principal | undefined {
+    const { owner } = schedule;
+    if (!owner) return undefined;
+
+    const record = this.keystore.list().find(item => item.id === owner.tokenId && !item.revokedAt);
+    if (!record) {
+      throw new Error(`The token that created this schedule (${owner.name}) has been revoked`);
+    }
+    return { tokenId: record.id, name: record.name, scopes: record.scopes };
+  }
+
+  /**
+   * Tokens see and change their own schedules; `*` tokens see all of them
+   */
+  private ownsSchedule(principal: Principal | undefined, schedule: Schedule): boolean {
+    return !principal || principal.scopes.includes('*') || schedule.owner?.tokenId === principal.tokenId;
+  }
+
+  /**
+   * Tokens see and continue their own conversations and pending actions;
+   * `*` tokens see all of them
+   */
+  private ownsConversation(principal: Principal | undefined, owner: Principal | undefined): boolean {
+    return !principal || principal.scopes.includes('*') || owner?.tokenId === principal.tokenId;
+  }
+
+  /**
+   * Resume the caller's session, or start a new one in their name
+   */
+  private async openSession(
+    sessionId: string | undefined,
+    title: string,
     context: Record<string, unknown>,
-    requestedTools: string[]
-  ): Promise<AgentResponse> {
-    // Get available MCP tools
-    const availableTools = this.mcpClient.getAvailableTools();
-    const toolsToUse = requestedTools.length > 0
-      ? availableTools.filter(t => requestedTools.includes(t.name))
-      : availableTools;
+    principal: Principal | undefined
+  ): Promise<Session> {
+    if (!sessionId) {
+      return this.sessions.create(title, context, principal);
+    }
+    const session = await this.sessions.get(sessionId);
+    if (!session || !this.ownsConversation(principal, session.owner)) {
+      throw new AgentRequestError(`Session '${sessionId}' not found`, 404);
+    }
+    return session;
+  }
 
-    // Create system prompt with tool descriptions
-    const systemPrompt = this.createSystemPrompt(toolsToUse, context);
+  private accessibleAction(principal: Principal | undefined, actionId: string): PendingAction | undefined {
+    const entry = this.pendingActions.peek(actionId);
+    return entry && this.ownsConversation(principal, entry.state.principal) ? entry.action : undefined;
+  }
 
-    // Create messages for Claude
-    const messages = [
-      {
-        role: 'user' as const,
-        content: userInput,
-      },
-    ];
+  private accessibleSchedule(res: Response, scheduleId: string): Schedule {
+    const schedule = this.scheduler.get(scheduleId);
+    if (!schedule || !this.ownsSchedule(this.principalOf(res), schedule)) {
+      throw new AgentRequestError('Schedule not found', 404);
+    }
+    return schedule;
+  }
 
-    // For MVP, use a simple text completion approach
-    // In production, this would use Claude with proper tool use
-    let finalResponse = `Processing request: "${userInput}"`;
-    const toolsUsed: string[] = [];
-
-    // Simple heuristic tool detection
-    if (userInput.toLowerCase().includes('email')) {
-      toolsUsed.push('send_email');
-      finalResponse = `I'll help you send an email. Based on your request: "${userInput}", I'll execute the send_email tool.`;
-    } else if (userInput.toLowerCase().includes('calendar') || userInput.toLowerCase().includes('meeting')) {
-      toolsUsed.push('create_calendar_event');
-      finalResponse = `I'll help you create a calendar event. Based on your request: "${userInput}", I'll execute the create_calendar_event tool.`;
-    } else if (userInput.toLowerCase().includes('slack')) {
-      toolsUsed.push('send_slack_message');
-      finalResponse = `I'll help you send a Slack message. Based on your request: "${userInput}", I'll execute the send_slack_message tool.`;
-    } else if (userInput.toLowerCase().includes('github')) {
-      toolsUsed.push('create_github_issue');
-      finalResponse = `I'll help you create a GitHub issue. Based on your request: "${userInput}", I'll execute the create_github_issue tool.`;
-    } else if (userInput.toLowerCase().includes('notion')) {
-      toolsUsed.push('create_notion_page');
-      finalResponse = `I'll help you create a Notion page. Based on your request: "${userInput}", I'll execute the create_notion_page tool.`;
-    } else {
-      finalResponse = `I understood your request: "${userInput}". How can I help you with that?`;
+  /**
+   * A tool action must name a known tool the caller may use, with valid arguments
+   */
+  private checkScheduleAction(action: unknown, principal?: Principal): void {
+    const candidate = action as { type?: unknown; tool?: unknown; arguments?: unknown } | undefined;
+    if (candidate?.type !== 'tool' || typeof candidate.tool !== 'string') return;
+
+    const tool = this.mcpClient.getAvailableTools().find(t => t.name === candidate.tool);
+    if (!tool) {
+      throw new AgentRequestError(`Unknown tool '${candidate.tool}'`);
+    }
+    if (!canUseTool(principal, tool)) {
+      throw new AgentRequestError(`Token is not allowed to use '${tool.name}'`, 403);
     }
+    const args = candidate.arguments ?? {};
+    if (typeof args === 'object' && !Array.isArray(args)) {
+      const validation = validateAgainstSchema(args as Record<string, unknown>, tool.inputSchema);
+      if (!validation.valid) {
+        throw new AgentRequestError(
+          `Invalid arguments for ${tool.name}: ${validation.errors.map(e => `${e.path || '(arguments)'}: ${e.message}`).join('; ')}`
+        );
+      }
+    }
+  }
+
+  private integrationParam(integration: string): string {
+    if (!this.mcpClient.connections.names().includes(integration)) {
+      throw new AgentRequestError(`Unknown integration '${integration}'`, 404);
+    }
+    return integration;
+  }
+
+  private directoryKindParam(kind: unknown): DirectoryKind | undefined {
+    if (kind === undefined) return undefined;
+    if (kind !== 'contact' && kind !== 'channel' && kind !== 'repo') {
+      throw new AgentRequestError('kind must be contact, channel or repo');
+    }
+    return kind;
+  }
+
+  /**
+   * Refresh discovered directory entries by calling the configured list tools
+   */
+  private syncDirectory(): Promise<DirectorySyncResult[]> {
+    return this.directory.sync(this.directoryConfig?.discovery ?? [], async (toolName, args) => {
+      const result = await this.mcpClient.executeTool(toolName, args);
+      if (!result.success) {
+        throw new Error(result.error ?? `${toolName} failed`);
+      }
+      return result.result;
+    });
+  }
+
+  /**
+   * Sync now and then every `intervalMs`; failures are logged and retried next time
+   */
+  private startDirectorySync(intervalMs: number): void {
+    const sync = async (): Promise<void> => {
+      try {
+        for (const result of await this.syncDirectory()) {
+          if (result.error) {
+            log.warn('Directory discovery failed', { tool: result.tool, error: result.error });
+          }
+        }
+      } catch (error) {
+        log.warn('Directory discovery failed', { error });
+      }
+    };
+    void sync();
+    this.directorySyncTimer = setInterval(() => void sync(), intervalMs);
+    this.directorySyncTimer.unref();
+  }
+
+  private requireScope(res: Response, scope: string): Principal | undefined {
+    const principal = this.principalOf(res);
+    if (!hasScope(principal, scope)) {
+      throw new AgentRequestError(`Token lacks the ${scope} scope`, 403);
+    }
+    return principal;
+  }
+
+  private parseAuditQuery(query: Record<string, unknown>): AuditQuery {
+    const text = (key: string): string | undefined =>
+      typeof query[key] === 'string' && query[key] ? query[key] as string : undefined;
+
+    const time = (key: string): Date | undefined => {
+      const value = text(key);
+      if (value === undefined) return undefined;
+      const date = parseTimeBound(value);
+      if (!date) {
+        throw new AgentRequestError(`Invalid ${key}: expected an ISO date/time or a duration like 24h`);
+      }
+      return date;
+    };
+
+    const success = text('success');
+    if (success !== undefined && success !== 'true' && success !== 'false') {
+      throw new AgentRequestError('Invalid success: expected true or false');
+    }
+
+    const limit = text('limit');
+    if (limit !== undefined && !/^\d+$/.test(limit)) {
+      throw new AgentRequestError('Invalid limit: expected a positive integer');
+    }
+
+    return {
+      tool: text('tool'),
+      sessionId: text('session'),
+      success: success === undefined ? undefined : success === 'true',
+      since: time('since'),
+      until: time('until'),
+      limit: limit === undefined ? undefined : parseInt(limit),
+    };
+  }
+
+  private recordToolCall(
+    state: AgentRunState,
+    callId: string,
+    toolName: string,
+    args: Record<string, unknown>,
+    result: ToolResult
+  ): void {
+    state.toolCalls.push({ id: callId, name: toolName, arguments: args, result });
+    state.emit?.({ type: 'tool_result', id: callId, name: toolName, result });
+    state.messages.push({
+      role: 'tool',
+      tool_call_id: callId,
+      content: JSON.stringify(result),
+    });
+  }
 
-    // Execute tools if any were identified
-    for (const toolName of toolsUsed) {
-      const toolResult = await this.mcpClient.executeTool(toolName, { request: userInput });
-      console.log(`Executed tool ${toolName}:`, toolResult);
+  /**
+   * Persist the conversation so far and build the response
+   */
+  private async buildResponse(
+    state: AgentRunState,
+    response: string,
+    stopReason: NonNullable<AgentResponse['stopReason']>,
+    pendingAction?: PendingAction
+  ): Promise<AgentResponse> {
+    const { session } = state;
+    session.messages = state.messages.filter(message => message.role !== 'system');
+    if (stopReason !== 'completed') {
+      // Keep the spoken reply so the model knows what the user is answering
+      session.messages.push({ role: 'assistant', content: response });
     }
+    session.toolCalls = [
+      ...session.toolCalls.slice(0, state.priorToolCallCount),
+      ...state.toolCalls,
+    ];
+    await this.sessions.save(session);
+    agentRuns.inc({ stop_reason: stopReason });
 
     return {
-      response: finalResponse || 'No response generated',
+      response,
+      sessionId: session.id,
       context: {
-        ...context,
+        ...state.context,
         timestamp: new Date().toISOString(),
       },
-      toolsUsed,
+      toolsUsed: [...new Set(state.toolCalls.map(call => call.name))],
+      toolCalls: state.toolCalls,
+      stopReason,
+      pendingAction,
+      requestId: logContext().requestId as string | undefined,
+    };
+  }
+
+  /**
+   * Keep long histories within budget: older turns are folded into the
+   * session summary (or simply dropped if summarization fails)
+   */
+  private async compactSession(session: Session): Promise<void> {
+    const { older, recent } = splitHistory(session.messages, this.maxHistoryMessages);
+    if (older.length === 0) return;
+
+    const transcript = older
+      .map(message => {
+        const content = typeof message.content === 'string'
+          ? message.content
+          : JSON.stringify(message.content ?? '');
+        return `${message.role}: ${content}`;
+      })
+      .join('\n');
+
+    try {
+      const message = await this.createCompletion({
+        model: this.model,
+        messages: [
+          {
+            role: 'system',
+            content: 'Summarize this conversation between a user and a voice assistant in a few sentences. ' +
+              'Keep names, email addresses, IDs and any actions that were taken.',
+          },
+          {
+            role: 'user',
+            content: session.summary
+              ? `Earlier summary:\n${session.summary}\n\nConversation:\n${transcript}`
+              : transcript,
+          },
+        ],
+      });
+      session.summary = message?.content ?? session.summary;
+    } catch (error) {
+      if (error instanceof CassetteMismatchError) throw error;
+      log.warn('Failed to summarize session history; truncating instead', { error });
+    }
+
+    session.messages = recent;
+  }
+
+  /**
+   * MCP tools plus the built-in schedule_task and one tool per workflow,
+   * unless a server already provides a tool by that name
+   */
+  private agentTools(): MCPTool[] {
+    const tools = this.mcpClient.getAvailableTools();
+    const names = new Set(tools.map(tool => tool.name));
+    const builtIn = [SCHEDULE_TASK_TOOL, ...this.workflows.list().map(workflow => this.toolForWorkflow(workflow))];
+    return [...tools, ...builtIn.filter(tool => !names.has(tool.name))];
+  }
+
+  private findTool(name: string): MCPTool | undefined {
+    return this.agentTools().find(tool => tool.name === name);
+  }
+
+  /**
+   * Built-in tools are governed by scopes, MCP tools by `tools:` patterns. A
+   * workflow needs every step's tool; unknown ones fail when the step runs.
+   */
+  private mayUseTool(principal: Principal | undefined, tool: MCPTool): boolean {
+    if (tool === SCHEDULE_TASK_TOOL) return hasScope(principal, 'schedules:write');
+
+    const workflow = this.workflowOf(tool);
+    if (!workflow) return canUseTool(principal, tool);
+    const mcpTools = this.mcpClient.getAvailableTools();
+    return workflow.steps.every(step => {
+      const stepTool = mcpTools.find(t => t.name === step.tool);
+      return !stepTool || canUseTool(principal, stepTool);
+    });
+  }
+
+  /**
+   * A workflow is read-only, and so runs without confirmation, only if every step is
+   */
+  private toolForWorkflow(workflow: Workflow): MCPTool {
+    const mcpTools = this.mcpClient.getAvailableTools();
+    const readOnly = workflow.steps.every(step => {
+      const stepTool = mcpTools.find(t => t.name === step.tool);
+      return stepTool !== undefined && isReadOnlyTool(stepTool);
+    });
+    return workflowTool(workflow, readOnly);
+  }
+
+  /**
+   * The workflow behind a built-in workflow tool
+   */
+  private workflowOf(tool: MCPTool): Workflow | undefined {
+    if (!tool.name.startsWith(WORKFLOW_TOOL_PREFIX)) return undefined;
+    if (this.mcpClient.getAvailableTools().some(t => t.name === tool.name)) return undefined;
+    return this.workflows.get(tool.name.slice(WORKFLOW_TOOL_PREFIX.length));
+  }
+
+  private accessibleWorkflow(res: Response, name: string): Workflow {
+    const workflow = this.workflows.get(name);
+    if (!workflow) {
+      throw new AgentRequestError(`Workflow '${name}' not found`, 404);
+    }
+    if (!this.mayUseTool(this.principalOf(res), this.toolForWorkflow(workflow))) {
+      throw new AgentRequestError(`Token is not allowed to use every tool in workflow '${name}'`, 403);
+    }
+    return workflow;
+  }
+
+  /**
+   * A tool call the model did not make, for runs started without asking it
+   */
+  private syntheticToolCall(
+    functionToTool: Map<string, string>,
+    toolName: string,
+    args: Record<string, unknown>
+  ): ChatCompletionMessageFunctionToolCall {
+    const functionName = [...functionToTool].find(([, name]) => name === toolName)?.[0] ?? toolName;
+    return {
+      id: `call_${randomUUID().replace(/-/g, '').slice(0, 24)}`,
+      type: 'function',
+      function: { name: functionName, arguments: JSON.stringify(args) },
     };
   }
 
+  /**
+   * Describe a tool call in a sentence that works when spoken
+   */
+  private summarizeToolCall(toolName: string, args: Record<string, unknown>): string {
+    const tool = this.findTool(toolName);
+    const label = tool?.title ?? toolName.replace(/_/g, ' ');
+    const details = Object.entries(args)
+      .map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join(', ');
+    return details ? `${label} (${details})` : label;
+  }
+
+  /**
+   * Expose MCP tools as chat completion functions
+   * Function names are restricted to [a-zA-Z0-9_-]{1,64}, so tool names are
+   * sanitized and mapped back when the model calls them.
+   */
+  private createToolDefinitions(tools: MCPTool[]): {
+    definitions: ChatCompletionFunctionTool[];
+    functionToTool: Map<string, string>;
+  } {
+    const functionToTool = new Map<string, string>();
+    const definitions = tools.map((tool): ChatCompletionFunctionTool => {
+      let functionName = tool.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+      for (let suffix = 2; functionToTool.has(functionName); suffix++) {
+        functionName = `${functionName.slice(0, 60)}_${suffix}`;
+      }
+      functionToTool.set(functionName, tool.name);
+
+      return {
+        type: 'function',
+        function: {
+          name: functionName,
+          description: tool.description,
+          parameters: {
+            ...tool.inputSchema,
+            type: 'object',
+            properties: tool.inputSchema.properties ?? {},
+          },
+        },
+      };
+    });
+
+    return { definitions, functionToTool };
+  }
+
+  private parseToolArguments(raw: string): Record<string, unknown> | undefined {
+    try {
+      const parsed = JSON.parse(raw || '{}') as unknown;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as Record<string, unknown>)
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private createSystemPrompt(
     tools: Array<{ name: string; description: string }>,
-    context: Record<string, unknown>
+    context: Record<string, unknown>,
+    summary?: string
   ): string {
+    const timeZone = this.timeZoneFor(context);
     let prompt = `You are a helpful voice assistant that can perform various actions.
 
 Context:
 ${JSON.stringify(context, null, 2)}
 
+Current time: ${new Date().toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'short' })} (${timeZone})
+
 Available Tools:
 ${tools.map(t => `- ${t.name}: ${t.description}`).join('\n')}
 
@@ -164,23 +2009,89 @@ Instructions:
 1. Listen carefully to what the user is asking
 2. Use the available tools to help complete their request
 3. Provide clear, concise responses
-4. Always confirm actions before executing them if they have side effects
+4. Side-effecting tools are confirmed with the user automatically; call them directly with complete arguments
+5. If a required tool argument is missing, ask the user for it instead of guessing
+6. Your replies are spoken aloud, so avoid markdown and keep them short
+7. Date-time arguments can be passed in the user's own words (e.g. "tomorrow at 10am for two hours"); they are resolved in the user's time zone
+8. Pass people, Slack channels and repositories as the user named them (e.g. "Alice", "engineering"); they are looked up in the user's directory
+`;
+    const disconnected = this.disconnectedIntegrations();
+    if (disconnected.length > 0) {
+      prompt += `
+Not connected, so their tools are unavailable until the user runs "voice-cli connect <name>": ${disconnected.join(', ')}
 `;
+    }
+    if (summary) {
+      prompt += `
+Summary of the earlier conversation:
+${summary}
+`;
+    }
     return prompt;
   }
 
+  /**
+   * The user's time zone: `context.timezone` from this or an earlier request
+   * in the session, else the server's
+   */
+  private timeZoneFor(context: Record<string, unknown>): string {
+    return typeof context.timezone === 'string' ? context.timezone : this.timeZone;
+  }
+
+  private disconnectedIntegrations(): string[] {
+    try {
+      return this.mcpClient.connections.list()
+        .filter(connection => connection.status !== 'connected')
+        .map(connection => connection.integration);
+    } catch (error) {
+      if (error instanceof ConnectionError) return this.mcpClient.connections.names();
+      throw error;
+    }
+  }
+
   /**
    * Start the agent server
    */
   async start(): Promise<void> {
+    if (!this.requireAuth && !isLoopbackHost(this.host)) {
+      throw new Error(
+        `Refusing to listen on ${this.host} without authentication; enable requireAuth (AGENT_REQUIRE_AUTH=true) or bind to 127.0.0.1`
+      );
+    }
+    if (this.requireAuth && !this.keystore.hasActiveTokens()) {
+      log.warn('Authentication is required but there are no active tokens; create one with `token create <name>`', {
+        keystore: this.keystore.filePath,
+      });
+    }
+
+    try {
+      await this.mcpClient.connect();
+    } catch (error) {
+      // Keep serving without tools; /health reports the MCP state
+      log.error('Failed to start MCP servers', { error });
+    }
+
+    if (this.runSchedules) {
+      this.scheduler.start();
+    }
+    if (this.runSchedules && this.directoryConfig?.discovery?.length) {
+      this.startDirectorySync(syncIntervalMs(this.directoryConfig));
+    }
+
     return new Promise((resolve) => {
-      this.app.listen(this.port, this.host, () => {
-        console.log(`Agent API server running on http://${this.host}:${this.port}`);
-        console.log(`Health check: http://${this.host}:${this.port}/health`);
-        console.log(`Available tools: http://${this.host}:${this.port}/agent/tools`);
-        console.log(`Agent endpoint: POST http://${this.host}:${this.port}/agent/run`);
+      this.server = this.app.listen(this.port, this.host, () => {
+        const url = `http://${this.host}:${this.port}`;
+        log.info('Agent API server running', {
+          url,
+          health: `${url}/health`,
+          tools: `${url}/agent/tools`,
+          run: `POST ${url}/agent/run`,
+          stream: `POST ${url}/agent/run/stream (socket.io namespace /agent)`,
+          metrics: `${url}/metrics`,
+        });
         resolve();
       });
+      this.setupSocket(this.server);
     });
   }
 
@@ -188,7 +2099,21 @@ Instructions:
    * Stop the agent server
    */
   async stop(): Promise<void> {
-    // Implementation for graceful shutdown
+    clearInterval(this.directorySyncTimer);
+    this.directorySyncTimer = undefined;
+    await this.scheduler.stop();
+    await this.mcpClient.disconnect();
+
+    this.io?.disconnectSockets(true);
+    this.io = undefined;
+
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+    });
   }
 }
 
@@ -0,0 +1,164 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+
+/**
+ * One executed tool call, as written to the audit log
+ */
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  /** `context.source` of the request, e.g. voice-cli */
+  source?: string;
+  /** `context.user` of the request, when the caller identified one */
+  user?: string;
+  tool: string;
+  /** Arguments with secrets redacted */
+  arguments: Record<string, unknown>;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+  /** The user input that led to this call */
+  utterance?: string;
+}
+
+export interface AuditQuery {
+  tool?: string;
+  sessionId?: string;
+  success?: boolean;
+  since?: Date;
+  until?: Date;
+  /** Maximum entries to return, newest first (default: 100) */
+  limit?: number;
+}
+
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY = /password|passphrase|secret|token|api[-_]?key|authorization|credential|private[-_]?key|cookie|^(pin|otp|cvv|ssn)$/i;
+const MAX_STRING_LENGTH = 2000;
+
+export function defaultAuditLogPath(): string {
+  return process.env.RUBE_AUDIT_LOG || path.join(os.homedir(), '.rube', 'audit.jsonl');
+}
+
+/**
+ * Replace values under sensitive-looking keys and cap very long strings
+ */
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... [${value.length - MAX_STRING_LENGTH} more characters]`
+      : value;
+  }
+  if (!value || typeof value !== 'object' || depth > 10) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEY.test(key) && item !== null && item !== undefined && item !== '' ? REDACTED : redact(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * Parse a query time bound: an ISO date/time, or a duration ago such as
+ * `30m`, `24h` or `7d`. Returns undefined when the value is not understood.
+ */
+export function parseTimeBound(value: string, now: Date = new Date()): Date | undefined {
+  const relative = /^(\d+)\s*(s|m|h|d|w)$/i.exec(value.trim());
+  if (relative) {
+    const units: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+    const seconds = parseInt(relative[1]) * units[relative[2].toLowerCase()];
+    return new Date(now.getTime() - seconds * 1000);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Append-only JSONL log of executed tool calls
+ * Entries are never rewritten; rotate or archive the file externally.
+ */
+export class AuditLog {
+  readonly filePath: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = defaultAuditLogPath()) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Write an entry. Writes are serialized so concurrent runs never interleave lines.
+   */
+  append(entry: Omit<AuditEntry, 'id' | 'timestamp'> & { timestamp?: string }): Promise<AuditEntry> {
+    const record: AuditEntry = {
+      id: randomUUID(),
+      ...entry,
+      timestamp: entry.timestamp ?? new Date().toISOString(),
+      arguments: redact(entry.arguments) as Record<string, unknown>,
+      result: redact(entry.result),
+    };
+
+    const write = this.writes.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, `${JSON.stringify(record)}\n`, { encoding: 'utf-8', mode: 0o600 });
+    });
+    this.writes = write.catch(() => {});
+    return write.then(() => record);
+  }
+
+  /**
+   * Read matching entries, newest first
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = query.limit ?? 100;
+    const matches: AuditEntry[] = [];
+
+    let stream: fs.ReadStream;
+    try {
+      await fs.promises.access(this.filePath);
+      stream = fs.createReadStream(this.filePath, { encoding: 'utf-8' });
+    } catch {
+      return [];
+    }
+
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        // A torn final line from a crash mid-write; skip it
+        continue;
+      }
+      if (matchesQuery(entry, query)) {
+        matches.push(entry);
+      }
+    }
+
+    return matches.reverse().slice(0, limit);
+  }
+}
+
+function matchesQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.tool && entry.tool !== query.tool) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.success !== undefined && entry.success !== query.success) return false;
+
+  const time = new Date(entry.timestamp).getTime();
+  if (query.since && time < query.since.getTime()) return false;
+  if (query.until && time > query.until.getTime()) return false;
+  return true;
+}
+
+export default AuditLog;
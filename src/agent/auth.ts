@@ -0,0 +1,131 @@
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import type { MCPTool } from '../mcp/mcp-client';
+import { isReadOnlyTool } from '../mcp/tool-safety';
+import { matchesGlob } from '../lib/glob';
+import type { TokenKeystore } from './keystore';
+
+/**
+ * The caller of an authenticated request
+ */
+export interface Principal {
+  tokenId: string;
+  name: string;
+  scopes: string[];
+}
+
+/**
+ * Scopes a token may hold:
+ * - `*`                everything
+ * - `tools:<glob>`     invoke tools whose name matches, e.g. `tools:*`, `tools:gmail_*`
+ * - `tools:read-only`  invoke tools classified as read-only
+ * - `audit:read`       read the audit log
+ * - `schedules:read`   list and inspect scheduled jobs
+ * - `schedules:write`  create, change, run and delete scheduled jobs
+ * - `connections:read`  list integration connections
+ * - `connections:write` connect, refresh and disconnect integrations
+ * - `directory:read`    list and search the contacts and channel directory
+ * - `directory:write`   add, import, sync and remove directory entries
+ * - `metrics:read`      scrape the Prometheus metrics
+ * - `limits:read`       read rate limits and quota usage of every user
+ */
+export const DEFAULT_SCOPES = ['tools:*'];
+
+const SCOPE_PATTERN = /^(\*|audit:read|schedules:(read|write)|connections:(read|write)|directory:(read|write)|metrics:read|limits:read|tools:[A-Za-z0-9_.*-]+)$/;
+
+export function isValidScope(scope: string): boolean {
+  return SCOPE_PATTERN.test(scope);
+}
+
+export function hasScope(principal: Principal | undefined, scope: string): boolean {
+  if (!principal) return true;
+  return principal.scopes.includes('*') || principal.scopes.includes(scope);
+}
+
+/**
+ * Whether the principal may invoke a tool; always true when auth is off
+ */
+export function canUseTool(principal: Principal | undefined, tool: MCPTool): boolean {
+  if (!principal) return true;
+
+  return principal.scopes.some(scope => {
+    if (scope === '*') return true;
+    if (!scope.startsWith('tools:')) return false;
+
+    const pattern = scope.slice('tools:'.length);
+    if (pattern === 'read-only') return isReadOnlyTool(tool);
+    return matchesGlob(tool.name, pattern);
+  });
+}
+
+export function isLoopbackHost(host: string): boolean {
+  const normalized = host.replace(/^\[|\]$/g, '').toLowerCase();
+  return normalized === 'localhost' ||
+    normalized === '::1' ||
+    /^127(\.\d{1,3}){3}$/.test(normalized) ||
+    normalized === '::ffff:127.0.0.1';
+}
+
+/**
+ * Extract a bearer token from an Authorization header value
+ */
+export function parseBearerToken(header: string | undefined): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(header?.trim() ?? '');
+  return match?.[1];
+}
+
+/**
+ * Resolve the principal for a presented token, or undefined if it is not valid
+ */
+export function authenticate(keystore: TokenKeystore, token: string | undefined): Principal | undefined {
+  if (!token) return undefined;
+  const record = keystore.verify(token);
+  return record ? { tokenId: record.id, name: record.name, scopes: record.scopes } : undefined;
+}
+
+/**
+ * Require a valid bearer token; the principal is left in `res.locals.principal`
+ */
+export function createAuthMiddleware(keystore: TokenKeystore): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const principal = authenticate(keystore, parseBearerToken(req.headers.authorization));
+    if (!principal) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="rube-agent"');
+      res.status(401).json({ error: 'A valid bearer token is required' });
+      return;
+    }
+    res.locals.principal = principal;
+    next();
+  };
+}
+
+/**
+ * Methods and request headers browser clients of the agent API use; routes
+ * and headers added to the API belong here too, or preflights reject them
+ */
+const CORS_ALLOW_METHODS = ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS'];
+const CORS_ALLOW_HEADERS = ['Authorization', 'Content-Type', 'Idempotency-Key', 'X-Request-Id'];
+/** Response headers browser clients may read */
+const CORS_EXPOSE_HEADERS = ['X-Request-Id'];
+
+/**
+ * Allow cross-origin requests from the listed origins only (`*` for any)
+ */
+export function createCorsMiddleware(origins: string[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (origin && (origins.includes('*') || origins.includes(origin))) {
+      res.setHeader('Access-Control-Allow-Origin', origins.includes('*') ? '*' : origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Headers', CORS_ALLOW_HEADERS.join(', '));
+      res.setHeader('Access-Control-Allow-Methods', CORS_ALLOW_METHODS.join(', '));
+      if (CORS_EXPOSE_HEADERS.length > 0) {
+        res.setHeader('Access-Control-Expose-Headers', CORS_EXPOSE_HEADERS.join(', '));
+      }
+    }
+    if (req.method === 'OPTIONS') {
+      res.status(204).end();
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,133 @@
+import type { MCPTool } from '../mcp/mcp-client';
+import { AmbiguousEntryError, DirectoryLookupError } from './directory';
+import type { Directory, DirectoryKind } from './directory';
+
+/**
+ * Names in tool arguments. Recipients, Slack channels and repositories the
+ * model passes as spoken ("Alice", "engineering", "web app") are looked up
+ * in the directory before the call is confirmed or run, so the user approves
+ * the actual address, channel ID or repo.
+ */
+
+interface PropertySchema {
+  format?: unknown;
+  description?: unknown;
+}
+
+export interface DirectoryParameter {
+  name: string;
+  kind: DirectoryKind;
+}
+
+const CONTACT_NAMES = /^(to|cc|bcc|recipients?|email|emailAddress|email_address)$/i;
+const CHANNEL_NAMES = /^(channel|channelId|channel_id|channelName|channel_name)$/i;
+const REPO_NAMES = /^(repo|repository|repoName|repo_name)$/i;
+/** Slack conversation IDs: C (public), G (private) and D (direct) */
+const SLACK_ID = /^[CGD][A-Z0-9]{8,}$/;
+
+const describes = (schema: PropertySchema, pattern: RegExp): boolean =>
+  typeof schema.description === 'string' && pattern.test(schema.description);
+
+/**
+ * A tool's parameters that hold contacts, channels or repositories
+ */
+export function directoryParameters(tool: MCPTool): DirectoryParameter[] {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, PropertySchema | undefined>;
+  const parameters: DirectoryParameter[] = [];
+  for (const [name, schema] of Object.entries(properties)) {
+    if (!schema) continue;
+    if (schema.format === 'email' || (CONTACT_NAMES.test(name) && describes(schema, /\be-?mail\b/i))) {
+      parameters.push({ name, kind: 'contact' });
+    } else if (CHANNEL_NAMES.test(name) || (/channel/i.test(name) && describes(schema, /\bchannel\b/i))) {
+      parameters.push({ name, kind: 'channel' });
+    } else if (REPO_NAMES.test(name)) {
+      parameters.push({ name, kind: 'repo' });
+    }
+  }
+  return parameters;
+}
+
+/**
+ * "Alice, bob@acme.com" -> each recipient resolved, addresses kept
+ */
+function resolveRecipients(directory: Directory, value: string): string {
+  return value
+    .split(/\s*[,;]\s*/)
+    .filter(Boolean)
+    .map(recipient => (recipient.includes('@') ? recipient : directory.resolve('contact', recipient).value))
+    .join(', ');
+}
+
+function resolveChannel(directory: Directory, value: string): string {
+  return SLACK_ID.test(value) ? value : directory.resolve('channel', value).value;
+}
+
+/**
+ * The repo argument, with `owner` filled in when the tool has one. A repo
+ * named with its owner ("acme/web-app") is split without a lookup; one whose
+ * owner is given but unknown to the directory is left alone.
+ */
+function resolveRepo(
+  directory: Directory,
+  name: string,
+  value: string,
+  args: Record<string, unknown>,
+  hasOwner: boolean
+): Record<string, string> {
+  const owner = typeof args.owner === 'string' ? args.owner.trim() : '';
+  let full: string;
+  if (/^[\w.-]+\/[\w.-]+$/.test(value)) {
+    full = value;
+  } else if (owner && directory.list('repo').some(entry =>
+    entry.value.toLowerCase() === `${owner}/${value}`.toLowerCase()
+  )) {
+    return {};
+  } else {
+    try {
+      full = directory.resolve('repo', value).value;
+    } catch (error) {
+      if (owner && error instanceof DirectoryLookupError && !(error instanceof AmbiguousEntryError)) return {};
+      throw error;
+    }
+  }
+
+  if (!hasOwner) return { [name]: full };
+  const [repoOwner, repo] = full.split('/');
+  return { owner: repoOwner, [name]: repo };
+}
+
+/**
+ * The arguments with directory names replaced by addresses, channel IDs and
+ * repositories. Kinds with no entries in the directory are left as given.
+ *
+ * Throws DirectoryLookupError when a name matches nothing, or
+ * AmbiguousEntryError with a question for the user when it matches several.
+ */
+export function resolveDirectoryArguments(
+  tool: MCPTool,
+  args: Record<string, unknown>,
+  directory: Directory
+): Record<string, unknown> {
+  const parameters = directoryParameters(tool).filter(parameter => directory.has(parameter.kind));
+  if (parameters.length === 0) return args;
+
+  const properties = tool.inputSchema.properties ?? {};
+  const resolved = { ...args };
+  for (const { name, kind } of parameters) {
+    const value = args[name];
+    if (kind === 'contact') {
+      if (typeof value === 'string' && value.trim()) {
+        resolved[name] = resolveRecipients(directory, value);
+      } else if (Array.isArray(value)) {
+        resolved[name] = value.map(item => (typeof item === 'string' ? resolveRecipients(directory, item) : item));
+      }
+    } else if (typeof value !== 'string' || !value.trim()) {
+      continue;
+    } else if (kind === 'channel') {
+      resolved[name] = resolveChannel(directory, value.trim());
+    } else {
+      Object.assign(resolved, resolveRepo(directory, name, value.trim(), args, 'owner' in properties));
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,593 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCsvRecords } from '../lib/csv';
+import { MIN_MATCH_SCORE, matchScore, normalizeName } from '../lib/fuzzy-match';
+import { decodeJsonText, lookupPath } from '../lib/template';
+import { parseVCards } from '../lib/vcard';
+
+/**
+ * Local directory of contacts, Slack channels and GitHub repos, so spoken
+ * names ("email Alice", "post in engineering") become the addresses, channel
+ * IDs and `owner/repo` pairs tools need
+ *
+ * Entries are added by hand, imported from vCard or CSV, or discovered by
+ * calling list tools configured under `directory` in mcp.config.json:
+ *
+ *   "directory": {
+ *     "syncIntervalMinutes": 60,
+ *     "discovery": [
+ *       { "tool": "SLACK_LIST_CHANNELS", "kind": "channel",
+ *         "items": "channels", "name": "name", "value": "id" }
+ *     ]
+ *   }
+ */
+
+export type DirectoryKind = 'contact' | 'channel' | 'repo';
+
+export const DIRECTORY_KINDS: DirectoryKind[] = ['contact', 'channel', 'repo'];
+
+export interface DirectoryEntry {
+  id: string;
+  kind: DirectoryKind;
+  /** Name as it is spoken: "Alice Smith", "engineering", "web app" */
+  name: string;
+  /** Nicknames and other names the entry answers to */
+  aliases: string[];
+  /** What goes into tool arguments: an email address, a Slack channel ID or `owner/repo` */
+  value: string;
+  /** Tells apart one person's addresses, e.g. "work" and "home" */
+  label?: string;
+  source: 'manual' | 'import' | 'discovery';
+  /** Discovery tool that reported the entry */
+  discoveredBy?: string;
+  updatedAt: string;
+}
+
+export interface DirectoryEntryInput {
+  kind: DirectoryKind;
+  name: string;
+  value: string;
+  aliases?: string[];
+  label?: string;
+}
+
+export interface DirectoryMatch {
+  entry: DirectoryEntry;
+  /** 1 for an exact name or alias, lower for prefixes, sound-alikes and misspellings */
+  score: number;
+}
+
+export type DirectoryImportFormat = 'vcard' | 'csv';
+
+export interface DiscoverySource {
+  /** Tool that lists entries, e.g. `SLACK_LIST_CHANNELS` */
+  tool: string;
+  arguments?: Record<string, unknown>;
+  kind: DirectoryKind;
+  /** Path to the list in the tool result (default: the result itself) */
+  items?: string;
+  /** Paths within each item */
+  name: string;
+  value: string;
+  aliases?: string;
+}
+
+export interface DirectoryConfig {
+  discovery?: DiscoverySource[];
+  /** How often a running server repeats discovery (default: 60) */
+  syncIntervalMinutes?: number;
+}
+
+export interface DirectoryChanges {
+  added: number;
+  updated: number;
+}
+
+export interface DirectorySyncResult extends DirectoryChanges {
+  tool: string;
+  /** Entries this tool reported before but no longer does */
+  removed: number;
+  error?: string;
+}
+
+/**
+ * Calls a discovery tool and returns its result, throwing on failure
+ */
+export type DiscoveryExecutor = (tool: string, args: Record<string, unknown>) => Promise<unknown>;
+
+interface DirectoryFile {
+  entries: DirectoryEntry[];
+}
+
+/**
+ * An entry, import or discovery source the directory cannot accept
+ */
+export class InvalidDirectoryEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidDirectoryEntryError';
+  }
+}
+
+/**
+ * Nothing in the directory matches `query`
+ */
+export class DirectoryLookupError extends Error {
+  kind: DirectoryKind;
+  query: string;
+
+  constructor(kind: DirectoryKind, query: string, message: string) {
+    super(message);
+    this.name = 'DirectoryLookupError';
+    this.kind = kind;
+    this.query = query;
+  }
+}
+
+/**
+ * Several entries match `query` about equally well; ask the user `question`
+ */
+export class AmbiguousEntryError extends DirectoryLookupError {
+  question: string;
+  options: DirectoryEntry[];
+
+  constructor(kind: DirectoryKind, query: string, question: string, options: DirectoryEntry[]) {
+    super(kind, query, `"${query}" is ambiguous: ${question}`);
+    this.name = 'AmbiguousEntryError';
+    this.question = question;
+    this.options = options;
+  }
+}
+
+const KIND_NOUNS: Record<DirectoryKind, string> = { contact: 'contact', channel: 'channel', repo: 'repository' };
+
+/** Words a spoken query wraps around the name itself */
+const FILLER_WORDS: Record<DirectoryKind, Set<string>> = {
+  contact: new Set(['email', 'e', 'mail', 'address', 'to']),
+  channel: new Set(['the', 'slack', 'channel', 'chan']),
+  repo: new Set(['the', 'github', 'repo', 'repository']),
+};
+
+/** Matches within this distance of the best one count as equally good */
+const AMBIGUITY_MARGIN = 0.05;
+const MAX_OPTIONS = 5;
+const DEFAULT_SYNC_INTERVAL_MINUTES = 60;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const REPO = /^[\w.-]+\/[\w.-]+$/;
+
+export function defaultDirectoryPath(): string {
+  return process.env.RUBE_DIRECTORY_FILE || path.join(os.homedir(), '.rube', 'directory.json');
+}
+
+export function isDirectoryKind(value: unknown): value is DirectoryKind {
+  return DIRECTORY_KINDS.includes(value as DirectoryKind);
+}
+
+/**
+ * Read the `directory` section of an MCP config file, if any
+ */
+export function loadDirectoryConfig(filePath: string): DirectoryConfig | undefined {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { directory?: DirectoryConfig };
+  if (!raw.directory) return undefined;
+
+  for (const [i, source] of (raw.directory.discovery ?? []).entries()) {
+    for (const key of ['tool', 'name', 'value'] as const) {
+      if (typeof source[key] !== 'string' || !source[key]) {
+        throw new Error(`Directory discovery source ${i + 1} needs "${key}"`);
+      }
+    }
+    if (!isDirectoryKind(source.kind)) {
+      throw new Error(`Directory discovery source ${i + 1} has an unknown kind: ${String(source.kind)}`);
+    }
+  }
+  const interval = raw.directory.syncIntervalMinutes;
+  if (interval !== undefined && !(typeof interval === 'number' && interval > 0)) {
+    throw new Error('directory.syncIntervalMinutes must be a positive number');
+  }
+  return raw.directory;
+}
+
+export function syncIntervalMs(config: DirectoryConfig): number {
+  return (config.syncIntervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+/** Email addresses and repos compare without case; channel IDs as given */
+function valueKey(kind: DirectoryKind, value: string): string {
+  return `${kind}:${kind === 'channel' ? value : value.toLowerCase()}`;
+}
+
+function validateInput(input: DirectoryEntryInput): DirectoryEntryInput {
+  if (!isDirectoryKind(input.kind)) {
+    throw new InvalidDirectoryEntryError(`kind must be one of: ${DIRECTORY_KINDS.join(', ')}`);
+  }
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new InvalidDirectoryEntryError('name is required');
+  }
+  let value = typeof input.value === 'string' ? input.value.trim() : '';
+  if (input.kind === 'channel') value = value.replace(/^#/, '');
+  if (!value) {
+    throw new InvalidDirectoryEntryError('value is required');
+  }
+  if (input.kind === 'contact' && !EMAIL.test(value)) {
+    throw new InvalidDirectoryEntryError(`Not an email address: ${value}`);
+  }
+  if (input.kind === 'repo' && !REPO.test(value)) {
+    throw new InvalidDirectoryEntryError(`Repository must be owner/name: ${value}`);
+  }
+  if (input.aliases !== undefined && !(Array.isArray(input.aliases) && input.aliases.every(a => typeof a === 'string'))) {
+    throw new InvalidDirectoryEntryError('aliases must be a list of strings');
+  }
+  if (input.label !== undefined && typeof input.label !== 'string') {
+    throw new InvalidDirectoryEntryError('label must be a string');
+  }
+
+  return {
+    kind: input.kind,
+    name,
+    value,
+    aliases: (input.aliases ?? []).map(alias => alias.trim()).filter(Boolean),
+    label: input.label?.trim() || undefined,
+  };
+}
+
+/**
+ * How well a query matches an entry's name or aliases. An address's local
+ * part ("alice.smith") and a repo's name without the owner count too, but
+ * never as an exact match, so "alice" does not single out alice@acme.com.
+ */
+function entryScore(entry: DirectoryEntry, query: string): number {
+  const score = Math.max(...[entry.name, ...entry.aliases].map(name => matchScore(query, name)));
+  const derived = entry.kind === 'contact' ? entry.value.split('@')[0]
+    : entry.kind === 'repo' ? entry.value.split('/')[1] : undefined;
+  return derived ? Math.max(score, Math.min(matchScore(query, derived), 0.95)) : score;
+}
+
+/**
+ * "the engineering channel" -> "engineering", "#general" -> "general"
+ */
+function cleanQuery(kind: DirectoryKind, query: string): string {
+  const words = normalizeName(query.replace(/^[#@]/, '').replace(/['’]s\b/g, ''))
+    .split(' ')
+    .filter(word => !FILLER_WORDS[kind].has(word));
+  return words.length > 0 ? words.join(' ') : query;
+}
+
+function describe(entry: DirectoryEntry): string {
+  const name = entry.kind === 'channel' ? `#${entry.name}` : entry.name;
+  return `${name} (${entry.label ? `${entry.label}: ` : ''}${entry.value})`;
+}
+
+function listPhrase(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+}
+
+/**
+ * Entries in a vCard file, one per email address
+ */
+function entriesFromVCards(content: string): DirectoryEntryInput[] {
+  return parseVCards(content).flatMap(card => card.emails.map(email => ({
+    kind: 'contact' as const,
+    name: card.name,
+    value: email.address,
+    aliases: card.nicknames,
+    label: card.emails.length > 1 ? email.type : undefined,
+  })));
+}
+
+/** Header names accepted for each field, compared after normalizeName */
+const CSV_COLUMNS = {
+  name: ['name', 'full name', 'display name', 'channel', 'channel name', 'repo name'],
+  value: ['value', 'email', 'e mail', 'email address', 'e mail address', 'e mail 1 value', 'address', 'id', 'channel id', 'repo', 'repository'],
+  aliases: ['aliases', 'alias', 'nickname', 'nicknames'],
+  kind: ['kind', 'type'],
+  label: ['label'],
+};
+
+/**
+ * Entries in a CSV file with a header row. Aliases are separated by `;`.
+ * Rows without a kind column are `kind`, or contacts by default.
+ */
+function entriesFromCsv(content: string, kind: DirectoryKind = 'contact'): DirectoryEntryInput[] {
+  const records = parseCsvRecords(content);
+  if (records.length === 0) return [];
+
+  const headers = Object.keys(records[0]);
+  const column = (field: keyof typeof CSV_COLUMNS): string | undefined =>
+    headers.find(header => CSV_COLUMNS[field].includes(normalizeName(header)));
+  const [name, value, aliases, kindColumn, label] =
+    (['name', 'value', 'aliases', 'kind', 'label'] as const).map(column);
+  if (!name || !value) {
+    throw new InvalidDirectoryEntryError('CSV needs a name column and an email, id or value column');
+  }
+
+  return records
+    .filter(record => record[name] && record[value])
+    .map(record => ({
+      kind: kindColumn && record[kindColumn] ? record[kindColumn].toLowerCase() as DirectoryKind : kind,
+      name: record[name],
+      value: record[value],
+      aliases: aliases && record[aliases] ? record[aliases].split(';') : [],
+      label: label ? record[label] || undefined : undefined,
+    }));
+}
+
+/**
+ * Entries from one discovery tool result
+ */
+function entriesFromDiscovery(source: DiscoverySource, result: unknown): DirectoryEntryInput[] {
+  const items = decodeJsonText(source.items ? lookupPath(result, source.items) : result);
+  if (!Array.isArray(items)) {
+    throw new InvalidDirectoryEntryError(`${source.tool} did not return a list${source.items ? ` at "${source.items}"` : ''}`);
+  }
+
+  return items.flatMap(item => {
+    const name = lookupPath(item, source.name);
+    const value = lookupPath(item, source.value);
+    if (typeof name !== 'string' || typeof value !== 'string' || !name || !value) return [];
+    const aliases = source.aliases ? lookupPath(item, source.aliases) : undefined;
+    return [{
+      kind: source.kind,
+      name,
+      value,
+      aliases: Array.isArray(aliases)
+        ? aliases.filter((alias): alias is string => typeof alias === 'string')
+        : typeof aliases === 'string' && aliases ? [aliases] : [],
+    }];
+  });
+}
+
+/**
+ * The directory, persisted as one JSON file
+ */
+export class Directory {
+  readonly filePath: string;
+  private entries = new Map<string, DirectoryEntry>();
+  private loadedMtimeMs?: number;
+
+  constructor(filePath: string = defaultDirectoryPath()) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Entries ordered by kind and name
+   */
+  list(kind?: DirectoryKind): DirectoryEntry[] {
+    this.load();
+    return [...this.entries.values()]
+      .filter(entry => !kind || entry.kind === kind)
+      .sort((a, b) =>
+        DIRECTORY_KINDS.indexOf(a.kind) - DIRECTORY_KINDS.indexOf(b.kind) || a.name.localeCompare(b.name)
+      );
+  }
+
+  has(kind: DirectoryKind): boolean {
+    this.load();
+    return [...this.entries.values()].some(entry => entry.kind === kind);
+  }
+
+  get(id: string): DirectoryEntry | undefined {
+    this.load();
+    return this.entries.get(id);
+  }
+
+  /**
+   * Add an entry, or update the one with the same kind and value (merging aliases)
+   */
+  add(input: DirectoryEntryInput): DirectoryEntry {
+    this.load();
+    const entry = this.upsert(validateInput(input), 'manual').entry;
+    this.save();
+    return entry;
+  }
+
+  remove(id: string): boolean {
+    this.load();
+    const removed = this.entries.delete(id);
+    if (removed) this.save();
+    return removed;
+  }
+
+  /**
+   * Add the entries of a vCard or CSV file. Invalid rows fail the whole import.
+   */
+  import(format: DirectoryImportFormat, content: string, kind?: DirectoryKind): DirectoryChanges {
+    if (kind !== undefined && !isDirectoryKind(kind)) {
+      throw new InvalidDirectoryEntryError(`kind must be one of: ${DIRECTORY_KINDS.join(', ')}`);
+    }
+    let inputs: DirectoryEntryInput[];
+    if (format === 'vcard') {
+      inputs = entriesFromVCards(content);
+    } else if (format === 'csv') {
+      inputs = entriesFromCsv(content, kind);
+    } else {
+      throw new InvalidDirectoryEntryError(`Unknown import format: ${String(format)} (expected vcard or csv)`);
+    }
+
+    const valid = inputs.map((input, i) => {
+      try {
+        return validateInput(input);
+      } catch (error) {
+        throw new InvalidDirectoryEntryError(`Entry ${i + 1} (${input.name}): ${(error as Error).message}`);
+      }
+    });
+
+    this.load();
+    const changes: DirectoryChanges = { added: 0, updated: 0 };
+    for (const input of valid) {
+      const { status } = this.upsert(input, 'import');
+      if (status !== 'unchanged') changes[status]++;
+    }
+    this.save();
+    return changes;
+  }
+
+  /**
+   * Run every discovery source. Entries a source no longer reports are
+   * dropped; entries added by hand or imported are never changed.
+   */
+  async sync(sources: DiscoverySource[], execute: DiscoveryExecutor): Promise<DirectorySyncResult[]> {
+    const results: DirectorySyncResult[] = [];
+    for (const source of sources) {
+      const result: DirectorySyncResult = { tool: source.tool, added: 0, updated: 0, removed: 0 };
+      results.push(result);
+      try {
+        const inputs = entriesFromDiscovery(source, await execute(source.tool, source.arguments ?? {}));
+        this.load();
+        const seen = new Set<string>();
+        for (const input of inputs) {
+          let valid: DirectoryEntryInput;
+          try {
+            valid = validateInput(input);
+          } catch {
+            continue;
+          }
+          const { entry, status } = this.upsert(valid, 'discovery', source.tool);
+          seen.add(entry.id);
+          if (status !== 'unchanged') result[status]++;
+        }
+        for (const entry of [...this.entries.values()]) {
+          if (entry.discoveredBy === source.tool && entry.kind === source.kind && !seen.has(entry.id)) {
+            this.entries.delete(entry.id);
+            result.removed++;
+          }
+        }
+        this.save();
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Entries whose name, aliases or address match a spoken query, best first
+   */
+  search(query: string, kind?: DirectoryKind): DirectoryMatch[] {
+    const matches: DirectoryMatch[] = [];
+    for (const entry of this.list(kind)) {
+      const score = entryScore(entry, cleanQuery(entry.kind, query));
+      if (score >= MIN_MATCH_SCORE) {
+        matches.push({ entry, score });
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name));
+  }
+
+  /**
+   * The one entry a query means. A query that is already an entry's value
+   * (an address, channel ID or `owner/repo`) resolves to it.
+   *
+   * Throws DirectoryLookupError when nothing matches, or AmbiguousEntryError
+   * with a question for the user when several entries match about equally.
+   */
+  resolve(kind: DirectoryKind, query: string): DirectoryEntry {
+    const exact = this.list(kind).find(entry =>
+      valueKey(kind, entry.value) === valueKey(kind, query.trim().replace(/^#/, ''))
+    );
+    if (exact) return exact;
+
+    const matches = this.search(query, kind);
+    if (matches.length === 0) {
+      throw new DirectoryLookupError(kind, query, `No ${KIND_NOUNS[kind]} in the directory matches "${query}"`);
+    }
+
+    const best = matches[0].score;
+    const contenders = matches.filter(match =>
+      best === 1 ? match.score === 1 : match.score >= best - AMBIGUITY_MARGIN
+    );
+    const values = new Set(contenders.map(match => valueKey(kind, match.entry.value)));
+    if (values.size === 1) return contenders[0].entry;
+
+    const options = contenders.slice(0, MAX_OPTIONS).map(match => match.entry);
+    const question = `Which ${KIND_NOUNS[kind]} do you mean: ${listPhrase(options.map(describe))}?`;
+    throw new AmbiguousEntryError(kind, query, question, options);
+  }
+
+  /**
+   * Add or merge one validated entry. Discovery never overrides what the
+   * user entered or imported; it only adds aliases.
+   */
+  private upsert(
+    input: DirectoryEntryInput,
+    source: DirectoryEntry['source'],
+    discoveredBy?: string
+  ): { entry: DirectoryEntry; status: 'added' | 'updated' | 'unchanged' } {
+    const key = valueKey(input.kind, input.value);
+    const existing = [...this.entries.values()].find(entry => valueKey(entry.kind, entry.value) === key);
+    const now = new Date().toISOString();
+
+    if (!existing) {
+      const entry: DirectoryEntry = {
+        id: randomUUID().slice(0, 8),
+        kind: input.kind,
+        name: input.name,
+        aliases: input.aliases ?? [],
+        value: input.value,
+        label: input.label,
+        source,
+        discoveredBy,
+        updatedAt: now,
+      };
+      this.entries.set(entry.id, entry);
+      return { entry, status: 'added' };
+    }
+
+    const keepsOwnName = source === 'discovery' && existing.source !== 'discovery';
+    const names = keepsOwnName ? [input.name, ...(input.aliases ?? [])] : input.aliases ?? [];
+    const aliases = [...existing.aliases];
+    for (const alias of names) {
+      const normalized = normalizeName(alias);
+      if (normalized !== normalizeName(keepsOwnName ? existing.name : input.name) &&
+          !aliases.some(a => normalizeName(a) === normalized)) {
+        aliases.push(alias);
+      }
+    }
+
+    const updated: DirectoryEntry = keepsOwnName
+      ? { ...existing, aliases }
+      : {
+        ...existing,
+        name: input.name,
+        aliases,
+        label: input.label ?? existing.label,
+        source,
+        discoveredBy: source === 'discovery' ? discoveredBy : undefined,
+      };
+    if (JSON.stringify(updated) === JSON.stringify(existing)) {
+      return { entry: existing, status: 'unchanged' };
+    }
+    updated.updatedAt = now;
+    this.entries.set(existing.id, updated);
+    return { entry: updated, status: 'updated' };
+  }
+
+  private load(): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    if (this.loadedMtimeMs === stat.mtimeMs) return;
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as DirectoryFile;
+    this.entries = new Map((file.entries ?? []).map(entry => [entry.id, entry]));
+    this.loadedMtimeMs = stat.mtimeMs;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    const file: DirectoryFile = { entries: [...this.entries.values()] };
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(temp, this.filePath);
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+export default Directory;
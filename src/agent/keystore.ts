@@ -0,0 +1,127 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * An API token as stored on disk. Only a hash of the secret is kept.
+ */
+export interface TokenRecord {
+  id: string;
+  name: string;
+  /** SHA-256 of the token, hex encoded */
+  hash: string;
+  scopes: string[];
+  createdAt: string;
+  revokedAt?: string;
+}
+
+interface KeystoreFile {
+  tokens: TokenRecord[];
+}
+
+const TOKEN_PREFIX = 'rube_';
+
+export function defaultKeystorePath(): string {
+  return process.env.RUBE_KEYSTORE || path.join(os.homedir(), '.rube', 'tokens.json');
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Local file of API tokens for the agent server
+ * The server re-reads the file when it changes, so tokens created or revoked
+ * from the CLI take effect without a restart.
+ */
+export class TokenKeystore {
+  readonly filePath: string;
+  private cache?: { mtimeMs: number; tokens: TokenRecord[] };
+
+  constructor(filePath: string = defaultKeystorePath()) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Create a token. The plaintext is returned once and never stored.
+   */
+  create(name: string, scopes: string[]): { token: string; record: TokenRecord } {
+    const tokens = this.load();
+    if (tokens.some(record => record.name === name && !record.revokedAt)) {
+      throw new Error(`A token named '${name}' already exists`);
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: TokenRecord = {
+      id: randomUUID().slice(0, 8),
+      name,
+      hash: hashToken(token),
+      scopes,
+      createdAt: new Date().toISOString(),
+    };
+    this.write([...tokens, record]);
+    return { token, record };
+  }
+
+  /**
+   * Revoke a token by id or name; returns the revoked record
+   */
+  revoke(idOrName: string): TokenRecord | undefined {
+    const tokens = this.load();
+    const record = tokens.find(item => !item.revokedAt && (item.id === idOrName || item.name === idOrName));
+    if (!record) return undefined;
+
+    record.revokedAt = new Date().toISOString();
+    this.write(tokens);
+    return record;
+  }
+
+  list(): TokenRecord[] {
+    return this.load();
+  }
+
+  /** Whether any token is still active */
+  hasActiveTokens(): boolean {
+    return this.load().some(record => !record.revokedAt);
+  }
+
+  /**
+   * Look up the active token matching a presented secret
+   */
+  verify(token: string): TokenRecord | undefined {
+    if (!token.startsWith(TOKEN_PREFIX)) return undefined;
+
+    const presented = Buffer.from(hashToken(token), 'hex');
+    return this.load().find(record =>
+      !record.revokedAt && timingSafeEqual(Buffer.from(record.hash, 'hex'), presented)
+    );
+  }
+
+  private load(): TokenRecord[] {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    if (this.cache?.mtimeMs !== stat.mtimeMs) {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as KeystoreFile;
+      this.cache = { mtimeMs: stat.mtimeMs, tokens: file.tokens ?? [] };
+    }
+    return this.cache.tokens.map(record => ({ ...record }));
+  }
+
+  private write(tokens: TokenRecord[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    const file: KeystoreFile = { tokens };
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(temp, this.filePath);
+    this.cache = undefined;
+  }
+}
+
+export default TokenKeystore;
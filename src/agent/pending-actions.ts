@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * A side-effecting tool call proposed by the agent and awaiting user approval
+ */
+export interface PendingAction {
+  actionId: string;
+  toolName: string;
+  arguments: Record<string, unknown>;
+  /** Human-readable description, suitable for reading aloud */
+  summary: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface Entry<TState> {
+  action: PendingAction;
+  state: TState;
+}
+
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-memory store of pending actions, each paired with the agent state
+ * needed to resume the run once the user decides
+ */
+export class PendingActionStore<TState> {
+  private entries = new Map<string, Entry<TState>>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  create(
+    toolName: string,
+    args: Record<string, unknown>,
+    summary: string,
+    state: TState
+  ): PendingAction {
+    this.purgeExpired();
+
+    const now = Date.now();
+    const action: PendingAction = {
+      actionId: randomUUID(),
+      toolName,
+      arguments: args,
+      summary,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString(),
+    };
+
+    this.entries.set(action.actionId, { action, state });
+    return action;
+  }
+
+  get(actionId: string): PendingAction | undefined {
+    this.purgeExpired();
+    return this.entries.get(actionId)?.action;
+  }
+
+  /**
+   * The action with the state it would resume, leaving it pending
+   */
+  peek(actionId: string): Entry<TState> | undefined {
+    this.purgeExpired();
+    return this.entries.get(actionId);
+  }
+
+  /**
+   * Replace the proposed arguments (the action stays pending)
+   */
+  update(actionId: string, args: Record<string, unknown>, summary: string): PendingAction | undefined {
+    const entry = this.entries.get(actionId);
+    if (!entry) return undefined;
+
+    entry.action = { ...entry.action, arguments: args, summary };
+    return entry.action;
+  }
+
+  /**
+   * Remove an action so it can be resolved exactly once
+   */
+  take(actionId: string): Entry<TState> | undefined {
+    this.purgeExpired();
+    const entry = this.entries.get(actionId);
+    this.entries.delete(actionId);
+    return entry;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [actionId, entry] of this.entries) {
+      if (Date.parse(entry.action.expiresAt) <= now) {
+        this.entries.delete(actionId);
+      }
+    }
+  }
+}
+
+export default PendingActionStore;
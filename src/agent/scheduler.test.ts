@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InvalidScheduleError, Scheduler } from './scheduler';
+import type { Schedule, ScheduleInput, ScheduleOutcome } from './scheduler';
+
+/**
+ * Drives the scheduler with fake timers: the clock only moves when a test
+ * advances it, and schedules are kept in a fresh temporary file.
+ */
+
+const NOW = new Date('2026-10-19T07:02:00Z');
+const action = { type: 'tool', tool: 'send_email', arguments: { to: 'ops@example.com' } } as const;
+
+let dir: string;
+let file: string;
+let executed: Schedule[];
+let schedulers: Scheduler[];
+
+function scheduler(outcome: () => Promise<ScheduleOutcome> = async () => ({ status: 'succeeded', output: 'sent' })): Scheduler {
+  const instance = new Scheduler(schedule => {
+    executed.push(schedule);
+    return outcome();
+  }, file);
+  schedulers.push(instance);
+  return instance;
+}
+
+/** Let the runs started by a tick record their results */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(NOW);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+  file = path.join(dir, 'schedules.json');
+  executed = [];
+  schedulers = [];
+});
+
+afterEach(async () => {
+  for (const instance of schedulers) await instance.stop();
+  jest.useRealTimers();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Scheduler.create', () => {
+  test('a one-shot job is due at runAt', () => {
+    const schedule = scheduler().create({ action, runAt: '2026-10-19T08:00:00Z' });
+    expect(schedule.nextRunAt).toBe('2026-10-19T08:00:00.000Z');
+    expect(schedule.name).toBe('send_email {"to":"ops@example.com"}');
+    expect(schedule.enabled).toBe(true);
+  });
+
+  test('a cron job is due at its next match', () => {
+    const schedule = scheduler().create({ action, cron: '*/5 * * * *' });
+    expect(schedule.nextRunAt).toBe('2026-10-19T07:05:00.000Z');
+  });
+
+  test('a disabled job has no due time', () => {
+    expect(scheduler().create({ action, cron: '*/5 * * * *', enabled: false }).nextRunAt).toBeUndefined();
+  });
+
+  const invalid: { input: unknown; reason: string }[] = [
+    { input: { action }, reason: 'Exactly one of runAt or cron is required' },
+    { input: { action, runAt: '2026-10-19T08:00:00Z', cron: '@daily' }, reason: 'Exactly one of runAt or cron is required' },
+    { input: { action, runAt: 'tomorrow' }, reason: 'runAt must be an ISO 8601 date-time' },
+    { input: { action, runAt: '2026-10-19T06:00:00Z' }, reason: 'is in the past' },
+    { input: { action, cron: '61 * * * *' }, reason: 'minute 61 is outside 0-59' },
+    { input: { action, cron: '0 0 30 2 *' }, reason: 'has no run time' },
+    { input: { action: { type: 'agent', request: {} }, cron: '@daily' }, reason: 'action.request.userInput is required' },
+    { input: { action: { type: 'shell' }, cron: '@daily' }, reason: 'action.type must be "agent" or "tool"' },
+  ];
+
+  for (const { input, reason } of invalid) {
+    test(`rejects ${JSON.stringify(input)}`, () => {
+      expect(() => scheduler().create(input as ScheduleInput)).toThrow(InvalidScheduleError);
+      expect(() => scheduler().create(input as ScheduleInput)).toThrow(reason);
+    });
+  }
+});
+
+describe('Scheduler timer', () => {
+  test('runs a one-shot job once when it comes due', async () => {
+    const instance = scheduler();
+    instance.start();
+    const { id } = instance.create({ action, runAt: '2026-10-19T07:10:00Z' });
+
+    jest.advanceTimersByTime(7 * 60 * 1000);
+    expect(executed).toHaveLength(0);
+    jest.advanceTimersByTime(60 * 1000);
+    expect(executed.map(schedule => schedule.id)).toEqual([id]);
+    await settle();
+
+    const schedule = instance.get(id)!;
+    expect(schedule.nextRunAt).toBeUndefined();
+    expect(schedule.runCount).toBe(1);
+    expect(schedule.history[0]).toMatchObject({ status: 'succeeded', output: 'sent', scheduledFor: '2026-10-19T07:10:00.000Z' });
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(executed).toHaveLength(1);
+  });
+
+  test('advances a cron job to its next match before running it', async () => {
+    const instance = scheduler();
+    instance.start();
+    const { id } = instance.create({ action, cron: '*/5 * * * *' });
+
+    jest.advanceTimersByTime(3 * 60 * 1000);
+    expect(executed).toHaveLength(1);
+    expect(instance.get(id)!.nextRunAt).toBe('2026-10-19T07:10:00.000Z');
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    await settle();
+    expect(executed).toHaveLength(3);
+    expect(instance.get(id)!.history.map(run => run.scheduledFor)).toEqual([
+      '2026-10-19T07:15:00.000Z',
+      '2026-10-19T07:10:00.000Z',
+      '2026-10-19T07:05:00.000Z',
+    ]);
+  });
+
+  test('records a rejected run as failed', async () => {
+    const instance = scheduler(async () => {
+      throw new Error('SMTP unavailable');
+    });
+    instance.start();
+    const { id } = instance.create({ action, runAt: '2026-10-19T07:03:00Z' });
+
+    jest.advanceTimersByTime(60 * 1000);
+    await settle();
+    expect(instance.get(id)!.history[0]).toMatchObject({ status: 'failed', error: 'SMTP unavailable' });
+  });
+
+  test('does not run disabled jobs', () => {
+    const instance = scheduler();
+    instance.start();
+    instance.create({ action, cron: '*/5 * * * *', enabled: false });
+
+    jest.advanceTimersByTime(60 * 60 * 1000);
+    expect(executed).toHaveLength(0);
+  });
+
+  test('runNow leaves the due time alone', async () => {
+    const instance = scheduler();
+    const { id } = instance.create({ action, cron: '*/5 * * * *' });
+
+    const run = await instance.runNow(id);
+    expect(run).toMatchObject({ status: 'succeeded', output: 'sent' });
+    expect(run!.scheduledFor).toBeUndefined();
+    expect(instance.get(id)!.nextRunAt).toBe('2026-10-19T07:05:00.000Z');
+    expect(await instance.runNow('missing')).toBeUndefined();
+  });
+});
+
+describe('Scheduler persistence', () => {
+  test('another instance sees created, updated and deleted jobs', () => {
+    const writer = scheduler();
+    const reader = scheduler();
+    const { id } = writer.create({ action, cron: '@hourly', name: 'Hourly report' });
+    expect(reader.get(id)).toMatchObject({ name: 'Hourly report', cron: '@hourly' });
+
+    writer.update(id, { runAt: '2026-10-20T09:00:00Z' });
+    expect(reader.get(id)).toMatchObject({ runAt: '2026-10-20T09:00:00.000Z', nextRunAt: '2026-10-20T09:00:00.000Z' });
+    expect(reader.get(id)!.cron).toBeUndefined();
+
+    writer.delete(id);
+    expect(reader.list()).toEqual([]);
+  });
+
+  test('a job missed while stopped runs once on start', async () => {
+    const first = scheduler();
+    first.start();
+    const { id } = first.create({ action, cron: '*/5 * * * *' });
+    await first.stop();
+
+    // Down for an hour: twelve occurrences missed
+    jest.setSystemTime(new Date(NOW.getTime() + 60 * 60 * 1000));
+    const second = scheduler();
+    second.start();
+    jest.advanceTimersByTime(0);
+    expect(executed).toHaveLength(1);
+    await settle();
+    expect(second.get(id)).toMatchObject({ runCount: 1, nextRunAt: '2026-10-19T08:05:00.000Z' });
+  });
+});
@@ -0,0 +1,478 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CronExpression, CronParseError } from '../lib/cron';
+import { createLogger } from '../lib/logger';
+import type { MCPTool } from '../mcp/mcp-client';
+import type { AgentRequest } from './agent-server';
+import type { Principal } from './auth';
+
+const log = createLogger('scheduler');
+
+/**
+ * What a schedule does when it comes due: replay an agent request, or call a
+ * tool directly with fixed arguments
+ */
+export type ScheduleAction =
+  | { type: 'agent'; request: AgentRequest }
+  | { type: 'tool'; tool: string; arguments: Record<string, unknown> };
+
+export interface ScheduleRun {
+  startedAt: string;
+  /** The due time this run was for; absent for manual runs */
+  scheduledFor?: string;
+  durationMs: number;
+  status: 'succeeded' | 'failed' | 'confirmation_required';
+  /** The agent's reply, or the tool result */
+  output?: string;
+  error?: string;
+  /** Session of an agent run */
+  sessionId?: string;
+  /** Pending action of a run that stopped for confirmation */
+  actionId?: string;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  action: ScheduleAction;
+  /** One-shot due time (ISO); exclusive with `cron` */
+  runAt?: string;
+  /** Five-field cron expression in the server's time zone */
+  cron?: string;
+  enabled: boolean;
+  /**
+   * Let an agent action run side-effecting tools without confirmation.
+   * Otherwise the run stops at the first one and leaves a pending action.
+   */
+  autoApprove: boolean;
+  /** Absent once a one-shot schedule has run, or while disabled */
+  nextRunAt?: string;
+  runCount: number;
+  /** Most recent runs, newest first */
+  history: ScheduleRun[];
+  /** Token that created the schedule when auth is enabled; runs use its scopes */
+  owner?: Principal;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleInput {
+  name?: string;
+  action: ScheduleAction;
+  runAt?: string;
+  cron?: string;
+  enabled?: boolean;
+  autoApprove?: boolean;
+}
+
+export type ScheduleUpdate = Partial<ScheduleInput>;
+
+export type ScheduleOutcome = Omit<ScheduleRun, 'startedAt' | 'scheduledFor' | 'durationMs'>;
+
+/**
+ * Carries out a due schedule; rejections are recorded as failed runs
+ */
+export type ScheduleExecutor = (schedule: Schedule) => Promise<ScheduleOutcome>;
+
+interface ScheduleFile {
+  schedules: Schedule[];
+}
+
+/**
+ * A schedule definition the scheduler cannot accept
+ */
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+const HISTORY_LIMIT = 20;
+/** Re-check at least this often, so clock changes and file edits are noticed */
+const MAX_TIMER_MS = 60 * 1000;
+/** A one-shot time this far in the past is treated as a mistake */
+const PAST_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Lets the model schedule work for later ("remind me tomorrow at 9")
+ */
+export const SCHEDULE_TASK_TOOL: MCPTool = {
+  name: 'schedule_task',
+  description: 'Carry out an instruction later, once at a given time or repeatedly on a cron schedule. ' +
+    'Use this when the user asks for something to happen at a future time or on a recurring basis.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      instruction: {
+        type: 'string',
+        description: 'What to do at that time, written as a complete request, e.g. "Send a Slack message to #team saying the build is done"',
+      },
+      runAt: {
+        type: 'string',
+        format: 'date-time',
+        description: 'When to run once, as an ISO 8601 date-time with a UTC offset',
+      },
+      cron: {
+        type: 'string',
+        description: 'When to repeat, as a 5-field cron expression (minute hour day-of-month month day-of-week) in server time',
+      },
+      name: { type: 'string', description: 'Short label for the task' },
+    },
+    required: ['instruction'],
+  },
+};
+
+export function defaultSchedulesPath(): string {
+  return process.env.RUBE_SCHEDULES_FILE || path.join(os.homedir(), '.rube', 'schedules.json');
+}
+
+function parseRunAt(value: unknown): Date {
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  if (!date || isNaN(date.getTime())) {
+    throw new InvalidScheduleError('runAt must be an ISO 8601 date-time');
+  }
+  return date;
+}
+
+function parseCron(value: unknown): CronExpression {
+  if (typeof value !== 'string') {
+    throw new InvalidScheduleError('cron must be a string');
+  }
+  let expression: CronExpression;
+  try {
+    expression = CronExpression.parse(value);
+  } catch (error) {
+    if (error instanceof CronParseError) throw new InvalidScheduleError(error.message);
+    throw error;
+  }
+  try {
+    // Valid fields can still describe a date that never occurs, like Feb 30
+    expression.next(new Date());
+  } catch (error) {
+    throw new InvalidScheduleError((error as Error).message);
+  }
+  return expression;
+}
+
+function validateAction(action: unknown): ScheduleAction {
+  const candidate = (action ?? {}) as Record<string, unknown>;
+
+  if (candidate.type === 'agent') {
+    const request = (candidate.request ?? {}) as Record<string, unknown>;
+    if (typeof request.userInput !== 'string' || !request.userInput.trim()) {
+      throw new InvalidScheduleError('action.request.userInput is required');
+    }
+    return { type: 'agent', request: request as unknown as AgentRequest };
+  }
+
+  if (candidate.type === 'tool') {
+    if (typeof candidate.tool !== 'string' || !candidate.tool) {
+      throw new InvalidScheduleError('action.tool is required');
+    }
+    const args = candidate.arguments ?? {};
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      throw new InvalidScheduleError('action.arguments must be an object');
+    }
+    return { type: 'tool', tool: candidate.tool, arguments: args as Record<string, unknown> };
+  }
+
+  throw new InvalidScheduleError('action.type must be "agent" or "tool"');
+}
+
+function defaultName(action: ScheduleAction): string {
+  const text = action.type === 'agent' ? action.request.userInput : `${action.tool} ${JSON.stringify(action.arguments)}`;
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/**
+ * Persisted one-shot and cron jobs
+ *
+ * Schedules live in a JSON file, so they survive restarts. A job that came
+ * due while the server was down runs once when the scheduler starts; missed
+ * cron occurrences are not replayed individually. The next due time is
+ * stored before a job runs, so a crash mid-run does not repeat it.
+ */
+export class Scheduler {
+  readonly filePath: string;
+  private execute: ScheduleExecutor;
+  private schedules = new Map<string, Schedule>();
+  private loadedMtimeMs?: number;
+  private running = new Map<string, Promise<ScheduleRun>>();
+  private timer?: NodeJS.Timeout;
+  private started = false;
+
+  constructor(execute: ScheduleExecutor, filePath: string = defaultSchedulesPath()) {
+    this.execute = execute;
+    this.filePath = filePath;
+  }
+
+  /**
+   * Begin running due jobs, including any missed while stopped
+   */
+  start(): void {
+    this.load();
+    this.started = true;
+    this.arm();
+  }
+
+  /**
+   * Stop the timer and wait for jobs that are already running
+   */
+  async stop(): Promise<void> {
+    this.started = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await Promise.allSettled(this.running.values());
+  }
+
+  /**
+   * Schedules ordered by next due time; disabled and finished ones last
+   */
+  list(): Schedule[] {
+    this.load();
+    // '~' sorts after any ISO timestamp
+    return [...this.schedules.values()].sort((a, b) =>
+      (a.nextRunAt ?? '~').localeCompare(b.nextRunAt ?? '~') || a.createdAt.localeCompare(b.createdAt)
+    );
+  }
+
+  get(id: string): Schedule | undefined {
+    this.load();
+    return this.schedules.get(id);
+  }
+
+  create(input: ScheduleInput, owner?: Principal): Schedule {
+    this.load();
+    const fields = (input ?? {}) as ScheduleInput;
+    const action = validateAction(fields.action);
+    const now = new Date().toISOString();
+
+    const schedule: Schedule = {
+      id: randomUUID().slice(0, 8),
+      name: typeof fields.name === 'string' && fields.name.trim() ? fields.name.trim() : defaultName(action),
+      action,
+      enabled: fields.enabled !== false,
+      autoApprove: fields.autoApprove === true,
+      runCount: 0,
+      history: [],
+      owner,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.applyTiming(schedule, fields.runAt, fields.cron);
+
+    this.schedules.set(schedule.id, schedule);
+    this.save();
+    this.arm();
+    return schedule;
+  }
+
+  /**
+   * Change a schedule. Setting `runAt` replaces `cron` and vice versa;
+   * re-enabling recomputes the next due time from now.
+   */
+  update(id: string, patch: ScheduleUpdate): Schedule | undefined {
+    this.load();
+    const existing = this.schedules.get(id);
+    if (!existing) return undefined;
+
+    const changes = (patch ?? {}) as ScheduleUpdate;
+    const schedule: Schedule = { ...existing };
+    if (changes.name !== undefined) {
+      if (typeof changes.name !== 'string' || !changes.name.trim()) {
+        throw new InvalidScheduleError('name must be a non-empty string');
+      }
+      schedule.name = changes.name.trim();
+    }
+    if (changes.action !== undefined) {
+      schedule.action = validateAction(changes.action);
+    }
+    if (changes.autoApprove !== undefined) {
+      schedule.autoApprove = changes.autoApprove === true;
+    }
+    if (changes.enabled !== undefined) {
+      schedule.enabled = changes.enabled === true;
+    }
+
+    const timingChanged = changes.runAt !== undefined || changes.cron !== undefined;
+    if (timingChanged || changes.enabled !== undefined) {
+      this.applyTiming(
+        schedule,
+        timingChanged ? changes.runAt : schedule.runAt,
+        timingChanged ? changes.cron : schedule.cron
+      );
+    }
+
+    schedule.updatedAt = new Date().toISOString();
+    this.schedules.set(id, schedule);
+    this.save();
+    this.arm();
+    return schedule;
+  }
+
+  delete(id: string): boolean {
+    this.load();
+    if (!this.schedules.delete(id)) return false;
+    this.save();
+    this.arm();
+    return true;
+  }
+
+  /**
+   * Run a schedule immediately, leaving its next due time unchanged
+   */
+  async runNow(id: string): Promise<ScheduleRun | undefined> {
+    const schedule = this.get(id);
+    if (!schedule) return undefined;
+    return this.fire(schedule);
+  }
+
+  /**
+   * Validate the timing and compute the next due time
+   */
+  private applyTiming(schedule: Schedule, runAt: unknown, cron: unknown): void {
+    if ((runAt === undefined) === (cron === undefined)) {
+      throw new InvalidScheduleError('Exactly one of runAt or cron is required');
+    }
+
+    if (runAt !== undefined) {
+      const due = parseRunAt(runAt);
+      delete schedule.cron;
+      schedule.runAt = due.toISOString();
+      if (schedule.enabled && due.getTime() < Date.now() - PAST_TOLERANCE_MS) {
+        throw new InvalidScheduleError(`runAt ${schedule.runAt} is in the past`);
+      }
+      schedule.nextRunAt = schedule.enabled ? schedule.runAt : undefined;
+      return;
+    }
+
+    const expression = parseCron(cron);
+    delete schedule.runAt;
+    schedule.cron = expression.source;
+    schedule.nextRunAt = schedule.enabled ? expression.next(new Date()).toISOString() : undefined;
+  }
+
+  /**
+   * Run every enabled schedule that is due, then wait for the next one
+   */
+  private tick(): void {
+    this.timer = undefined;
+    if (!this.started) return;
+
+    try {
+      this.load();
+    } catch (error) {
+      log.error('Failed to reload schedules', { file: this.filePath, error });
+    }
+
+    const now = Date.now();
+    for (const schedule of this.schedules.values()) {
+      if (!schedule.enabled || !schedule.nextRunAt || this.running.has(schedule.id)) continue;
+      const due = new Date(schedule.nextRunAt);
+      if (due.getTime() > now) continue;
+
+      // Advance before running, so a crash or restart mid-run does not repeat it
+      if (schedule.cron) {
+        schedule.nextRunAt = CronExpression.parse(schedule.cron).next(new Date(now)).toISOString();
+      } else {
+        schedule.nextRunAt = undefined;
+      }
+      this.save();
+      void this.fire(schedule, due.toISOString());
+    }
+
+    this.arm();
+  }
+
+  private arm(): void {
+    if (!this.started) return;
+    clearTimeout(this.timer);
+
+    const next = Math.min(
+      ...[...this.schedules.values()]
+        .filter(schedule => schedule.enabled && schedule.nextRunAt)
+        .map(schedule => new Date(schedule.nextRunAt!).getTime())
+    );
+    const delay = Math.max(0, Math.min(next - Date.now(), MAX_TIMER_MS));
+    this.timer = setTimeout(() => this.tick(), delay);
+    // The scheduler alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  private fire(schedule: Schedule, scheduledFor?: string): Promise<ScheduleRun> {
+    const existing = this.running.get(schedule.id);
+    if (existing) return existing;
+
+    const startedAt = new Date();
+    const run = this.execute({ ...schedule })
+      .catch((error): ScheduleOutcome => ({
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      }))
+      .then(outcome => {
+        const record: ScheduleRun = {
+          startedAt: startedAt.toISOString(),
+          scheduledFor,
+          durationMs: Date.now() - startedAt.getTime(),
+          ...outcome,
+        };
+        this.recordRun(schedule.id, record);
+        return record;
+      })
+      .finally(() => this.running.delete(schedule.id));
+
+    this.running.set(schedule.id, run);
+    return run;
+  }
+
+  private recordRun(id: string, run: ScheduleRun): void {
+    try {
+      this.load();
+    } catch (error) {
+      log.error('Failed to reload schedules', { file: this.filePath, error });
+    }
+    // The schedule may have been deleted while it ran
+    const schedule = this.schedules.get(id);
+    if (!schedule) return;
+
+    schedule.runCount++;
+    schedule.history = [run, ...schedule.history].slice(0, HISTORY_LIMIT);
+    try {
+      this.save();
+    } catch (error) {
+      log.error('Failed to save schedules', { file: this.filePath, error });
+    }
+  }
+
+  /**
+   * Read the file if it changed since it was last read or written
+   */
+  private load(): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    if (this.loadedMtimeMs === stat.mtimeMs) return;
+
+    const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as ScheduleFile;
+    this.schedules = new Map((file.schedules ?? []).map(schedule => [schedule.id, schedule]));
+    this.loadedMtimeMs = stat.mtimeMs;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    const file: ScheduleFile = { schedules: [...this.schedules.values()] };
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(temp, this.filePath);
+    this.loadedMtimeMs = fs.statSync(this.filePath).mtimeMs;
+  }
+}
+
+export default Scheduler;
@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ToolCallRecord } from './agent-server';
+import type { Principal } from './auth';
+
+/**
+ * A persisted multi-turn conversation
+ * `messages` excludes the system prompt, which is rebuilt on every run.
+ */
+export interface Session {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  context: Record<string, unknown>;
+  messages: ChatCompletionMessageParam[];
+  toolCalls: ToolCallRecord[];
+  /** Summary of older turns that were compacted out of `messages` */
+  summary?: string;
+  /** Token that started the conversation when auth is enabled */
+  owner?: Principal;
+}
+
+export interface SessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  toolCallCount: number;
+  owner?: Principal;
+}
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function defaultSessionDir(): string {
+  return process.env.RUBE_SESSION_DIR || path.join(os.homedir(), '.rube', 'sessions');
+}
+
+/**
+ * JSON-file-per-session store on local disk
+ */
+export class SessionStore {
+  private dir: string;
+
+  constructor(dir: string = defaultSessionDir()) {
+    this.dir = dir;
+  }
+
+  static isValidId(id: string): boolean {
+    return SESSION_ID_PATTERN.test(id);
+  }
+
+  create(title: string, context: Record<string, unknown> = {}, owner?: Principal): Session {
+    const now = new Date().toISOString();
+    return {
+      id: randomUUID(),
+      title: title.length > 80 ? `${title.slice(0, 77)}...` : title,
+      createdAt: now,
+      updatedAt: now,
+      context,
+      messages: [],
+      toolCalls: [],
+      owner,
+    };
+  }
+
+  async get(id: string): Promise<Session | undefined> {
+    if (!SessionStore.isValidId(id)) return undefined;
+    try {
+      const raw = await fs.promises.readFile(this.filePath(id), 'utf-8');
+      return JSON.parse(raw) as Session;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async save(session: Session): Promise<void> {
+    if (!SessionStore.isValidId(session.id)) {
+      throw new Error(`Invalid session id: ${session.id}`);
+    }
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    session.updatedAt = new Date().toISOString();
+    const target = this.filePath(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(session, null, 2), 'utf-8');
+    await fs.promises.rename(temp, target);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SessionStore.isValidId(id)) return false;
+    try {
+      await fs.promises.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /**
+   * List sessions, most recently updated first
+   */
+  async list(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const session = await this.get(path.basename(file, '.json')).catch(() => undefined);
+      if (!session) continue;
+      summaries.push({
+        id: session.id,
+        title: session.title,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        messageCount: session.messages.length,
+        toolCallCount: session.toolCalls.length,
+        owner: session.owner,
+      });
+    }
+
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+/**
+ * Close out assistant tool calls that never got a result (e.g. an action
+ * left pending when the user moved on), since the chat API rejects them
+ */
+export function repairDanglingToolCalls(
+  messages: ChatCompletionMessageParam[]
+): ChatCompletionMessageParam[] {
+  const answered = new Set(
+    messages
+      .filter(message => message.role === 'tool')
+      .map(message => (message as { tool_call_id: string }).tool_call_id)
+  );
+
+  const repaired: ChatCompletionMessageParam[] = [];
+  for (const message of messages) {
+    repaired.push(message);
+    if (message.role !== 'assistant' || !message.tool_calls) continue;
+
+    for (const call of message.tool_calls) {
+      if (!answered.has(call.id)) {
+        repaired.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          content: JSON.stringify({
+            success: false,
+            error: 'This action was never confirmed and did not run.',
+          }),
+        });
+      }
+    }
+  }
+  return repaired;
+}
+
+/**
+ * Split history so the most recent `keep` messages stay verbatim.
+ * The cut is moved back to a user message so tool calls and their results
+ * are never separated.
+ */
+export function splitHistory(
+  messages: ChatCompletionMessageParam[],
+  keep: number
+): { older: ChatCompletionMessageParam[]; recent: ChatCompletionMessageParam[] } {
+  if (messages.length <= keep) {
+    return { older: [], recent: messages };
+  }
+
+  let cut = messages.length - keep;
+  while (cut > 0 && messages[cut].role !== 'user') {
+    cut--;
+  }
+  return { older: messages.slice(0, cut), recent: messages.slice(cut) };
+}
+
+export default SessionStore;
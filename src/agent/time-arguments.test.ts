@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { resolveTimeArguments, timeParameters } from './time-arguments';
+import { AmbiguousTimeError } from '../lib/time-expression';
+import type { MCPTool } from '../mcp/mcp-client';
+
+const createEvent: MCPTool = {
+  name: 'create_calendar_event',
+  description: 'Create a calendar event',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      startTime: { type: 'string', format: 'date-time' },
+      endTime: { type: 'string', description: 'End time (ISO 8601)' },
+    },
+    required: ['title', 'startTime'],
+  },
+};
+
+/** Monday, October 19 2026, 9:00 in Berlin */
+const options = { now: new Date('2026-10-19T09:00:00+02:00'), timeZone: 'Europe/Berlin' };
+
+describe('timeParameters', () => {
+  test('finds date-time formats and ISO 8601 descriptions', () => {
+    expect(timeParameters(createEvent)).toEqual(['startTime', 'endTime']);
+  });
+});
+
+describe('resolveTimeArguments', () => {
+  const rows: { args: Record<string, unknown>; expected: Record<string, unknown> }[] = [
+    {
+      // A range in the start fills the empty end
+      args: { title: 'Review', startTime: 'Friday at 10am for an hour' },
+      expected: { title: 'Review', startTime: '2026-10-23T10:00:00+02:00', endTime: '2026-10-23T11:00:00+02:00' },
+    },
+    {
+      // The model repeated the whole expression in both fields
+      args: { title: 'Review', startTime: 'tomorrow 2-4pm', endTime: 'tomorrow 2-4pm' },
+      expected: { title: 'Review', startTime: '2026-10-20T14:00:00+02:00', endTime: '2026-10-20T16:00:00+02:00' },
+    },
+    {
+      // An end in words counts from the start
+      args: { title: 'Review', startTime: 'tomorrow at 3pm', endTime: 'for 45 minutes' },
+      expected: { title: 'Review', startTime: '2026-10-20T15:00:00+02:00', endTime: '2026-10-20T15:45:00+02:00' },
+    },
+    {
+      // ISO values are left alone
+      args: { title: 'Review', startTime: '2026-10-20T15:00:00+02:00' },
+      expected: { title: 'Review', startTime: '2026-10-20T15:00:00+02:00' },
+    },
+  ];
+
+  for (const { args, expected } of rows) {
+    test(JSON.stringify(args), () => {
+      expect(resolveTimeArguments(createEvent, args, options)).toEqual(expected);
+    });
+  }
+
+  test('asks instead of guessing the half of the day', () => {
+    expect(() => resolveTimeArguments(createEvent, { title: 'Review', startTime: 'Friday at 10 for an hour' }, options))
+      .toThrow(AmbiguousTimeError);
+  });
+});
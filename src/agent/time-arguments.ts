@@ -0,0 +1,85 @@
+import { resolveTimeExpression } from '../lib/time-expression';
+import type { TimeResolveOptions } from '../lib/time-expression';
+import type { MCPTool } from '../mcp/mcp-client';
+
+/**
+ * Date-time tool arguments given in the user's words. Parameters with
+ * `format: date-time`, or described as ISO 8601, are resolved before the
+ * call is confirmed or run, so the user approves concrete times.
+ */
+
+const ISO_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i;
+
+interface PropertySchema {
+  format?: unknown;
+  description?: unknown;
+}
+
+/**
+ * Names of a tool's date-time parameters
+ */
+export function timeParameters(tool: MCPTool): string[] {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, PropertySchema | undefined>;
+  return Object.entries(properties)
+    .filter(([, schema]) => schema && (
+      schema.format === 'date-time' ||
+      (typeof schema.description === 'string' && /\bISO[ -]?8601\b/i.test(schema.description))
+    ))
+    .map(([name]) => name);
+}
+
+/** `endTime` for `startTime`, `eventEnd` for `eventStart` */
+function endParameterFor(name: string, parameters: string[]): string | undefined {
+  const match = /^(.*?)(start|Start|START)(.*)$/.exec(name);
+  if (!match) return undefined;
+  const end = `${match[1]}${{ start: 'end', Start: 'End', START: 'END' }[match[2]]}${match[3]}`;
+  return parameters.includes(end) ? end : undefined;
+}
+
+const isSpoken = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && !ISO_WITH_OFFSET.test(value.trim());
+
+/**
+ * The arguments with spoken times replaced by ISO 8601. A start whose
+ * expression is a range ("tomorrow 2-4pm", "Friday at 10am for an hour") also
+ * fills an empty end; an end given in words counts from the start.
+ *
+ * Throws TimeExpressionError, or AmbiguousTimeError with a question for the
+ * user, when a time cannot be resolved.
+ */
+export function resolveTimeArguments(
+  tool: MCPTool,
+  args: Record<string, unknown>,
+  options: TimeResolveOptions
+): Record<string, unknown> {
+  const parameters = timeParameters(tool);
+  if (parameters.length === 0) return args;
+
+  const resolved = { ...args };
+  const ends = new Set(parameters.map(name => endParameterFor(name, parameters)));
+
+  for (const name of parameters) {
+    if (ends.has(name)) continue;
+    const value = args[name];
+    let start = typeof value === 'string' ? value : undefined;
+    let rangeEnd: string | undefined;
+    if (isSpoken(value)) {
+      const time = resolveTimeExpression(value, options);
+      resolved[name] = start = time.start;
+      rangeEnd = time.end;
+    }
+
+    const endName = endParameterFor(name, parameters);
+    if (!endName) continue;
+    const endValue = args[endName];
+    // Models often repeat the whole expression in both fields
+    if (rangeEnd && (endValue === undefined || endValue === '' || endValue === value)) {
+      resolved[endName] = rangeEnd;
+    } else if (isSpoken(endValue)) {
+      const from = start && !isNaN(Date.parse(start)) ? new Date(start) : options.now;
+      const time = resolveTimeExpression(endValue, { ...options, now: from });
+      resolved[endName] = time.end ?? time.start;
+    }
+  }
+  return resolved;
+}
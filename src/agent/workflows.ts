@@ -0,0 +1,514 @@
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { MCPTool, ToolResult } from '../mcp/mcp-client';
+import { evaluateCondition, renderTemplate, TemplateError } from '../lib/template';
+import type { AgentEventHandler } from './agent-events';
+
+/**
+ * Declarative multi-step workflows (macros)
+ *
+ * A workflow is a YAML or JSON file naming a sequence of tool calls. Step
+ * arguments are templates over `inputs` and earlier `steps.<id>` results
+ * (see lib/template), steps can be skipped with an `if` condition, and a
+ * failing step stops the workflow unless it says `onError: continue`.
+ *
+ * ```yaml
+ * name: file-bug
+ * triggers: ["file a bug {title}"]
+ * inputs:
+ *   title: { type: string, required: true }
+ * steps:
+ *   - id: issue
+ *     tool: create_github_issue
+ *     arguments: { repo: acme/app, title: "{{ inputs.title }}" }
+ *   - id: announce
+ *     tool: send_slack_message
+ *     if: steps.issue.success
+ *     arguments: { channel: "#eng", message: "New issue: {{ steps.issue.result.url }}" }
+ * response: "Filed {{ inputs.title }}"
+ * ```
+ */
+
+export interface WorkflowInput {
+  type?: 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+}
+
+export interface WorkflowStep {
+  id: string;
+  tool: string;
+  /** Argument templates, rendered just before the step runs */
+  arguments: Record<string, unknown>;
+  /** Condition over inputs and earlier steps; the step is skipped when false */
+  if?: string;
+  /** `stop` (default) fails the workflow; `continue` tolerates the failure and moves on */
+  onError: 'stop' | 'continue';
+  /** Extra attempts after a failed call (default: 0) */
+  retries: number;
+}
+
+export interface Workflow {
+  name: string;
+  description?: string;
+  /** Phrases that start the workflow, with `{input}` placeholders */
+  triggers: string[];
+  inputs: Record<string, WorkflowInput>;
+  steps: WorkflowStep[];
+  /** Template for the spoken summary when the workflow finishes */
+  response?: string;
+  /** File the workflow was loaded from */
+  source?: string;
+}
+
+export interface WorkflowStepResult {
+  id: string;
+  tool: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  arguments?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+  attempts: number;
+  durationMs: number;
+}
+
+export interface WorkflowRun {
+  runId: string;
+  workflow: string;
+  status: 'succeeded' | 'failed';
+  inputs: Record<string, unknown>;
+  steps: WorkflowStepResult[];
+  response: string;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface WorkflowLoadError {
+  file: string;
+  error: string;
+}
+
+/**
+ * Runs one step's tool call; the workflow never calls MCP directly
+ */
+export type WorkflowToolExecutor = (
+  tool: string,
+  args: Record<string, unknown>,
+  context: { runId: string; stepId: string; attempt: number }
+) => Promise<ToolResult>;
+
+/**
+ * A workflow definition or its inputs are not valid
+ */
+export class WorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/** Prefix of the tool each workflow is exposed to the model as */
+export const WORKFLOW_TOOL_PREFIX = 'workflow_';
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,47}$/;
+const MAX_RETRIES = 5;
+const WORKFLOW_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export function defaultWorkflowsDir(): string {
+  return process.env.RUBE_WORKFLOWS_DIR || path.join(os.homedir(), '.rube', 'workflows');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validateInputs(raw: unknown): Record<string, WorkflowInput> {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) throw new WorkflowError('inputs must be a mapping of input names');
+
+  const inputs: Record<string, WorkflowInput> = {};
+  for (const [name, spec] of Object.entries(raw)) {
+    // `title: string` is shorthand for `title: { type: string }`
+    const input: unknown = typeof spec === 'string' ? { type: spec } : spec ?? {};
+    if (!isRecord(input)) throw new WorkflowError(`inputs.${name} must be a mapping`);
+    if (input.type !== undefined && !['string', 'number', 'integer', 'boolean'].includes(input.type as string)) {
+      throw new WorkflowError(`inputs.${name}.type must be string, number, integer or boolean`);
+    }
+    inputs[name] = input as WorkflowInput;
+  }
+  return inputs;
+}
+
+function validateStep(raw: unknown, index: number): WorkflowStep {
+  const where = `steps[${index}]`;
+  if (!isRecord(raw)) throw new WorkflowError(`${where} must be a mapping`);
+
+  const id = raw.id ?? `step${index + 1}`;
+  if (typeof id !== 'string' || !/^[A-Za-z_][\w-]*$/.test(id)) {
+    throw new WorkflowError(`${where}.id must be a word (letters, digits, _ and -)`);
+  }
+  if (typeof raw.tool !== 'string' || !raw.tool) {
+    throw new WorkflowError(`${where}.tool is required`);
+  }
+  const args = raw.arguments ?? {};
+  if (!isRecord(args)) throw new WorkflowError(`${where}.arguments must be a mapping`);
+  if (raw.if !== undefined && typeof raw.if !== 'string' && typeof raw.if !== 'boolean') {
+    throw new WorkflowError(`${where}.if must be a condition string`);
+  }
+  const onError = raw.onError ?? 'stop';
+  if (onError !== 'stop' && onError !== 'continue') {
+    throw new WorkflowError(`${where}.onError must be stop or continue`);
+  }
+  const retries = raw.retries ?? 0;
+  if (!Number.isInteger(retries) || (retries as number) < 0 || (retries as number) > MAX_RETRIES) {
+    throw new WorkflowError(`${where}.retries must be an integer from 0 to ${MAX_RETRIES}`);
+  }
+
+  return {
+    id,
+    tool: raw.tool,
+    arguments: args,
+    if: raw.if === undefined ? undefined : String(raw.if),
+    onError,
+    retries: retries as number,
+  };
+}
+
+/**
+ * Check a parsed definition and fill in defaults
+ */
+export function validateWorkflow(raw: unknown, fallbackName?: string): Workflow {
+  if (!isRecord(raw)) throw new WorkflowError('A workflow must be a mapping');
+
+  const name = raw.name ?? fallbackName;
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    throw new WorkflowError('name must be 1-48 letters, digits, _ or -');
+  }
+  if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+    throw new WorkflowError('steps must be a non-empty list');
+  }
+  const steps = raw.steps.map(validateStep);
+  const ids = new Set<string>();
+  for (const step of steps) {
+    if (ids.has(step.id)) throw new WorkflowError(`Duplicate step id '${step.id}'`);
+    ids.add(step.id);
+  }
+
+  const triggers = raw.triggers ?? [];
+  if (!Array.isArray(triggers) || triggers.some(trigger => typeof trigger !== 'string' || !trigger.trim())) {
+    throw new WorkflowError('triggers must be a list of phrases');
+  }
+  const inputs = validateInputs(raw.inputs);
+  for (const trigger of triggers as string[]) {
+    for (const [, placeholder] of trigger.matchAll(/\{(\w+)\}/g)) {
+      if (!(placeholder in inputs)) {
+        throw new WorkflowError(`Trigger '${trigger}' uses unknown input '${placeholder}'`);
+      }
+    }
+  }
+
+  return {
+    name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    triggers: triggers as string[],
+    inputs,
+    steps,
+    response: typeof raw.response === 'string' ? raw.response : undefined,
+  };
+}
+
+/**
+ * Parse YAML or JSON text (JSON is valid YAML, so both go through one parser)
+ */
+export function parseWorkflow(text: string, fallbackName?: string): Workflow {
+  let raw: unknown;
+  try {
+    raw = parseYaml(text);
+  } catch (error) {
+    throw new WorkflowError(`Not valid YAML or JSON: ${(error as Error).message}`);
+  }
+  return validateWorkflow(raw, fallbackName);
+}
+
+/**
+ * JSON Schema of a workflow's inputs, for tool definitions and argument parsing
+ */
+export function workflowInputSchema(workflow: Workflow): MCPTool['inputSchema'] {
+  const properties: Record<string, Record<string, unknown>> = {};
+  for (const [name, input] of Object.entries(workflow.inputs)) {
+    properties[name] = {
+      type: input.type ?? 'string',
+      ...(input.description ? { description: input.description } : {}),
+      ...(input.default !== undefined ? { default: input.default } : {}),
+    };
+  }
+  return {
+    type: 'object',
+    properties,
+    required: Object.entries(workflow.inputs)
+      .filter(([, input]) => input.required && input.default === undefined)
+      .map(([name]) => name),
+  };
+}
+
+/**
+ * The tool a workflow is offered to the model as. It is read-only only if
+ * every step's tool is.
+ */
+export function workflowTool(workflow: Workflow, readOnly: boolean): MCPTool {
+  const phrases = workflow.triggers.length > 0 ? ` Say: ${workflow.triggers.map(t => `"${t}"`).join(', ')}.` : '';
+  return {
+    name: `${WORKFLOW_TOOL_PREFIX}${workflow.name}`,
+    title: `run workflow ${workflow.name}`,
+    description: `${workflow.description ?? `Run the ${workflow.name} workflow`} ` +
+      `(steps: ${workflow.steps.map(step => step.tool).join(' → ')}).${phrases}`,
+    inputSchema: workflowInputSchema(workflow),
+    annotations: { readOnlyHint: readOnly },
+  };
+}
+
+/**
+ * Apply defaults, coerce typed inputs given as text, and require the rest
+ */
+export function resolveInputs(workflow: Workflow, given: Record<string, unknown>): Record<string, unknown> {
+  const inputs: Record<string, unknown> = { ...given };
+  for (const [name, spec] of Object.entries(workflow.inputs)) {
+    let value = inputs[name];
+    if (value === undefined || value === '') {
+      if (spec.default !== undefined) {
+        inputs[name] = spec.default;
+        continue;
+      }
+      if (spec.required) throw new WorkflowError(`Missing input '${name}'`);
+      continue;
+    }
+    if ((spec.type === 'number' || spec.type === 'integer') && typeof value === 'string') {
+      value = Number(value.trim());
+    } else if (spec.type === 'boolean' && typeof value === 'string') {
+      value = ['true', 'yes', 'on', '1'].includes(value.trim().toLowerCase())
+        ? true
+        : ['false', 'no', 'off', '0'].includes(value.trim().toLowerCase()) ? false : value;
+    }
+    const valid = spec.type === undefined || spec.type === 'string'
+      ? typeof value === 'string'
+      : spec.type === 'boolean'
+        ? typeof value === 'boolean'
+        : typeof value === 'number' && Number.isFinite(value) && (spec.type === 'number' || Number.isInteger(value));
+    if (!valid) {
+      throw new WorkflowError(`Input '${name}' must be ${spec.type === 'integer' ? 'an integer' : `a ${spec.type ?? 'string'}`}`);
+    }
+    inputs[name] = value;
+  }
+  return inputs;
+}
+
+function triggerPattern(trigger: string): RegExp {
+  const source = trigger
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .split(/(\{\w+\})/)
+    .map(part => {
+      const placeholder = /^\{(\w+)\}$/.exec(part);
+      if (placeholder) return `(?<${placeholder[1]}>.+?)`;
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    })
+    .join('');
+  return new RegExp(`^\\s*${source}\\s*[.!?]*\\s*$`, 'i');
+}
+
+/**
+ * Match an utterance against a workflow's trigger phrases; returns the
+ * captured inputs, or undefined when no phrase matches
+ */
+export function matchTrigger(workflow: Workflow, utterance: string): Record<string, string> | undefined {
+  for (const trigger of workflow.triggers) {
+    const match = triggerPattern(trigger).exec(utterance);
+    if (match) return { ...match.groups };
+  }
+  return undefined;
+}
+
+/**
+ * Workflow files in a directory, re-read when they change
+ */
+export class WorkflowRegistry {
+  readonly dir: string;
+  private cache = new Map<string, { mtimeMs: number; workflow?: Workflow; error?: string }>();
+
+  constructor(dir: string = defaultWorkflowsDir()) {
+    this.dir = dir;
+  }
+
+  list(): Workflow[] {
+    return this.load().workflows;
+  }
+
+  get(name: string): Workflow | undefined {
+    return this.list().find(workflow => workflow.name === name);
+  }
+
+  /** Files that could not be loaded, with the reason */
+  errors(): WorkflowLoadError[] {
+    return this.load().errors;
+  }
+
+  /**
+   * The workflow whose trigger phrase matches an utterance, with its inputs
+   */
+  match(utterance: string): { workflow: Workflow; inputs: Record<string, string> } | undefined {
+    for (const workflow of this.list()) {
+      const inputs = matchTrigger(workflow, utterance);
+      if (inputs) return { workflow, inputs };
+    }
+    return undefined;
+  }
+
+  private load(): { workflows: Workflow[]; errors: WorkflowLoadError[] } {
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.dir)
+        .filter(file => WORKFLOW_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { workflows: [], errors: [] };
+      throw error;
+    }
+
+    const workflows: Workflow[] = [];
+    const errors: WorkflowLoadError[] = [];
+    const seen = new Set<string>();
+    for (const file of files) {
+      const filePath = path.join(this.dir, file);
+      const mtimeMs = fs.statSync(filePath).mtimeMs;
+      let entry = this.cache.get(filePath);
+      if (entry?.mtimeMs !== mtimeMs) {
+        try {
+          const workflow = parseWorkflow(fs.readFileSync(filePath, 'utf-8'), path.basename(file, path.extname(file)));
+          entry = { mtimeMs, workflow: { ...workflow, source: filePath } };
+        } catch (error) {
+          entry = { mtimeMs, error: (error as Error).message };
+        }
+        this.cache.set(filePath, entry);
+      }
+
+      if (entry.error) {
+        errors.push({ file: filePath, error: entry.error });
+      } else if (seen.has(entry.workflow!.name)) {
+        errors.push({ file: filePath, error: `Another file already defines workflow '${entry.workflow!.name}'` });
+      } else {
+        seen.add(entry.workflow!.name);
+        workflows.push(entry.workflow!);
+      }
+    }
+    return { workflows, errors };
+  }
+}
+
+/**
+ * Run a workflow's steps in order, reporting progress through `emit`
+ */
+export async function runWorkflow(
+  workflow: Workflow,
+  givenInputs: Record<string, unknown>,
+  execute: WorkflowToolExecutor,
+  emit?: AgentEventHandler
+): Promise<WorkflowRun> {
+  const inputs = resolveInputs(workflow, givenInputs);
+  const runId = randomUUID();
+  const startedAt = new Date();
+  const steps: WorkflowStepResult[] = [];
+  const scope = {
+    inputs,
+    steps: {} as Record<string, { status: string; success: boolean; result?: unknown; error?: string }>,
+    workflow: { name: workflow.name, runId },
+    now: startedAt.toISOString(),
+  };
+  let failed = false;
+
+  for (const [index, step] of workflow.steps.entries()) {
+    const progress = { workflow: workflow.name, step: step.id, index: index + 1, total: workflow.steps.length };
+    const stepStarted = Date.now();
+    let record: WorkflowStepResult;
+
+    try {
+      if (step.if !== undefined && !evaluateCondition(step.if, scope)) {
+        emit?.({ type: 'workflow_step', ...progress, status: 'skipped' });
+        record = { id: step.id, tool: step.tool, status: 'skipped', attempts: 0, durationMs: 0 };
+      } else {
+        const args = renderTemplate(step.arguments, scope) as Record<string, unknown>;
+        emit?.({ type: 'workflow_step', ...progress, status: 'started' });
+        emit?.({ type: 'tool_call_started', id: step.id, name: step.tool, arguments: args });
+
+        let result: ToolResult = { success: false };
+        let attempts = 0;
+        while (attempts <= step.retries) {
+          attempts++;
+          result = await execute(step.tool, args, { runId, stepId: step.id, attempt: attempts });
+          if (result.success || attempts > step.retries) break;
+          emit?.({ type: 'workflow_step', ...progress, status: 'retrying', error: result.error });
+        }
+
+        emit?.({ type: 'tool_result', id: step.id, name: step.tool, result });
+        record = {
+          id: step.id,
+          tool: step.tool,
+          status: result.success ? 'succeeded' : 'failed',
+          arguments: args,
+          result: result.result,
+          error: result.success ? undefined : result.error ?? 'Tool call failed',
+          attempts,
+          durationMs: Date.now() - stepStarted,
+        };
+      }
+    } catch (error) {
+      // A template or condition that cannot be evaluated fails the step
+      if (!(error instanceof TemplateError)) throw error;
+      emit?.({ type: 'tool_result', id: step.id, name: step.tool, result: { success: false, error: error.message } });
+      record = { id: step.id, tool: step.tool, status: 'failed', error: error.message, attempts: 0, durationMs: 0 };
+    }
+
+    steps.push(record);
+    scope.steps[step.id] = {
+      status: record.status,
+      success: record.status === 'succeeded',
+      result: record.result,
+      error: record.error,
+    };
+
+    // Failures of `onError: continue` steps are tolerated
+    if (record.status === 'failed' && step.onError === 'stop') {
+      failed = true;
+      break;
+    }
+  }
+
+  const succeeded = steps.filter(step => step.status === 'succeeded').length;
+  const skipped = steps.filter(step => step.status === 'skipped').length;
+  let response = `Workflow ${workflow.name} ${failed ? 'failed' : 'finished'}: ` +
+    `${succeeded} of ${workflow.steps.length} steps succeeded${skipped ? `, ${skipped} skipped` : ''}.`;
+  const failure = failed ? steps[steps.length - 1] : undefined;
+  if (failure) {
+    response += ` Step ${failure.id} (${failure.tool}) failed: ${failure.error}`;
+  } else if (workflow.response) {
+    try {
+      response = String(renderTemplate(workflow.response, scope));
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+    }
+  }
+
+  return {
+    runId,
+    workflow: workflow.name,
+    status: failed ? 'failed' : 'succeeded',
+    inputs,
+    steps,
+    response,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+  };
+}
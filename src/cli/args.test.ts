@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { UsageError, formatFlags, parseArgs } from './args';
+import type { FlagSpecs, ParsedArgs } from './args';
+
+/**
+ * Table-driven spec for the shared flag parser
+ */
+
+const specs: FlagSpecs = {
+  interactive: { type: 'boolean', short: 'i', description: 'Start a chat' },
+  json: { type: 'boolean', description: 'Print JSON' },
+  server: { type: 'string', short: 's', value: 'URL', description: 'Agent API URL' },
+  header: { type: 'string', description: 'Extra HTTP header' },
+  hidden: { type: 'string' },
+};
+
+describe('parseArgs', () => {
+  const rows: { argv: string[]; expected: ParsedArgs }[] = [
+    { argv: [], expected: { positionals: [], flags: {} } },
+    { argv: ['tools', 'call', 'send_email'], expected: { positionals: ['tools', 'call', 'send_email'], flags: {} } },
+    { argv: ['--server=http://a:1'], expected: { positionals: [], flags: { server: 'http://a:1' } } },
+    { argv: ['--server', 'http://a:1', 'chat'], expected: { positionals: ['chat'], flags: { server: 'http://a:1' } } },
+    { argv: ['-s', 'http://a:1'], expected: { positionals: [], flags: { server: 'http://a:1' } } },
+    // Values split at the first `=` only
+    { argv: ['--header=X-Trace=a=b'], expected: { positionals: [], flags: { header: 'X-Trace=a=b' } } },
+    { argv: ['--server='], expected: { positionals: [], flags: { server: '' } } },
+    // A value may look like a flag when it follows a string flag
+    { argv: ['--header', '--json'], expected: { positionals: [], flags: { header: '--json' } } },
+    { argv: ['-i', '--json'], expected: { positionals: [], flags: { interactive: true, json: true } } },
+    { argv: ['--json=false'], expected: { positionals: [], flags: { json: false } } },
+    { argv: ['--no-json'], expected: { positionals: [], flags: { json: false } } },
+    { argv: ['--json', '--no-json'], expected: { positionals: [], flags: { json: false } } },
+    { argv: ['say', '-', '--', '--json', '-i'], expected: { positionals: ['say', '-', '--json', '-i'], flags: {} } },
+    { argv: ['--hidden', 'x'], expected: { positionals: [], flags: { hidden: 'x' } } },
+  ];
+
+  for (const { argv, expected } of rows) {
+    test(JSON.stringify(argv), () => {
+      expect(parseArgs(argv, specs)).toEqual(expected);
+    });
+  }
+
+  const invalid: { argv: string[]; message: string }[] = [
+    { argv: ['--verbose'], message: 'Unknown option: --verbose' },
+    { argv: ['-x'], message: 'Unknown option: -x' },
+    { argv: ['--no-server'], message: 'Unknown option: --no-server' },
+    { argv: ['--no-json=true'], message: 'Unknown option: --no-json' },
+    { argv: ['--json=yes'], message: '--json does not take a value' },
+    { argv: ['--server'], message: '--server needs a value' },
+    { argv: ['chat', '-s'], message: '--server needs a value' },
+  ];
+
+  for (const { argv, message } of invalid) {
+    test(`rejects ${JSON.stringify(argv)}`, () => {
+      expect(() => parseArgs(argv, specs)).toThrow(UsageError);
+      expect(() => parseArgs(argv, specs)).toThrow(message);
+    });
+  }
+});
+
+describe('formatFlags', () => {
+  test('aligns described flags and leaves out the rest', () => {
+    expect(formatFlags(specs).split('\n')).toEqual([
+      '  -i, --interactive       Start a chat',
+      '  --json                  Print JSON',
+      '  -s, --server=URL        Agent API URL',
+      '  --header=VALUE          Extra HTTP header',
+    ]);
+  });
+});
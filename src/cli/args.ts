@@ -0,0 +1,111 @@
+/**
+ * Command-line flag parsing
+ * Accepts `--name=value`, `--name value`, `--flag`, `--no-flag`, declared
+ * short aliases (`-i`) and `--` to end flag parsing. Values are split at the
+ * first `=` only, so `--header=a=b` keeps `a=b`.
+ */
+
+export interface FlagSpec {
+  type: 'string' | 'boolean';
+  /** Single-letter alias, without the dash */
+  short?: string;
+  description?: string;
+  /** Placeholder shown in help, e.g. PATH */
+  value?: string;
+}
+
+export type FlagSpecs = Record<string, FlagSpec>;
+
+export interface ParsedArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Bad command-line usage; the message is meant for the user as-is
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export function parseArgs(argv: string[], specs: FlagSpecs): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+  const shortNames = new Map(
+    Object.entries(specs)
+      .filter(([, spec]) => spec.short)
+      .map(([name, spec]) => [spec.short!, name])
+  );
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (arg === '-' || !arg.startsWith('-')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    let name: string;
+    let value: string | undefined;
+    if (arg.startsWith('--')) {
+      const equals = arg.indexOf('=');
+      name = equals === -1 ? arg.slice(2) : arg.slice(2, equals);
+      value = equals === -1 ? undefined : arg.slice(equals + 1);
+    } else {
+      const long = shortNames.get(arg.slice(1));
+      if (!long) throw new UsageError(`Unknown option: ${arg}`);
+      name = long;
+    }
+
+    const spec = specs[name];
+    if (!spec && name.startsWith('no-') && specs[name.slice(3)]?.type === 'boolean' && value === undefined) {
+      flags[name.slice(3)] = false;
+      continue;
+    }
+    if (!spec) {
+      throw new UsageError(`Unknown option: --${name}`);
+    }
+
+    if (spec.type === 'boolean') {
+      if (value === undefined) {
+        flags[name] = true;
+      } else if (value === 'true' || value === 'false') {
+        flags[name] = value === 'true';
+      } else {
+        throw new UsageError(`--${name} does not take a value`);
+      }
+      continue;
+    }
+
+    if (value === undefined) {
+      if (i + 1 >= argv.length) {
+        throw new UsageError(`--${name} needs a value`);
+      }
+      value = argv[++i];
+    }
+    flags[name] = value;
+  }
+
+  return { positionals, flags };
+}
+
+/**
+ * Help lines for a set of flags, aligned like the rest of the CLI help
+ */
+export function formatFlags(specs: FlagSpecs): string {
+  return Object.entries(specs)
+    .filter(([, spec]) => spec.description)
+    .map(([name, spec]) => {
+      const short = spec.short ? `-${spec.short}, ` : '';
+      const label = `${short}--${name}${spec.type === 'string' ? `=${spec.value ?? 'VALUE'}` : ''}`;
+      return `  ${label.padEnd(24)}${spec.description}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,416 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AgentRequest, AgentResponse, ToolCallRecord } from '../agent/agent-server';
+import { UsageError } from './args';
+import { ExitCode, exitCodeFor } from './exit-codes';
+
+/**
+ * `voice-cli batch` - run a file of commands through the agent
+ *
+ * Input is JSONL (`{"id": "...", "input": "...", "sessionId"?: "...", "context"?: {}}`
+ * or a bare JSON string per line) or plain text with one command per line;
+ * blank lines and `#` comments are skipped. Every finished command is written
+ * to a checkpoint, so an interrupted or stopped batch can be resumed.
+ */
+
+export interface BatchCommand {
+  /** Stable id used for checkpoints: the JSONL `id`, or `line-N` */
+  id: string;
+  line: number;
+  input: string;
+  sessionId?: string;
+  context?: Record<string, unknown>;
+}
+
+export type BatchStatus = 'succeeded' | 'tool_failed' | 'agent_error' | 'confirmation_required' | 'skipped';
+
+export interface BatchResult {
+  id: string;
+  line: number;
+  input: string;
+  status: BatchStatus;
+  response?: string;
+  sessionId?: string;
+  toolsUsed: string[];
+  toolCalls: ToolCallRecord[];
+  /** Set for `confirmation_required` */
+  pendingActionId?: string;
+  error?: string;
+  startedAt?: string;
+  durationMs?: number;
+}
+
+export interface BatchReport {
+  file: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  concurrency: number;
+  stopOnError: boolean;
+  summary: Record<BatchStatus, number> & { total: number };
+  results: BatchResult[];
+}
+
+export interface BatchOptions {
+  /** Commands in flight at once (default: 1) */
+  concurrency?: number;
+  /** Skip the remaining commands after the first failure (default: false) */
+  stopOnError?: boolean;
+  checkpoint?: BatchCheckpoint;
+  /** Called as each command finishes, with the number finished so far */
+  onResult?: (result: BatchResult, finished: number, total: number) => void;
+}
+
+const DONE_STATUSES: BatchStatus[] = ['succeeded', 'confirmation_required'];
+
+/**
+ * Parse a command file; throws with the line number of malformed JSONL
+ */
+export function parseBatchFile(content: string): BatchCommand[] {
+  const lines = content.split(/\r?\n/);
+  const firstCommand = lines.map(line => line.trim()).find(line => line && !line.startsWith('#'));
+  const jsonl = firstCommand?.startsWith('{') ?? false;
+
+  const commands: BatchCommand[] = [];
+  const seen = new Set<string>();
+  lines.forEach((raw, index) => {
+    const text = raw.trim();
+    const line = index + 1;
+    if (!text || text.startsWith('#')) return;
+
+    let command: BatchCommand;
+    if (!jsonl) {
+      command = { id: `line-${line}`, line, input: text };
+    } else {
+      let entry: unknown;
+      try {
+        entry = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Line ${line}: ${(error as Error).message}`);
+      }
+      if (typeof entry === 'string') {
+        entry = { input: entry };
+      }
+      const record = entry as Partial<BatchCommand> | null;
+      if (!record || typeof record !== 'object' || typeof record.input !== 'string' || !record.input.trim()) {
+        throw new Error(`Line ${line}: expected an object with an "input" string`);
+      }
+      command = {
+        id: record.id !== undefined ? String(record.id) : `line-${line}`,
+        line,
+        input: record.input.trim(),
+        sessionId: typeof record.sessionId === 'string' ? record.sessionId : undefined,
+        context: record.context && typeof record.context === 'object' ? record.context : undefined,
+      };
+    }
+
+    if (seen.has(command.id)) {
+      throw new Error(`Line ${line}: duplicate id '${command.id}'`);
+    }
+    seen.add(command.id);
+    commands.push(command);
+  });
+  return commands;
+}
+
+/**
+ * Finished commands, persisted after every result
+ * A command counts as done on resume only if its input is unchanged.
+ */
+export class BatchCheckpoint {
+  readonly filePath: string;
+  private results = new Map<string, BatchResult>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load an existing checkpoint; a missing file is an empty checkpoint
+   */
+  load(): void {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+    const data = JSON.parse(raw) as { results?: BatchResult[] };
+    this.results = new Map((data.results ?? []).map(result => [result.id, result]));
+  }
+
+  /**
+   * The earlier result for a command, if it finished and need not run again
+   */
+  completed(command: BatchCommand): BatchResult | undefined {
+    const result = this.results.get(command.id);
+    return result && result.input === command.input && DONE_STATUSES.includes(result.status) ? result : undefined;
+  }
+
+  record(result: BatchResult): void {
+    this.results.set(result.id, result);
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify({ results: [...this.results.values()] }, null, 2), 'utf-8');
+    fs.renameSync(temp, this.filePath);
+  }
+}
+
+/**
+ * Classify an agent response the same way `run` picks its exit code
+ */
+export function resultFromResponse(command: BatchCommand, response: AgentResponse): BatchResult {
+  const statusByCode: Record<number, BatchStatus> = {
+    [ExitCode.OK]: 'succeeded',
+    [ExitCode.TOOL_FAILED]: 'tool_failed',
+    [ExitCode.CONFIRMATION_REQUIRED]: 'confirmation_required',
+  };
+  const status = statusByCode[exitCodeFor(response)] ?? 'agent_error';
+  return {
+    id: command.id,
+    line: command.line,
+    input: command.input,
+    status,
+    response: response.response,
+    sessionId: response.sessionId,
+    toolsUsed: response.toolsUsed ?? [],
+    toolCalls: response.toolCalls ?? [],
+    pendingActionId: response.pendingAction?.actionId,
+    error: status === 'agent_error' ? `Stopped: ${response.stopReason}` : undefined,
+  };
+}
+
+/**
+ * Run every command not already done in the checkpoint, `concurrency` at a
+ * time. Results come back in file order.
+ */
+export async function runBatch(
+  commands: BatchCommand[],
+  run: (request: AgentRequest, command: BatchCommand) => Promise<AgentResponse>,
+  options: BatchOptions = {}
+): Promise<BatchResult[]> {
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const results: Array<BatchResult | undefined> = commands.map(command => options.checkpoint?.completed(command));
+  let finished = results.filter(Boolean).length;
+  let next = 0;
+  let stopping = false;
+
+  const worker = async (): Promise<void> => {
+    while (!stopping && next < commands.length) {
+      const index = next++;
+      if (results[index]) continue;
+      const command = commands[index];
+
+      const startedAt = new Date();
+      let result: BatchResult;
+      try {
+        const response = await run({
+          userInput: command.input,
+          sessionId: command.sessionId,
+          context: { source: 'voice-cli-batch', commandId: command.id, ...command.context },
+        }, command);
+        result = resultFromResponse(command, response);
+      } catch (error) {
+        result = {
+          id: command.id,
+          line: command.line,
+          input: command.input,
+          status: 'agent_error',
+          toolsUsed: [],
+          toolCalls: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      result.startedAt = startedAt.toISOString();
+      result.durationMs = Date.now() - startedAt.getTime();
+
+      results[index] = result;
+      options.checkpoint?.record(result);
+      options.onResult?.(result, ++finished, commands.length);
+
+      if (options.stopOnError && (result.status === 'agent_error' || result.status === 'tool_failed')) {
+        stopping = true;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, commands.length) }, worker));
+
+  return commands.map((command, index) => results[index] ?? {
+    id: command.id,
+    line: command.line,
+    input: command.input,
+    status: 'skipped',
+    toolsUsed: [],
+    toolCalls: [],
+  });
+}
+
+export function summarize(results: BatchResult[]): BatchReport['summary'] {
+  const summary = {
+    total: results.length,
+    succeeded: 0,
+    tool_failed: 0,
+    agent_error: 0,
+    confirmation_required: 0,
+    skipped: 0,
+  };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+  return summary;
+}
+
+/**
+ * Exit code for the whole batch: the most severe outcome wins
+ */
+export function batchExitCode(results: BatchResult[]): number {
+  const statuses = new Set(results.map(result => result.status));
+  if (statuses.has('agent_error')) return ExitCode.AGENT_ERROR;
+  if (statuses.has('tool_failed')) return ExitCode.TOOL_FAILED;
+  if (statuses.has('confirmation_required')) return ExitCode.CONFIRMATION_REQUIRED;
+  return ExitCode.OK;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  succeeded: '✅ succeeded',
+  tool_failed: '⚠️ tool failed',
+  agent_error: '❌ agent error',
+  confirmation_required: '⏸️ needs confirmation',
+  skipped: '⏭️ skipped',
+};
+
+function cell(text: string, max: number = 80): string {
+  const flat = text.replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+  return flat.length > max ? `${flat.slice(0, max - 3)}...` : flat;
+}
+
+export function formatMarkdownReport(report: BatchReport): string {
+  const { summary } = report;
+  const lines = [
+    `# Batch report: ${path.basename(report.file)}`,
+    '',
+    `Started ${report.startedAt}, took ${(report.durationMs / 1000).toFixed(1)}s ` +
+      `with concurrency ${report.concurrency}${report.stopOnError ? ', stopping on error' : ''}.`,
+    '',
+    '| Total | Succeeded | Tool failed | Agent error | Needs confirmation | Skipped |',
+    '|------:|----------:|------------:|------------:|-------------------:|--------:|',
+    `| ${summary.total} | ${summary.succeeded} | ${summary.tool_failed} | ${summary.agent_error} | ` +
+      `${summary.confirmation_required} | ${summary.skipped} |`,
+    '',
+    '## Commands',
+    '',
+    '| Line | Id | Command | Status | Tools | Time |',
+    '|-----:|----|---------|--------|-------|-----:|',
+    ...report.results.map(result =>
+      `| ${result.line} | ${cell(result.id, 30)} | ${cell(result.input)} | ${STATUS_LABELS[result.status]} | ` +
+      `${result.toolsUsed.join(', ') || '-'} | ${result.durationMs !== undefined ? `${(result.durationMs / 1000).toFixed(1)}s` : '-'} |`
+    ),
+  ];
+
+  const failures = report.results.filter(result => result.status === 'agent_error' || result.status === 'tool_failed');
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '');
+    for (const result of failures) {
+      lines.push(`### ${result.id} (line ${result.line})`, '', `> ${cell(result.input, 200)}`, '');
+      if (result.error) lines.push(`- Error: ${result.error}`);
+      for (const call of result.toolCalls.filter(call => !call.result.success)) {
+        lines.push(`- \`${call.name}\` failed: ${call.result.error ?? 'unknown error'}`);
+      }
+      lines.push('');
+    }
+  }
+
+  const pending = report.results.filter(result => result.status === 'confirmation_required');
+  if (pending.length > 0) {
+    lines.push('', '## Awaiting confirmation', '');
+    for (const result of pending) {
+      lines.push(`- ${result.id}: ${cell(result.response ?? '', 200)} (action \`${result.pendingActionId}\`)`);
+    }
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+/**
+ * Write `<base>.json` and `<base>.md`; resolves with both paths
+ */
+export function writeBatchReport(report: BatchReport, base: string): { json: string; markdown: string } {
+  const stem = base.replace(/\.(json|md)$/i, '');
+  const paths = { json: `${stem}.json`, markdown: `${stem}.md` };
+  fs.mkdirSync(path.dirname(paths.json), { recursive: true });
+  fs.writeFileSync(paths.json, `${JSON.stringify(report, null, 2)}\n`, 'utf-8');
+  fs.writeFileSync(paths.markdown, formatMarkdownReport(report), 'utf-8');
+  return paths;
+}
+
+const PROGRESS_ICONS: Record<BatchStatus, string> = {
+  succeeded: '✓',
+  tool_failed: '✗',
+  agent_error: '✗',
+  confirmation_required: '?',
+  skipped: '-',
+};
+
+/**
+ * Run the batch command; resolves with the process exit code
+ */
+export async function runBatchCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  run: (request: AgentRequest, command: BatchCommand) => Promise<AgentResponse>
+): Promise<number> {
+  const [file] = args;
+  if (!file || args.length > 1) {
+    throw new UsageError('Usage: voice-cli batch FILE [--concurrency=N] [--stop-on-error] [--resume]');
+  }
+  const concurrency = flags.concurrency === undefined ? 1 : Number(flags.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('Invalid --concurrency: expected a positive integer');
+  }
+
+  const commands = parseBatchFile(fs.readFileSync(file, 'utf-8'));
+  const checkpoint = new BatchCheckpoint(
+    typeof flags.checkpoint === 'string' ? flags.checkpoint : `${file}.checkpoint.json`
+  );
+  if (flags.resume) {
+    checkpoint.load();
+    const done = commands.filter(command => checkpoint.completed(command)).length;
+    console.log(`Resuming from ${checkpoint.filePath}: ${done} of ${commands.length} commands already done`);
+  }
+
+  const stopOnError = flags['stop-on-error'] === true;
+  const startedAt = new Date();
+  const results = await runBatch(commands, run, {
+    concurrency,
+    stopOnError,
+    checkpoint,
+    onResult: (result, finished, total) => {
+      const tools = result.toolsUsed.length > 0 ? ` [${result.toolsUsed.join(', ')}]` : '';
+      const detail = result.error ? `: ${result.error}` : tools;
+      console.log(`[${finished}/${total}] ${PROGRESS_ICONS[result.status]} ${result.id} ` +
+        `(${((result.durationMs ?? 0) / 1000).toFixed(1)}s)${detail}`);
+    },
+  });
+
+  const finishedAt = new Date();
+  const report: BatchReport = {
+    file: path.resolve(file),
+    startedAt: startedAt.toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - startedAt.getTime(),
+    concurrency,
+    stopOnError,
+    summary: summarize(results),
+    results,
+  };
+  const base = typeof flags.report === 'string' ? flags.report : `${file.replace(/\.[^./\\]+$/, '')}.report`;
+  const paths = writeBatchReport(report, base);
+
+  const { summary } = report;
+  console.log(`\n${summary.succeeded}/${summary.total} succeeded, ${summary.tool_failed} tool failures, ` +
+    `${summary.agent_error} agent errors, ${summary.confirmation_required} awaiting confirmation, ${summary.skipped} skipped`);
+  console.log(`Report: ${paths.markdown} and ${paths.json}`);
+  return batchExitCode(results);
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError, loadConfig } from './config';
+
+/**
+ * Layering of defaults, config file, profile, environment and flags. Every
+ * test passes its own environment and a config file in a temporary directory.
+ */
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  file = path.join(dir, 'rube.config.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function writeConfig(config: Record<string, unknown>): void {
+  fs.writeFileSync(file, JSON.stringify(config));
+}
+
+/** The problems of the ConfigError thrown by `load` */
+function problems(load: () => unknown): string[] {
+  try {
+    load();
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  throw new Error('Expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+  test('falls back to the built-in defaults', () => {
+    writeConfig({});
+    const config = loadConfig({ config: file }, {});
+
+    expect(config.filePath).toBe(file);
+    expect(config.get('agent.port')).toBe(3000);
+    expect(config.get('agent.url')).toBe('http://localhost:3000');
+    expect(config.get('agent.model')).toBeUndefined();
+    expect(config.isExplicit('agent.port')).toBe(false);
+    expect(config.isExplicit('agent.url')).toBe(false);
+  });
+
+  test('layers file < profile < environment < flag', () => {
+    writeConfig({
+      agent: { port: 4000, host: 'file-host', model: 'file-model' },
+      speech: { language: 'en' },
+      profile: 'dev',
+      profiles: { dev: { agent: { port: 5000, model: 'profile-model' } } },
+    });
+    const config = loadConfig({ config: file, port: '7000' }, { AGENT_API_PORT: '6000', AGENT_MODEL: 'env-model' });
+    const source = (key: string) => config.entries().find(entry => entry.spec.key === key)?.source;
+
+    expect(config.profile).toBe('dev');
+    expect(config.get('agent.port')).toBe(7000);
+    expect(source('agent.port')).toBe('flag --port');
+    expect(config.get('agent.model')).toBe('env-model');
+    expect(source('agent.model')).toBe('env AGENT_MODEL');
+    expect(config.get('agent.host')).toBe('file-host');
+    expect(source('agent.host')).toBe(`config ${file}`);
+    expect(config.get('agent.url')).toBe('http://file-host:7000');
+    expect(config.isExplicit('agent.host')).toBe(true);
+  });
+
+  test('--profile beats RUBE_PROFILE, which beats the file', () => {
+    writeConfig({
+      profile: 'a',
+      profiles: { a: { speech: { language: 'de' } }, b: { speech: { language: 'fr' } }, c: { speech: { language: 'es' } } },
+    });
+    expect(loadConfig({ config: file }, {}).get('speech.language')).toBe('de');
+    expect(loadConfig({ config: file }, { RUBE_PROFILE: 'b' }).get('speech.language')).toBe('fr');
+    expect(loadConfig({ config: file, profile: 'c' }, { RUBE_PROFILE: 'b' }).get('speech.language')).toBe('es');
+  });
+
+  test('finds the file through RUBE_CONFIG', () => {
+    writeConfig({ agent: { port: 4000 } });
+    expect(loadConfig({}, { RUBE_CONFIG: file }).get('agent.port')).toBe(4000);
+  });
+
+  test('coerces booleans and lists from the environment', () => {
+    writeConfig({});
+    const config = loadConfig({ config: file }, { AGENT_REQUIRE_AUTH: '1', AGENT_CORS_ORIGINS: 'http://a.test, http://b.test,' });
+    expect(config.get('agent.requireAuth')).toBe(true);
+    expect(config.get('agent.corsOrigins')).toEqual(['http://a.test', 'http://b.test']);
+  });
+
+  test('--record and --replay set the cassette', () => {
+    writeConfig({});
+    const replay = loadConfig({ config: file, replay: 'run.json' }, {});
+    expect([replay.get('cassette.path'), replay.get('cassette.mode')]).toEqual(['run.json', 'replay']);
+    const record = loadConfig({ config: file, record: 'run.json' }, { RUBE_CASSETTE_MODE: 'replay' });
+    expect([record.get('cassette.path'), record.get('cassette.mode')]).toEqual(['run.json', 'record']);
+  });
+
+  test('lists every problem at once', () => {
+    writeConfig({
+      agent: { prot: 3000, port: 70000 },
+      speech: { stt: 'dragon' },
+      profiles: { dev: { agent: { modle: 'x' } } },
+    });
+    expect(problems(() => loadConfig({ config: file, profile: 'prod' }, { AGENT_REQUIRE_AUTH: 'maybe', RUBE_TIMEZONE: 'Mars/Olympus' }))).toEqual([
+      `Profile 'prod' is not defined in ${file}`,
+      "Unknown setting 'agent.prot' in config file",
+      "Unknown setting 'agent.modle' in profile 'dev'",
+      'agent.requireAuth from env AGENT_REQUIRE_AUTH: expected true or false, got "maybe"',
+      `speech.stt from config ${file}: expected one of openai, whisper-cpp, got "dragon"`,
+      'agent.port must be an integer between 0 and 65535, got 70000',
+      'agent.timezone must be an IANA time zone such as Europe/Berlin, got Mars/Olympus',
+    ]);
+  });
+
+  test('reports a missing or unreadable file', () => {
+    expect(problems(() => loadConfig({ config: path.join(dir, 'missing.json') }, {}))).toEqual([
+      `Config file not found: ${path.join(dir, 'missing.json')}`,
+    ]);
+    fs.writeFileSync(file, '{ not json');
+    expect(problems(() => loadConfig({ config: file }, {}))[0]).toStartWith(`${file}: `);
+  });
+
+  test('refuses unknown settings by key', () => {
+    writeConfig({});
+    expect(() => loadConfig({ config: file }, {}).get('agent.prot')).toThrow('Unknown setting: agent.prot');
+  });
+});
@@ -0,0 +1,379 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { STT_PROVIDERS, TTS_PROVIDERS } from '../voice/speech-provider';
+import { isValidTimeZone } from '../lib/time-expression';
+import { LOG_FORMATS, LOG_LEVELS } from '../lib/logger';
+import { UsageError } from './args';
+import type { FlagSpecs } from './args';
+
+/**
+ * Layered CLI configuration
+ *
+ * Every setting is resolved from, lowest precedence first:
+ *   built-in default < config file < selected profile < environment < flag
+ *
+ * The config file is JSON with the same nesting as the setting keys, plus
+ * named profiles that override parts of it:
+ * {
+ *   "agent": { "port": 3000, "model": "gpt-4o-mini" },
+ *   "speech": { "language": "en" },
+ *   "profile": "offline",
+ *   "profiles": {
+ *     "offline": { "speech": { "stt": "whisper-cpp", "tts": "piper" } }
+ *   }
+ * }
+ * It is looked up at --config, RUBE_CONFIG, ./rube.config.json and
+ * ~/.rube/config.json, in that order.
+ */
+
+export type SettingValue = string | number | boolean | string[];
+
+export interface SettingSpec {
+  key: string;
+  type: 'string' | 'number' | 'boolean' | 'list';
+  description: string;
+  env?: string;
+  flag?: string;
+  default?: SettingValue;
+  choices?: readonly string[];
+  /** Masked by `config show` */
+  secret?: boolean;
+}
+
+export const SETTINGS: SettingSpec[] = [
+  { key: 'openai.apiKey', type: 'string', env: 'OPENAI_API_KEY', flag: 'api-key', secret: true, description: 'OpenAI API key' },
+  { key: 'openai.baseURL', type: 'string', env: 'OPENAI_BASE_URL', flag: 'base-url', description: 'OpenAI-compatible API base URL' },
+  { key: 'agent.mode', type: 'string', env: 'AGENT_MODE', flag: 'agent-mode', default: 'auto', choices: ['auto', 'remote', 'embedded'], description: 'auto: reuse a running server or start one in-process; remote: require a running server; embedded: always start one' },
+  { key: 'agent.host', type: 'string', env: 'AGENT_API_HOST', flag: 'host', default: 'localhost', description: 'Agent API host' },
+  { key: 'agent.port', type: 'number', env: 'AGENT_API_PORT', flag: 'port', default: 3000, description: 'Agent API port' },
+  { key: 'agent.url', type: 'string', env: 'AGENT_URL', flag: 'server', description: 'Agent API URL (default: from agent.host and agent.port)' },
+  { key: 'agent.token', type: 'string', env: 'AGENT_API_TOKEN', flag: 'token', secret: true, description: 'Bearer token sent to the agent server' },
+  { key: 'agent.model', type: 'string', env: 'AGENT_MODEL', flag: 'model', description: 'Chat model for the agent' },
+  { key: 'agent.requireAuth', type: 'boolean', env: 'AGENT_REQUIRE_AUTH', default: false, description: 'Require bearer tokens on the agent server' },
+  { key: 'agent.corsOrigins', type: 'list', env: 'AGENT_CORS_ORIGINS', description: 'Browser origins allowed to call the agent API' },
+  { key: 'agent.maxBodySize', type: 'string', env: 'AGENT_MAX_BODY_SIZE', description: 'Maximum agent API request body' },
+  { key: 'agent.sessionDir', type: 'string', env: 'RUBE_SESSION_DIR', description: 'Session storage directory' },
+  { key: 'agent.auditLog', type: 'string', env: 'RUBE_AUDIT_LOG', flag: 'audit-log', description: 'Audit log of executed tool calls' },
+  { key: 'agent.keystore', type: 'string', env: 'RUBE_KEYSTORE', flag: 'keystore', description: 'Agent server token file' },
+  { key: 'agent.schedules', type: 'string', env: 'RUBE_SCHEDULES_FILE', description: 'Scheduled jobs file' },
+  { key: 'agent.workflowsDir', type: 'string', env: 'RUBE_WORKFLOWS_DIR', description: 'Directory of workflow definitions' },
+  { key: 'agent.directory', type: 'string', env: 'RUBE_DIRECTORY_FILE', description: 'Contacts, channels and repos directory' },
+  { key: 'agent.timezone', type: 'string', env: 'RUBE_TIMEZONE', flag: 'timezone', description: 'IANA time zone for spoken dates and times (default: the system time zone)' },
+  { key: 'mcp.url', type: 'string', env: 'RUBE_MCP_URL', flag: 'mcp-url', description: 'Rube MCP endpoint' },
+  { key: 'mcp.apiKey', type: 'string', env: 'RUBE_API_KEY', secret: true, description: 'Bearer token for the Rube MCP endpoint' },
+  { key: 'mcp.config', type: 'string', env: 'MCP_CONFIG_PATH', flag: 'mcp-config', description: 'MCP servers config file (default: ./mcp.config.json if present)' },
+  { key: 'mcp.connections', type: 'string', env: 'RUBE_CONNECTIONS_FILE', description: 'Encrypted integration connection tokens' },
+  { key: 'mcp.mockTools', type: 'boolean', env: 'RUBE_USE_MOCK_TOOLS', flag: 'mock-tools', default: false, description: 'Use built-in mock tools instead of MCP servers' },
+  { key: 'speech.stt', type: 'string', env: 'STT_PROVIDER', flag: 'stt', default: 'openai', choices: STT_PROVIDERS, description: 'Speech-to-text provider' },
+  { key: 'speech.tts', type: 'string', env: 'TTS_PROVIDER', flag: 'tts', default: 'openai', choices: TTS_PROVIDERS, description: 'Text-to-speech provider' },
+  { key: 'speech.language', type: 'string', env: 'SPEECH_LANGUAGE', flag: 'language', default: 'en', description: 'Spoken language code' },
+  { key: 'speech.openai.transcriptionModel', type: 'string', env: 'OPENAI_STT_MODEL', description: 'OpenAI transcription model' },
+  { key: 'speech.openai.speechModel', type: 'string', env: 'OPENAI_TTS_MODEL', description: 'OpenAI speech model' },
+  { key: 'speech.openai.voice', type: 'string', env: 'OPENAI_TTS_VOICE', description: 'OpenAI voice' },
+  { key: 'speech.whisperCpp.binary', type: 'string', env: 'WHISPER_CPP_BIN', description: 'whisper.cpp binary' },
+  { key: 'speech.whisperCpp.model', type: 'string', env: 'WHISPER_CPP_MODEL', description: 'whisper.cpp ggml model path' },
+  { key: 'speech.whisperCpp.threads', type: 'number', env: 'WHISPER_CPP_THREADS', description: 'whisper.cpp thread count' },
+  { key: 'speech.piper.binary', type: 'string', env: 'PIPER_BIN', description: 'Piper binary' },
+  { key: 'speech.piper.model', type: 'string', env: 'PIPER_MODEL', description: 'Piper voice model path' },
+  { key: 'speech.espeak.binary', type: 'string', env: 'ESPEAK_BIN', description: 'espeak binary' },
+  { key: 'speech.espeak.voice', type: 'string', env: 'ESPEAK_VOICE', description: 'espeak voice' },
+  { key: 'speech.ffmpeg', type: 'string', env: 'FFMPEG_BIN', description: 'ffmpeg binary' },
+  { key: 'realtime.enabled', type: 'boolean', env: 'VOICE_REALTIME', flag: 'realtime', default: false, description: 'Stream audio over the Realtime API' },
+  { key: 'realtime.model', type: 'string', env: 'OPENAI_REALTIME_MODEL', description: 'Realtime model' },
+  { key: 'cassette.path', type: 'string', env: 'RUBE_CASSETTE', description: 'Cassette file to record or replay' },
+  { key: 'cassette.mode', type: 'string', env: 'RUBE_CASSETTE_MODE', default: 'replay', choices: ['record', 'replay'], description: 'Cassette mode' },
+  { key: 'log.level', type: 'string', env: 'RUBE_LOG_LEVEL', flag: 'log-level', default: 'info', choices: LOG_LEVELS, description: 'Least severe log level written to stderr' },
+  { key: 'log.format', type: 'string', env: 'RUBE_LOG_FORMAT', choices: LOG_FORMATS, description: 'Log format (default: text on a terminal, json otherwise)' },
+];
+
+/** Flags every command accepts: config selection plus one per flag-backed setting */
+export const CONFIG_FLAGS: FlagSpecs = {
+  config: { type: 'string', value: 'PATH', description: 'Config file (default: RUBE_CONFIG, ./rube.config.json, ~/.rube/config.json)' },
+  profile: { type: 'string', value: 'NAME', description: 'Config profile to apply (default: RUBE_PROFILE or "profile" in the file)' },
+  record: { type: 'string', value: 'PATH', description: 'Record every model, speech and MCP call to a cassette' },
+  replay: { type: 'string', value: 'PATH', description: 'Replay a cassette; unmatched requests fail the run' },
+  ...Object.fromEntries(
+    SETTINGS.filter(spec => spec.flag).map(spec => [
+      spec.flag!,
+      {
+        type: spec.type === 'boolean' ? 'boolean' : 'string',
+        description: spec.choices ? `${spec.description} (${spec.choices.join(', ')})` : spec.description,
+      },
+    ])
+  ),
+};
+
+export interface ResolvedSetting {
+  spec: SettingSpec;
+  value?: SettingValue;
+  /** Where the value came from, e.g. `env OPENAI_API_KEY` */
+  source: string;
+}
+
+/**
+ * Invalid configuration; lists every problem found
+ */
+export class ConfigError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+interface ConfigFile {
+  profile?: string;
+  profiles?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export class CliConfig {
+  readonly filePath?: string;
+  readonly profile?: string;
+  private settings: Map<string, ResolvedSetting>;
+
+  constructor(settings: Map<string, ResolvedSetting>, filePath?: string, profile?: string) {
+    this.settings = settings;
+    this.filePath = filePath;
+    this.profile = profile;
+  }
+
+  get<T extends SettingValue>(key: string): T | undefined {
+    if (!this.settings.has(key)) {
+      throw new Error(`Unknown setting: ${key}`);
+    }
+    return this.settings.get(key)!.value as T | undefined;
+  }
+
+  /** Whether the value was set anywhere other than the built-in default */
+  isExplicit(key: string): boolean {
+    const source = this.settings.get(key)?.source ?? 'default';
+    return !source.startsWith('default');
+  }
+
+  entries(): ResolvedSetting[] {
+    return [...this.settings.values()];
+  }
+}
+
+/**
+ * Find the config file: --config, RUBE_CONFIG, ./rube.config.json, ~/.rube/config.json
+ */
+export function findConfigFile(flagPath?: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const explicit = flagPath || env.RUBE_CONFIG;
+  if (explicit) {
+    if (!fs.existsSync(explicit)) {
+      throw new ConfigError([`Config file not found: ${explicit}`]);
+    }
+    return path.resolve(explicit);
+  }
+
+  return [path.resolve('rube.config.json'), path.join(os.homedir(), '.rube', 'config.json')]
+    .find(candidate => fs.existsSync(candidate));
+}
+
+function lookup(tree: Record<string, unknown> | undefined, key: string): unknown {
+  let node: unknown = tree;
+  for (const part of key.split('.')) {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  return node;
+}
+
+/**
+ * Dotted paths of all leaf values in a config tree
+ */
+function leafKeys(tree: Record<string, unknown>, prefix: string = ''): string[] {
+  return Object.entries(tree).flatMap(([name, value]) => {
+    const key = prefix ? `${prefix}.${name}` : name;
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? leafKeys(value as Record<string, unknown>, key)
+      : [key];
+  });
+}
+
+function coerce(spec: SettingSpec, raw: unknown, source: string, problems: string[]): SettingValue | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const fail = (expected: string): undefined => {
+    problems.push(`${spec.key} from ${source}: expected ${expected}, got ${JSON.stringify(raw)}`);
+    return undefined;
+  };
+
+  let value: SettingValue;
+  switch (spec.type) {
+    case 'number': {
+      const number = typeof raw === 'number' ? raw : Number(raw);
+      if (typeof raw === 'boolean' || !Number.isFinite(number)) return fail('a number');
+      value = number;
+      break;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') value = raw;
+      else if (raw === 'true' || raw === '1') value = true;
+      else if (raw === 'false' || raw === '0') value = false;
+      else return fail('true or false');
+      break;
+    case 'list':
+      if (Array.isArray(raw) && raw.every(item => typeof item === 'string')) value = raw as string[];
+      else if (typeof raw === 'string') value = raw.split(',').map(item => item.trim()).filter(Boolean);
+      else return fail('a list of strings');
+      break;
+    default:
+      if (typeof raw !== 'string' && typeof raw !== 'number') return fail('a string');
+      value = String(raw);
+  }
+
+  if (spec.choices && !spec.choices.includes(String(value))) {
+    return fail(`one of ${spec.choices.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Resolve every setting from defaults, the config file, the selected profile,
+ * the environment and parsed flags. Throws ConfigError listing all problems.
+ */
+export function loadConfig(
+  flags: Record<string, string | boolean> = {},
+  env: NodeJS.ProcessEnv = process.env
+): CliConfig {
+  const problems: string[] = [];
+  const filePath = findConfigFile(typeof flags.config === 'string' ? flags.config : undefined, env);
+
+  let file: ConfigFile = {};
+  if (filePath) {
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ConfigFile;
+    } catch (error) {
+      throw new ConfigError([`${filePath}: ${error instanceof Error ? error.message : error}`]);
+    }
+  }
+
+  const profileName = (typeof flags.profile === 'string' ? flags.profile : undefined) || env.RUBE_PROFILE || file.profile;
+  const profile = profileName ? file.profiles?.[profileName] : undefined;
+  if (profileName && !profile) {
+    problems.push(`Profile '${profileName}' is not defined${filePath ? ` in ${filePath}` : ' (no config file found)'}`);
+  }
+
+  // Catch typos such as "agent.prot" instead of silently ignoring them
+  const known = new Set(SETTINGS.map(spec => spec.key));
+  const { profiles, profile: _selected, ...base } = file;
+  const trees: Array<[string, Record<string, unknown>]> = [
+    ['config file', base],
+    ...Object.entries(profiles ?? {}).map(([name, tree]) => [`profile '${name}'`, tree] as [string, Record<string, unknown>]),
+  ];
+  for (const [label, tree] of trees) {
+    for (const key of leafKeys(tree)) {
+      if (!known.has(key)) problems.push(`Unknown setting '${key}' in ${label}`);
+    }
+  }
+
+  const cassetteFlag = typeof flags.replay === 'string'
+    ? { path: flags.replay, mode: 'replay', flag: '--replay' }
+    : typeof flags.record === 'string'
+      ? { path: flags.record, mode: 'record', flag: '--record' }
+      : undefined;
+
+  const settings = new Map<string, ResolvedSetting>();
+  for (const spec of SETTINGS) {
+    let resolved: ResolvedSetting = { spec, value: spec.default, source: 'default' };
+    const layers: Array<[unknown, string]> = [
+      [lookup(base, spec.key), `config ${filePath}`],
+      [lookup(profile, spec.key), `profile ${profileName}`],
+      [spec.env ? env[spec.env] : undefined, `env ${spec.env}`],
+      [spec.flag ? flags[spec.flag] : undefined, `flag --${spec.flag}`],
+    ];
+    if (cassetteFlag && spec.key === 'cassette.path') layers.push([cassetteFlag.path, `flag ${cassetteFlag.flag}`]);
+    if (cassetteFlag && spec.key === 'cassette.mode') layers.push([cassetteFlag.mode, `flag ${cassetteFlag.flag}`]);
+
+    for (const [raw, source] of layers) {
+      const value = coerce(spec, raw, source, problems);
+      if (value !== undefined) resolved = { spec, value, source };
+    }
+    settings.set(spec.key, resolved);
+  }
+
+  // Derived defaults
+  const url = settings.get('agent.url')!;
+  if (url.value === undefined) {
+    settings.set('agent.url', {
+      ...url,
+      value: `http://${settings.get('agent.host')!.value}:${settings.get('agent.port')!.value}`,
+      source: 'default (agent.host, agent.port)',
+    });
+  }
+  const mcpConfig = settings.get('mcp.config')!;
+  if (mcpConfig.value === undefined && fs.existsSync('mcp.config.json')) {
+    settings.set('mcp.config', { ...mcpConfig, value: path.resolve('mcp.config.json'), source: 'default (found in working directory)' });
+  }
+
+  const port = settings.get('agent.port')!.value as number;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    problems.push(`agent.port must be an integer between 0 and 65535, got ${port}`);
+  }
+  const timeZone = settings.get('agent.timezone')!.value;
+  if (typeof timeZone === 'string' && !isValidTimeZone(timeZone)) {
+    problems.push(`agent.timezone must be an IANA time zone such as Europe/Berlin, got ${timeZone}`);
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return new CliConfig(settings, filePath, profileName);
+}
+
+function formatValue(setting: ResolvedSetting): string {
+  const { value, spec } = setting;
+  if (value === undefined) return '(unset)';
+  if (spec.secret) {
+    const text = String(value);
+    return text.length > 8 ? `${text.slice(0, 4)}…${text.slice(-2)}` : '****';
+  }
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+/**
+ * `voice-cli config` - inspect the layered configuration
+ */
+export async function runConfigCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  config: CliConfig
+): Promise<number> {
+  const [subcommand = 'show'] = args;
+
+  if (subcommand === 'path') {
+    console.log(config.filePath ?? 'No config file found (looked for RUBE_CONFIG, ./rube.config.json, ~/.rube/config.json)');
+    return config.filePath ? 0 : 1;
+  }
+  if (subcommand !== 'show') {
+    throw new UsageError(`Unknown config command: ${subcommand} (expected show or path)`);
+  }
+
+  const entries = config.entries().filter(entry => flags.all || entry.value !== undefined);
+
+  if (flags.json) {
+    console.log(JSON.stringify({
+      file: config.filePath ?? null,
+      profile: config.profile ?? null,
+      settings: Object.fromEntries(entries.map(entry => [
+        entry.spec.key,
+        { value: entry.spec.secret && entry.value !== undefined ? formatValue(entry) : entry.value ?? null, source: entry.source },
+      ])),
+    }, null, 2));
+    return 0;
+  }
+
+  console.log(`Config file: ${config.filePath ?? '(none)'}`);
+  console.log(`Profile:     ${config.profile ?? '(none)'}\n`);
+  const keyWidth = Math.max(...entries.map(entry => entry.spec.key.length));
+  const valueWidth = Math.min(40, Math.max(...entries.map(entry => formatValue(entry).length)));
+  for (const entry of entries) {
+    console.log(`${entry.spec.key.padEnd(keyWidth)}  ${formatValue(entry).padEnd(valueWidth)}  ${entry.source}`);
+  }
+  return 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Helpers for answering pending-action confirmations in the CLI
+ * Answers may be typed or transcribed from speech, so common spoken
+ * phrasings ("yeah go ahead", "no don't") are accepted.
+ */
+
+export type ConfirmationDecision = 'approve' | 'reject' | 'edit';
+
+const APPROVE_PHRASES = [
+  'y', 'yes', 'yeah', 'yep', 'yup', 'sure', 'ok', 'okay', 'confirm', 'approve',
+  'go ahead', 'do it', 'send it', 'sounds good', 'please do', 'correct',
+];
+const REJECT_PHRASES = [
+  'n', 'no', 'nope', 'nah', 'cancel', 'stop', 'reject', 'abort', "don't", 'do not', 'never mind', 'nevermind',
+];
+const EDIT_PHRASES = ['e', 'edit', 'change', 'modify', 'update', 'fix'];
+
+function normalize(answer: string): string {
+  return answer.toLowerCase().replace(/[.,!?]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function startsWithPhrase(text: string, phrases: string[]): boolean {
+  return phrases.some(phrase => text === phrase || text.startsWith(`${phrase} `));
+}
+
+/**
+ * Interpret a yes/no/edit answer; undefined when it is not clear
+ */
+export function parseConfirmationAnswer(answer: string): ConfirmationDecision | undefined {
+  const text = normalize(answer);
+  if (!text) return undefined;
+
+  // Check rejections first so "no, don't send it" is not read as "send it"
+  if (startsWithPhrase(text, REJECT_PHRASES)) return 'reject';
+  if (startsWithPhrase(text, EDIT_PHRASES)) return 'edit';
+  if (startsWithPhrase(text, APPROVE_PHRASES)) return 'approve';
+  return undefined;
+}
+
+/**
+ * Parse a `key=value` edit. Values that look like JSON (numbers, booleans,
+ * objects, arrays, quoted strings) are decoded; anything else is a string.
+ */
+export function parseArgumentEdit(line: string): { key: string; value: unknown } | undefined {
+  const separator = line.indexOf('=');
+  if (separator <= 0) return undefined;
+
+  const key = line.slice(0, separator).trim();
+  const raw = line.slice(separator + 1).trim();
+  if (!key) return undefined;
+
+  try {
+    return { key, value: JSON.parse(raw) };
+  } catch {
+    return { key, value: raw };
+  }
+}
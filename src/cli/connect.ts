@@ -0,0 +1,160 @@
+import { spawn } from 'child_process';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { ConnectionStatus, PendingAuthorization } from '../mcp/connections';
+import { UsageError } from './args';
+import { ExitCode } from './exit-codes';
+import type { AgentApi } from './schedules';
+
+/**
+ * `voice-cli connect` - connect integrations through the agent's OAuth flow
+ *
+ * The CLI listens on a loopback port for the provider's redirect, so the
+ * authorization code never leaves this machine except to reach the agent,
+ * which exchanges it (with the PKCE verifier it kept) for tokens.
+ */
+
+/** Give up waiting for the browser after this long */
+const CALLBACK_TIMEOUT_MS = 5 * 60 * 1000;
+const CALLBACK_PATH = '/callback';
+
+const PAGE = (message: string): string =>
+  `<!doctype html><html><body style="font-family: sans-serif"><p>${message}</p></body></html>`;
+
+function formatStatus(connection: ConnectionStatus): string {
+  const details = [
+    connection.scopes?.length ? `scopes: ${connection.scopes.join(' ')}` : undefined,
+    connection.expiresAt ? `token expires ${new Date(connection.expiresAt).toLocaleString('sv-SE')}` : undefined,
+    connection.error,
+  ].filter(Boolean).join('; ');
+  return `${connection.integration.padEnd(16)} ${connection.status}${details ? `  (${details})` : ''}`;
+}
+
+/**
+ * Best effort; the URL is printed as well
+ */
+function openBrowser(url: string): void {
+  const [command, args] = process.platform === 'darwin'
+    ? ['open', [url]]
+    : process.platform === 'win32' ? ['cmd', ['/c', 'start', '""', url]] : ['xdg-open', [url]];
+  const child = spawn(command, args, { stdio: 'ignore', detached: true });
+  child.on('error', () => undefined);
+  child.unref();
+}
+
+/**
+ * Listen on 127.0.0.1 for one redirect carrying the expected state
+ */
+async function listenForRedirect(port: number): Promise<{
+  redirectUri: string;
+  waitForCode: (state: string) => Promise<string>;
+  close: () => void;
+}> {
+  const server = http.createServer();
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => resolve());
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  const waitForCode = (state: string): Promise<string> => new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`No authorization arrived within ${CALLBACK_TIMEOUT_MS / 60000} minutes`)),
+      CALLBACK_TIMEOUT_MS
+    );
+    server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+      const url = new URL(req.url ?? '/', `http://127.0.0.1:${boundPort}`);
+      if (url.pathname !== CALLBACK_PATH || url.searchParams.get('state') !== state) {
+        res.writeHead(404, { 'Content-Type': 'text/html' }).end(PAGE('Not found.'));
+        return;
+      }
+
+      clearTimeout(timer);
+      const error = url.searchParams.get('error');
+      const code = url.searchParams.get('code');
+      if (error || !code) {
+        const reason = url.searchParams.get('error_description') ?? error ?? 'no code in the redirect';
+        res.writeHead(400, { 'Content-Type': 'text/html' }).end(PAGE(`Authorization failed: ${reason}.`));
+        reject(new Error(`Authorization failed: ${reason}`));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+        .end(PAGE('Connected. You can close this window and return to the terminal.'));
+      resolve(code);
+    });
+  });
+
+  return {
+    redirectUri: `http://127.0.0.1:${boundPort}${CALLBACK_PATH}`,
+    waitForCode,
+    close: () => server.close(),
+  };
+}
+
+async function connect(integration: string, flags: Record<string, string | boolean>, api: AgentApi): Promise<number> {
+  const port = typeof flags.port === 'string' ? Number(flags.port) : 0;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new UsageError('Invalid --port: expected a port number');
+  }
+
+  const listener = await listenForRedirect(port);
+  try {
+    const authorization = await api<PendingAuthorization>(
+      'post',
+      `/agent/connections/${encodeURIComponent(integration)}/authorize`,
+      { redirectUri: listener.redirectUri }
+    );
+    console.log(`Open this URL to connect ${integration}:\n\n  ${authorization.authorizationUrl}\n`);
+    if (flags.browser !== false) {
+      openBrowser(authorization.authorizationUrl);
+    }
+    console.log('Waiting for the authorization...');
+
+    const code = await listener.waitForCode(authorization.state);
+    const connection = await api<ConnectionStatus>(
+      'post',
+      `/agent/connections/${encodeURIComponent(integration)}/callback`,
+      { state: authorization.state, code }
+    );
+    console.log(`Connected ${integration}\n${formatStatus(connection)}`);
+    return ExitCode.OK;
+  } finally {
+    listener.close();
+  }
+}
+
+/**
+ * Run the connect command; resolves with the process exit code
+ */
+export async function runConnectCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<number> {
+  const [integration] = args;
+
+  if (!integration) {
+    const { connections } = await api<{ connections: ConnectionStatus[] }>('get', '/agent/connections');
+    if (flags.json) {
+      console.log(JSON.stringify(connections, null, 2));
+    } else if (connections.length === 0) {
+      console.log('No integrations configured (see "integrations" in the MCP config file)');
+    } else {
+      console.log(connections.map(formatStatus).join('\n'));
+    }
+    return ExitCode.OK;
+  }
+
+  const urlPath = `/agent/connections/${encodeURIComponent(integration)}`;
+  if (flags.disconnect) {
+    await api('delete', urlPath);
+    console.log(`Disconnected ${integration}`);
+    return ExitCode.OK;
+  }
+  if (flags.refresh) {
+    const connection = await api<ConnectionStatus>('post', `${urlPath}/refresh`);
+    console.log(flags.json ? JSON.stringify(connection, null, 2) : formatStatus(connection));
+    return ExitCode.OK;
+  }
+  return connect(integration, flags, api);
+}
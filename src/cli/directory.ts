@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  DirectoryChanges,
+  DirectoryEntry,
+  DirectoryImportFormat,
+  DirectoryMatch,
+  DirectorySyncResult,
+} from '../agent/directory';
+import { UsageError } from './args';
+import { ExitCode } from './exit-codes';
+import type { AgentApi } from './schedules';
+
+/**
+ * `voice-cli directory` - manage the contacts, channels and repos that
+ * spoken names in tool arguments are resolved against
+ */
+
+const KINDS = ['contact', 'channel', 'repo'];
+
+const FORMATS: Record<string, DirectoryImportFormat> = {
+  '.vcf': 'vcard',
+  '.vcard': 'vcard',
+  '.csv': 'csv',
+};
+
+function kindFlag(flags: Record<string, string | boolean>): string | undefined {
+  if (flags.kind === undefined) return undefined;
+  if (typeof flags.kind !== 'string' || !KINDS.includes(flags.kind)) {
+    throw new UsageError(`Invalid --kind: expected ${KINDS.join(', ')}`);
+  }
+  return flags.kind;
+}
+
+function formatEntry(entry: DirectoryEntry): string {
+  const details = [
+    entry.aliases.length > 0 ? `aka ${entry.aliases.join(', ')}` : undefined,
+    entry.label,
+    entry.source === 'discovery' ? `from ${entry.discoveredBy}` : entry.source,
+  ].filter(Boolean).join('; ');
+  return `${entry.id}  ${entry.kind.padEnd(7)}  ${entry.name}  ${entry.value}  (${details})`;
+}
+
+function formatSyncResult(result: DirectorySyncResult): string {
+  return result.error
+    ? `✗ ${result.tool}: ${result.error}`
+    : `✓ ${result.tool}: ${result.added} added, ${result.updated} updated, ${result.removed} removed`;
+}
+
+async function importFile(
+  file: string | undefined,
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<number> {
+  if (!file) {
+    throw new UsageError('Usage: voice-cli directory import FILE [--format=vcard|csv] [--kind=KIND]');
+  }
+  const format = typeof flags.format === 'string'
+    ? flags.format
+    : FORMATS[path.extname(file).toLowerCase()];
+  if (format !== 'vcard' && format !== 'csv') {
+    throw new UsageError('Cannot tell the file format; pass --format=vcard or --format=csv');
+  }
+
+  const content = fs.readFileSync(file, 'utf-8');
+  const changes = await api<DirectoryChanges>('post', '/agent/directory/import', {
+    format,
+    content,
+    kind: kindFlag(flags),
+  });
+  console.log(`Imported ${file}: ${changes.added} added, ${changes.updated} updated`);
+  return ExitCode.OK;
+}
+
+/**
+ * Run the directory command; resolves with the process exit code
+ */
+export async function runDirectoryCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<number> {
+  const [subcommand = 'list', ...rest] = args;
+
+  switch (subcommand) {
+    case 'list': {
+      const kind = kindFlag(flags);
+      const { entries } = await api<{ entries: DirectoryEntry[] }>(
+        'get',
+        `/agent/directory${kind ? `?kind=${kind}` : ''}`
+      );
+      if (flags.json) {
+        console.log(JSON.stringify(entries, null, 2));
+      } else if (entries.length === 0) {
+        console.log('The directory is empty');
+      } else {
+        console.log(entries.map(formatEntry).join('\n'));
+      }
+      return ExitCode.OK;
+    }
+    case 'search': {
+      const query = rest.join(' ');
+      if (!query) throw new UsageError('Usage: voice-cli directory search NAME... [--kind=KIND]');
+      const params = new URLSearchParams({ q: query });
+      const kind = kindFlag(flags);
+      if (kind) params.set('kind', kind);
+      const { matches } = await api<{ matches: DirectoryMatch[] }>('get', `/agent/directory?${params}`);
+      if (flags.json) {
+        console.log(JSON.stringify(matches, null, 2));
+      } else if (matches.length === 0) {
+        console.log(`Nothing matches "${query}"`);
+      } else {
+        console.log(matches.map(match => `${match.score.toFixed(2)}  ${formatEntry(match.entry)}`).join('\n'));
+      }
+      return ExitCode.OK;
+    }
+    case 'add': {
+      const [kind, name, value] = rest;
+      if (!kind || !name || !value) {
+        throw new UsageError('Usage: voice-cli directory add KIND NAME VALUE [--alias=A,B] [--label=LABEL]');
+      }
+      const entry = await api<DirectoryEntry>('post', '/agent/directory', {
+        kind,
+        name,
+        value,
+        aliases: typeof flags.alias === 'string' ? flags.alias.split(',') : undefined,
+        label: typeof flags.label === 'string' ? flags.label : undefined,
+      });
+      console.log(flags.json ? JSON.stringify(entry, null, 2) : formatEntry(entry));
+      return ExitCode.OK;
+    }
+    case 'remove': {
+      const [id] = rest;
+      if (!id) throw new UsageError('Usage: voice-cli directory remove ID');
+      await api('delete', `/agent/directory/${encodeURIComponent(id)}`);
+      console.log(`Removed ${id}`);
+      return ExitCode.OK;
+    }
+    case 'import':
+      return importFile(rest[0], flags, api);
+    case 'sync': {
+      const { results } = await api<{ results: DirectorySyncResult[] }>('post', '/agent/directory/sync');
+      console.log(flags.json ? JSON.stringify(results, null, 2) : results.map(formatSyncResult).join('\n'));
+      return results.some(result => result.error) ? ExitCode.AGENT_ERROR : ExitCode.OK;
+    }
+    default:
+      throw new UsageError(
+        `Unknown directory command: ${subcommand} (expected list, search, add, remove, import or sync)`
+      );
+  }
+}
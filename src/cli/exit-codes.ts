@@ -0,0 +1,33 @@
+import type { AgentResponse } from '../agent/agent-server';
+
+/**
+ * Process exit codes, stable so scripts and cron jobs can branch on them
+ */
+export const ExitCode = {
+  /** The command completed and every tool call succeeded */
+  OK: 0,
+  /** The agent request failed or stopped without an answer */
+  AGENT_ERROR: 1,
+  /** Bad flags, arguments or configuration */
+  USAGE: 2,
+  /** The agent answered, but at least one tool call failed */
+  TOOL_FAILED: 3,
+  /** A side-effecting action is waiting for approval */
+  CONFIRMATION_REQUIRED: 4,
+} as const;
+
+/**
+ * Exit code describing how an agent run ended
+ */
+export function exitCodeFor(response: AgentResponse): number {
+  if (response.stopReason === 'confirmation_required' || response.pendingAction) {
+    return ExitCode.CONFIRMATION_REQUIRED;
+  }
+  if (response.stopReason === 'max_iterations') {
+    return ExitCode.AGENT_ERROR;
+  }
+  if (response.toolCalls?.some(call => !call.result.success)) {
+    return ExitCode.TOOL_FAILED;
+  }
+  return ExitCode.OK;
+}
@@ -0,0 +1,80 @@
+import { AuditLog, defaultAuditLogPath, parseTimeBound } from '../agent/audit-log';
+import type { AuditEntry, AuditQuery } from '../agent/audit-log';
+import { UsageError } from './args';
+
+/**
+ * `voice-cli history` - show what the assistant did, from the audit log
+ */
+
+function parseTime(flags: Record<string, string | boolean>, name: string): Date | undefined {
+  const value = flags[name];
+  if (typeof value !== 'string') return undefined;
+  const date = parseTimeBound(value);
+  if (!date) {
+    throw new UsageError(`Invalid --${name}: expected an ISO date/time or a duration like 24h`);
+  }
+  return date;
+}
+
+function formatArguments(args: Record<string, unknown>): string {
+  return Object.entries(args)
+    .map(([key, value]) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return `${key}=${text.length > 60 ? `${text.slice(0, 57)}...` : text}`;
+    })
+    .join(', ');
+}
+
+function formatEntry(entry: AuditEntry): string {
+  const time = entry.timestamp.replace('T', ' ').slice(0, 19);
+  const status = entry.success ? 'ok  ' : 'FAIL';
+  const lines = [
+    `${time}  ${status}  ${entry.tool} (${entry.durationMs}ms)  session ${entry.sessionId.slice(0, 8)}`,
+  ];
+  if (entry.utterance) lines.push(`    asked: "${entry.utterance}"`);
+  const args = formatArguments(entry.arguments);
+  if (args) lines.push(`    args:  ${args}`);
+  if (!entry.success && entry.error) lines.push(`    error: ${entry.error}`);
+  return lines.join('\n');
+}
+
+/**
+ * Run the history command; resolves with the process exit code
+ */
+export async function runHistoryCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  log: AuditLog = new AuditLog(defaultAuditLogPath())
+): Promise<number> {
+  if (args.length > 0) {
+    throw new UsageError(`Unexpected argument: ${args[0]}`);
+  }
+
+  const limit = flags.limit;
+  if (limit !== undefined && (typeof limit !== 'string' || !/^\d+$/.test(limit))) {
+    throw new UsageError('Invalid --limit: expected a positive integer');
+  }
+
+  const query: AuditQuery = {
+    tool: typeof flags.tool === 'string' ? flags.tool : undefined,
+    sessionId: typeof flags.session === 'string' ? flags.session : undefined,
+    success: flags.failed === true ? false : flags.succeeded === true ? true : undefined,
+    since: parseTime(flags, 'since'),
+    until: parseTime(flags, 'until'),
+    limit: limit === undefined ? 20 : parseInt(limit),
+  };
+
+  const entries = await log.query(query);
+
+  if (flags.json) {
+    entries.forEach(entry => console.log(JSON.stringify(entry)));
+    return 0;
+  }
+
+  if (entries.length === 0) {
+    console.log(`No matching tool calls in ${log.filePath}`);
+    return 0;
+  }
+  console.log(entries.map(formatEntry).join('\n\n'));
+  return 0;
+}
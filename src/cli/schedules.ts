@@ -0,0 +1,197 @@
+import type { MCPTool } from '../mcp/mcp-client';
+import type { Schedule, ScheduleAction, ScheduleInput, ScheduleRun } from '../agent/scheduler';
+import { UsageError } from './args';
+import { ExitCode } from './exit-codes';
+import { parseKeyValueArgs } from './tool-arguments';
+
+/**
+ * `voice-cli schedules` - manage scheduled jobs through the agent API
+ *
+ * Jobs only run while an agent server with the scheduler is up, normally
+ * `voice-cli serve`; the embedded server of other commands just edits them.
+ */
+
+/**
+ * Calls an agent API route and resolves with the response body
+ */
+export type AgentApi = <T>(method: 'get' | 'post' | 'patch' | 'delete', urlPath: string, body?: unknown) => Promise<T>;
+
+const RUN_ICONS: Record<ScheduleRun['status'], string> = {
+  succeeded: '✓',
+  failed: '✗',
+  confirmation_required: '?',
+};
+
+/**
+ * Local wall-clock time, since cron expressions are in server time
+ */
+function formatTime(iso: string): string {
+  // The Swedish locale formats as YYYY-MM-DD HH:MM:SS
+  return new Date(iso).toLocaleString('sv-SE');
+}
+
+function formatTiming(schedule: Schedule): string {
+  return schedule.cron ? `cron "${schedule.cron}"` : `once at ${formatTime(schedule.runAt!)}`;
+}
+
+function formatAction(action: ScheduleAction): string {
+  return action.type === 'agent'
+    ? `agent: ${action.request.userInput}`
+    : `tool: ${action.tool} ${JSON.stringify(action.arguments)}`;
+}
+
+function formatRun(run: ScheduleRun): string {
+  const detail = run.error ?? run.output ?? '';
+  const firstLine = detail.split('\n')[0];
+  return `${RUN_ICONS[run.status]} ${formatTime(run.startedAt)}  ${run.status}` +
+    `${firstLine ? `  ${firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine}` : ''}`;
+}
+
+function formatSummary(schedule: Schedule): string {
+  const next = schedule.nextRunAt ? formatTime(schedule.nextRunAt) : schedule.enabled ? 'done' : 'paused';
+  const lines = [`${schedule.id}  ${next.padEnd(19)}  ${schedule.name}`, `    ${formatTiming(schedule)}`];
+  if (schedule.history[0]) {
+    lines[1] += `, last run ${formatRun(schedule.history[0])}`;
+  }
+  return lines.join('\n');
+}
+
+function formatSchedule(schedule: Schedule): string {
+  const lines = [
+    `Schedule ${schedule.id}`,
+    `Name:     ${schedule.name}`,
+    `When:     ${formatTiming(schedule)}`,
+    `Next run: ${schedule.nextRunAt ? formatTime(schedule.nextRunAt) : schedule.enabled ? 'none' : 'paused'}`,
+    `Action:   ${formatAction(schedule.action)}`,
+  ];
+  if (schedule.action.type === 'agent') {
+    lines.push(`Approval: ${schedule.autoApprove ? 'side-effecting tools run without asking' : 'stops for confirmation'}`);
+  }
+  if (schedule.owner) {
+    lines.push(`Owner:    ${schedule.owner.name}`);
+  }
+  lines.push(`Runs:     ${schedule.runCount}`);
+  if (schedule.history.length > 0) {
+    lines.push('', 'Recent runs:', ...schedule.history.map(run => `  ${formatRun(run)}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Build the action from `TEXT...` or `--tool=NAME key=value...`
+ */
+async function buildAction(
+  words: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<ScheduleAction> {
+  if (typeof flags.tool === 'string') {
+    const { tools } = await api<{ tools: MCPTool[] }>('get', '/agent/tools');
+    const tool = tools.find(candidate => candidate.name === flags.tool);
+    if (!tool) {
+      throw new Error(`Tool '${flags.tool}' not found (see: voice-cli tools list)`);
+    }
+    return { type: 'tool', tool: tool.name, arguments: parseKeyValueArgs(words, tool) };
+  }
+
+  const userInput = words.join(' ').trim();
+  if (!userInput) {
+    throw new UsageError('Usage: voice-cli schedules create TEXT... (--at=TIME | --cron=EXPR)');
+  }
+  return {
+    type: 'agent',
+    request: {
+      userInput,
+      sessionId: typeof flags.session === 'string' ? flags.session : undefined,
+      context: { source: 'voice-cli' },
+    },
+  };
+}
+
+async function createSchedule(
+  words: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<number> {
+  const at = typeof flags.at === 'string' ? flags.at : undefined;
+  const cron = typeof flags.cron === 'string' ? flags.cron : undefined;
+  if ((at === undefined) === (cron === undefined)) {
+    throw new UsageError('Give exactly one of --at=TIME or --cron=EXPR');
+  }
+  if (at !== undefined && isNaN(new Date(at).getTime())) {
+    throw new UsageError('Invalid --at: expected an ISO date/time like 2025-06-01T17:00');
+  }
+
+  const input: ScheduleInput = {
+    name: typeof flags.name === 'string' ? flags.name : undefined,
+    action: await buildAction(words, flags, api),
+    // Local times without an offset are resolved here, in the caller's time zone
+    runAt: at !== undefined ? new Date(at).toISOString() : undefined,
+    cron,
+    autoApprove: flags['auto-approve'] === true,
+  };
+  const schedule = await api<Schedule>('post', '/agent/schedules', input);
+  console.log(flags.json ? JSON.stringify(schedule, null, 2) : `Created schedule ${schedule.id}\n${formatSummary(schedule)}`);
+  return ExitCode.OK;
+}
+
+/**
+ * Run the schedules command; resolves with the process exit code
+ */
+export async function runSchedulesCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi
+): Promise<number> {
+  const [subcommand = 'list', ...rest] = args;
+  const id = rest[0];
+  const requireId = (): string => {
+    if (!id) throw new UsageError(`Usage: voice-cli schedules ${subcommand} ID`);
+    return encodeURIComponent(id);
+  };
+
+  switch (subcommand) {
+    case 'list': {
+      const { schedules } = await api<{ schedules: Schedule[] }>('get', '/agent/schedules');
+      if (flags.json) {
+        console.log(JSON.stringify(schedules, null, 2));
+      } else if (schedules.length === 0) {
+        console.log('No schedules');
+      } else {
+        console.log(schedules.map(formatSummary).join('\n'));
+      }
+      return ExitCode.OK;
+    }
+    case 'show': {
+      const schedule = await api<Schedule>('get', `/agent/schedules/${requireId()}`);
+      console.log(flags.json ? JSON.stringify(schedule, null, 2) : formatSchedule(schedule));
+      return ExitCode.OK;
+    }
+    case 'create':
+      return createSchedule(rest, flags, api);
+    case 'pause':
+    case 'resume': {
+      const schedule = await api<Schedule>('patch', `/agent/schedules/${requireId()}`, { enabled: subcommand === 'resume' });
+      console.log(`${subcommand === 'pause' ? 'Paused' : 'Resumed'} schedule ${schedule.id}` +
+        (schedule.nextRunAt ? `; next run ${formatTime(schedule.nextRunAt)}` : ''));
+      return ExitCode.OK;
+    }
+    case 'run': {
+      const run = await api<ScheduleRun>('post', `/agent/schedules/${requireId()}/run`);
+      console.log(formatRun(run));
+      if (run.output && run.status !== 'failed') console.log(run.output);
+      if (run.actionId) console.log(`Pending action: ${run.actionId}`);
+      return run.status === 'succeeded'
+        ? ExitCode.OK
+        : run.status === 'confirmation_required' ? ExitCode.CONFIRMATION_REQUIRED : ExitCode.AGENT_ERROR;
+    }
+    case 'delete':
+      await api('delete', `/agent/schedules/${requireId()}`);
+      console.log(`Deleted schedule ${id}`);
+      return ExitCode.OK;
+    default:
+      throw new UsageError(
+        `Unknown schedules command: ${subcommand} (expected list, show, create, pause, resume, run or delete)`
+      );
+  }
+}
@@ -0,0 +1,89 @@
+import { SessionStore } from '../agent/session-store';
+import type { Session, SessionSummary } from '../agent/session-store';
+import { UsageError } from './args';
+
+/**
+ * `voice-cli sessions` - list, inspect and delete saved conversations
+ */
+
+function formatSummary(summary: SessionSummary): string {
+  const updated = summary.updatedAt.replace('T', ' ').slice(0, 19);
+  const counts = `${summary.messageCount} messages, ${summary.toolCallCount} tool calls`;
+  return `${summary.id}  ${updated}  ${summary.title}\n    ${counts}`;
+}
+
+function formatSession(session: Session): string {
+  const lines = [
+    `Session ${session.id}`,
+    `Title:   ${session.title}`,
+    `Created: ${session.createdAt}`,
+    `Updated: ${session.updatedAt}`,
+  ];
+  if (session.summary) {
+    lines.push('', `Earlier turns: ${session.summary}`);
+  }
+  lines.push('');
+  for (const message of session.messages) {
+    if (message.role === 'system' || message.role === 'tool') continue;
+    const content = typeof message.content === 'string' ? message.content : '';
+    if (content) {
+      lines.push(`${message.role === 'user' ? 'You' : 'Assistant'}: ${content}`);
+    }
+  }
+  if (session.toolCalls.length > 0) {
+    lines.push('', 'Tool calls:');
+    for (const call of session.toolCalls) {
+      lines.push(`  ${call.result.success ? '✓' : '✗'} ${call.name} ${JSON.stringify(call.arguments)}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Run the sessions command; resolves with the process exit code
+ */
+export async function runSessionsCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  store: SessionStore = new SessionStore()
+): Promise<number> {
+  const [subcommand = 'list', id] = args;
+
+  switch (subcommand) {
+    case 'list': {
+      const sessions = await store.list();
+      if (flags.json) {
+        console.log(JSON.stringify(sessions, null, 2));
+      } else if (sessions.length === 0) {
+        console.log('No saved sessions');
+      } else {
+        console.log(sessions.map(formatSummary).join('\n'));
+      }
+      return 0;
+    }
+    case 'show':
+    case 'delete': {
+      if (!id) {
+        throw new UsageError(`Usage: voice-cli sessions ${subcommand} ID`);
+      }
+      if (subcommand === 'delete') {
+        if (!(await store.delete(id))) {
+          console.error(`Session not found: ${id}`);
+          return 1;
+        }
+        console.log(`Deleted session ${id}`);
+        return 0;
+      }
+
+      const session = await store.get(id);
+      if (!session) {
+        console.error(`Session not found: ${id}`);
+        return 1;
+      }
+      console.log(flags.json ? JSON.stringify(session, null, 2) : formatSession(session));
+      return 0;
+    }
+    default:
+      throw new UsageError(`Unknown sessions command: ${subcommand} (expected list, show or delete)`);
+  }
+}
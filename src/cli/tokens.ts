@@ -0,0 +1,88 @@
+import { TokenKeystore, defaultKeystorePath } from '../agent/keystore';
+import type { TokenRecord } from '../agent/keystore';
+import { DEFAULT_SCOPES, isValidScope } from '../agent/auth';
+import { UsageError } from './args';
+
+/**
+ * `voice-cli token` - manage API tokens for the agent server
+ */
+
+function formatRecord(record: TokenRecord): string {
+  const created = record.createdAt.replace('T', ' ').slice(0, 19);
+  const status = record.revokedAt ? `revoked ${record.revokedAt.replace('T', ' ').slice(0, 19)}` : 'active';
+  return `${record.id}  ${record.name.padEnd(20)}  ${record.scopes.join(',').padEnd(24)}  ${created}  ${status}`;
+}
+
+/** Scope reference shown by `voice-cli token --help` */
+export const TOKEN_SCOPES_HELP = `Scopes (comma-separated, default: ${DEFAULT_SCOPES.join(',')}):
+  *                       Everything
+  tools:GLOB              Tools whose name matches, e.g. tools:*, tools:gmail_*
+  tools:read-only         Tools that only read data
+  audit:read              Read the audit log (GET /agent/audit)
+  schedules:read          List scheduled jobs (GET /agent/schedules)
+  schedules:write         Create, change, run and delete scheduled jobs
+  connections:read        List integration connections (GET /agent/connections)
+  connections:write       Connect, refresh and disconnect integrations
+  directory:read          List and search the directory (GET /agent/directory)
+  directory:write         Add, import, sync and remove directory entries
+  metrics:read            Scrape Prometheus metrics (GET /metrics)
+  limits:read             Read rate limits and quota usage (GET /agent/limits)`;
+
+/**
+ * Run the token command; resolves with the process exit code
+ */
+export async function runTokenCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  keystore: TokenKeystore = new TokenKeystore(defaultKeystorePath())
+): Promise<number> {
+  const [subcommand, target] = args;
+
+  switch (subcommand) {
+    case 'create': {
+      if (!target) {
+        throw new UsageError('Usage: voice-cli token create NAME [--scopes=SCOPES]');
+      }
+      const scopes = (typeof flags.scopes === 'string' ? flags.scopes : DEFAULT_SCOPES.join(','))
+        .split(',')
+        .map(scope => scope.trim())
+        .filter(Boolean);
+      const invalid = scopes.filter(scope => !isValidScope(scope));
+      if (scopes.length === 0 || invalid.length > 0) {
+        throw new UsageError(`Invalid scopes: ${invalid.join(', ') || '(none)'}`);
+      }
+
+      const { token, record } = keystore.create(target, scopes);
+      console.log(`Created token ${record.id} (${record.name}) with scopes ${scopes.join(', ')}`);
+      console.log('Store it now; it cannot be shown again:\n');
+      console.log(`  ${token}\n`);
+      return 0;
+    }
+
+    case 'list': {
+      const records = keystore.list().filter(record => flags.all === true || !record.revokedAt);
+      if (records.length === 0) {
+        console.log(`No tokens in ${keystore.filePath}`);
+        return 0;
+      }
+      console.log(records.map(formatRecord).join('\n'));
+      return 0;
+    }
+
+    case 'revoke': {
+      if (!target) {
+        throw new UsageError('Usage: voice-cli token revoke ID_OR_NAME');
+      }
+      const record = keystore.revoke(target);
+      if (!record) {
+        console.error(`No active token with id or name '${target}'`);
+        return 1;
+      }
+      console.log(`Revoked token ${record.id} (${record.name})`);
+      return 0;
+    }
+
+    default:
+      throw new UsageError(`Unknown token command: ${subcommand ?? '(none)'} (expected create, list or revoke)`);
+  }
+}
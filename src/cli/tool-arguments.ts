@@ -0,0 +1,190 @@
+import type { MCPTool } from '../mcp/mcp-client';
+import type { JsonSchema } from '../mcp/schema-validator';
+
+/**
+ * Building tool arguments from the command line
+ * `key=value` pairs and prompted answers are parsed according to the type the
+ * tool's inputSchema declares for that field, so `count=3` is a number,
+ * `labels=a,b` an array and `draft=yes` a boolean.
+ */
+
+export interface FieldInfo {
+  name: string;
+  schema: JsonSchema;
+  type?: string;
+  required: boolean;
+  description?: string;
+}
+
+/**
+ * The declared type of a property; for `["string", "null"]` the non-null one
+ */
+function schemaType(schema: JsonSchema): string | undefined {
+  const type = schema.type;
+  if (Array.isArray(type)) {
+    return type.find(item => item !== 'null') as string | undefined;
+  }
+  return typeof type === 'string' ? type : undefined;
+}
+
+export function describeFields(tool: MCPTool): FieldInfo[] {
+  const required = new Set(tool.inputSchema.required ?? []);
+  return Object.entries(tool.inputSchema.properties ?? {}).map(([name, value]) => {
+    const schema = (value ?? {}) as JsonSchema;
+    return {
+      name,
+      schema,
+      type: schemaType(schema),
+      required: required.has(name),
+      description: typeof schema.description === 'string' ? schema.description : undefined,
+    };
+  });
+}
+
+/**
+ * A short type label for help and prompts, e.g. `integer`, `string[]`, `low|high`
+ */
+export function typeLabel(schema: JsonSchema): string {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map(String).join('|');
+  }
+  const type = schemaType(schema);
+  if (type === 'array' && schema.items && typeof schema.items === 'object') {
+    return `${typeLabel(schema.items as JsonSchema)}[]`;
+  }
+  return type ?? 'any';
+}
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'on'];
+const FALSE_WORDS = ['false', 'no', 'n', '0', 'off'];
+
+function parseJson(raw: string, expected: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`expected ${expected} as JSON`);
+  }
+}
+
+/**
+ * Parse a typed-in value according to a property schema; throws with a short
+ * reason when the text does not fit the type
+ */
+export function coerceValue(raw: string, schema: JsonSchema): unknown {
+  const text = raw.trim();
+  let value: unknown;
+
+  switch (schemaType(schema)) {
+    case 'string':
+      value = raw;
+      break;
+    case 'integer':
+      if (!/^[-+]?\d+$/.test(text)) throw new Error('expected an integer');
+      value = Number(text);
+      break;
+    case 'number':
+      value = Number(text);
+      if (text === '' || !Number.isFinite(value)) throw new Error('expected a number');
+      break;
+    case 'boolean':
+      if (TRUE_WORDS.includes(text.toLowerCase())) value = true;
+      else if (FALSE_WORDS.includes(text.toLowerCase())) value = false;
+      else throw new Error('expected yes or no');
+      break;
+    case 'array': {
+      if (text.startsWith('[')) {
+        value = parseJson(text, 'an array');
+        if (!Array.isArray(value)) throw new Error('expected an array');
+        break;
+      }
+      // Comma-separated items, each parsed by the item schema
+      const items = (schema.items && typeof schema.items === 'object' ? schema.items : {}) as JsonSchema;
+      value = text === '' ? [] : text.split(',').map(item => coerceValue(item.trim(), items));
+      break;
+    }
+    case 'object':
+      value = parseJson(text, 'an object');
+      if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('expected an object');
+      break;
+    case 'null':
+      if (text !== 'null') throw new Error('expected null');
+      value = null;
+      break;
+    default:
+      // Untyped: decode JSON-looking values, keep anything else as a string
+      try {
+        value = JSON.parse(text);
+      } catch {
+        value = raw;
+      }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => option === value)) {
+    throw new Error(`expected one of ${schema.enum.map(String).join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Turn `key=value` words into arguments, typed by the tool's schema.
+ * Keys the schema does not declare are decoded like untyped values.
+ */
+export function parseKeyValueArgs(pairs: string[], tool: MCPTool): Record<string, unknown> {
+  const properties = tool.inputSchema.properties ?? {};
+  const args: Record<string, unknown> = {};
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Expected key=value, got '${pair}'`);
+    }
+    const key = pair.slice(0, separator);
+    const schema = (properties[key] ?? {}) as JsonSchema;
+    try {
+      args[key] = coerceValue(pair.slice(separator + 1), schema);
+    } catch (error) {
+      throw new Error(`Invalid ${key}: ${(error as Error).message}`);
+    }
+  }
+  return args;
+}
+
+/**
+ * Ask for every required field that is still missing. Empty answers take the
+ * schema default when there is one; invalid answers are asked again.
+ */
+export async function promptForMissing(
+  tool: MCPTool,
+  args: Record<string, unknown>,
+  ask: (question: string) => Promise<string>
+): Promise<Record<string, unknown>> {
+  const result = { ...args };
+
+  for (const field of describeFields(tool).filter(field => field.required && !(field.name in result))) {
+    const hint = [typeLabel(field.schema), field.description].filter(Boolean).join(', ');
+    const fallback = field.schema.default;
+    const suffix = fallback !== undefined ? ` [${JSON.stringify(fallback)}]` : '';
+
+    while (!(field.name in result)) {
+      const answer = await ask(`${field.name} (${hint})${suffix}: `);
+      if (answer.trim() === '') {
+        if (fallback !== undefined) result[field.name] = fallback;
+        else console.log(`  ${field.name} is required`);
+        continue;
+      }
+      try {
+        result[field.name] = coerceValue(answer, field.schema);
+      } catch (error) {
+        console.log(`  ${(error as Error).message}`);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Required fields not present in `args`
+ */
+export function missingFields(tool: MCPTool, args: Record<string, unknown>): string[] {
+  return (tool.inputSchema.required ?? []).filter(name => !(name in args));
+}
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import type MCPClient from '../mcp/mcp-client';
+import type { MCPTool, ToolResult } from '../mcp/mcp-client';
+import { classifyTool } from '../mcp/tool-safety';
+import { UsageError } from './args';
+import { ExitCode } from './exit-codes';
+import { describeFields, missingFields, parseKeyValueArgs, promptForMissing, typeLabel } from './tool-arguments';
+
+/**
+ * `voice-cli tools` - list, inspect and call MCP tools directly, without the agent
+ */
+
+function formatTool(tool: MCPTool): string {
+  const description = tool.description.split('\n')[0];
+  return `${tool.name}\n    ${description.length > 100 ? `${description.slice(0, 97)}...` : description}`;
+}
+
+function formatDescription(tool: MCPTool): string {
+  const lines = [
+    tool.title ? `${tool.name} - ${tool.title}` : tool.name,
+    '',
+    tool.description,
+    '',
+    `Safety: ${classifyTool(tool)}`,
+  ];
+
+  const fields = describeFields(tool);
+  if (fields.length === 0) {
+    lines.push('', 'No arguments');
+    return lines.join('\n');
+  }
+
+  const nameWidth = Math.max(...fields.map(field => field.name.length));
+  const typeWidth = Math.max(...fields.map(field => typeLabel(field.schema).length));
+  lines.push('', 'Arguments:');
+  for (const field of fields) {
+    const extras = [
+      field.description,
+      field.schema.default !== undefined ? `default: ${JSON.stringify(field.schema.default)}` : undefined,
+      typeof field.schema.format === 'string' ? `format: ${field.schema.format}` : undefined,
+    ].filter(Boolean).join('; ');
+    lines.push(
+      `  ${field.name.padEnd(nameWidth)}  ${typeLabel(field.schema).padEnd(typeWidth)}  ` +
+      `${field.required ? 'required' : 'optional'}  ${extras}`.trimEnd()
+    );
+  }
+  return lines.join('\n');
+}
+
+function findTool(client: MCPClient, name: string | undefined, usage: string): MCPTool {
+  if (!name) {
+    throw new UsageError(`Usage: ${usage}`);
+  }
+  const tool = client.getAvailableTools().find(candidate => candidate.name === name);
+  if (!tool) {
+    throw new Error(`Tool '${name}' not found (see: voice-cli tools list)`);
+  }
+  return tool;
+}
+
+/**
+ * Arguments from `--json FILE` (`-` for stdin), overridden by `key=value` words
+ */
+function readArgumentFile(filePath: string): Record<string, unknown> {
+  const raw = fs.readFileSync(filePath === '-' ? 0 : filePath, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`${filePath === '-' ? 'stdin' : filePath}: ${(error as Error).message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${filePath === '-' ? 'stdin' : filePath}: expected a JSON object of arguments`);
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function printResult(result: ToolResult): void {
+  if (!result.success) {
+    console.error(`✗ ${result.error ?? 'Tool call failed'}`);
+    for (const violation of result.validationErrors ?? []) {
+      console.error(`  - ${violation.path || '(arguments)'}: ${violation.message}`);
+    }
+    return;
+  }
+  const output = typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2);
+  console.log(output ?? '');
+}
+
+async function callTool(
+  client: MCPClient,
+  args: string[],
+  flags: Record<string, string | boolean>
+): Promise<number> {
+  const [name, ...pairs] = args;
+  const tool = findTool(client, name, 'voice-cli tools call NAME [key=value ...] [--json FILE]');
+
+  let input: Record<string, unknown> = {
+    ...(typeof flags.json === 'string' ? readArgumentFile(flags.json) : {}),
+    ...parseKeyValueArgs(pairs, tool),
+  };
+
+  const missing = missingFields(tool, input);
+  if (missing.length > 0) {
+    // Prompting needs a terminal; stdin may be the --json - input or a pipe
+    if (!process.stdin.isTTY || flags.json === '-') {
+      throw new UsageError(`Missing required arguments for ${tool.name}: ${missing.join(', ')}`);
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      input = await promptForMissing(tool, input, question => new Promise(resolve => rl.question(question, resolve)));
+    } finally {
+      rl.close();
+    }
+  }
+
+  const result = await client.executeTool(tool.name, input);
+  printResult(result);
+  return result.success ? ExitCode.OK : ExitCode.TOOL_FAILED;
+}
+
+/**
+ * Run the tools command; resolves with the process exit code
+ */
+export async function runToolsCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  client: MCPClient
+): Promise<number> {
+  const [subcommand = 'list', ...rest] = args;
+
+  switch (subcommand) {
+    case 'list': {
+      const tools = client.getAvailableTools();
+      if (flags.json) {
+        console.log(JSON.stringify(tools, null, 2));
+      } else if (tools.length === 0) {
+        console.log('No tools available');
+      } else {
+        console.log(tools.map(formatTool).join('\n'));
+      }
+      return 0;
+    }
+    case 'describe': {
+      const tool = findTool(client, rest[0], 'voice-cli tools describe NAME [--json]');
+      console.log(flags.json ? JSON.stringify(tool, null, 2) : formatDescription(tool));
+      return 0;
+    }
+    case 'call':
+      return callTool(client, rest, flags);
+    default:
+      throw new UsageError(`Unknown tools command: ${subcommand} (expected list, describe or call)`);
+  }
+}
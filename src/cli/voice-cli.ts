@@ -1,95 +1,587 @@
 #!/usr/bin/env node
 
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import axios from 'axios';
 import type { AxiosInstance } from 'axios';
+import type { Readable } from 'stream';
 import RealtimeVoiceClient from '../voice/realtime-client';
+import type { VoiceOutput } from '../voice/realtime-client';
+import type { SpeechConfig, SpeechToTextProviderId, TextToSpeechProviderId } from '../voice/speech-provider';
+import SentenceChunker from '../voice/sentence-chunker';
+import { REALTIME_SAMPLE_RATE } from '../voice/realtime-session';
+import { concatWav, encodeWav, isPcm16, parseWav } from '../voice/wav';
+import type { WavInfo } from '../voice/wav';
+import { detectAudioFormat } from '../voice/audio-format';
 import AgentServer from '../agent/agent-server';
+import type { AgentRequest, AgentResponse } from '../agent/agent-server';
+import type { AgentEventHandler, AgentStreamEvent } from '../agent/agent-events';
+import type { PendingAction } from '../agent/pending-actions';
+import { SessionStore } from '../agent/session-store';
+import { AuditLog, defaultAuditLogPath } from '../agent/audit-log';
+import { TokenKeystore, defaultKeystorePath } from '../agent/keystore';
+import { SseParser } from '../lib/sse';
+import { Cassette } from '../lib/cassette';
+import { defaultTimeZone } from '../lib/time-expression';
+import { configureLogging, logContext, withLogContext } from '../lib/logger';
+import type { LogFormat, LogLevel } from '../lib/logger';
+import type { CassetteMode } from '../lib/cassette';
+import { DEFAULT_RETRY_POLICY, RetryableError, withRetry } from '../lib/retry';
+import type { RetryPolicy } from '../lib/retry';
+import { parseArgumentEdit, parseConfirmationAnswer } from './confirmation';
+import { runHistoryCommand } from './history';
+import { TOKEN_SCOPES_HELP, runTokenCommand } from './tokens';
+import { runSessionsCommand } from './sessions';
+import { runToolsCommand } from './tools';
+import { formatFlags, parseArgs, UsageError } from './args';
+import type { FlagSpecs } from './args';
+import { CONFIG_FLAGS, ConfigError, loadConfig, runConfigCommand } from './config';
+import type { CliConfig } from './config';
+import { ExitCode, exitCodeFor } from './exit-codes';
+import { runBatchCommand } from './batch';
+import { runSchedulesCommand } from './schedules';
+import { runWorkflowsCommand } from './workflows';
+import { runConnectCommand } from './connect';
+import { runDirectoryCommand } from './directory';
+import { loadServerConfig } from '../mcp/server-registry';
+import type { MCPServerConfig } from '../mcp/server-registry';
+import { loadRateLimitConfig } from '../mcp/rate-limiter';
+import { loadIntegrationConfig } from '../mcp/connections';
+import { loadDirectoryConfig } from '../agent/directory';
+import MCPClient from '../mcp/mcp-client';
+import type { MCPClientOptions } from '../mcp/mcp-client';
+
+/** Agent streams last as long as the agent works, so attempts have no timeout */
+const AGENT_RETRY_POLICY: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 500, timeoutMs: 0 };
+
+/**
+ * ID sent as X-Request-Id, tying the server's logs to this command or turn
+ */
+function currentRequestId(): string {
+  const { requestId } = logContext();
+  return typeof requestId === 'string' ? requestId : randomUUID();
+}
+
+/** How commands that need the agent find one */
+type AgentMode = 'auto' | 'remote' | 'embedded';
 
 interface CliOptions {
   apiKey: string;
   agentUrl: string;
   agentPort: number;
   agentHost: string;
-  interactive: boolean;
-  audioFile?: string;
+  agentMode: AgentMode;
+  mcpServerUrl?: string;
+  mcpApiKey?: string;
+  mcpConfigPath?: string;
+  connectionsPath?: string;
+  useMockTools: boolean;
+  model?: string;
+  baseURL?: string;
+  sessionId?: string;
+  realtime: boolean;
+  realtimeModel?: string;
+  pcm: { sampleRate: number; channels: number };
+  speech: SpeechConfig;
+  /** Record every outbound call to a cassette file, or replay one */
+  cassette?: { path: string; mode: CassetteMode };
+  /** Bearer token for an agent server that requires auth */
+  apiToken?: string;
+  /** Require tokens on the embedded agent server */
+  requireAuth: boolean;
+  corsOrigins?: string[];
+  maxBodySize?: string;
+  sessionDir?: string;
+  auditLogPath?: string;
+  keystorePath?: string;
+  schedulesPath?: string;
+  workflowsDir?: string;
+  directoryPath?: string;
+  /** Sent as `context.timezone`, so spoken times are resolved where the user is */
+  timeZone: string;
+  /** Print the agent response as JSON instead of rendering it */
+  json: boolean;
 }
 
 class VoiceCLI {
   private options: CliOptions;
   private voiceClient: RealtimeVoiceClient;
   private agentServer?: AgentServer;
+  private mcpClient?: MCPClient;
+  /** The most recent agent response, for `run` output and exit codes */
+  private lastResponse?: AgentResponse;
   private agentHttpClient: AxiosInstance;
+  private sessionId?: string;
+  private cassette?: Cassette;
 
   constructor(options: CliOptions) {
     this.options = options;
-    this.voiceClient = new RealtimeVoiceClient(options.apiKey);
+    this.sessionId = options.sessionId;
+    if (options.cassette) {
+      this.cassette = new Cassette(options.cassette.path, options.cassette.mode);
+      this.print(`${options.cassette.mode === 'record' ? 'Recording to' : 'Replaying'} cassette ${options.cassette.path}`);
+    }
+    this.voiceClient = new RealtimeVoiceClient(options.apiKey, options.speech, this.cassette);
     this.agentHttpClient = axios.create({
       baseURL: options.agentUrl,
       timeout: 30000,
+      headers: options.apiToken ? { Authorization: `Bearer ${options.apiToken}` } : undefined,
     });
   }
 
   /**
-   * Start the agent server if not already running
+   * Human-readable progress; goes to stderr with --json so stdout carries
+   * only the JSON document
+   */
+  private print(...values: unknown[]): void {
+    if (this.options.json) {
+      console.error(...values);
+    } else {
+      console.log(...values);
+    }
+  }
+
+  /**
+   * Make sure an agent server is reachable, following `agent.mode`: reuse a
+   * running server (auto, remote) or start one in this process (auto, embedded)
    */
   async ensureAgentServer(): Promise<void> {
-    // Check if agent is already running
-    try {
-      await this.agentHttpClient.get('/health');
-      console.log('Agent server is already running');
+    const { agentMode, agentUrl } = this.options;
+
+    let running = false;
+    if (agentMode !== 'embedded') {
+      try {
+        await this.agentHttpClient.get('/health');
+        running = true;
+      } catch {
+        // Not running; start one below unless the mode forbids it
+      }
+    }
+
+    if (running) {
+      if (this.cassette) {
+        // An external server would make live calls the cassette never sees
+        throw new Error(
+          `An agent server is already running at ${agentUrl}; ` +
+          'cassette mode needs its own embedded server (pick a free --port)'
+        );
+      }
+      this.print('Agent server is already running');
       return;
-    } catch (error) {
-      // Server not running, start it
-      console.log('Starting local agent server...');
-      this.agentServer = new AgentServer(
-        this.options.apiKey,
-        this.options.agentPort,
-        this.options.agentHost
-      );
-      await this.agentServer.start();
     }
+    if (agentMode === 'remote') {
+      throw new Error(`No agent server is reachable at ${agentUrl} (agent.mode is remote)`);
+    }
+
+    this.print('Starting local agent server...');
+    await this.startAgentServer();
+  }
+
+  /**
+   * Start an agent server in this process with the CLI's settings. Only
+   * `serve` runs scheduled jobs; other commands' servers are short-lived.
+   */
+  async startAgentServer(runSchedules: boolean = false): Promise<void> {
+    this.agentServer = new AgentServer(
+      this.options.apiKey,
+      this.options.agentPort,
+      this.options.agentHost,
+      {
+        mcpServerUrl: this.options.mcpServerUrl,
+        mcp: this.mcpOptions(),
+        model: this.options.model,
+        baseURL: this.options.baseURL,
+        cassette: this.cassette,
+        sessionDir: this.options.sessionDir,
+        auditLogPath: this.options.auditLogPath,
+        requireAuth: this.options.requireAuth,
+        keystorePath: this.options.keystorePath,
+        corsOrigins: this.options.corsOrigins,
+        maxBodySize: this.options.maxBodySize,
+        schedulesPath: this.options.schedulesPath,
+        workflowsDir: this.options.workflowsDir,
+        timeZone: this.options.timeZone,
+        directoryPath: this.options.directoryPath,
+        directory: this.options.mcpConfigPath ? loadDirectoryConfig(this.options.mcpConfigPath) : undefined,
+        runSchedules,
+      }
+    );
+    await this.agentServer.start();
+  }
+
+  /**
+   * Connect to the configured MCP servers directly, bypassing the agent
+   */
+  async connectTools(): Promise<MCPClient> {
+    this.mcpClient = new MCPClient(this.options.mcpServerUrl, { ...this.mcpOptions(), cassette: this.cassette });
+    await this.mcpClient.connect();
+    return this.mcpClient;
+  }
+
+  private mcpOptions(): MCPClientOptions {
+    const rubeHeaders = this.options.mcpApiKey
+      ? { Authorization: `Bearer ${this.options.mcpApiKey}` }
+      : undefined;
+    return {
+      useMockTools: this.options.useMockTools,
+      headers: rubeHeaders,
+      servers: this.loadMcpServers(rubeHeaders),
+      rateLimits: this.options.mcpConfigPath ? loadRateLimitConfig(this.options.mcpConfigPath) : undefined,
+      integrations: this.options.mcpConfigPath ? loadIntegrationConfig(this.options.mcpConfigPath) : undefined,
+      connectionsPath: this.options.connectionsPath,
+    };
+  }
+
+  /**
+   * Load MCP server definitions from the config file, if one is configured.
+   * An explicit --mcp-url adds (or overrides) the `rube` entry.
+   */
+  private loadMcpServers(
+    rubeHeaders?: Record<string, string>
+  ): Record<string, MCPServerConfig> | undefined {
+    if (!this.options.mcpConfigPath) {
+      return undefined;
+    }
+
+    const servers = loadServerConfig(this.options.mcpConfigPath);
+    if (this.options.mcpServerUrl) {
+      servers.rube = { url: this.options.mcpServerUrl, headers: rubeHeaders };
+    }
+    return servers;
+  }
+
+  /**
+   * POST to a streaming agent endpoint and deliver events as they arrive
+   * Resolves with the response carried by the final `done` event.
+   */
+  private async streamRequest(
+    urlPath: string,
+    body: unknown,
+    onEvent?: AgentEventHandler
+  ): Promise<AgentResponse> {
+    // Retries reuse the key, so the server never runs the same command twice
+    const idempotencyKey = randomUUID();
+    const requestId = currentRequestId();
+    return withRetry(() => this.streamOnce(urlPath, body, idempotencyKey, requestId, onEvent), AGENT_RETRY_POLICY, {
+      onRetry: (error, attempt, delayMs) => {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Agent request failed (${message}); retrying in ${delayMs}ms`);
+      },
+    });
+  }
+
+  private async streamOnce(
+    urlPath: string,
+    body: unknown,
+    idempotencyKey: string,
+    requestId: string,
+    onEvent?: AgentEventHandler
+  ): Promise<AgentResponse> {
+    const response = await this.agentHttpClient.post<Readable>(urlPath, body, {
+      responseType: 'stream',
+      // Streams stay open for as long as the agent works
+      timeout: 0,
+      headers: { Accept: 'text/event-stream', 'Idempotency-Key': idempotencyKey, 'X-Request-Id': requestId },
+    });
+    const stream = response.data;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const parser = new SseParser(data => {
+        let event: AgentStreamEvent;
+        try {
+          event = JSON.parse(data) as AgentStreamEvent;
+        } catch {
+          return;
+        }
+
+        onEvent?.(event);
+        if (event.type === 'done') {
+          settled = true;
+          resolve(event.response);
+        } else if (event.type === 'error') {
+          settled = true;
+          reject(new Error(event.error));
+        }
+      });
+
+      stream.setEncoding('utf-8');
+      stream.on('data', (chunk: string) => parser.push(chunk));
+      stream.on('end', () => {
+        parser.end();
+        if (!settled) {
+          reject(new RetryableError('Agent stream ended before a response was received'));
+        }
+      });
+      stream.on('error', reject);
+    });
+  }
+
+  /**
+   * Send a command to the agent and return the full response
+   */
+  async runAgent(input: string, onEvent?: AgentEventHandler): Promise<AgentResponse> {
+    const response = await this.streamRequest('/agent/run/stream', {
+      userInput: input,
+      sessionId: this.sessionId,
+      context: {
+        source: 'voice-cli',
+        timestamp: new Date().toISOString(),
+        timezone: this.options.timeZone,
+      },
+    }, onEvent);
+    this.sessionId = response.sessionId ?? this.sessionId;
+    this.lastResponse = response;
+    return response;
+  }
+
+  /**
+   * Run a workflow by name, printing each step as it runs
+   */
+  async runWorkflow(name: string, inputs: Record<string, unknown>): Promise<AgentResponse> {
+    const renderer = this.createRenderer('Response');
+    const response = await this.streamRequest(`/agent/workflows/${encodeURIComponent(name)}/run/stream`, {
+      inputs,
+      sessionId: this.sessionId,
+      context: { source: 'voice-cli', timezone: this.options.timeZone },
+    }, renderer.onEvent);
+    renderer.finish(response);
+    return response;
   }
 
   /**
-   * Process a single voice command
+   * POST /agent/run without streaming, retrying transient failures under one
+   * idempotency key
    */
-  async processVoiceCommand(input: string): Promise<string> {
+  async postAgentRun(request: AgentRequest): Promise<AgentResponse> {
+    const idempotencyKey = randomUUID();
+    const requestId = currentRequestId();
     try {
-      const response = await this.agentHttpClient.post('/agent/run', {
-        userInput: input,
-        context: {
-          source: 'voice-cli',
-          timestamp: new Date().toISOString(),
+      return await withRetry(async signal => {
+        const response = await this.agentHttpClient.post<AgentResponse>('/agent/run', {
+          ...request,
+          context: { timezone: this.options.timeZone, ...request.context },
+        }, {
+          signal,
+          // Runs last as long as the agent works
+          timeout: 0,
+          headers: { 'Idempotency-Key': idempotencyKey, 'X-Request-Id': requestId },
+        });
+        return response.data;
+      }, AGENT_RETRY_POLICY, {
+        onRetry: (error, attempt, delayMs) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`Agent request failed (${message}); retrying in ${delayMs}ms`);
         },
       });
+    } catch (error) {
+      // Prefer the server's explanation over axios' status line
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      throw typeof message === 'string' ? new Error(message) : error;
+    }
+  }
 
-      return response.data.response;
+  /**
+   * Call an agent API route, surfacing the server's error message
+   */
+  async agentRequest<T>(method: 'get' | 'post' | 'patch' | 'delete', urlPath: string, body?: unknown): Promise<T> {
+    try {
+      // Running a schedule lasts as long as the agent works
+      const response = await this.agentHttpClient.request<T>({
+        method,
+        url: urlPath,
+        data: body,
+        timeout: 0,
+        headers: { 'X-Request-Id': currentRequestId() },
+      });
+      return response.data;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`Error processing command: ${errorMsg}`);
-      throw error;
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      throw typeof message === 'string' ? new Error(message) : error;
+    }
+  }
+
+  /**
+   * Print agent events incrementally. `finish` prints the final response
+   * unless it was already streamed as text deltas.
+   */
+  private createRenderer(label: string = 'Assistant'): {
+    onEvent: AgentEventHandler;
+    finish: (response: AgentResponse) => void;
+  } {
+    if (this.options.json) {
+      // JSON output is printed once the run is over
+      return { onEvent: () => undefined, finish: () => undefined };
+    }
+
+    let streamedText = '';
+    let lineOpen = false;
+
+    const closeLine = (): void => {
+      if (lineOpen) {
+        process.stdout.write('\n');
+        lineOpen = false;
+      }
+    };
+
+    const onEvent: AgentEventHandler = event => {
+      switch (event.type) {
+        case 'text_delta':
+          if (!lineOpen) {
+            process.stdout.write(`\n${label}: `);
+            lineOpen = true;
+            streamedText = '';
+          }
+          streamedText += event.delta;
+          process.stdout.write(event.delta);
+          break;
+        case 'tool_call_started':
+          closeLine();
+          this.print(`  → ${event.name} ${JSON.stringify(event.arguments)}`);
+          break;
+        case 'tool_result':
+          this.print(event.result.success
+            ? `  ✓ ${event.name}`
+            : `  ✗ ${event.name}: ${event.result.error}`);
+          break;
+        case 'workflow_step':
+          closeLine();
+          if (event.status === 'retrying') {
+            this.print(`  ↻ ${event.step} failed (${event.error}); retrying`);
+          } else {
+            this.print(`  [${event.index}/${event.total}] ${event.step}${event.status === 'skipped' ? ' skipped' : ''}`);
+          }
+          break;
+        default:
+          break;
+      }
+    };
+
+    const finish = (response: AgentResponse): void => {
+      closeLine();
+      if (streamedText.trim() !== response.response.trim()) {
+        this.print(`\n${label}: ${response.response}`);
+      }
+      this.print();
+      streamedText = '';
+    };
+
+    return { onEvent, finish };
+  }
+
+  /**
+   * Ask the user to approve, edit or reject a proposed action until the
+   * agent no longer needs confirmation
+   */
+  async confirmPendingActions(
+    response: AgentResponse,
+    ask: (question: string) => Promise<string>,
+    onEvent?: AgentEventHandler
+  ): Promise<AgentResponse> {
+    let current = response;
+
+    while (current.pendingAction) {
+      const action: PendingAction = current.pendingAction;
+      this.print(`\nAssistant: ${current.response}`);
+      this.print(`  Tool: ${action.toolName}`);
+      for (const [key, value] of Object.entries(action.arguments)) {
+        this.print(`  ${key} = ${JSON.stringify(value)}`);
+      }
+
+      const answer = await this.readAnswer(await ask('Proceed? [yes/no/edit] '));
+      const decision = parseConfirmationAnswer(answer);
+
+      if (decision === 'approve') {
+        current = await this.streamRequest(
+          `/agent/actions/${action.actionId}/approve/stream`,
+          {},
+          onEvent
+        );
+      } else if (decision === 'reject') {
+        current = await this.streamRequest(
+          `/agent/actions/${action.actionId}/reject/stream`,
+          { reason: answer },
+          onEvent
+        );
+      } else if (decision === 'edit') {
+        const args = { ...action.arguments };
+        this.print('Enter changes as key=value, empty line to finish:');
+        while (true) {
+          const line = await ask('  > ');
+          if (!line.trim()) break;
+          const edit = parseArgumentEdit(line);
+          if (!edit) {
+            this.print('  Expected key=value');
+            continue;
+          }
+          args[edit.key] = edit.value;
+        }
+
+        try {
+          const updated = await this.agentHttpClient.post<PendingAction>(
+            `/agent/actions/${action.actionId}/edit`,
+            { arguments: args }
+          );
+          current = {
+            ...current,
+            response: `I'm about to ${updated.data.summary}. Should I go ahead?`,
+            pendingAction: updated.data,
+          };
+        } catch (error) {
+          const data = axios.isAxiosError(error) ? error.response?.data : undefined;
+          this.print(`  ${data?.error ?? 'Edit failed'}`);
+          for (const violation of data?.validationErrors ?? []) {
+            this.print(`  - ${violation.message}`);
+          }
+        }
+      } else {
+        this.print('Please answer yes, no or edit.');
+      }
     }
+
+    return current;
+  }
+
+  /**
+   * An answer may be typed, or given as the path of a recorded audio reply
+   */
+  private async readAnswer(answer: string): Promise<string> {
+    const trimmed = answer.trim();
+    if (trimmed && isAudioFile(trimmed)) {
+      const transcript = await this.voiceClient.processAudioInput(trimmed);
+      this.print(`You said: "${transcript}"`);
+      return transcript;
+    }
+    return trimmed;
   }
 
   /**
    * Interactive mode - read voice commands from stdin and respond
+   * Resolves when the user types "exit" or closes stdin.
    */
   async interactiveMode(): Promise<void> {
     const rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
     });
+    const ask = (question: string): Promise<string> =>
+      new Promise(resolve => rl.question(question, resolve));
 
-    console.log('\n🎤 Voice CLI - Interactive Mode');
-    console.log('Type your voice commands (type "exit" to quit)\n');
+    this.print('\n🎤 Voice CLI - Interactive Mode');
+    if (this.sessionId) {
+      this.print(`Resuming session ${this.sessionId}`);
+    }
+    this.print('Type your voice commands (type "exit" to quit)\n');
 
     const askQuestion = (): void => {
       rl.question('You: ', async (input) => {
         if (input.toLowerCase() === 'exit') {
-          console.log('Goodbye!');
+          if (this.sessionId) {
+            this.print(`Session saved. Resume with: voice-cli chat --session=${this.sessionId}`);
+          }
+          this.print('Goodbye!');
           rl.close();
           return;
         }
@@ -100,85 +592,278 @@ class VoiceCLI {
         }
 
         try {
-          const response = await this.processVoiceCommand(input);
-          console.log(`\nAssistant: ${response}\n`);
+          const renderer = this.createRenderer();
+          // One request ID per turn, shared by its confirmations
+          const response = await withLogContext({ requestId: randomUUID() }, async () =>
+            this.confirmPendingActions(await this.runAgent(input, renderer.onEvent), ask, renderer.onEvent)
+          );
+          renderer.finish(response);
         } catch (error) {
-          console.error('Error processing command');
+          console.error(`Error processing command: ${error instanceof Error ? error.message : String(error)}`);
         }
 
         askQuestion();
       });
     };
 
+    const closed = new Promise<void>(resolve => rl.once('close', resolve));
     askQuestion();
+    await closed;
   }
 
   /**
-   * File mode - process audio file
+   * File mode - process an audio recording, or a text file as a typed command
    */
-  async fileMode(audioPath: string): Promise<void> {
-    if (!fs.existsSync(audioPath)) {
-      throw new Error(`Audio file not found: ${audioPath}`);
+  async fileMode(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
     }
 
-    console.log(`Processing audio file: ${audioPath}`);
+    // Decide by content, not extension: a .txt file is a typed command
+    const content = fs.readFileSync(filePath);
+    const format = detectAudioFormat(content);
+    const outputDir = path.dirname(filePath);
 
-    // For MVP, we'll accept text input in file mode too
-    // In production, this would use actual audio processing
-    const content = fs.readFileSync(audioPath, 'utf-8');
-    const response = await this.processVoiceCommand(content);
+    if (!format) {
+      this.print(`Processing text file: ${filePath}`);
+      await this.respondWithSpeech(content.toString('utf-8').trim(), outputDir);
+      return;
+    }
+
+    this.print(`Processing audio file: ${filePath} (${format.mimeType})`);
+
+    if (this.options.realtime && format.id === 'wav') {
+      const wav = parseWav(content);
+      await this.realtimeMode(
+        isRealtimePcm(wav) ? pcmChunks(wav.data) : undefined,
+        outputDir,
+        () => this.voiceClient.voiceInteraction(filePath, text => this.agentReply(text))
+      );
+      return;
+    }
+
+    const transcript = await this.voiceClient.transcribeAudio(content);
+    this.print(`You said: "${transcript}"`);
+    await this.respondWithSpeech(transcript, outputDir);
+  }
 
-    console.log(`Response: ${response}`);
+  /**
+   * Raw PCM mode - read signed 16-bit little-endian samples from stdin
+   * In realtime mode 24kHz mono input is streamed as it arrives; otherwise
+   * the whole recording is read, wrapped as WAV and transcribed.
+   */
+  async pcmStdinMode(): Promise<void> {
+    const { sampleRate, channels } = this.options.pcm;
+    console.error(`Reading ${sampleRate}Hz ${channels}-channel PCM16 from stdin...`);
+
+    const transcribe = async (): Promise<string> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer);
+      }
+      const wav = encodeWav(Buffer.concat(chunks), sampleRate, channels);
+      return this.voiceClient.transcribeAudio(wav);
+    };
 
-    // Optionally generate response audio
-    if (response) {
-      const outputPath = path.join(
-        path.dirname(audioPath),
-        `response_${Date.now()}.mp3`
+    if (this.options.realtime) {
+      const streamable = sampleRate === REALTIME_SAMPLE_RATE && channels === 1;
+      await this.realtimeMode(
+        streamable ? process.stdin as AsyncIterable<Buffer> : undefined,
+        process.cwd(),
+        async () => {
+          const text = await transcribe();
+          const reply = await this.agentReply(text);
+          return { text: reply, audioData: await this.voiceClient.generateSpeech(reply) };
+        }
       );
-      const audioData = await this.voiceClient.generateSpeech(response, outputPath);
-      console.log(`Generated response audio: ${outputPath}`);
+      return;
+    }
+
+    const transcript = await transcribe();
+    this.print(`You said: "${transcript}"`);
+    await this.respondWithSpeech(transcript, process.cwd());
+  }
+
+  /**
+   * Run the agent on a command and synthesize its answer to an MP3
+   */
+  private async respondWithSpeech(input: string, outputDir: string): Promise<void> {
+    // Synthesize each sentence as soon as it is complete, so speech for the
+    // start of the answer is ready before the agent has finished
+    const renderer = this.createRenderer('Response');
+    const chunker = new SentenceChunker();
+    const speech: Array<Promise<Buffer>> = [];
+    const speak = (text: string): void => {
+      speech.push(this.voiceClient.generateSpeech(text));
+    };
+
+    const response = await this.runAgent(input, event => {
+      renderer.onEvent(event);
+      if (event.type === 'text_delta') {
+        chunker.push(event.delta).forEach(speak);
+      }
+    });
+    renderer.finish(response);
+
+    const rest = chunker.flush();
+    if (rest) speak(rest);
+    if (speech.length === 0 && response.response) {
+      // Nothing was streamed (e.g. a confirmation prompt); speak the whole reply
+      speak(response.response);
+    }
+
+    if (speech.length > 0) {
+      // MP3 frames can be concatenated directly; WAV needs a single header
+      const parts = await Promise.all(speech);
+      const audio = this.voiceClient.speechFormat.id === 'wav' ? concatWav(parts) : Buffer.concat(parts);
+      this.writeResponseAudio(audio, outputDir);
     }
   }
 
+  private async agentReply(text: string): Promise<string> {
+    const response = await this.runAgent(text);
+    return response.response;
+  }
+
+  /**
+   * Stream PCM16 audio through a Realtime session, falling back to the
+   * upload-then-synthesize flow when the input is not 24kHz mono or the
+   * connection fails
+   */
+  private async realtimeMode(
+    audio: AsyncIterable<Buffer> | undefined,
+    outputDir: string,
+    fallback: () => Promise<VoiceOutput>
+  ): Promise<void> {
+    let output: VoiceOutput | undefined;
+
+    if (audio) {
+      try {
+        output = await this.voiceClient.realtimeInteraction(
+          audio,
+          text => this.agentReply(text),
+          {
+            onUserTurn: text => this.print(`User said: "${text}"`),
+            onResponseTranscriptDelta: delta => {
+              if (!this.options.json) process.stdout.write(delta);
+            },
+            onInterrupted: () => this.print('\n[interrupted]'),
+          },
+          { model: this.options.realtimeModel }
+        );
+        if (!this.options.json) process.stdout.write('\n');
+      } catch (error) {
+        console.warn(`Realtime session failed, falling back: ${(error as Error).message}`);
+      }
+    } else {
+      console.warn(`Realtime mode needs 16-bit mono PCM at ${REALTIME_SAMPLE_RATE}Hz; falling back`);
+    }
+
+    output ??= await fallback();
+
+    if (output.audioData) {
+      this.writeResponseAudio(output.audioData, outputDir);
+    }
+  }
+
+  private writeResponseAudio(audio: Buffer, outputDir: string): void {
+    const extension = detectAudioFormat(audio)?.extension ?? 'mp3';
+    const outputPath = path.join(outputDir, `response_${Date.now()}.${extension}`);
+    fs.writeFileSync(outputPath, audio);
+    this.print(`Generated response audio: ${outputPath}`);
+  }
+
   /**
    * Single command mode
    */
   async singleCommandMode(input: string): Promise<void> {
-    console.log(`Processing: "${input}"`);
-    const response = await this.processVoiceCommand(input);
-    console.log(`Response: ${response}`);
+    this.print(`Processing: "${input}"`);
+    const renderer = this.createRenderer('Response');
+    const response = await this.runAgent(input, renderer.onEvent);
+    renderer.finish(response);
+    if (response.sessionId) {
+      this.print(`Session: ${response.sessionId}`);
+    }
+    if (response.pendingAction) {
+      const { actionId } = response.pendingAction;
+      this.print(`Pending action ${actionId}; approve with POST /agent/actions/${actionId}/approve`);
+    }
   }
 
   /**
-   * Run the CLI
+   * `run` - one command from the arguments, a file (audio or text), raw PCM
+   * on stdin, or stdin text. Resolves with the exit code for the agent's answer.
    */
-  async run(): Promise<void> {
-    try {
-      // Start agent server
-      await this.ensureAgentServer();
-
-      // Determine mode based on options
-      if (this.options.audioFile) {
-        await this.fileMode(this.options.audioFile);
-      } else if (this.options.interactive) {
-        await this.interactiveMode();
-      } else {
-        // Default: read from stdin for single line
-        const rl = readline.createInterface({
-          input: process.stdin,
-          output: process.stdout,
-        });
-
-        rl.question('Enter your command: ', async (input) => {
-          rl.close();
-          await this.singleCommandMode(input);
-        });
+  async runCommand(words: string[], stdinPcm: boolean): Promise<number> {
+    if (stdinPcm) {
+      await this.pcmStdinMode();
+    } else if (words.length === 1 && fs.existsSync(words[0]) && fs.statSync(words[0]).isFile()) {
+      await this.fileMode(words[0]);
+    } else if (words.length === 1 && /^[^\s]+\.[A-Za-z0-9]{1,5}$/.test(words[0])) {
+      // Looks like a path rather than a sentence; don't send a typo to the agent
+      throw new Error(`File not found: ${words[0]}`);
+    } else {
+      const fromStdin = words.length === 0 || (words.length === 1 && words[0] === '-');
+      const input = (fromStdin ? await this.readCommand() : words.join(' ')).trim();
+      if (!input) {
+        throw new UsageError('No command given');
       }
-    } catch (error) {
-      console.error('Fatal error:', error);
-      process.exit(1);
+      await this.singleCommandMode(input);
+    }
+
+    const response = this.lastResponse;
+    if (!response) {
+      // A realtime session that ended without a turn
+      return ExitCode.OK;
+    }
+    if (this.options.json) {
+      process.stdout.write(`${JSON.stringify(response, null, 2)}\n`);
     }
+    return exitCodeFor(response);
+  }
+
+  /**
+   * The command text from stdin: everything when piped, one line when typed
+   * at a terminal
+   */
+  private async readCommand(): Promise<string> {
+    if (!process.stdin.isTTY) {
+      return readStdin();
+    }
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: this.options.json ? process.stderr : process.stdout,
+    });
+    const input = await new Promise<string>(resolve => rl.question('Enter your command: ', resolve));
+    rl.close();
+    return input;
+  }
+
+  /**
+   * `transcribe` - print the transcript of an audio file
+   */
+  async transcribeCommand(filePath: string): Promise<void> {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`File not found: ${filePath}`);
+    }
+    const content = fs.readFileSync(filePath);
+    if (!detectAudioFormat(content)) {
+      throw new Error(`Not a supported audio file: ${filePath}`);
+    }
+    console.log(await this.voiceClient.transcribeAudio(content));
+  }
+
+  /**
+   * `speak` - synthesize text to an audio file
+   */
+  async speakCommand(text: string, outputPath?: string): Promise<void> {
+    const audio = await this.voiceClient.generateSpeech(text);
+    if (outputPath) {
+      fs.writeFileSync(outputPath, audio);
+      this.print(`Generated audio: ${outputPath}`);
+      return;
+    }
+    this.writeResponseAudio(audio, process.cwd());
   }
 
   /**
@@ -188,107 +873,657 @@ class VoiceCLI {
     if (this.agentServer) {
       await this.agentServer.stop();
     }
+    if (this.mcpClient) {
+      await this.mcpClient.disconnect();
+    }
+  }
+}
+
+/**
+ * Build runtime options from the resolved configuration
+ */
+function buildOptions(
+  config: CliConfig,
+  apiKey: string,
+  extra: Pick<CliOptions, 'sessionId' | 'pcm' | 'json'>
+): CliOptions {
+  const speech: SpeechConfig = {
+    stt: config.get<string>('speech.stt') as SpeechToTextProviderId,
+    tts: config.get<string>('speech.tts') as TextToSpeechProviderId,
+    language: config.get('speech.language'),
+    openai: {
+      transcriptionModel: config.get('speech.openai.transcriptionModel'),
+      speechModel: config.get('speech.openai.speechModel'),
+      voice: config.get('speech.openai.voice'),
+    },
+    whisperCpp: {
+      binary: config.get('speech.whisperCpp.binary'),
+      model: config.get('speech.whisperCpp.model'),
+      threads: config.get('speech.whisperCpp.threads'),
+    },
+    piper: { binary: config.get('speech.piper.binary'), model: config.get('speech.piper.model') },
+    espeak: { binary: config.get('speech.espeak.binary'), voice: config.get('speech.espeak.voice') },
+    ffmpeg: config.get('speech.ffmpeg'),
+  };
+
+  const cassettePath = config.get<string>('cassette.path');
+  const cassette = cassettePath
+    ? { path: cassettePath, mode: config.get<string>('cassette.mode') as CassetteMode }
+    : undefined;
+
+  let realtime = config.get<boolean>('realtime.enabled') ?? false;
+  if (realtime && speech.stt !== 'openai') {
+    console.warn('Realtime streaming uses OpenAI speech; ignoring --realtime with a local STT provider');
+    realtime = false;
+  }
+  if (realtime && cassette) {
+    console.warn('Realtime sessions cannot be recorded; ignoring --realtime in cassette mode');
+    realtime = false;
   }
+
+  return {
+    apiKey,
+    agentUrl: config.get<string>('agent.url')!,
+    agentPort: config.get<number>('agent.port')!,
+    agentHost: config.get<string>('agent.host')!,
+    agentMode: config.get<string>('agent.mode') as AgentMode,
+    mcpServerUrl: config.get('mcp.url'),
+    mcpApiKey: config.get('mcp.apiKey'),
+    mcpConfigPath: config.get('mcp.config'),
+    connectionsPath: config.get('mcp.connections'),
+    useMockTools: config.get<boolean>('mcp.mockTools') ?? false,
+    model: config.get('agent.model'),
+    baseURL: config.get('openai.baseURL'),
+    sessionId: extra.sessionId,
+    realtime,
+    realtimeModel: config.get('realtime.model'),
+    pcm: extra.pcm,
+    speech,
+    cassette,
+    apiToken: config.get('agent.token'),
+    requireAuth: config.get<boolean>('agent.requireAuth') ?? false,
+    corsOrigins: config.get('agent.corsOrigins'),
+    maxBodySize: config.get('agent.maxBodySize'),
+    sessionDir: config.get('agent.sessionDir'),
+    auditLogPath: config.get('agent.auditLog'),
+    keystorePath: config.get('agent.keystore'),
+    schedulesPath: config.get('agent.schedules'),
+    workflowsDir: config.get('agent.workflowsDir'),
+    directoryPath: config.get('agent.directory'),
+    timeZone: config.get('agent.timezone') ?? defaultTimeZone(),
+    json: extra.json,
+  };
 }
 
 /**
- * Parse command line arguments
+ * The OpenAI key for commands that call models or OpenAI speech. Local speech
+ * engines plus a local OpenAI-compatible model server need no key, and neither
+ * does a replay, which makes no calls at all.
  */
-function parseArgs(): CliOptions {
-  const args = process.argv.slice(2);
+function resolveApiKey(config: CliConfig, command: string): string {
+  const apiKey = config.get<string>('openai.apiKey');
+  if (apiKey) return apiKey;
 
-  const apiKey =
-    process.env.OPENAI_API_KEY ||
-    args.find(arg => arg.startsWith('--api-key='))?.split('=')[1] ||
-    '';
+  const localStt = config.get('speech.stt') === 'whisper-cpp';
+  const localTts = config.get('speech.tts') !== 'openai';
+  const offline =
+    config.get('cassette.path') !== undefined && config.get('cassette.mode') === 'replay' ||
+    (command === 'transcribe' && localStt) ||
+    (command === 'speak' && localTts) ||
+    (config.get('openai.baseURL') !== undefined && localStt && localTts);
 
-  if (!apiKey) {
-    console.error('Error: OPENAI_API_KEY environment variable or --api-key argument required');
-    process.exit(1);
+  if (!offline && COMMANDS[command].model) {
+    throw new ConfigError([
+      'An OpenAI API key is required: set OPENAI_API_KEY, --api-key or "openai": { "apiKey": ... } in the config file',
+    ]);
   }
+  // The OpenAI SDK refuses to start without some key; local servers ignore it
+  return 'offline';
+}
 
-  const agentPort = parseInt(
-    process.env.AGENT_API_PORT ||
-    args.find(arg => arg.startsWith('--port='))?.split('=')[1] ||
-    '3000'
-  );
+function isAudioFile(filePath: string): boolean {
+  try {
+    if (!fs.statSync(filePath).isFile()) return false;
+  } catch {
+    return false;
+  }
+  return detectAudioFormat(fs.readFileSync(filePath)) !== null;
+}
 
-  const agentHost =
-    process.env.AGENT_API_HOST ||
-    args.find(arg => arg.startsWith('--host='))?.split('=')[1] ||
-    'localhost';
+function isRealtimePcm(wav: WavInfo): boolean {
+  return isPcm16(wav) && wav.channels === 1 && wav.sampleRate === REALTIME_SAMPLE_RATE;
+}
 
-  const agentUrl = `http://${agentHost}:${agentPort}`;
+/**
+ * Split PCM16 audio into 100ms chunks, as a microphone would deliver it
+ */
+async function* pcmChunks(pcm: Buffer): AsyncGenerator<Buffer> {
+  const chunkSize = (REALTIME_SAMPLE_RATE / 10) * 2;
+  for (let offset = 0; offset < pcm.length; offset += chunkSize) {
+    yield pcm.subarray(offset, offset + chunkSize);
+  }
+}
 
-  const interactive = args.includes('-i') || args.includes('--interactive');
-  const audioFile = args.find(arg => arg.endsWith('.wav') || arg.endsWith('.webm') || arg.endsWith('.txt'));
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
 
-  return {
-    apiKey,
-    agentUrl,
-    agentPort,
-    agentHost,
-    interactive,
-    audioFile,
-  };
+interface CommandSpec {
+  usage: string;
+  summary: string;
+  flags?: FlagSpecs;
+  /** Extra flags of individual subcommands */
+  subcommands?: Record<string, FlagSpecs>;
+  /** Reference text shown after the options in the command's help */
+  notes?: string;
+  /** Talks to an agent server, reusing or starting one per agent.mode */
+  agent?: boolean;
+  /** Calls OpenAI models or speech, so needs an API key unless offline */
+  model?: boolean;
 }
 
+const SESSION_FLAG: FlagSpecs = {
+  session: { type: 'string', value: 'ID', description: 'Resume a saved conversation session' },
+};
+
+const JSON_FLAG: FlagSpecs = {
+  json: { type: 'boolean', description: 'Print JSON' },
+};
+
+const KIND_FLAG: FlagSpecs = {
+  kind: { type: 'string', value: 'KIND', description: 'Only contacts, channels or repos: contact, channel or repo' },
+};
+
+const COMMANDS: Record<string, CommandSpec> = {
+  serve: {
+    usage: 'voice-cli serve',
+    summary: 'Run the agent server in the foreground',
+    model: true,
+  },
+  chat: {
+    usage: 'voice-cli chat [--session=ID]',
+    summary: 'Talk to the agent interactively',
+    flags: SESSION_FLAG,
+    agent: true,
+    model: true,
+  },
+  run: {
+    usage: 'voice-cli run [TEXT... | FILE | -] [--session=ID] [--stdin-pcm] [--json]',
+    summary: 'Run one command given as text, an audio or text file, raw PCM on stdin, or text on stdin. ' +
+      'Exit codes: 0 done, 1 agent error, 2 usage, 3 a tool call failed, 4 confirmation required',
+    flags: {
+      ...SESSION_FLAG,
+      json: { type: 'boolean', description: 'Print the full agent response as JSON; progress goes to stderr' },
+      'stdin-pcm': { type: 'boolean', description: 'Read raw 16-bit little-endian PCM from stdin' },
+      'sample-rate': { type: 'string', value: 'HZ', description: `Sample rate of --stdin-pcm input (default: ${REALTIME_SAMPLE_RATE})` },
+      channels: { type: 'string', value: 'N', description: 'Channel count of --stdin-pcm input (default: 1)' },
+    },
+    agent: true,
+    model: true,
+  },
+  batch: {
+    usage: 'voice-cli batch FILE [--concurrency=N] [--stop-on-error] [--resume] [--report=PATH]',
+    summary: 'Run a JSONL or plain-text file of commands through /agent/run and write a JSON and Markdown report',
+    flags: {
+      concurrency: { type: 'string', value: 'N', description: 'Commands in flight at once (default: 1)' },
+      'stop-on-error': { type: 'boolean', description: 'Skip the remaining commands after a failure (default: continue)' },
+      checkpoint: { type: 'string', value: 'PATH', description: 'Checkpoint file (default: FILE.checkpoint.json)' },
+      resume: { type: 'boolean', description: 'Skip commands the checkpoint records as done' },
+      report: { type: 'string', value: 'PATH', description: 'Report path without extension (default: FILE minus extension + .report)' },
+    },
+    agent: true,
+    model: true,
+  },
+  transcribe: {
+    usage: 'voice-cli transcribe AUDIO_FILE',
+    summary: 'Print the transcript of an audio file',
+    model: true,
+  },
+  speak: {
+    usage: 'voice-cli speak TEXT... | - [--out=PATH]',
+    summary: 'Synthesize text (or stdin with -) to an audio file',
+    flags: {
+      out: { type: 'string', value: 'PATH', description: 'Output file (default: ./response_<time>.<ext>)' },
+    },
+    model: true,
+  },
+  tools: {
+    usage: 'voice-cli tools list [--json]\n       voice-cli tools describe NAME [--json]\n' +
+      '       voice-cli tools call NAME [key=value ...] [--json FILE]',
+    summary: 'List, describe and call MCP tools directly, without the agent. ' +
+      'Missing required arguments are prompted for',
+    subcommands: {
+      list: JSON_FLAG,
+      describe: JSON_FLAG,
+      call: {
+        json: { type: 'string', value: 'FILE', description: 'Read arguments from a JSON file (- for stdin)' },
+      },
+    },
+  },
+  schedules: {
+    usage: 'voice-cli schedules list|show ID [--json]\n' +
+      '       voice-cli schedules create TEXT... (--at=TIME | --cron=EXPR) [--name=NAME] [--auto-approve]\n' +
+      '       voice-cli schedules create --tool=NAME [key=value ...] (--at=TIME | --cron=EXPR)\n' +
+      '       voice-cli schedules pause|resume|run|delete ID',
+    summary: 'Manage one-shot and cron jobs that replay an agent request or call a tool. ' +
+      'Jobs run while "voice-cli serve" is up',
+    subcommands: {
+      list: JSON_FLAG,
+      show: JSON_FLAG,
+      create: {
+        ...JSON_FLAG,
+        ...SESSION_FLAG,
+        at: { type: 'string', value: 'TIME', description: 'Run once at this ISO date/time (local time unless it has an offset)' },
+        cron: { type: 'string', value: 'EXPR', description: 'Repeat on a 5-field cron schedule, e.g. "0 9 * * mon"' },
+        name: { type: 'string', value: 'NAME', description: 'Label for the schedule' },
+        tool: { type: 'string', value: 'NAME', description: 'Call this tool with key=value arguments instead of asking the agent' },
+        'auto-approve': { type: 'boolean', description: 'Let the agent run side-effecting tools without confirmation' },
+      },
+    },
+    agent: true,
+  },
+  workflows: {
+    usage: 'voice-cli workflows list|show NAME [--json]\n' +
+      '       voice-cli workflows run NAME [key=value ...] [--session=ID] [--json]\n' +
+      '       voice-cli workflows validate FILE',
+    summary: 'List, inspect, check and run multi-step workflows defined in RUBE_WORKFLOWS_DIR. ' +
+      'Run exit codes are those of "run"',
+    subcommands: {
+      list: JSON_FLAG,
+      show: JSON_FLAG,
+      run: {
+        ...SESSION_FLAG,
+        json: { type: 'boolean', description: 'Print the full response as JSON; progress goes to stderr' },
+      },
+      validate: {},
+    },
+    agent: true,
+  },
+  connect: {
+    usage: 'voice-cli connect [--json]\n' +
+      '       voice-cli connect INTEGRATION [--port=N] [--no-browser]\n' +
+      '       voice-cli connect INTEGRATION --refresh|--disconnect',
+    summary: 'Show integration connections, or connect one through OAuth in the browser. ' +
+      'Tools of integrations that are not connected are unavailable',
+    flags: {
+      ...JSON_FLAG,
+      port: { type: 'string', value: 'N', description: 'Loopback port for the OAuth redirect (default: any free port)' },
+      browser: { type: 'boolean', description: 'Open the authorization URL in a browser (default: true)' },
+      refresh: { type: 'boolean', description: 'Refresh the access token now' },
+      disconnect: { type: 'boolean', description: 'Revoke and forget the tokens' },
+    },
+    agent: true,
+  },
+  directory: {
+    usage: 'voice-cli directory list [--kind=KIND] [--json]\n' +
+      '       voice-cli directory search NAME... [--kind=KIND] [--json]\n' +
+      '       voice-cli directory add KIND NAME VALUE [--alias=A,B] [--label=LABEL]\n' +
+      '       voice-cli directory remove ID\n' +
+      '       voice-cli directory import FILE [--format=vcard|csv] [--kind=KIND]\n' +
+      '       voice-cli directory sync',
+    summary: 'Manage the contacts, Slack channels and GitHub repos that names in requests are resolved against. ' +
+      'KIND is contact, channel or repo',
+    subcommands: {
+      list: { ...JSON_FLAG, ...KIND_FLAG },
+      search: { ...JSON_FLAG, ...KIND_FLAG },
+      add: {
+        ...JSON_FLAG,
+        alias: { type: 'string', value: 'A,B', description: 'Other names the entry answers to' },
+        label: { type: 'string', value: 'LABEL', description: 'Tells apart one person\'s addresses, e.g. work' },
+      },
+      remove: {},
+      import: {
+        ...KIND_FLAG,
+        format: { type: 'string', value: 'FORMAT', description: 'vcard or csv (default: from the file extension)' },
+      },
+      sync: JSON_FLAG,
+    },
+    agent: true,
+  },
+  sessions: {
+    usage: 'voice-cli sessions list|show ID|delete ID [--json]',
+    summary: 'Manage saved conversations',
+    flags: JSON_FLAG,
+  },
+  history: {
+    usage: 'voice-cli history [--tool=NAME] [--since=TIME] [--failed] [--limit=N] [--json]',
+    summary: 'Show tool calls the assistant executed, newest first, from the audit log',
+    flags: {
+      tool: { type: 'string', value: 'NAME', description: 'Only calls to this tool' },
+      session: { type: 'string', value: 'ID', description: 'Only calls from this session' },
+      since: { type: 'string', value: 'TIME', description: 'ISO date/time, or a duration ago (30m, 24h, 7d)' },
+      until: { type: 'string', value: 'TIME', description: 'ISO date/time, or a duration ago' },
+      failed: { type: 'boolean', description: 'Only failed calls' },
+      succeeded: { type: 'boolean', description: 'Only successful calls' },
+      limit: { type: 'string', value: 'N', description: 'Maximum entries (default: 20)' },
+      json: { type: 'boolean', description: 'Print entries as JSON lines' },
+    },
+  },
+  token: {
+    usage: 'voice-cli token create NAME [--scopes=SCOPES]\n' +
+      '       voice-cli token list [--all]\n' +
+      '       voice-cli token revoke ID_OR_NAME',
+    summary: 'Manage bearer tokens accepted by the agent server when AGENT_REQUIRE_AUTH=true',
+    subcommands: {
+      create: {
+        scopes: { type: 'string', value: 'SCOPES', description: 'Comma-separated scopes the token grants' },
+      },
+      list: {
+        all: { type: 'boolean', description: 'Include revoked tokens' },
+      },
+      revoke: {},
+    },
+    notes: TOKEN_SCOPES_HELP,
+  },
+  config: {
+    usage: 'voice-cli config show [--json] [--all] | config path',
+    summary: 'Show the effective configuration and where each value came from',
+    flags: {
+      ...JSON_FLAG,
+      all: { type: 'boolean', description: 'Include settings that are unset' },
+    },
+  },
+};
+
 /**
  * Print help
  */
 function printHelp(): void {
+  const commands = Object.entries(COMMANDS)
+    .map(([name, spec]) => `  ${name.padEnd(24)}${spec.summary}`)
+    .join('\n');
+
   console.log(`
 Voice CLI - OpenAI Realtime + Agent + Rube Integration
 
-Usage: voice-cli [OPTIONS] [AUDIO_FILE]
+Usage: voice-cli COMMAND [OPTIONS]
+
+Commands:
+${commands}
 
-Options:
-  -i, --interactive        Start in interactive mode
-  --api-key=KEY           OpenAI API key (or set OPENAI_API_KEY env var)
-  --host=HOST             Agent API host (default: localhost)
-  --port=PORT             Agent API port (default: 3000)
+Run "voice-cli COMMAND --help" for the options of a command. Without a
+command, "voice-cli -i" starts chat and "voice-cli ARGS" means "run ARGS".
+
+Global options:
+${formatFlags(CONFIG_FLAGS)}
   -h, --help              Show this help message
 
+Configuration is layered: built-in defaults, then the config file, then the
+selected profile, then environment variables, then flags. See every effective
+value and its source with "voice-cli config show".
+
 Examples:
   # Interactive mode
-  voice-cli -i
+  voice-cli chat
 
   # Process audio file
-  voice-cli audio.webm
+  voice-cli run audio.webm
+
+  # Stream a 24kHz mono WAV over the Realtime API
+  voice-cli run --realtime question.wav
+
+  # Stream microphone audio over the Realtime API
+  arecord -f S16_LE -r 24000 -c 1 -t raw | voice-cli run --stdin-pcm --realtime
+
+  # Fully offline speech with whisper.cpp and Piper
+  voice-cli run --stt=whisper-cpp --tts=piper audio.wav
+
+  # Record a run, then replay it deterministically (e.g. in CI)
+  voice-cli run --record=fixtures/email.cassette.json audio.wav
+  voice-cli run --replay=fixtures/email.cassette.json audio.wav
 
   # Single command
-  echo "Send an email" | voice-cli
+  voice-cli run "Send an email"
+
+  # Use the "work" profile from the config file
+  voice-cli chat --profile=work
 
 Environment Variables:
+  RUBE_CONFIG             Config file (default: ./rube.config.json, ~/.rube/config.json)
+  RUBE_PROFILE            Config profile to apply
   OPENAI_API_KEY          OpenAI API key (required)
+  AGENT_MODE              auto, remote or embedded (default: auto)
+  AGENT_URL               Agent API URL (default: http://AGENT_API_HOST:AGENT_API_PORT)
   AGENT_API_HOST          Agent API host (default: localhost)
   AGENT_API_PORT          Agent API port (default: 3000)
+  RUBE_MCP_URL            Rube MCP endpoint
+  RUBE_API_KEY            Bearer token for the Rube MCP endpoint
+  MCP_CONFIG_PATH         MCP servers config file
+  AGENT_MODEL             Chat model for the agent
+  OPENAI_BASE_URL         OpenAI-compatible API base URL
+  RUBE_SESSION_DIR        Session storage directory (default: ~/.rube/sessions)
+  RUBE_USE_MOCK_TOOLS     Set to "true" to use mock tools
+  VOICE_REALTIME          Set to "true" to stream audio over the Realtime API
+  OPENAI_REALTIME_MODEL   Realtime model (default: gpt-realtime)
+  OPENAI_REALTIME_URL     Realtime WebSocket URL override
+  STT_PROVIDER            Speech-to-text provider (openai, whisper-cpp)
+  TTS_PROVIDER            Text-to-speech provider (openai, piper, espeak)
+  SPEECH_LANGUAGE         Spoken language code (default: en)
+  OPENAI_STT_MODEL        OpenAI transcription model (default: whisper-1)
+  OPENAI_TTS_MODEL        OpenAI speech model (default: tts-1)
+  OPENAI_TTS_VOICE        OpenAI voice (default: alloy)
+  WHISPER_CPP_BIN         whisper.cpp binary (default: whisper-cli)
+  WHISPER_CPP_MODEL       whisper.cpp ggml model path
+  WHISPER_CPP_THREADS     whisper.cpp thread count
+  PIPER_BIN               Piper binary (default: piper)
+  PIPER_MODEL             Piper voice model path (.onnx)
+  ESPEAK_BIN              espeak binary (default: espeak-ng)
+  ESPEAK_VOICE            espeak voice (default: the speech language)
+  FFMPEG_BIN              ffmpeg binary for converting audio (default: ffmpeg)
+  RUBE_AUDIT_LOG          Audit log of executed tool calls (default: ~/.rube/audit.jsonl)
+  RUBE_CASSETTE           Cassette file to record or replay
+  RUBE_CASSETTE_MODE      "record" or "replay" (default: replay)
+  AGENT_API_TOKEN         Bearer token sent to the agent server
+  AGENT_REQUIRE_AUTH      Set to "true" to require tokens on the agent server
+  RUBE_KEYSTORE           Agent server token file (default: ~/.rube/tokens.json)
+  RUBE_SCHEDULES_FILE     Scheduled jobs (default: ~/.rube/schedules.json)
+  RUBE_WORKFLOWS_DIR      Workflow definitions (default: ~/.rube/workflows)
+  RUBE_TIMEZONE           Time zone for spoken dates and times (default: the system's)
+  RUBE_DIRECTORY_FILE     Contacts, channels and repos (default: ~/.rube/directory.json)
+  RUBE_LOG_LEVEL          debug, info, warn or error (default: info)
+  RUBE_LOG_FORMAT         json or text (default: text on a terminal, json otherwise)
+  AGENT_CORS_ORIGINS      Comma-separated origins allowed to call the agent API
+  AGENT_MAX_BODY_SIZE     Maximum agent API request body (default: 1mb)
+  RUBE_USAGE_FILE         Daily rate limit usage (default: ~/.rube/usage.json)
+  RUBE_CONNECTIONS_FILE   Encrypted integration tokens (default: ~/.rube/connections.json)
+  RUBE_CONNECTIONS_KEY    Passphrase for that file (default: a key file next to it)
 
 For more information, see: https://docs.rube.app/
   `);
 }
 
-// Main entry point
-const args = process.argv.slice(2);
+function printCommandHelp(name: string, subcommand?: string): void {
+  const spec = COMMANDS[name];
+  const sections = spec.flags ? [`Options:\n${formatFlags(spec.flags)}`] : [];
+  for (const [sub, flags] of Object.entries(spec.subcommands ?? {})) {
+    if (!subcommand || sub === subcommand) {
+      sections.push(`Options for ${sub}:\n${formatFlags(flags)}`);
+    }
+  }
+  if (spec.notes) sections.push(spec.notes);
+  const flags = sections.map(section => `\n${section}\n`).join('');
+  console.log(`
+Usage: ${spec.usage}
 
-if (args.includes('-h') || args.includes('--help')) {
-  printHelp();
-  process.exit(0);
+${spec.summary}.
+${flags}
+Global options:
+${formatFlags(CONFIG_FLAGS)}
+`);
 }
 
-const options = parseArgs();
-const cli = new VoiceCLI(options);
+function parseCount(flags: Record<string, string | boolean>, name: string, fallback: number): number {
+  const value = flags[name];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || parseInt(value) === 0) {
+    throw new UsageError(`Invalid --${name}: expected a positive integer`);
+  }
+  return parseInt(value);
+}
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('\nShutting down...');
-  await cli.cleanup();
-  process.exit(0);
-});
+/**
+ * Dispatch a command line; resolves with the process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let [name, ...rest] = argv;
+  if (!name || !(name in COMMANDS)) {
+    if (argv.length > 0 && argv.every(arg => arg === '-h' || arg === '--help')) {
+      printHelp();
+      return 0;
+    }
+    // Legacy invocations: `voice-cli -i` and `voice-cli [OPTIONS] [FILE]`
+    const legacyChat = argv.includes('-i') || argv.includes('--interactive');
+    name = legacyChat ? 'chat' : 'run';
+    rest = argv.filter(arg => arg !== '-i' && arg !== '--interactive');
+  }
+
+  const command = COMMANDS[name];
+  const subcommand = command.subcommands ? rest.find(arg => arg in command.subcommands!) : undefined;
+  const { positionals, flags } = parseArgs(rest, {
+    ...CONFIG_FLAGS,
+    ...command.flags,
+    ...(subcommand ? command.subcommands![subcommand] : undefined),
+    help: { type: 'boolean', short: 'h' },
+  });
+  if (flags.help) {
+    printCommandHelp(name, subcommand);
+    return 0;
+  }
+
+  const config = loadConfig(flags);
+  configureLogging({
+    level: config.get<LogLevel>('log.level'),
+    format: config.get<LogFormat>('log.format'),
+  });
+  if (name === 'config') return runConfigCommand(positionals, flags, config);
+  if (name === 'sessions') return runSessionsCommand(positionals, flags, new SessionStore(config.get('agent.sessionDir')));
+  if (name === 'history') {
+    return runHistoryCommand(positionals, flags, new AuditLog(config.get('agent.auditLog') ?? defaultAuditLogPath()));
+  }
+  if (name === 'token') {
+    return runTokenCommand(positionals, flags, new TokenKeystore(config.get('agent.keystore') ?? defaultKeystorePath()));
+  }
+
+  const json = (name === 'run' || (name === 'workflows' && subcommand === 'run')) && flags.json === true;
+  try {
+    return await runCliCommand(name, subcommand, positionals, flags, config, json);
+  } catch (error) {
+    if (!json) throw error;
+    // Whatever failed, scripts reading stdout get a JSON document
+    process.stdout.write(`${JSON.stringify({ error: error instanceof Error ? error.message : String(error) })}\n`);
+    return error instanceof UsageError || error instanceof ConfigError ? ExitCode.USAGE : ExitCode.AGENT_ERROR;
+  }
+}
 
-cli.run().catch(error => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+/**
+ * Run a command that needs the full CLI: speech, MCP tools or an agent server
+ */
+async function runCliCommand(
+  name: string,
+  subcommand: string | undefined,
+  positionals: string[],
+  flags: Record<string, string | boolean>,
+  config: CliConfig,
+  json: boolean
+): Promise<number> {
+  const command = COMMANDS[name];
+
+  const cli = new VoiceCLI(buildOptions(config, resolveApiKey(config, name), {
+    json,
+    sessionId: typeof flags.session === 'string' ? flags.session : undefined,
+    pcm: {
+      sampleRate: parseCount(flags, 'sample-rate', REALTIME_SAMPLE_RATE),
+      channels: parseCount(flags, 'channels', 1),
+    },
+  }));
+
+  // Handle graceful shutdown
+  process.on('SIGINT', async () => {
+    console.error('\nShutting down...');
+    await cli.cleanup();
+    process.exit(0);
+  });
+
+  try {
+    if (command.agent) {
+      await cli.ensureAgentServer();
+    }
+
+    switch (name) {
+      case 'serve':
+        await cli.startAgentServer(true);
+        // Runs until interrupted
+        return new Promise<number>(() => undefined);
+      case 'chat':
+        await cli.interactiveMode();
+        return 0;
+      case 'run':
+        // Transcription, the agent run and speech share one request ID
+        return await withLogContext({ requestId: randomUUID() }, () =>
+          cli.runCommand(positionals, flags['stdin-pcm'] === true)
+        );
+      case 'batch':
+        return await runBatchCommand(positionals, flags, request => cli.postAgentRun(request));
+      case 'transcribe':
+        if (positionals.length !== 1) throw new UsageError(`Usage: ${command.usage}`);
+        await cli.transcribeCommand(positionals[0]);
+        return 0;
+      case 'speak': {
+        if (positionals.length === 0) throw new UsageError(`Usage: ${command.usage}`);
+        const text = positionals.length === 1 && positionals[0] === '-' ? await readStdin() : positionals.join(' ');
+        if (!text.trim()) throw new UsageError('Nothing to speak');
+        await cli.speakCommand(text, typeof flags.out === 'string' ? flags.out : undefined);
+        return 0;
+      }
+      case 'tools':
+        return await runToolsCommand(positionals, flags, await cli.connectTools());
+      case 'schedules':
+        return await runSchedulesCommand(positionals, flags, (method, urlPath, body) =>
+          cli.agentRequest(method, urlPath, body)
+        );
+      case 'directory':
+        return await runDirectoryCommand(positionals, flags, (method, urlPath, body) =>
+          cli.agentRequest(method, urlPath, body)
+        );
+      case 'connect':
+        return await runConnectCommand(positionals, flags, (method, urlPath, body) =>
+          cli.agentRequest(method, urlPath, body)
+        );
+      case 'workflows':
+        return await runWorkflowsCommand(
+          positionals,
+          flags,
+          (method, urlPath, body) => cli.agentRequest(method, urlPath, body),
+          (workflow, inputs) => cli.runWorkflow(workflow, inputs)
+        );
+      default:
+        throw new UsageError(`Unknown command: ${name}`);
+    }
+  } finally {
+    if (name !== 'serve') {
+      await cli.cleanup();
+    }
+  }
+}
+
+// Main entry point
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\nRun "voice-cli --help" for usage.`);
+      process.exit(ExitCode.USAGE);
+    }
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(ExitCode.USAGE);
+    }
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(ExitCode.AGENT_ERROR);
+  });
 
 export default VoiceCLI;
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import type { AgentResponse } from '../agent/agent-server';
+import type { MCPTool } from '../mcp/mcp-client';
+import { parseWorkflow, workflowTool } from '../agent/workflows';
+import type { Workflow, WorkflowLoadError, WorkflowStepResult } from '../agent/workflows';
+import { UsageError } from './args';
+import { ExitCode, exitCodeFor } from './exit-codes';
+import type { AgentApi } from './schedules';
+import { missingFields, parseKeyValueArgs, promptForMissing } from './tool-arguments';
+
+/**
+ * `voice-cli workflows` - list, inspect, validate and run workflow definitions
+ */
+
+/**
+ * Runs a workflow through the agent API, printing progress as it goes
+ */
+export type WorkflowRunner = (name: string, inputs: Record<string, unknown>) => Promise<AgentResponse>;
+
+const STEP_ICONS: Record<WorkflowStepResult['status'], string> = {
+  succeeded: '✓',
+  failed: '✗',
+  skipped: '-',
+};
+
+function formatSummary(workflow: Workflow): string {
+  const lines = [`${workflow.name}  (${workflow.steps.map(step => step.tool).join(' → ')})`];
+  if (workflow.description) lines.push(`    ${workflow.description}`);
+  if (workflow.triggers.length > 0) lines.push(`    Say: ${workflow.triggers.map(t => `"${t}"`).join(', ')}`);
+  return lines.join('\n');
+}
+
+function formatWorkflow(workflow: Workflow): string {
+  const lines = [`Workflow ${workflow.name}`];
+  if (workflow.description) lines.push(workflow.description);
+  if (workflow.source) lines.push(`File: ${workflow.source}`);
+  if (workflow.triggers.length > 0) {
+    lines.push('', 'Triggers:', ...workflow.triggers.map(trigger => `  "${trigger}"`));
+  }
+
+  const inputs = Object.entries(workflow.inputs);
+  if (inputs.length > 0) {
+    lines.push('', 'Inputs:');
+    for (const [name, input] of inputs) {
+      const extras = [
+        input.description,
+        input.default !== undefined ? `default: ${JSON.stringify(input.default)}` : undefined,
+      ].filter(Boolean).join('; ');
+      lines.push(`  ${name}  ${input.type ?? 'string'}  ${input.required ? 'required' : 'optional'}  ${extras}`.trimEnd());
+    }
+  }
+
+  lines.push('', 'Steps:');
+  for (const [index, step] of workflow.steps.entries()) {
+    const options = [
+      step.if !== undefined ? `if ${step.if}` : undefined,
+      step.onError === 'continue' ? 'continues on error' : undefined,
+      step.retries > 0 ? `${step.retries} ${step.retries === 1 ? 'retry' : 'retries'}` : undefined,
+    ].filter(Boolean).join(', ');
+    lines.push(`  ${index + 1}. ${step.id}: ${step.tool} ${JSON.stringify(step.arguments)}${options ? `  (${options})` : ''}`);
+  }
+  if (workflow.response) {
+    lines.push('', `Response: ${workflow.response}`);
+  }
+  return lines.join('\n');
+}
+
+function formatErrors(errors: WorkflowLoadError[]): string {
+  return errors.map(({ file, error }) => `✗ ${file}: ${error}`).join('\n');
+}
+
+/**
+ * Parse a definition file and check its step tools against the server's
+ */
+async function validateFile(filePath: string | undefined, api: AgentApi): Promise<number> {
+  if (!filePath) throw new UsageError('Usage: voice-cli workflows validate FILE');
+
+  let workflow: Workflow;
+  try {
+    workflow = parseWorkflow(fs.readFileSync(filePath, 'utf-8'), path.basename(filePath, path.extname(filePath)));
+  } catch (error) {
+    console.error(`✗ ${filePath}: ${(error as Error).message}`);
+    return ExitCode.AGENT_ERROR;
+  }
+
+  const { tools } = await api<{ tools: MCPTool[] }>('get', '/agent/tools');
+  const unknown = [...new Set(workflow.steps.map(step => step.tool))]
+    .filter(name => !tools.some(tool => tool.name === name));
+  if (unknown.length > 0) {
+    console.error(`✗ ${filePath}: unknown or disallowed tools: ${unknown.join(', ')}`);
+    return ExitCode.AGENT_ERROR;
+  }
+  console.log(`✓ ${filePath}: workflow ${workflow.name}, ${workflow.steps.length} steps`);
+  return ExitCode.OK;
+}
+
+async function runWorkflow(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi,
+  run: WorkflowRunner
+): Promise<number> {
+  const [name, ...pairs] = args;
+  if (!name) throw new UsageError('Usage: voice-cli workflows run NAME [key=value ...]');
+
+  const workflow = await api<Workflow>('get', `/agent/workflows/${encodeURIComponent(name)}`);
+  // The workflow's tool definition types key=value inputs like tool arguments
+  const tool = workflowTool(workflow, false);
+  let inputs = parseKeyValueArgs(pairs, tool);
+
+  const missing = missingFields(tool, inputs);
+  if (missing.length > 0) {
+    if (!process.stdin.isTTY || flags.json) {
+      throw new UsageError(`Missing required inputs for ${workflow.name}: ${missing.join(', ')}`);
+    }
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      inputs = await promptForMissing(tool, inputs, question => new Promise(resolve => rl.question(question, resolve)));
+    } finally {
+      rl.close();
+    }
+  }
+
+  const response = await run(workflow.name, inputs);
+  if (flags.json) {
+    process.stdout.write(`${JSON.stringify(response, null, 2)}\n`);
+  } else if (response.workflow) {
+    console.log(response.workflow.steps
+      .map(step => `  ${STEP_ICONS[step.status]} ${step.id} (${step.tool})${step.error ? `: ${step.error}` : ''}`)
+      .join('\n'));
+  }
+  return exitCodeFor(response);
+}
+
+/**
+ * Run the workflows command; resolves with the process exit code
+ */
+export async function runWorkflowsCommand(
+  args: string[],
+  flags: Record<string, string | boolean>,
+  api: AgentApi,
+  run: WorkflowRunner
+): Promise<number> {
+  const [subcommand = 'list', ...rest] = args;
+
+  switch (subcommand) {
+    case 'list': {
+      const { workflows, errors } = await api<{ workflows: Workflow[]; errors: WorkflowLoadError[] }>(
+        'get',
+        '/agent/workflows'
+      );
+      if (flags.json) {
+        console.log(JSON.stringify({ workflows, errors }, null, 2));
+        return ExitCode.OK;
+      }
+      console.log(workflows.length === 0 ? 'No workflows' : workflows.map(formatSummary).join('\n'));
+      if (errors.length > 0) {
+        console.error(`\n${formatErrors(errors)}`);
+      }
+      return ExitCode.OK;
+    }
+    case 'show': {
+      if (!rest[0]) throw new UsageError('Usage: voice-cli workflows show NAME');
+      const workflow = await api<Workflow>('get', `/agent/workflows/${encodeURIComponent(rest[0])}`);
+      console.log(flags.json ? JSON.stringify(workflow, null, 2) : formatWorkflow(workflow));
+      return ExitCode.OK;
+    }
+    case 'run':
+      return runWorkflow(rest, flags, api, run);
+    case 'validate':
+      return validateFile(rest[0], api);
+    default:
+      throw new UsageError(`Unknown workflows command: ${subcommand} (expected list, show, run or validate)`);
+  }
+}
@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Cassette, CassetteMismatchError, canonicalJson, digest } from './cassette';
+
+/**
+ * Records interactions into a temporary cassette and replays them from disk
+ */
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cassette-test-'));
+  file = path.join(dir, 'nested', 'run.json');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Record the given calls, each answering with its `response` */
+async function record(calls: { kind: 'completion' | 'speech' | 'mcp.call'; request: unknown; response: unknown }[]): Promise<void> {
+  const cassette = new Cassette(file, 'record');
+  for (const { kind, request, response } of calls) {
+    await cassette.intercept(kind, request, async () => response);
+  }
+}
+
+describe('canonicalJson', () => {
+  test('sorts keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ f: 1, e: 2 }], c: null } })).toBe('{"a":{"c":null,"d":[{"e":2,"f":1}]},"b":1}');
+  });
+});
+
+describe('digest', () => {
+  test('hashes buffers and strings alike', () => {
+    expect(digest('abc')).toBe('sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(digest(Buffer.from('abc'))).toBe(digest('abc'));
+  });
+});
+
+describe('Cassette', () => {
+  test('records every call and passes results through', async () => {
+    const cassette = new Cassette(file, 'record');
+    let calls = 0;
+    const result = await cassette.intercept('completion', { prompt: 'hi' }, async () => {
+      calls++;
+      return { text: 'hello' };
+    });
+
+    expect(result).toEqual({ text: 'hello' });
+    expect(calls).toBe(1);
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    expect(saved.version).toBe(1);
+    expect(saved.interactions).toEqual([{ kind: 'completion', request: { prompt: 'hi' }, response: { text: 'hello' } }]);
+  });
+
+  test('replays without running the call', async () => {
+    await record([{ kind: 'completion', request: { prompt: 'hi', model: 'gpt' }, response: { text: 'hello' } }]);
+
+    const cassette = new Cassette(file, 'replay');
+    const result = await cassette.intercept<{ text: string }>('completion', { model: 'gpt', prompt: 'hi' }, async () => {
+      throw new Error('should not run');
+    });
+    expect(result).toEqual({ text: 'hello' });
+    expect(cassette.remaining()).toEqual([]);
+  });
+
+  test('matches by content rather than position', async () => {
+    await record([
+      { kind: 'speech', request: { text: 'one' }, response: 'audio-1' },
+      { kind: 'completion', request: { prompt: 'a' }, response: 'A' },
+      { kind: 'speech', request: { text: 'two' }, response: 'audio-2' },
+    ]);
+
+    const cassette = new Cassette(file, 'replay');
+    const never = async (): Promise<string> => {
+      throw new Error('should not run');
+    };
+    expect(await cassette.intercept('speech', { text: 'two' }, never)).toBe('audio-2');
+    expect(await cassette.intercept('completion', { prompt: 'a' }, never)).toBe('A');
+    expect(cassette.remaining()).toEqual([{ kind: 'speech', request: { text: 'one' }, response: 'audio-1' }]);
+  });
+
+  test('replays repeated requests in recorded order, once each', async () => {
+    await record([
+      { kind: 'mcp.call', request: { tool: 'poll' }, response: 'pending' },
+      { kind: 'mcp.call', request: { tool: 'poll' }, response: 'done' },
+    ]);
+
+    const cassette = new Cassette(file, 'replay');
+    const never = async (): Promise<string> => 'live';
+    expect(await cassette.intercept('mcp.call', { tool: 'poll' }, never)).toBe('pending');
+    expect(await cassette.intercept('mcp.call', { tool: 'poll' }, never)).toBe('done');
+    await expect(cassette.intercept('mcp.call', { tool: 'poll' }, never)).rejects.toThrow(CassetteMismatchError);
+  });
+
+  test('names the next unused interaction on a mismatch', async () => {
+    await record([{ kind: 'mcp.call', request: { tool: 'send_email', to: 'ada@example.com' }, response: 'sent' }]);
+
+    const cassette = new Cassette(file, 'replay');
+    const error = await cassette.intercept('mcp.call', { tool: 'send_email', to: 'bob@example.com' }, async () => 'live')
+      .catch(error => error);
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect(error).toMatchObject({ kind: 'mcp.call', request: { tool: 'send_email', to: 'bob@example.com' } });
+    expect(error.message).toBe(
+      'No recorded mcp.call interaction matches request {"to":"bob@example.com","tool":"send_email"}\n' +
+      'Next unused mcp.call in cassette: {"to":"ada@example.com","tool":"send_email"}'
+    );
+  });
+
+  test('round-trips buffers', async () => {
+    await record([{ kind: 'speech', request: { text: 'hi' }, response: Buffer.from([0, 1, 254, 255]) }]);
+    expect(fs.readFileSync(file, 'utf-8')).toContain('"$buffer": "AAH+/w=="');
+
+    const replayed = await new Cassette(file, 'replay').intercept('speech', { text: 'hi' }, async () => Buffer.alloc(0));
+    expect(Buffer.isBuffer(replayed)).toBe(true);
+    expect([...replayed]).toEqual([0, 1, 254, 255]);
+  });
+
+  test('refuses to replay a missing cassette', () => {
+    expect(() => new Cassette(file, 'replay')).toThrow(`Cassette not found: ${file}`);
+  });
+});
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Record/replay of every outbound call the voice pipeline makes, so an
+ * end-to-end run can be repeated offline and deterministically (e.g. in CI)
+ */
+
+export type CassetteMode = 'record' | 'replay';
+
+export type InteractionKind = 'transcription' | 'speech' | 'completion' | 'mcp.tools' | 'mcp.call';
+
+export interface Interaction {
+  kind: InteractionKind;
+  request: unknown;
+  response: unknown;
+}
+
+interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+/**
+ * Thrown in replay mode when a request has no matching recorded interaction
+ */
+export class CassetteMismatchError extends Error {
+  kind: InteractionKind;
+  request: unknown;
+
+  constructor(kind: InteractionKind, request: unknown, expected?: unknown) {
+    let message = `No recorded ${kind} interaction matches request ${canonicalJson(request)}`;
+    if (expected !== undefined) {
+      message += `\nNext unused ${kind} in cassette: ${canonicalJson(expected)}`;
+    }
+    super(message);
+    this.name = 'CassetteMismatchError';
+    this.kind = kind;
+    this.request = request;
+  }
+}
+
+/**
+ * JSON with sorted object keys, so equal requests serialize identically
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return item;
+  });
+}
+
+// Buffers are stored as { "$buffer": "<base64>" }
+function encodeValue(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && (value as { type?: string }).type === 'Buffer' &&
+      Array.isArray((value as { data?: unknown }).data)) {
+    return { $buffer: Buffer.from((value as { data: number[] }).data).toString('base64') };
+  }
+  return value;
+}
+
+function decodeValue(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { $buffer?: unknown }).$buffer === 'string') {
+    return Buffer.from((value as { $buffer: string }).$buffer, 'base64');
+  }
+  return value;
+}
+
+/**
+ * Stable digest for large request payloads such as audio
+ */
+export function digest(data: Buffer | string): string {
+  return `sha256:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+export class Cassette {
+  readonly mode: CassetteMode;
+  readonly path: string;
+  private interactions: Interaction[] = [];
+  private used: boolean[] = [];
+
+  constructor(filePath: string, mode: CassetteMode) {
+    this.path = filePath;
+    this.mode = mode;
+
+    if (mode === 'replay') {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Cassette not found: ${filePath}`);
+      }
+      const file = JSON.parse(fs.readFileSync(filePath, 'utf-8'), decodeValue) as CassetteFile;
+      this.interactions = file.interactions;
+      this.used = file.interactions.map(() => false);
+    }
+  }
+
+  /**
+   * Run `perform` and record its result, or return the recorded result for
+   * an identical request. Requests are matched by kind and content rather
+   * than position, since speech synthesis runs concurrently with completions.
+   */
+  async intercept<T>(kind: InteractionKind, request: unknown, perform: () => Promise<T>): Promise<T> {
+    if (this.mode === 'record') {
+      const response = await perform();
+      this.interactions.push({ kind, request, response });
+      this.save();
+      return response;
+    }
+
+    const key = canonicalJson(request);
+    const index = this.interactions.findIndex((interaction, i) =>
+      !this.used[i] && interaction.kind === kind && canonicalJson(interaction.request) === key
+    );
+    if (index === -1) {
+      const next = this.interactions.find((interaction, i) => !this.used[i] && interaction.kind === kind);
+      throw new CassetteMismatchError(kind, request, next?.request);
+    }
+
+    this.used[index] = true;
+    return this.interactions[index].response as T;
+  }
+
+  /**
+   * Recorded interactions that were never requested during replay
+   */
+  remaining(): Interaction[] {
+    return this.interactions.filter((_, i) => !this.used[i]);
+  }
+
+  private save(): void {
+    const file: CassetteFile = {
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions,
+    };
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify(file, encodeValue, 2), 'utf-8');
+  }
+}
+
+export default Cassette;
@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { CronExpression, CronParseError, isValidCron } from './cron';
+
+/**
+ * Table-driven spec for CronExpression. Cron runs in the process time zone,
+ * so the suite pins it to Berlin, where summer time starts on March 29 2026
+ * (02:00 becomes 03:00) and ends on October 25 2026 (03:00 becomes 02:00).
+ */
+
+const zone = process.env.TZ;
+beforeAll(() => {
+  process.env.TZ = 'Europe/Berlin';
+});
+afterAll(() => {
+  if (zone === undefined) {
+    delete process.env.TZ;
+  } else {
+    process.env.TZ = zone;
+  }
+});
+
+/** The next `count` run times after `after`, as ISO instants */
+function runs(expression: string, after: string, count: number): string[] {
+  const cron = CronExpression.parse(expression);
+  const times: string[] = [];
+  let time = new Date(after);
+  for (let i = 0; i < count; i++) {
+    time = cron.next(time);
+    times.push(time.toISOString());
+  }
+  return times;
+}
+
+interface Row {
+  expression: string;
+  /** Start searching strictly after this time */
+  after: string;
+  expected: string[];
+}
+
+describe('CronExpression.next', () => {
+  const rows: Row[] = [
+    // Monday, October 19 2026, 9:00 in Berlin
+    { expression: '*/15 * * * *', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-19T07:15:00.000Z', '2026-10-19T07:30:00.000Z'] },
+    { expression: '0 9 * * *', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-20T07:00:00.000Z'] },
+    { expression: '30 8 * * mon-fri', after: '2026-10-23T09:00:00+02:00', expected: ['2026-10-26T07:30:00.000Z'] },
+    { expression: '0 9-17/4 * * *', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-19T11:00:00.000Z', '2026-10-19T15:00:00.000Z', '2026-10-20T07:00:00.000Z'] },
+    { expression: '0 0 1,15 * *', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-31T23:00:00.000Z', '2026-11-14T23:00:00.000Z'] },
+    { expression: '0 12 * jan *', after: '2026-10-19T09:00:00+02:00', expected: ['2027-01-01T11:00:00.000Z'] },
+    { expression: '0 0 * * 7', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-24T22:00:00.000Z'] },
+    { expression: '@monthly', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-31T23:00:00.000Z'] },
+    { expression: '@hourly', after: '2026-10-19T09:00:00+02:00', expected: ['2026-10-19T08:00:00.000Z'] },
+    // Both day fields restricted: the 13th or any Friday
+    { expression: '0 0 13 * fri', after: '2026-10-05T12:00:00+02:00', expected: ['2026-10-08T22:00:00.000Z', '2026-10-12T22:00:00.000Z', '2026-10-15T22:00:00.000Z'] },
+    { expression: '0 0 29 2 *', after: '2026-10-19T09:00:00+02:00', expected: ['2028-02-28T23:00:00.000Z'] },
+
+    // 02:30 does not exist on March 29 and runs when the gap ends, at 03:00
+    { expression: '30 2 * * *', after: '2026-03-28T12:00:00+01:00', expected: ['2026-03-29T01:00:00.000Z', '2026-03-30T00:30:00.000Z'] },
+    { expression: '*/20 * * * *', after: '2026-03-29T01:50:00+01:00', expected: ['2026-03-29T01:00:00.000Z', '2026-03-29T01:20:00.000Z'] },
+    { expression: '0 3 * * *', after: '2026-03-28T12:00:00+01:00', expected: ['2026-03-29T01:00:00.000Z', '2026-03-30T01:00:00.000Z'] },
+
+    // 02:30 happens twice on October 25 and runs the first time only
+    { expression: '30 2 * * *', after: '2026-10-24T12:00:00+02:00', expected: ['2026-10-25T00:30:00.000Z', '2026-10-26T01:30:00.000Z'] },
+    {
+      expression: '*/20 * * * *',
+      after: '2026-10-25T02:10:00+02:00',
+      expected: ['2026-10-25T00:20:00.000Z', '2026-10-25T00:40:00.000Z', '2026-10-25T02:00:00.000Z', '2026-10-25T02:20:00.000Z'],
+    },
+    // Searching from inside the repeated hour does not repeat it
+    { expression: '30 2 * * *', after: '2026-10-25T02:10:00+01:00', expected: ['2026-10-26T01:30:00.000Z'] },
+  ];
+
+  for (const { expression, after, expected } of rows) {
+    test(`${expression} after ${after}`, () => {
+      expect(runs(expression, after, expected.length)).toEqual(expected);
+    });
+  }
+
+  test('gives up on dates that never come', () => {
+    expect(() => CronExpression.parse('0 0 30 2 *').next(new Date('2026-10-19T09:00:00+02:00')))
+      .toThrow('has no run time');
+  });
+});
+
+describe('CronExpression.parse', () => {
+  const invalid: { expression: string; reason: string }[] = [
+    { expression: '* * * *', reason: 'expected 5 fields, got 4' },
+    { expression: '60 * * * *', reason: 'minute 60 is outside 0-59' },
+    { expression: '* 24 * * *', reason: 'hour 24 is outside 0-23' },
+    { expression: '* * 0 * *', reason: 'day of month 0 is outside 1-31' },
+    { expression: '* * * foo *', reason: "'foo' is not a valid month" },
+    { expression: '*/0 * * * *', reason: "'0' is not a valid step" },
+    { expression: '* 17-9 * * *', reason: "range '17-9' runs backwards" },
+    { expression: '1,,2 * * * *', reason: "'' is not a valid minute" },
+  ];
+
+  for (const { expression, reason } of invalid) {
+    test(expression, () => {
+      expect(() => CronExpression.parse(expression)).toThrow(CronParseError);
+      expect(() => CronExpression.parse(expression)).toThrow(reason);
+    });
+  }
+
+  test('isValidCron', () => {
+    expect(isValidCron('@daily')).toBe(true);
+    expect(isValidCron('0 9 * * MON-FRI')).toBe(true);
+    expect(isValidCron('every day')).toBe(false);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in the local time zone of the process.
+ *
+ * Supports `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `9-17/2`),
+ * month and weekday names (`jan`, `mon-fri`), `7` for Sunday and the macros
+ * `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly`. As in Vixie cron,
+ * when both day fields are restricted a day matches if either one does.
+ */
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  /** Names for values, starting at `min` */
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/** Give up looking for a match after this many years (e.g. `0 0 30 2 *`) */
+const SEARCH_YEARS = 5;
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression '${expression}': ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  private daysRestricted: boolean;
+  private weekdaysRestricted: boolean;
+
+  private constructor(source: string, fields: Set<number>[], restricted: boolean[]) {
+    this.source = source;
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields;
+    this.daysRestricted = restricted[2];
+    this.weekdaysRestricted = restricted[4];
+  }
+
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const expanded = MACROS[source.toLowerCase()] ?? source;
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new CronParseError(source, `expected 5 fields, got ${parts.length}`);
+    }
+
+    const fields = parts.map((part, index) => parseField(source, part, FIELDS[index]));
+    if (fields[4].delete(7)) {
+      fields[4].add(0);
+    }
+    return new CronExpression(source, fields, parts.map(part => part !== '*' && part !== '?'));
+  }
+
+  /**
+   * The first matching minute strictly after `after`. A time skipped when
+   * the clocks go forward runs when the gap ends; a time that happens twice
+   * when they go back runs the first time only.
+   */
+  next(after: Date): Date {
+    // Walk the wall clock in UTC fields, where DST changes cannot move it
+    const wall = new Date(Date.UTC(
+      after.getFullYear(), after.getMonth(), after.getDate(), after.getHours(), after.getMinutes() + 1
+    ));
+
+    const limit = wall.getUTCFullYear() + SEARCH_YEARS;
+    while (wall.getUTCFullYear() <= limit) {
+      if (!this.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.has(wall.getUTCMinutes())) {
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+        continue;
+      }
+      const instant = localInstant(wall);
+      // Not yet passed unless it is the second pass through a repeated hour
+      if (instant.getTime() > after.getTime()) {
+        return instant;
+      }
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1);
+    }
+    throw new Error(`Cron expression '${this.source}' has no run time in the next ${SEARCH_YEARS} years`);
+  }
+
+  /** `wall` holds a wall-clock time in its UTC fields */
+  private matchesDay(wall: Date): boolean {
+    const dayMatches = this.days.has(wall.getUTCDate());
+    const weekdayMatches = this.weekdays.has(wall.getUTCDay());
+    if (this.daysRestricted && this.weekdaysRestricted) {
+      return dayMatches || weekdayMatches;
+    }
+    return dayMatches && weekdayMatches;
+  }
+}
+
+/** The local wall-clock time at `instant`, as UTC fields */
+function wallClock(instant: number): number {
+  const date = new Date(instant);
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+}
+
+/**
+ * The first instant the local clock shows `wall`. The Date constructor
+ * already picks the earlier of two readings; a time inside a DST gap comes
+ * back moved forward by the gap, and is brought back to where the gap ends.
+ */
+function localInstant(wall: Date): Date {
+  let instant = new Date(
+    wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), wall.getUTCHours(), wall.getUTCMinutes()
+  ).getTime();
+  while (wallClock(instant - 60000) > wall.getTime()) {
+    instant -= 60000;
+  }
+  return new Date(instant);
+}
+
+function parseValue(expression: string, text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (spec.name === 'month' ? 1 : 0);
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new CronParseError(expression, `'${text}' is not a valid ${spec.name}`);
+  }
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(expression, `${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(expression: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [range, stepText, ...extra] = item.split('/');
+    if (extra.length > 0 || range === '') {
+      throw new CronParseError(expression, `'${item}' is not a valid ${spec.name}`);
+    }
+
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new CronParseError(expression, `'${stepText}' is not a valid step`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.name === 'day of week' ? 6 : spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(expression, from, spec);
+      end = parseValue(expression, to, spec);
+      if (start > end) {
+        throw new CronParseError(expression, `range '${range}' runs backwards`);
+      }
+    } else {
+      start = parseValue(expression, range, spec);
+      // `5/15` means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Whether `expression` is a valid cron expression
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    CronExpression.parse(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
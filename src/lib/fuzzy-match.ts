@@ -0,0 +1,121 @@
+/**
+ * Fuzzy and phonetic name matching for spoken input. Speech-to-text spells
+ * names the way they sound ("Katherine" for "Catherine", "Jon" for "John"),
+ * so spelling distance alone is not enough.
+ */
+
+/** Scores below this are not considered a match */
+export const MIN_MATCH_SCORE = 0.75;
+
+const PHONETIC_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/**
+ * Lowercase words without accents or punctuation: "José O'Neil" -> "jose o neil"
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 1 for equal strings, down to 0 for nothing in common
+ */
+export function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * Sound-alike code of one word, after Soundex but keeping the whole word and
+ * coding the first letter too, so "Catherine" and "Katherine" agree
+ */
+export function phoneticKey(word: string): string {
+  const letters = word
+    .toLowerCase()
+    .replace(/[^a-z]/g, '')
+    .replace(/^kn/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k');
+  if (!letters) return '';
+
+  let key = /^[aeiouy]/.test(letters) ? 'a' : '';
+  let last = '';
+  for (const letter of letters) {
+    const code = PHONETIC_CODES[letter];
+    if (code) {
+      if (code !== last) key += code;
+      last = code;
+    } else if (letter !== 'h' && letter !== 'w') {
+      // Vowels separate repeated codes; h and w do not
+      last = '';
+    }
+  }
+  return key;
+}
+
+function tokenScore(query: string, candidates: string[]): number {
+  let best = 0;
+  for (const candidate of candidates) {
+    if (candidate === query) return 1;
+    if (query.length >= 3 && candidate.startsWith(query)) best = Math.max(best, 0.95);
+    const spelling = similarity(query, candidate);
+    // Short words share codes easily ("zed", "cat"), so they must look alike too
+    if (query.length >= 3 && spelling >= 0.5 && phoneticKey(candidate) === phoneticKey(query)) {
+      best = Math.max(best, 0.9);
+    }
+    best = Math.max(best, spelling);
+  }
+  return best;
+}
+
+/**
+ * How well a spoken query matches a name, from 0 to 1:
+ * 1 for the same name, 0.95 when every query word is one of the name's
+ * ("alice" for "Alice Smith"), and less for prefixes, sound-alikes and
+ * misspellings
+ */
+export function matchScore(query: string, name: string): number {
+  const q = normalizeName(query);
+  const n = normalizeName(name);
+  if (!q || !n) return 0;
+  if (q === n) return 1;
+
+  const queryTokens = q.split(' ');
+  const nameTokens = n.split(' ');
+  const scores = queryTokens.map(token => tokenScore(token, nameTokens));
+  if (scores.every(score => score === 1)) return 0.95;
+
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  // "dev ops" for "devops"
+  const joined = similarity(q.replace(/ /g, ''), n.replace(/ /g, ''));
+  return 0.9 * Math.max(average, joined);
+}
@@ -0,0 +1,12 @@
+/**
+ * Minimal `*` wildcard matching for tool names and scopes
+ */
+
+export function globToRegExp(glob: string, flags: string = ''): RegExp {
+  const escaped = glob.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, flags);
+}
+
+export function matchesGlob(value: string, glob: string, ignoreCase: boolean = false): boolean {
+  return globToRegExp(glob, ignoreCase ? 'i' : '').test(value);
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import { IdempotencyCache, IdempotencyKeyReusedError } from './idempotency';
+
+/**
+ * Key sharing, key reuse and forgetting. Expiry runs on a fake clock.
+ */
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-10-19T07:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+/** An operation that counts its runs and returns `value` */
+function operation<T>(value: T) {
+  const op = {
+    runs: 0,
+    perform: async (): Promise<T> => {
+      op.runs++;
+      return value;
+    },
+  };
+  return op;
+}
+
+describe('IdempotencyCache', () => {
+  test('runs once per key and shares the result', async () => {
+    const cache = new IdempotencyCache<string>();
+    const send = operation('sent');
+
+    const [first, second] = await Promise.all([
+      cache.run('key-1', { to: 'ada' }, send.perform),
+      cache.run('key-1', { to: 'ada' }, send.perform),
+    ]);
+    expect([first, second]).toEqual(['sent', 'sent']);
+    expect(await cache.run('key-1', { to: 'ada' }, send.perform)).toBe('sent');
+    expect(send.runs).toBe(1);
+  });
+
+  test('matches requests regardless of key order', async () => {
+    const cache = new IdempotencyCache<string>();
+    const send = operation('sent');
+    await cache.run('key-1', { to: 'ada', subject: 'Hi' }, send.perform);
+    await cache.run('key-1', { subject: 'Hi', to: 'ada' }, send.perform);
+    expect(send.runs).toBe(1);
+  });
+
+  test('runs different keys separately', async () => {
+    const cache = new IdempotencyCache<string>();
+    const send = operation('sent');
+    await cache.run('key-1', { to: 'ada' }, send.perform);
+    await cache.run('key-2', { to: 'ada' }, send.perform);
+    expect(send.runs).toBe(2);
+  });
+
+  test('rejects a key used again for a different request', async () => {
+    const cache = new IdempotencyCache<string>();
+    const send = operation('sent');
+    await cache.run('key-1', { to: 'ada' }, send.perform);
+
+    const reused = cache.run('key-1', { to: 'bob' }, send.perform);
+    await expect(reused).rejects.toThrow(IdempotencyKeyReusedError);
+    await expect(reused).rejects.toThrow("Idempotency key 'key-1' was already used for a different request");
+    expect(send.runs).toBe(1);
+  });
+
+  test('forgets failures so the call can be tried again', async () => {
+    const cache = new IdempotencyCache<string>();
+    await expect(cache.run('key-1', {}, async () => {
+      throw new Error('SMTP unavailable');
+    })).rejects.toThrow('SMTP unavailable');
+    expect(cache.has('key-1')).toBe(false);
+
+    expect(await cache.run('key-1', {}, async () => 'sent')).toBe('sent');
+    expect(cache.has('key-1')).toBe(true);
+  });
+
+  test('forgets results that keep declines', async () => {
+    const cache = new IdempotencyCache<{ success: boolean }>();
+    const failed = operation({ success: false });
+    await cache.run('key-1', {}, failed.perform, result => result.success);
+    await cache.run('key-1', {}, failed.perform, result => result.success);
+    expect(failed.runs).toBe(2);
+  });
+
+  test('forgets keys after the TTL', async () => {
+    const cache = new IdempotencyCache<string>(60 * 1000);
+    const send = operation('sent');
+    await cache.run('key-1', {}, send.perform);
+
+    jest.setSystemTime(new Date('2026-10-19T07:00:59Z'));
+    expect(cache.has('key-1')).toBe(true);
+    jest.setSystemTime(new Date('2026-10-19T07:01:00Z'));
+    expect(cache.has('key-1')).toBe(false);
+
+    await cache.run('key-1', {}, send.perform);
+    expect(send.runs).toBe(2);
+  });
+});
@@ -0,0 +1,94 @@
+import { canonicalJson, digest } from './cassette';
+
+/**
+ * Remembers the outcome of operations by idempotency key, so a retried
+ * request gets the original result instead of running again
+ */
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 10000;
+
+/**
+ * An idempotency key was used again for a different request
+ */
+export class IdempotencyKeyReusedError extends Error {
+  constructor(key: string) {
+    super(`Idempotency key '${key}' was already used for a different request`);
+    this.name = 'IdempotencyKeyReusedError';
+  }
+}
+
+interface Entry<T> {
+  promise: Promise<T>;
+  /** Digest of the request the key was first used for */
+  fingerprint: string;
+  expiresAt: number;
+}
+
+export class IdempotencyCache<T> {
+  private entries = new Map<string, Entry<T>>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS) {
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Run `perform` once per key. Concurrent and later calls with the same key
+   * and an equal `request` share its result; a different `request` rejects
+   * with IdempotencyKeyReusedError. Rejections, and results `keep` declines,
+   * are forgotten so the operation can be tried again.
+   */
+  run(
+    key: string,
+    request: unknown,
+    perform: () => Promise<T>,
+    keep: (value: T) => boolean = () => true
+  ): Promise<T> {
+    this.prune();
+
+    const fingerprint = digest(canonicalJson(request) ?? '');
+    const existing = this.entries.get(key);
+    if (existing) {
+      return existing.fingerprint === fingerprint
+        ? existing.promise
+        : Promise.reject(new IdempotencyKeyReusedError(key));
+    }
+
+    const promise = perform();
+    this.entries.set(key, { promise, fingerprint, expiresAt: Date.now() + this.ttlMs });
+    promise.then(
+      value => {
+        if (!keep(value)) this.forget(key, promise);
+      },
+      () => this.forget(key, promise)
+    );
+    return promise;
+  }
+
+  has(key: string): boolean {
+    this.prune();
+    return this.entries.has(key);
+  }
+
+  private forget(key: string, promise: Promise<T>): void {
+    if (this.entries.get(key)?.promise === promise) {
+      this.entries.delete(key);
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    // Insertion order is oldest first
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+export default IdempotencyCache;
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Structured logging to stderr: one JSON object per line, or a readable line
+ * for people watching a terminal. Fields of the surrounding log context,
+ * such as the request ID of the HTTP request being served, are added to
+ * every entry logged within it.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'json' | 'text';
+export type LogFields = Record<string, unknown>;
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_FORMATS: LogFormat[] = ['json', 'text'];
+
+export interface LoggingOptions {
+  /** Least severe level written (default: info) */
+  level?: LogLevel;
+  /** Default: text when stderr is a terminal, else json */
+  format?: LogFormat;
+  /** Receives each formatted line (default: stderr) */
+  write?: (line: string) => void;
+}
+
+const settings: Required<LoggingOptions> = {
+  level: 'info',
+  format: process.stderr.isTTY ? 'text' : 'json',
+  write: line => {
+    process.stderr.write(`${line}\n`);
+  },
+};
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Change the level, format or destination of every logger
+ */
+export function configureLogging(options: LoggingOptions): void {
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) Object.assign(settings, { [key]: value });
+  }
+}
+
+/**
+ * Run `fn` with `fields` added to everything logged while it runs,
+ * including from callbacks and promises it starts
+ */
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Fields of the current log context
+ */
+export function logContext(): LogFields {
+  return context.getStore() ?? {};
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return settings.level === 'debug'
+      ? { name: value.name, message: value.message, stack: value.stack }
+      : value.message;
+  }
+  return value;
+}
+
+function formatText(entry: LogFields): string {
+  const { time, level, msg, component, ...fields } = entry;
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return `${key}=${typeof value === 'string' && /[\s"=]/.test(value) ? JSON.stringify(value) : text}`;
+    });
+  return [
+    String(time).slice(11, 23),
+    String(level).toUpperCase().padEnd(5),
+    component ? `[${String(component)}]` : undefined,
+    msg,
+    ...details,
+  ].filter(Boolean).join(' ');
+}
+
+function stringify(entry: LogFields): string {
+  try {
+    return JSON.stringify(entry);
+  } catch {
+    // Circular or BigInt fields
+    return JSON.stringify(Object.fromEntries(Object.entries(entry).map(([key, value]) =>
+      [key, (typeof value === 'object' && value !== null) || typeof value === 'bigint' ? String(value) : value]
+    )));
+  }
+}
+
+export class Logger {
+  private fields: LogFields;
+
+  constructor(fields: LogFields = {}) {
+    this.fields = fields;
+  }
+
+  /**
+   * A logger that adds `fields` to every entry
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.fields,
+      ...logContext(),
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      entry[key] = serialize(value);
+    }
+    settings.write(settings.format === 'json' ? stringify(entry) : formatText(entry));
+  }
+}
+
+/**
+ * Logger for one part of the system, e.g. `createLogger('mcp-client')`
+ */
+export function createLogger(component: string): Logger {
+  return new Logger({ component });
+}
@@ -0,0 +1,167 @@
+/**
+ * Counters and histograms, exposed in the Prometheus text format
+ * (https://prometheus.io/docs/instrumenting/exposition_formats/)
+ *
+ * Metrics are declared once per process on the shared `metrics` registry,
+ * where the module that records them is loaded:
+ *
+ *   const toolCalls = metrics.counter('rube_tool_calls_total', 'Tool calls', ['tool', 'status']);
+ *   toolCalls.inc({ tool: 'send_email', status: 'success' });
+ */
+
+export type Labels = Record<string, string>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Seconds; spans calls from a few milliseconds to a minute */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Array<[string, string]>): string {
+  return labels.length === 0
+    ? ''
+    : `{${labels.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+}
+
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected series = new Map<string, { labels: Array<[string, string]>; value: T }>();
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  abstract readonly type: 'counter' | 'histogram';
+
+  abstract render(): string[];
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected seriesFor(labels: Labels, initial: () => T): T {
+    const pairs = this.labelNames.map((name): [string, string] => [name, labels[name] ?? '']);
+    const key = JSON.stringify(pairs);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: pairs, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected header(): string[] {
+    return [`# HELP ${this.name} ${this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${this.name} ${this.type}`];
+  }
+}
+
+export class Counter extends Metric<{ count: number }> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.seriesFor(labels, () => ({ count: 0 })).count += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.seriesFor(labels, () => ({ count: 0 })).count;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header(),
+      ...[...this.series.values()].map(({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${formatNumber(value.count)}`
+      ),
+    ];
+  }
+}
+
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesFor(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string[] {
+    const lines = this.header();
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels([...labels, ['le', formatNumber(bound)]])} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels([...labels, ['le', '+Inf']])} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram>();
+
+  /**
+   * Declare a counter, or get the one already declared under this name
+   */
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(name, 'counter', () => new Counter(name, help, labelNames)) as Counter;
+  }
+
+  /**
+   * Declare a histogram, or get the one already declared under this name
+   */
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(name, 'histogram', () => new Histogram(name, help, labelNames, buckets)) as Histogram;
+  }
+
+  /**
+   * Every metric with observations, in the Prometheus text format
+   */
+  render(): string {
+    const lines = [...this.metrics.values()].flatMap(metric => metric.render());
+    return `${lines.join('\n')}\n`;
+  }
+
+  /** Forget all observations */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register(name: string, type: 'counter' | 'histogram', create: () => Counter | Histogram): Counter | Histogram {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/** The process-wide registry served at `/metrics` */
+export const metrics = new MetricsRegistry();
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { createHash } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  OAuthError,
+  buildAuthorizationUrl,
+  createPkcePair,
+  exchangeAuthorizationCode,
+  isLoopbackRedirect,
+  refreshAccessToken,
+  revokeToken,
+} from './oauth';
+import type { OAuthClientConfig } from './oauth';
+
+/**
+ * PKCE and the token endpoint calls. A local HTTP server plays the provider:
+ * it records each form it receives and answers with the next `replies` entry.
+ */
+
+interface Reply {
+  status?: number;
+  body: Record<string, unknown>;
+}
+
+let server: http.Server;
+let config: OAuthClientConfig;
+let replies: Reply[];
+let forms: { path: string; form: Record<string, string> }[];
+
+beforeEach(async () => {
+  replies = [];
+  forms = [];
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      forms.push({ path: req.url ?? '', form: Object.fromEntries(new URLSearchParams(body)) });
+      const reply = replies.shift() ?? { body: {} };
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  config = { authorizationUrl: `${base}/authorize`, tokenUrl: `${base}/token`, clientId: 'rube' };
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('createPkcePair', () => {
+  test('the challenge is the base64url SHA-256 of the verifier', () => {
+    const { verifier, challenge } = createPkcePair();
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(challenge).toBe(createHash('sha256').update(verifier).digest('base64url'));
+    expect(createPkcePair().verifier).not.toBe(verifier);
+  });
+});
+
+describe('isLoopbackRedirect', () => {
+  const rows: { uri: string; loopback: boolean }[] = [
+    { uri: 'http://127.0.0.1:8765/callback', loopback: true },
+    { uri: 'http://localhost/callback', loopback: true },
+    { uri: 'http://[::1]:9000/', loopback: true },
+    { uri: 'https://127.0.0.1/callback', loopback: false },
+    { uri: 'http://example.com/callback', loopback: false },
+    { uri: 'http://127.0.0.1.example.com/', loopback: false },
+    { uri: 'not a url', loopback: false },
+  ];
+  for (const { uri, loopback } of rows) {
+    test(uri, () => {
+      expect(isLoopbackRedirect(uri)).toBe(loopback);
+    });
+  }
+});
+
+describe('buildAuthorizationUrl', () => {
+  test('asks for an S256 code with the scopes and extra parameters', () => {
+    const url = new URL(buildAuthorizationUrl(
+      { ...config, scopes: ['repo', 'read:user'], authorizationParams: { access_type: 'offline' } },
+      { redirectUri: 'http://127.0.0.1:8765/callback', state: 'state-1', challenge: 'challenge-1' }
+    ));
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: 'code',
+      client_id: 'rube',
+      redirect_uri: 'http://127.0.0.1:8765/callback',
+      state: 'state-1',
+      code_challenge: 'challenge-1',
+      code_challenge_method: 'S256',
+      scope: 'repo read:user',
+      access_type: 'offline',
+    });
+  });
+});
+
+describe('token requests', () => {
+  test('exchanges a code with its verifier', async () => {
+    replies = [{ body: { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600, scope: 'repo' } }];
+    const before = Date.now();
+    const tokens = await exchangeAuthorizationCode(config, { code: 'code-1', redirectUri: 'http://127.0.0.1/cb', verifier: 'verifier-1' });
+
+    expect(forms).toEqual([{
+      path: '/token',
+      form: { grant_type: 'authorization_code', code: 'code-1', redirect_uri: 'http://127.0.0.1/cb', code_verifier: 'verifier-1', client_id: 'rube' },
+    }]);
+    expect(tokens).toMatchObject({ accessToken: 'access-1', tokenType: 'Bearer', refreshToken: 'refresh-1', scope: 'repo' });
+    expect(Date.parse(tokens.expiresAt!) - before).toBeWithin(3600 * 1000 - 1000, 3600 * 1000 + 1000);
+  });
+
+  test('sends the client secret when there is one', async () => {
+    replies = [{ body: { access_token: 'access-1', token_type: 'bearer' } }];
+    const tokens = await refreshAccessToken({ ...config, clientSecret: 'secret' }, 'refresh-1');
+
+    expect(forms[0].form).toEqual({ grant_type: 'refresh_token', refresh_token: 'refresh-1', client_id: 'rube', client_secret: 'secret' });
+    expect(tokens).toEqual({ accessToken: 'access-1', tokenType: 'bearer', refreshToken: 'refresh-1', expiresAt: undefined, scope: undefined });
+  });
+
+  test('keeps a rotated refresh token', async () => {
+    replies = [{ body: { access_token: 'access-2', refresh_token: 'refresh-2' } }];
+    expect((await refreshAccessToken(config, 'refresh-1')).refreshToken).toBe('refresh-2');
+  });
+
+  const failures: { name: string; reply: Reply; message: string; code?: string; status?: number }[] = [
+    {
+      name: 'an OAuth error',
+      reply: { status: 400, body: { error: 'invalid_grant', error_description: 'Token was revoked' } },
+      message: 'Token request failed: Token was revoked',
+      code: 'invalid_grant',
+      status: 400,
+    },
+    { name: 'an error in a 200 response', reply: { body: { error: 'slow_down' } }, message: 'Token request failed: slow_down', code: 'slow_down', status: 200 },
+    { name: 'a bare HTTP error', reply: { status: 502, body: {} }, message: 'Token request failed: HTTP 502', status: 502 },
+    { name: 'no access token', reply: { body: { token_type: 'bearer' } }, message: 'Token response has no access_token' },
+  ];
+  for (const { name, reply, message, code, status } of failures) {
+    test(`reports ${name}`, async () => {
+      replies = [reply];
+      const error = await refreshAccessToken(config, 'refresh-1').catch(error => error);
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({ message, code, status });
+    });
+  }
+});
+
+describe('revokeToken', () => {
+  test('posts the token with its type hint', async () => {
+    await revokeToken({ ...config, revocationUrl: config.tokenUrl.replace('/token', '/revoke') }, 'refresh-1', 'refresh_token');
+    expect(forms).toEqual([{ path: '/revoke', form: { token: 'refresh-1', token_type_hint: 'refresh_token', client_id: 'rube' } }]);
+  });
+
+  test('fails on an HTTP error', async () => {
+    replies = [{ status: 503, body: {} }];
+    await expect(revokeToken({ ...config, revocationUrl: config.tokenUrl }, 'access-1', 'access_token'))
+      .rejects.toThrow('Revocation failed: HTTP 503');
+  });
+});
@@ -0,0 +1,175 @@
+import { createHash, randomBytes } from 'crypto';
+import axios from 'axios';
+
+/**
+ * OAuth 2.0 authorization-code flow with PKCE (RFC 6749, RFC 7636) for
+ * native apps, which receive the code on a loopback redirect (RFC 8252)
+ */
+
+export interface OAuthClientConfig {
+  authorizationUrl: string;
+  tokenUrl: string;
+  clientId: string;
+  /** Only for providers that insist on one; native clients are public */
+  clientSecret?: string;
+  scopes?: string[];
+  /** Extra authorization parameters, e.g. `{ "access_type": "offline" }` */
+  authorizationParams?: Record<string, string>;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  /** ISO time the access token expires, when the provider says */
+  expiresAt?: string;
+  scope?: string;
+}
+
+/**
+ * The provider refused a token request. `code` is the OAuth error code, such
+ * as `invalid_grant` for a refresh token that was revoked.
+ */
+export class OAuthError extends Error {
+  code?: string;
+  status?: number;
+
+  constructor(message: string, code?: string, status?: number) {
+    super(message);
+    this.name = 'OAuthError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+const TOKEN_TIMEOUT_MS = 15000;
+
+/**
+ * A random code verifier and its S256 challenge
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  return { verifier, challenge };
+}
+
+export function createState(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Redirect URIs must be plain-HTTP loopback addresses, so the code only ever
+ * reaches this machine
+ */
+export function isLoopbackRedirect(redirectUri: string): boolean {
+  try {
+    const url = new URL(redirectUri);
+    return url.protocol === 'http:' && ['127.0.0.1', 'localhost', '[::1]'].includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function buildAuthorizationUrl(
+  config: OAuthClientConfig,
+  params: { redirectUri: string; state: string; challenge: string }
+): string {
+  const url = new URL(config.authorizationUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('code_challenge', params.challenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (config.scopes && config.scopes.length > 0) {
+    url.searchParams.set('scope', config.scopes.join(' '));
+  }
+  for (const [key, value] of Object.entries(config.authorizationParams ?? {})) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+async function requestTokens(config: OAuthClientConfig, form: Record<string, string>): Promise<OAuthTokens> {
+  const body = new URLSearchParams({ ...form, client_id: config.clientId });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+
+  const response = await axios.post<Record<string, unknown>>(config.tokenUrl, body.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    timeout: TOKEN_TIMEOUT_MS,
+    validateStatus: () => true,
+  });
+  const data = response.data && typeof response.data === 'object' ? response.data : {};
+
+  if (response.status >= 400 || typeof data.error === 'string') {
+    const code = typeof data.error === 'string' ? data.error : undefined;
+    const description = typeof data.error_description === 'string' ? data.error_description : undefined;
+    throw new OAuthError(
+      `Token request failed: ${description ?? code ?? `HTTP ${response.status}`}`,
+      code,
+      response.status
+    );
+  }
+  if (typeof data.access_token !== 'string' || !data.access_token) {
+    throw new OAuthError('Token response has no access_token');
+  }
+
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    tokenType: typeof data.token_type === 'string' ? data.token_type : 'Bearer',
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0
+      ? new Date(Date.now() + expiresIn * 1000).toISOString()
+      : undefined,
+    scope: typeof data.scope === 'string' ? data.scope : undefined,
+  };
+}
+
+/**
+ * Trade an authorization code (and the verifier it was requested with) for tokens
+ */
+export function exchangeAuthorizationCode(
+  config: OAuthClientConfig,
+  params: { code: string; redirectUri: string; verifier: string }
+): Promise<OAuthTokens> {
+  return requestTokens(config, {
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.verifier,
+  });
+}
+
+/**
+ * Get a new access token. Providers that do not rotate refresh tokens omit
+ * one from the response, so the old one is kept.
+ */
+export async function refreshAccessToken(config: OAuthClientConfig, refreshToken: string): Promise<OAuthTokens> {
+  const tokens = await requestTokens(config, { grant_type: 'refresh_token', refresh_token: refreshToken });
+  return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+}
+
+/**
+ * Ask the provider to revoke a token (RFC 7009)
+ */
+export async function revokeToken(
+  config: OAuthClientConfig & { revocationUrl: string },
+  token: string,
+  tokenTypeHint: 'access_token' | 'refresh_token'
+): Promise<void> {
+  const body = new URLSearchParams({ token, token_type_hint: tokenTypeHint, client_id: config.clientId });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+  const response = await axios.post(config.revocationUrl, body.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    timeout: TOKEN_TIMEOUT_MS,
+    validateStatus: () => true,
+  });
+  if (response.status >= 400) {
+    throw new OAuthError(`Revocation failed: HTTP ${response.status}`, undefined, response.status);
+  }
+}
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import {
+  DEFAULT_RETRY_POLICY,
+  DeadlineExceededError,
+  RetryableError,
+  TimeoutError,
+  backoffDelay,
+  isRetryableError,
+  retryAfterMs,
+  withRetry,
+} from './retry';
+import type { RetryPolicy } from './retry';
+import { MCPError, MCPTimeoutError, SessionExpiredError } from '../mcp/transport';
+
+/**
+ * Retry classification and backoff. withRetry runs on fake timers, so the
+ * backoff sleeps, attempt timeouts and deadlines pass instantly.
+ */
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-10-19T07:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+/** Let pending promise callbacks run */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+/** Settle `promise`, firing timers one at a time while it waits on them */
+async function drive<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(() => (settled = true), () => (settled = true));
+  await flush();
+  while (!settled && jest.getTimerCount() > 0) {
+    jest.advanceTimersToNextTimer();
+    await flush();
+  }
+  return promise;
+}
+
+const httpError = (status: number, retryAfter?: string) =>
+  new MCPError(`MCP server responded with HTTP ${status}`, -32000, { status, retryAfter });
+
+describe('isRetryableError', () => {
+  const rows: { name: string; error: unknown; retryable: boolean }[] = [
+    { name: 'RetryableError', error: new RetryableError('not connected'), retryable: true },
+    { name: 'TimeoutError', error: new TimeoutError(100), retryable: true },
+    { name: 'DeadlineExceededError', error: new DeadlineExceededError(), retryable: false },
+    { name: 'HTTP 429', error: httpError(429), retryable: true },
+    { name: 'HTTP 503', error: httpError(503), retryable: true },
+    { name: 'HTTP 400', error: httpError(400), retryable: false },
+    { name: 'HTTP 401', error: httpError(401), retryable: false },
+    { name: 'axios 502', error: { response: { status: 502 } }, retryable: true },
+    { name: 'MCPTimeoutError', error: new MCPTimeoutError('tools/call'), retryable: true },
+    { name: 'SessionExpiredError', error: new SessionExpiredError(), retryable: false },
+    { name: 'JSON-RPC error', error: new MCPError('Invalid params', -32602), retryable: false },
+    { name: 'ECONNRESET', error: Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), retryable: true },
+    { name: 'EACCES', error: Object.assign(new Error('denied'), { code: 'EACCES' }), retryable: false },
+    { name: 'plain Error', error: new Error('boom'), retryable: false },
+    { name: 'string', error: 'boom', retryable: false },
+  ];
+
+  for (const { name, error, retryable } of rows) {
+    test(name, () => {
+      expect(isRetryableError(error)).toBe(retryable);
+    });
+  }
+});
+
+describe('retryAfterMs', () => {
+  const now = Date.parse('2026-10-19T07:00:00Z');
+  const rows: { name: string; error: unknown; expected: number | undefined }[] = [
+    { name: 'seconds', error: httpError(429, '3'), expected: 3000 },
+    { name: 'HTTP date', error: httpError(503, 'Mon, 19 Oct 2026 07:00:10 GMT'), expected: 10000 },
+    { name: 'a date in the past', error: httpError(503, 'Mon, 19 Oct 2026 06:59:00 GMT'), expected: 0 },
+    { name: 'axios header', error: { response: { status: 429, headers: { 'retry-after': '1' } } }, expected: 1000 },
+    { name: 'no hint', error: httpError(429), expected: undefined },
+    { name: 'nonsense', error: httpError(429, 'soon'), expected: undefined },
+  ];
+
+  for (const { name, error, expected } of rows) {
+    test(name, () => {
+      expect(retryAfterMs(error, now)).toBe(expected);
+    });
+  }
+});
+
+describe('backoffDelay', () => {
+  test('doubles the window up to the maximum', () => {
+    const delays = [1, 2, 3, 4, 5, 6].map(attempt => backoffDelay(attempt, DEFAULT_RETRY_POLICY, () => 1));
+    expect(delays).toEqual([250, 500, 1000, 2000, 4000, 5000]);
+  });
+
+  test('picks a point in the window', () => {
+    expect(backoffDelay(3, DEFAULT_RETRY_POLICY, () => 0.5)).toBe(500);
+    expect(backoffDelay(3, DEFAULT_RETRY_POLICY, () => 0)).toBe(0);
+  });
+});
+
+describe('withRetry', () => {
+  const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000, timeoutMs: 0 };
+
+  /** An attempt function failing with `errors` in turn, then returning 'ok' */
+  function failing(...errors: unknown[]) {
+    const calls: number[] = [];
+    const attempt = async (_signal: AbortSignal, attemptNumber: number): Promise<string> => {
+      calls.push(attemptNumber);
+      const error = errors.shift();
+      if (error) throw error;
+      return 'ok';
+    };
+    return { attempt, calls };
+  }
+
+  test('retries transient failures until one succeeds', async () => {
+    const { attempt, calls } = failing(httpError(503), httpError(503));
+    const retries: number[] = [];
+    const result = await drive(withRetry(attempt, policy, { onRetry: (_error, attemptNumber) => retries.push(attemptNumber) }));
+
+    expect(result).toBe('ok');
+    expect(calls).toEqual([1, 2, 3]);
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test('does not retry permanent failures', async () => {
+    const { attempt, calls } = failing(new MCPError('Invalid params', -32602));
+    await expect(drive(withRetry(attempt, policy))).rejects.toThrow('Invalid params');
+    expect(calls).toEqual([1]);
+  });
+
+  test('gives up after maxAttempts with the last failure', async () => {
+    const { attempt, calls } = failing(httpError(502), httpError(503), httpError(504));
+    await expect(drive(withRetry(attempt, policy))).rejects.toThrow('HTTP 504');
+    expect(calls).toEqual([1, 2, 3]);
+  });
+
+  test('waits at least as long as Retry-After asks', async () => {
+    const { attempt } = failing(httpError(429, '0.8'));
+    const delays: number[] = [];
+    const started = Date.now();
+    await drive(withRetry(attempt, policy, { onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) }));
+
+    expect(delays).toEqual([800]);
+    expect(Date.now() - started).toBe(800);
+  });
+
+  test('fails at once when Retry-After is longer than maxDelayMs', async () => {
+    const { attempt, calls } = failing(httpError(429, '60'));
+    await expect(drive(withRetry(attempt, policy))).rejects.toThrow('HTTP 429');
+    expect(calls).toEqual([1]);
+  });
+
+  test('times out attempts that hang, and retries them', async () => {
+    const calls: number[] = [];
+    const attempt = (signal: AbortSignal, attemptNumber: number): Promise<string> => {
+      calls.push(attemptNumber);
+      if (attemptNumber === 2) return Promise.resolve('ok');
+      return new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    };
+
+    expect(await drive(withRetry(attempt, { ...policy, timeoutMs: 500 }))).toBe('ok');
+    expect(calls).toEqual([1, 2]);
+  });
+
+  test('reports a hung last attempt as TimeoutError', async () => {
+    const attempt = (signal: AbortSignal): Promise<string> =>
+      new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    await expect(drive(withRetry(attempt, { ...policy, maxAttempts: 1, timeoutMs: 500 }))).rejects.toThrow(TimeoutError);
+  });
+
+  test('stops at the overall deadline', async () => {
+    // The hint keeps the pause past the deadline whatever the jitter
+    const { attempt, calls } = failing(httpError(503, '0.8'), httpError(503));
+    const error = await drive(withRetry(attempt, { ...policy, deadlineMs: 500 })).catch(error => error);
+
+    expect(error).toBeInstanceOf(DeadlineExceededError);
+    expect(calls).toEqual([1]);
+  });
+
+  test('stops when the caller aborts', async () => {
+    const controller = new AbortController();
+    const attempt = (signal: AbortSignal): Promise<string> =>
+      new Promise((_resolve, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    const pending = withRetry(attempt, policy, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Cancelled');
+  });
+});
@@ -0,0 +1,204 @@
+import { MCP_REQUEST_TIMEOUT, MCP_SESSION_EXPIRED } from '../mcp/transport';
+
+/**
+ * Retries with exponential backoff, full jitter and AbortSignal deadlines
+ */
+
+export interface RetryPolicy {
+  /** Total attempts, including the first (default: 3) */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every further retry (default: 250ms) */
+  baseDelayMs: number;
+  /** Upper bound for a single delay, including Retry-After hints (default: 5000ms) */
+  maxDelayMs: number;
+  /** Abort a single attempt after this long (default: 30000ms; 0 for no limit) */
+  timeoutMs: number;
+  /** Give up on the whole call, retries included, after this long (default: none) */
+  deadlineMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 5000,
+  timeoutMs: 30000,
+};
+
+/** HTTP statuses that mean "not now" rather than "never" */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/** Socket-level failures worth another try */
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH',
+]);
+
+/**
+ * A failure the caller knows to be transient
+ */
+export class RetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+/**
+ * A single attempt ran past `timeoutMs`
+ */
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The overall deadline passed, or the caller aborted; never retried
+ */
+export class DeadlineExceededError extends Error {
+  constructor(message: string = 'Deadline exceeded') {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+interface ErrorShape {
+  code?: unknown;
+  status?: unknown;
+  response?: { status?: unknown; headers?: Record<string, unknown> };
+  data?: { status?: unknown; retryAfter?: unknown };
+}
+
+/**
+ * HTTP status carried by an axios error or an MCPError from the HTTP transport
+ */
+export function errorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const shape = error as ErrorShape;
+  const status = shape.response?.status ?? shape.data?.status ?? shape.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether an error is transient: timeouts, 429/5xx responses and dropped
+ * connections. Everything else (bad arguments, auth, tool errors) is permanent.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof RetryableError || error instanceof TimeoutError) return true;
+  if (error instanceof DeadlineExceededError) return false;
+  if (!error || typeof error !== 'object') return false;
+
+  const shape = error as ErrorShape;
+  const status = errorStatus(shape);
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+
+  // A timed-out request may well succeed next time; an expired session has
+  // already been renewed once by the transport, so retrying is pointless
+  if (shape.code === MCP_REQUEST_TIMEOUT) return true;
+  if (shape.code === MCP_SESSION_EXPIRED) return false;
+  return typeof shape.code === 'string' && RETRYABLE_CODES.has(shape.code);
+}
+
+/**
+ * The server's Retry-After hint in milliseconds (seconds or an HTTP date)
+ */
+export function retryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const shape = error as ErrorShape;
+  const value = shape.data?.retryAfter ?? shape.response?.headers?.['retry-after'];
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): full jitter over an
+ * exponentially growing window, so concurrent clients spread out
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const window = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  return Math.round(random() * window);
+}
+
+/**
+ * Wait `ms`, rejecting with DeadlineExceededError if the signal aborts first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DeadlineExceededError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(new DeadlineExceededError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  /** Caller's cancellation; aborting stops further attempts */
+  signal?: AbortSignal;
+  /** Called before each retry with the failure and the chosen delay */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  /** Override the retryable classification */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Run `attempt` until it succeeds, fails permanently, runs out of attempts or
+ * passes the deadline. Each attempt receives a signal that aborts when its own
+ * timeout, the overall deadline or the caller's signal fires.
+ */
+export async function withRetry<T>(
+  attempt: (signal: AbortSignal, attemptNumber: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  options: RetryOptions = {}
+): Promise<T> {
+  const isRetryable = options.isRetryable ?? isRetryableError;
+  const outer = [options.signal, policy.deadlineMs ? AbortSignal.timeout(policy.deadlineMs) : undefined]
+    .filter((signal): signal is AbortSignal => Boolean(signal));
+  const callSignal = outer.length > 0 ? AbortSignal.any(outer) : undefined;
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    if (callSignal?.aborted) {
+      throw new DeadlineExceededError();
+    }
+
+    const timeout = policy.timeoutMs > 0 ? AbortSignal.timeout(policy.timeoutMs) : undefined;
+    const signals = [callSignal, timeout].filter((item): item is AbortSignal => Boolean(item));
+    const signal = signals.length === 1 ? signals[0] : AbortSignal.any(signals);
+
+    try {
+      return await attempt(signal, attemptNumber);
+    } catch (error) {
+      if (callSignal?.aborted) {
+        throw new DeadlineExceededError(
+          options.signal?.aborted ? 'Cancelled' : `Deadline of ${policy.deadlineMs}ms exceeded`
+        );
+      }
+      const failure = timeout?.aborted ? new TimeoutError(policy.timeoutMs) : error;
+      if (attemptNumber >= policy.maxAttempts || !isRetryable(failure)) {
+        throw failure;
+      }
+
+      const hint = retryAfterMs(failure);
+      if (hint !== undefined && hint > policy.maxDelayMs) {
+        // The server asked for a longer pause than we are willing to wait
+        throw failure;
+      }
+      const delay = Math.max(backoffDelay(attemptNumber, policy), hint ?? 0);
+      options.onRetry?.(failure, attemptNumber, delay);
+      await sleep(delay, callSignal);
+    }
+  }
+}
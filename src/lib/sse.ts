@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events helpers shared by the MCP transport, the agent
+ * streaming endpoint and the CLI
+ *
+ * Reference: https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+
+/**
+ * Incremental parser for `text/event-stream` bodies.
+ * Feeds raw chunks and emits the `data` payload of each complete event.
+ */
+export class SseParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+
+  constructor(private onEvent: (data: string) => void) {}
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.processLine(line);
+    }
+  }
+
+  end(): void {
+    if (this.buffer) {
+      this.processLine(this.buffer.replace(/\r$/, ''));
+      this.buffer = '';
+    }
+    this.processLine('');
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      if (this.dataLines.length > 0) {
+        this.onEvent(this.dataLines.join('\n'));
+        this.dataLines = [];
+      }
+      return;
+    }
+    if (line.startsWith(':')) return;
+    if (line.startsWith('data:')) {
+      this.dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+}
+
+/**
+ * Format one SSE event
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
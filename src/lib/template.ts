@@ -0,0 +1,173 @@
+/**
+ * `{{ path }}` templates and small conditions over a scope object
+ *
+ * Paths are dotted, with `[n]` for array items: `steps.issue.result.url`,
+ * `steps.search.result.items[0].id`. A JSON string met along the way is
+ * decoded, since many tools return JSON text. Filters follow a `|`:
+ * `json`, `upper`, `lower`, `trim` and `default <literal>`.
+ *
+ * Conditions compare two operands (`==`, `!=`, `<`, `<=`, `>`, `>=`) or test
+ * one for truthiness, optionally negated with `!`, and combine with `&&` and
+ * `||` (no parentheses). Operands are paths or literals: quoted strings,
+ * numbers, `true`, `false` and `null`.
+ */
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const WHOLE_TEMPLATE = /^\{\{\s*([^}]+?)\s*\}\}$/;
+const TEMPLATE = /\{\{\s*([^}]+?)\s*\}\}/g;
+const PATH = /^[A-Za-z_][\w-]*(\.[\w-]+|\[\d+\])*$/;
+const COMPARISON = /^(.+?)\s*(==|!=|<=|>=|<|>)\s*(.+)$/;
+
+/**
+ * Parse a string holding a JSON object or array; other values pass through
+ */
+export function decodeJsonText(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const text = value.trim();
+  if (!text.startsWith('{') && !text.startsWith('[')) return value;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Resolve a dotted path; missing keys give undefined
+ */
+export function lookupPath(scope: unknown, path: string): unknown {
+  if (!PATH.test(path)) {
+    throw new TemplateError(`Invalid path '${path}'`);
+  }
+  const keys = path.replace(/\[(\d+)\]/g, '.$1').split('.');
+  let value: unknown = scope;
+  for (const key of keys) {
+    value = decodeJsonText(value);
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function parseLiteral(text: string): { value: unknown } | undefined {
+  if (/^(['"]).*\1$/s.test(text)) return { value: text.slice(1, -1) };
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { value: Number(text) };
+  if (text === 'true') return { value: true };
+  if (text === 'false') return { value: false };
+  if (text === 'null') return { value: null };
+  return undefined;
+}
+
+function evaluateOperand(text: string, scope: unknown): unknown {
+  const literal = parseLiteral(text.trim());
+  return literal ? literal.value : lookupPath(scope, text.trim());
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  const [name, ...rest] = filter.trim().split(/\s+/);
+  const argument = rest.join(' ');
+  switch (name) {
+    case 'json':
+      return JSON.stringify(value);
+    case 'upper':
+      return value === undefined ? value : String(value).toUpperCase();
+    case 'lower':
+      return value === undefined ? value : String(value).toLowerCase();
+    case 'trim':
+      return value === undefined ? value : String(value).trim();
+    case 'default': {
+      const literal = parseLiteral(argument);
+      if (!literal) throw new TemplateError(`default needs a literal, got '${argument}'`);
+      return value === undefined || value === null || value === '' ? literal.value : value;
+    }
+    default:
+      throw new TemplateError(`Unknown filter '${name}'`);
+  }
+}
+
+/**
+ * Evaluate the inside of a `{{ }}`: an operand followed by filters
+ */
+export function evaluateExpression(expression: string, scope: unknown): unknown {
+  const [operand, ...filters] = expression.split('|');
+  return filters.reduce((value, filter) => applyFilter(value, filter), evaluateOperand(operand, scope));
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Render templates in a value, recursing into arrays and objects. A string
+ * that is a single `{{ }}` takes the value's own type (object, number, ...);
+ * templates inside longer strings are interpolated as text.
+ */
+export function renderTemplate(value: unknown, scope: unknown): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_TEMPLATE.exec(value);
+    if (whole) return evaluateExpression(whole[1], scope);
+    return value.replace(TEMPLATE, (_match, expression: string) => stringify(evaluateExpression(expression, scope)));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplate(item, scope));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplate(item, scope)])
+    );
+  }
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function compare(left: unknown, operator: string, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      // Loose on type so `steps.count.result == 3` matches "3"
+      return left === right || (left != null && right != null && String(left) === String(right));
+    case '!=':
+      return !compare(left, '==', right);
+    default: {
+      const a = Number(left);
+      const b = Number(right);
+      if (isNaN(a) || isNaN(b)) return false;
+      return operator === '<' ? a < b : operator === '<=' ? a <= b : operator === '>' ? a > b : a >= b;
+    }
+  }
+}
+
+function evaluateClause(clause: string, scope: unknown): boolean {
+  let text = clause.trim();
+  let negate = false;
+  while (text.startsWith('!') && !text.startsWith('!=')) {
+    negate = !negate;
+    text = text.slice(1).trim();
+  }
+
+  const comparison = COMPARISON.exec(text);
+  const result = comparison
+    ? compare(evaluateOperand(comparison[1], scope), comparison[2], evaluateOperand(comparison[3], scope))
+    : truthy(evaluateExpression(text, scope));
+  return negate ? !result : result;
+}
+
+/**
+ * Evaluate a condition; a surrounding `{{ }}` is optional
+ */
+export function evaluateCondition(condition: string, scope: unknown): boolean {
+  const text = WHOLE_TEMPLATE.exec(condition.trim())?.[1] ?? condition;
+  return text.split('||').some(alternative =>
+    alternative.split('&&').every(clause => evaluateClause(clause, scope))
+  );
+}
@@ -0,0 +1,261 @@
+import { describe, expect, test } from 'bun:test';
+import { AmbiguousTimeError, TimeExpressionError, resolveTimeExpression } from './time-expression';
+import type { ResolvedTime } from './time-expression';
+
+/**
+ * Table-driven spec for resolveTimeExpression. Every row pins `now` and the
+ * time zone, so results do not depend on when or where the suite runs.
+ */
+
+interface Row {
+  expression: string;
+  /** Reference time, with the offset the zone has at that moment */
+  now: string;
+  timeZone: string;
+}
+
+interface ResolvedRow extends Row {
+  expected: Omit<ResolvedTime, 'timeZone'>;
+}
+
+interface AmbiguousRow extends Row {
+  question: string;
+  options?: string[];
+}
+
+interface InvalidRow extends Row {
+  reason: string;
+}
+
+const BERLIN = 'Europe/Berlin';
+/** Monday, a week before Europe leaves summer time on Sunday, October 25 */
+const MONDAY = '2026-10-19T09:00:00+02:00';
+const FRIDAY = '2026-10-23T09:00:00+02:00';
+const SATURDAY = '2026-10-24T12:00:00+02:00';
+
+const at = (expression: string, start: string, end?: string): Omit<ResolvedRow, 'now' | 'timeZone'> => ({
+  expression,
+  expected: { start, ...(end ? { end } : {}), allDay: false },
+});
+const days = (expression: string, start: string, end: string): Omit<ResolvedRow, 'now' | 'timeZone'> => ({
+  expression,
+  expected: { start, end, allDay: true },
+});
+const inBerlin = (now: string, rows: Omit<ResolvedRow, 'now' | 'timeZone'>[]): ResolvedRow[] =>
+  rows.map(row => ({ ...row, now, timeZone: BERLIN }));
+
+function resolve(row: Row): ResolvedTime {
+  return resolveTimeExpression(row.expression, { now: new Date(row.now), timeZone: row.timeZone });
+}
+
+function rejection(row: Row): unknown {
+  try {
+    resolve(row);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`"${row.expression}" resolved, but should not have`);
+}
+
+function runResolved(rows: ResolvedRow[]): void {
+  for (const row of rows) {
+    test(`"${row.expression}" at ${row.now} in ${row.timeZone}`, () => {
+      expect(resolve(row)).toEqual({ ...row.expected, timeZone: row.timeZone });
+    });
+  }
+}
+
+describe('relative dates', () => {
+  runResolved([
+    ...inBerlin(MONDAY, [
+      at('tomorrow at 10am for two hours', '2026-10-20T10:00:00+02:00', '2026-10-20T12:00:00+02:00'),
+      at('the day after tomorrow at 9:30am', '2026-10-21T09:30:00+02:00'),
+      at('this Friday at 3pm', '2026-10-23T15:00:00+02:00'),
+      at('last Tuesday at noon', '2026-10-13T12:00:00+02:00'),
+      at('Friday next week at 2pm', '2026-10-30T14:00:00+01:00'),
+      at('the 24th at 5pm', '2026-10-24T17:00:00+02:00'),
+      days('tomorrow', '2026-10-20T00:00:00+02:00', '2026-10-21T00:00:00+02:00'),
+      days('in 3 days', '2026-10-22T00:00:00+02:00', '2026-10-23T00:00:00+02:00'),
+      days('2 weeks from now', '2026-11-02T00:00:00+01:00', '2026-11-03T00:00:00+01:00'),
+      days('October 24', '2026-10-24T00:00:00+02:00', '2026-10-25T00:00:00+02:00'),
+      days('March 3', '2027-03-03T00:00:00+01:00', '2027-03-04T00:00:00+01:00'),
+      days('next week', '2026-10-26T00:00:00+01:00', '2026-11-02T00:00:00+01:00'),
+      days('this weekend', '2026-10-24T00:00:00+02:00', '2026-10-26T00:00:00+01:00'),
+      days('next month', '2026-11-01T00:00:00+01:00', '2026-12-01T00:00:00+01:00'),
+    ]),
+    ...inBerlin(SATURDAY, [
+      at('next Friday afternoon', '2026-10-30T13:00:00+01:00', '2026-10-30T17:00:00+01:00'),
+      days('next weekend', '2026-10-31T00:00:00+01:00', '2026-11-02T00:00:00+01:00'),
+    ]),
+    {
+      ...at('tomorrow at 9am', '2026-10-20T09:00:00+00:00'),
+      now: '2026-10-19T23:30:00Z',
+      timeZone: 'UTC',
+    },
+    {
+      // The same instant is already Tuesday in Auckland
+      ...at('tomorrow at 9am', '2026-10-21T09:00:00+13:00'),
+      now: '2026-10-19T23:30:00Z',
+      timeZone: 'Pacific/Auckland',
+    },
+    {
+      ...at('tomorrow at 9am', '2026-10-20T09:00:00+05:30'),
+      now: '2026-10-19T09:00:00+05:30',
+      timeZone: 'Asia/Kolkata',
+    },
+    {
+      ...at('2026-10-24T15:00', '2026-10-24T15:00:00+02:00'),
+      now: MONDAY,
+      timeZone: BERLIN,
+    },
+  ]);
+});
+
+describe('durations', () => {
+  runResolved(inBerlin(MONDAY, [
+    at('for an hour', '2026-10-19T09:00:00+02:00', '2026-10-19T10:00:00+02:00'),
+    at('in 20 minutes', '2026-10-19T09:20:00+02:00'),
+    at('in half an hour for 15 minutes', '2026-10-19T09:30:00+02:00', '2026-10-19T09:45:00+02:00'),
+    at('tomorrow at 3pm for an hour and a half', '2026-10-20T15:00:00+02:00', '2026-10-20T16:30:00+02:00'),
+    at('tomorrow at 9am for 45 minutes', '2026-10-20T09:00:00+02:00', '2026-10-20T09:45:00+02:00'),
+    at('tomorrow at 9am for 2 hours and 15 minutes', '2026-10-20T09:00:00+02:00', '2026-10-20T11:15:00+02:00'),
+    at('Friday at 10am for an hour', '2026-10-23T10:00:00+02:00', '2026-10-23T11:00:00+02:00'),
+    days('Friday for 3 days', '2026-10-23T00:00:00+02:00', '2026-10-26T00:00:00+01:00'),
+    days('tomorrow all day', '2026-10-20T00:00:00+02:00', '2026-10-21T00:00:00+02:00'),
+  ]));
+});
+
+describe('ranges', () => {
+  runResolved(inBerlin(MONDAY, [
+    at('between 2 and 4pm on the 24th', '2026-10-24T14:00:00+02:00', '2026-10-24T16:00:00+02:00'),
+    at('10am to 2', '2026-10-19T10:00:00+02:00', '2026-10-19T14:00:00+02:00'),
+    at('tomorrow 2-4pm', '2026-10-20T14:00:00+02:00', '2026-10-20T16:00:00+02:00'),
+    at('from 10 to noon tomorrow', '2026-10-20T10:00:00+02:00', '2026-10-20T12:00:00+02:00'),
+    at('tomorrow from 11pm to 1am', '2026-10-20T23:00:00+02:00', '2026-10-21T01:00:00+02:00'),
+    at('Wednesday 9:30-11 in the morning', '2026-10-21T09:30:00+02:00', '2026-10-21T11:00:00+02:00'),
+  ]));
+});
+
+describe('named times of day', () => {
+  runResolved(inBerlin(MONDAY, [
+    at('tomorrow at noon', '2026-10-20T12:00:00+02:00'),
+    at('tomorrow at midnight', '2026-10-20T00:00:00+02:00'),
+    at('tomorrow morning', '2026-10-20T09:00:00+02:00', '2026-10-20T12:00:00+02:00'),
+    at('this evening', '2026-10-19T18:00:00+02:00', '2026-10-19T21:00:00+02:00'),
+    at('tonight', '2026-10-19T20:00:00+02:00', '2026-10-19T23:00:00+02:00'),
+    at('lunch on Friday', '2026-10-23T12:00:00+02:00', '2026-10-23T13:00:00+02:00'),
+    at('end of day', '2026-10-19T17:00:00+02:00'),
+    at('first thing tomorrow', '2026-10-20T09:00:00+02:00'),
+    at('half past 3 tomorrow afternoon', '2026-10-20T15:30:00+02:00'),
+    at('quarter to 4 on Thursday afternoon', '2026-10-22T15:45:00+02:00'),
+    at('at 14:00', '2026-10-19T14:00:00+02:00'),
+    // Already past today, so the next one
+    at('7am', '2026-10-20T07:00:00+02:00'),
+  ]));
+});
+
+describe('ambiguous expressions ask a question', () => {
+  const rows: AmbiguousRow[] = [
+    { expression: 'at 3', now: MONDAY, timeZone: BERLIN, question: 'Do you mean 3:00 AM or 3:00 PM?', options: ['3:00 AM', '3:00 PM'] },
+    { expression: 'tomorrow at 3', now: MONDAY, timeZone: BERLIN, question: 'Do you mean 3:00 AM or 3:00 PM?' },
+    { expression: 'Friday at 10 for an hour', now: MONDAY, timeZone: BERLIN, question: 'Do you mean 10:00 AM or 10:00 PM?' },
+    { expression: 'from 2 to 4', now: MONDAY, timeZone: BERLIN, question: 'Do you mean 2:00 AM to 4:00 AM or 2:00 PM to 4:00 PM?' },
+    {
+      expression: 'next Friday',
+      now: MONDAY,
+      timeZone: BERLIN,
+      question: 'Do you mean Friday, October 23 or Friday, October 30?',
+      options: ['Friday, October 23', 'Friday, October 30'],
+    },
+    { expression: 'Friday at 10am', now: FRIDAY, timeZone: BERLIN, question: 'Do you mean Friday, October 23 or Friday, October 30?' },
+    { expression: '3/4', now: MONDAY, timeZone: BERLIN, question: 'Do you mean Thursday, March 4, 2027 or Saturday, April 3, 2027?' },
+    {
+      expression: 'next weekend',
+      now: MONDAY,
+      timeZone: BERLIN,
+      question: 'Do you mean the weekend starting Saturday, October 24 or the weekend starting Saturday, October 31?',
+    },
+    { expression: 'next week at 3pm', now: MONDAY, timeZone: BERLIN, question: 'Which day next week?' },
+    { expression: 'October 24 for an hour', now: MONDAY, timeZone: BERLIN, question: 'What time on Saturday, October 24?' },
+  ];
+
+  for (const row of rows) {
+    test(`"${row.expression}" at ${row.now} in ${row.timeZone}`, () => {
+      const error = rejection(row);
+      expect(error).toBeInstanceOf(AmbiguousTimeError);
+      expect((error as AmbiguousTimeError).question).toBe(row.question);
+      if (row.options) {
+        expect((error as AmbiguousTimeError).options).toEqual(row.options);
+      }
+    });
+  }
+});
+
+describe('unreadable expressions', () => {
+  const rows: InvalidRow[] = [
+    { expression: 'whenever works', now: MONDAY, timeZone: BERLIN, reason: 'did not understand "whenever works"' },
+    { expression: 'February 30', now: MONDAY, timeZone: BERLIN, reason: 'feb 30 is not a date' },
+    { expression: 'in 20 minutes on Friday', now: MONDAY, timeZone: BERLIN, reason: 'it mixes a time from now with a date or time of day' },
+    { expression: 'tomorrow at 10am to 11am for an hour', now: MONDAY, timeZone: BERLIN, reason: 'it has both an end time and a duration' },
+    { expression: 'at 25:00', now: MONDAY, timeZone: BERLIN, reason: '25:00 is not a time' },
+    { expression: 'tomorrow at 10am', now: MONDAY, timeZone: 'Mars/Olympus_Mons', reason: 'unknown time zone "Mars/Olympus_Mons"' },
+  ];
+
+  for (const row of rows) {
+    test(`"${row.expression}" in ${row.timeZone}`, () => {
+      const error = rejection(row);
+      expect(error).toBeInstanceOf(TimeExpressionError);
+      expect(error).not.toBeInstanceOf(AmbiguousTimeError);
+      expect((error as Error).message).toBe(`Cannot resolve "${row.expression}": ${row.reason}`);
+    });
+  }
+});
+
+describe('daylight saving time', () => {
+  runResolved([
+    // Gaps: the skipped wall-clock time moves forward by the gap
+    { ...at('March 29 at 2:30am', '2026-03-29T03:30:00+02:00'), now: '2026-03-20T12:00:00+01:00', timeZone: BERLIN },
+    {
+      ...at('March 8 at 2:30am', '2026-03-08T03:30:00-04:00'),
+      now: '2026-03-01T12:00:00-05:00',
+      timeZone: 'America/New_York',
+    },
+    // Offsets from now count elapsed time across the gap
+    { ...at('in 2 hours', '2026-03-29T04:30:00+02:00'), now: '2026-03-29T01:30:00+01:00', timeZone: BERLIN },
+    // Overlaps: a wall-clock time that happens twice is the first occurrence
+    { ...at('October 25 at 2:30am', '2026-10-25T02:30:00+02:00'), now: MONDAY, timeZone: BERLIN },
+    {
+      ...at('November 1 at 1:30am', '2026-11-01T01:30:00-04:00'),
+      now: '2026-10-19T12:00:00-04:00',
+      timeZone: 'America/New_York',
+    },
+    {
+      ...at('April 4 at 2:30am', '2027-04-04T02:30:00+11:00'),
+      now: '2026-10-19T09:00:00+11:00',
+      timeZone: 'Australia/Sydney',
+    },
+    // Durations are elapsed time; ranges end at the wall-clock time
+    {
+      ...at('tomorrow at 1am for 3 hours', '2026-10-25T01:00:00+02:00', '2026-10-25T03:00:00+01:00'),
+      now: SATURDAY,
+      timeZone: BERLIN,
+    },
+    {
+      ...at('October 25 from 1am to 4am', '2026-10-25T01:00:00+02:00', '2026-10-25T04:00:00+01:00'),
+      now: MONDAY,
+      timeZone: BERLIN,
+    },
+    {
+      ...at('March 29 from 1am to 4am', '2026-03-29T01:00:00+01:00', '2026-03-29T04:00:00+02:00'),
+      now: '2026-03-20T12:00:00+01:00',
+      timeZone: BERLIN,
+    },
+    // Whole days on a change day last 25 or 23 hours
+    { ...days('October 25', '2026-10-25T00:00:00+02:00', '2026-10-26T00:00:00+01:00'), now: MONDAY, timeZone: BERLIN },
+    {
+      ...days('March 29', '2026-03-29T00:00:00+01:00', '2026-03-30T00:00:00+02:00'),
+      now: '2026-03-20T12:00:00+01:00',
+      timeZone: BERLIN,
+    },
+  ]);
+});
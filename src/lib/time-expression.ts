@@ -0,0 +1,661 @@
+/**
+ * Spoken date and time expressions, such as "tomorrow at 10am for two
+ * hours", "next Friday afternoon" or "between 2 and 4pm on the 24th",
+ * resolved to ISO 8601 in an IANA time zone.
+ *
+ * An expression that could mean more than one time (a bare "at 3", or "next
+ * Friday" said early in the week) raises AmbiguousTimeError with a question
+ * for the user instead of picking one.
+ */
+
+export interface TimeResolveOptions {
+  /** Reference time (default: now) */
+  now?: Date;
+  /** IANA time zone, e.g. `Europe/Berlin` (default: the process's) */
+  timeZone?: string;
+}
+
+export interface ResolvedTime {
+  /** ISO 8601 with the zone's UTC offset */
+  start: string;
+  /** Set for ranges, durations, parts of the day and whole days */
+  end?: string;
+  /** Whole days rather than a time of day; `end` is midnight after the last one */
+  allDay: boolean;
+  timeZone: string;
+}
+
+export class TimeExpressionError extends Error {
+  expression: string;
+
+  constructor(expression: string, reason: string) {
+    super(`Cannot resolve "${expression}": ${reason}`);
+    this.name = 'TimeExpressionError';
+    this.expression = expression;
+  }
+}
+
+/**
+ * The expression has several readings; ask the user `question`
+ */
+export class AmbiguousTimeError extends TimeExpressionError {
+  question: string;
+  /** The readings to choose from, when there are a few */
+  options: string[];
+
+  constructor(expression: string, question: string, options: string[] = []) {
+    super(expression, question);
+    this.name = 'AmbiguousTimeError';
+    this.message = `"${expression}" is ambiguous: ${question}`;
+    this.question = question;
+    this.options = options;
+  }
+}
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface ClockTime {
+  hour: number;
+  minute: number;
+  /** False for a bare 1-12, which could be AM or PM */
+  fixed: boolean;
+}
+
+/** Whole days named together, like "next week" */
+interface Period {
+  start: CalendarDate;
+  days: number;
+  label: string;
+}
+
+type DayPart = 'morning' | 'afternoon' | 'evening' | 'night' | 'lunch';
+
+/** Minutes after midnight each part of the day covers */
+const DAY_PARTS: Record<DayPart, [number, number]> = {
+  morning: [9 * 60, 12 * 60],
+  lunch: [12 * 60, 13 * 60],
+  afternoon: [13 * 60, 17 * 60],
+  evening: [18 * 60, 21 * 60],
+  night: [20 * 60, 23 * 60],
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MONTH = '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept|sep|oct|nov|dec)';
+const WEEKDAY = '(monday|mon|tuesday|tues|tue|wednesday|wed|thursday|thurs|thur|thu|friday|fri|saturday|sat|sunday|sun)';
+const CLOCK = String.raw`(?:noon|midday|midnight|(?:half|quarter) past \d{1,2}|quarter to \d{1,2}|\d{1,2}(?::\d{2})?(?:am|pm| oclock)?)`;
+const UNIT = '(minutes?|mins?|hours?|hrs?|days?|weeks?|months?)';
+
+/** Compounds come first, before their parts are replaced */
+const NUMBER_WORDS: Record<string, number> = {
+  'forty five': 45, 'forty-five': 45,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, ninety: 90,
+};
+
+/** Words that carry no meaning once dates and times are taken out */
+const FILLER = new Set(['at', 'on', 'the', 'in', 'from', 'of', 'this', 'by', 'around', 'about', 'for', 'starting', 'and']);
+
+const ISO_INSTANT = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/i;
+const ISO_LOCAL = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function defaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallClock(instant: Date, timeZone: string): { date: CalendarDate; minutes: number; seconds: number } {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(part => [part.type, Number(part.value)]));
+  return {
+    date: { year: parts.year, month: parts.month, day: parts.day },
+    minutes: (parts.hour % 24) * 60 + parts.minute,
+    seconds: parts.second,
+  };
+}
+
+/** The zone's UTC offset at `instant`, in minutes */
+function offsetMinutes(instant: Date, timeZone: string): number {
+  const { date, minutes, seconds } = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(date.year, date.month - 1, date.day, 0, minutes, seconds);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. `minutes` may run past
+ * midnight into the next day. A time skipped by a DST change moves forward
+ * by the gap, and a time that happens twice is the first occurrence.
+ */
+function toInstant(date: CalendarDate, minutes: number, timeZone: string): Date {
+  const local = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  // The offsets a day either side are those before and after any change near `local`
+  const [earlier, later] = [-DAY_MS, DAY_MS].map(shift => local - offsetMinutes(new Date(local + shift), timeZone) * 60000);
+  const readings = [earlier, later].filter(instant => instant + offsetMinutes(new Date(instant), timeZone) * 60000 === local);
+  return new Date(readings.length > 0 ? Math.min(...readings) : earlier);
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+function formatIso(instant: Date, timeZone: string): string {
+  const { date, minutes, seconds } = wallClock(instant, timeZone);
+  const offset = offsetMinutes(instant, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}T${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:${pad(seconds)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+function makeDate(year: number, month: number, day: number): CalendarDate | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? { year, month, day }
+    : undefined;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const moved = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: moved.getUTCFullYear(), month: moved.getUTCMonth() + 1, day: moved.getUTCDate() };
+}
+
+/** Same day `months` later, or the month's last day if it is shorter */
+function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const index = date.year * 12 + date.month - 1 + months;
+  const year = Math.floor(index / 12);
+  const month = index % 12 + 1;
+  return { year, month, day: Math.min(date.day, daysInMonth(year, month)) };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** 0 for Sunday */
+function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return (a.year - b.year) * 400 + (a.month - b.month) * 32 + (a.day - b.day);
+}
+
+function describeDate(date: CalendarDate, today: CalendarDate): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: 'UTC',
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: date.year === today.year ? undefined : 'numeric',
+  }).format(new Date(Date.UTC(date.year, date.month - 1, date.day)));
+}
+
+function describeClock(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  return `${hour % 12 || 12}:${pad(minutes % 60)} ${hour < 12 ? 'AM' : 'PM'}`;
+}
+
+function listOptions(options: string[]): string {
+  return options.length <= 2
+    ? options.join(' or ')
+    : `${options.slice(0, -1).join(', ')} or ${options[options.length - 1]}`;
+}
+
+/**
+ * Lower-case, drop punctuation and spell numbers and common durations as digits
+ */
+function normalize(expression: string): string {
+  let text = expression.toLowerCase()
+    .replace(/[–—]/g, '-')
+    .replace(/\b([ap])\.m\.?/g, '$1m')
+    .replace(/\bo'? ?clock\b/g, 'oclock')
+    .replace(/[,;!?]|\.(?!\d)/g, ' ')
+    .replace(/\b(?:an|a|one) hour and a half\b/g, '90 minutes')
+    .replace(/\b(?:a )?quarter of an hour\b/g, '15 minutes')
+    .replace(/\bhalf (?:an )?hour\b/g, '30 minutes')
+    .replace(/\b(?:a )?couple (?:of )?/g, '2 ');
+
+  for (const [word, value] of Object.entries(NUMBER_WORDS)) {
+    text = text.replace(new RegExp(`\\b${word}\\b`, 'g'), String(value));
+  }
+
+  return text
+    .replace(/\b(\d+) and a half (hours?|days?|weeks?)\b/g, (_, amount: string, unit: string) => `${Number(amount) + 0.5} ${unit}`)
+    .replace(/\b(?:an|a) (minute|hour|day|week|month)\b/g, '1 $1')
+    .replace(/(\d) (am|pm)\b/g, '$1$2')
+    .replace(/(\d)(oclock)\b/g, '$1 $2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function parseClock(expression: string, text: string): ClockTime {
+  if (text === 'noon' || text === 'midday') return { hour: 12, minute: 0, fixed: true };
+  if (text === 'midnight') return { hour: 0, minute: 0, fixed: true };
+
+  const past = /^(half|quarter) past (\d{1,2})$/.exec(text);
+  if (past) {
+    return checkClock(expression, { hour: Number(past[2]), minute: past[1] === 'half' ? 30 : 15, fixed: false });
+  }
+  const to = /^quarter to (\d{1,2})$/.exec(text);
+  if (to) {
+    const hour = Number(to[1]);
+    checkClock(expression, { hour, minute: 0, fixed: false });
+    return { hour: hour === 1 ? 12 : hour - 1, minute: 45, fixed: hour === 0 || hour > 12 };
+  }
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm| oclock)?$/.exec(text);
+  if (!match) throw new TimeExpressionError(expression, `"${text}" is not a time`);
+  const hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  const suffix = match[3]?.trim();
+
+  if (suffix === 'am' || suffix === 'pm') {
+    if (hour < 1 || hour > 12) throw new TimeExpressionError(expression, `"${text}" is not a time`);
+    return checkClock(expression, { hour: (hour % 12) + (suffix === 'pm' ? 12 : 0), minute, fixed: true });
+  }
+  // "14:00", "0:30" and "09:00" are on the 24-hour clock
+  const twentyFourHour = hour === 0 || hour > 12 || (match[1].length === 2 && match[1].startsWith('0'));
+  return checkClock(expression, { hour, minute, fixed: twentyFourHour });
+}
+
+function checkClock(expression: string, clock: ClockTime): ClockTime {
+  if (clock.hour > 23 || clock.minute > 59 || (!clock.fixed && clock.hour === 0)) {
+    throw new TimeExpressionError(expression, `${clock.hour}:${pad(clock.minute)} is not a time`);
+  }
+  return clock;
+}
+
+/** Minutes after midnight, reading a bare hour as AM or PM */
+function clockMinutes(clock: ClockTime, pm: boolean): number {
+  return clock.fixed
+    ? clock.hour * 60 + clock.minute
+    : ((clock.hour % 12) + (pm ? 12 : 0)) * 60 + clock.minute;
+}
+
+/** A bare end hour is the first reading after the start: 10am to 2 ends at 2pm */
+function endAfter(end: ClockTime, start: number): number {
+  if (end.fixed) return clockMinutes(end, false);
+  const minutes = clockMinutes(end, start >= 12 * 60);
+  return minutes > start ? minutes : clockMinutes(end, start < 12 * 60);
+}
+
+/**
+ * Start and end minutes of a time or range. A bare hour takes its half of
+ * the day from the part of the day (`pm`) or the other end of the range.
+ */
+function resolveClocks(
+  expression: string,
+  start: ClockTime,
+  end: ClockTime | undefined,
+  pm: boolean | undefined
+): [number, number | undefined] {
+  if (!end) {
+    if (start.fixed || pm !== undefined) return [clockMinutes(start, pm ?? false), undefined];
+    const options = [false, true].map(half => describeClock(clockMinutes(start, half)));
+    throw new AmbiguousTimeError(expression, `Do you mean ${listOptions(options)}?`, options);
+  }
+
+  if (start.fixed || pm !== undefined) {
+    const from = clockMinutes(start, pm ?? false);
+    return [from, endAfter(end, from)];
+  }
+  if (end.fixed) {
+    const to = clockMinutes(end, false);
+    const from = clockMinutes(start, to >= 12 * 60);
+    return [from < to ? from : clockMinutes(start, to < 12 * 60), to];
+  }
+
+  const options = [false, true].map(half => {
+    const from = clockMinutes(start, half);
+    return `${describeClock(from)} to ${describeClock(endAfter(end, from))}`;
+  });
+  throw new AmbiguousTimeError(expression, `Do you mean ${listOptions(options)}?`, options);
+}
+
+/**
+ * Resolve a spoken date or time. Throws TimeExpressionError for expressions
+ * it cannot read and AmbiguousTimeError for ones with several readings.
+ *
+ * - Dates: today, tonight, tomorrow, the day after tomorrow, weekdays
+ *   (this/next/last Friday, Friday next week), October 24, the 24th, 10/24,
+ *   2026-10-24, next week, this or next weekend, next month
+ * - Times: 10am, 10:30, 14:00, noon, midnight, half past 3, quarter to 4,
+ *   morning, afternoon, evening, night, lunch, end of day
+ * - Ranges and durations: 2-4pm, from 10 to noon, between 2 and 4pm, for two
+ *   hours, for an hour and a half, all day, for 3 days
+ * - Offsets from now: in 20 minutes, in 3 days, 2 weeks from now
+ *
+ * A time without a date is the next time it comes round; a date without a
+ * time is the whole day. Dates without a year are the next one to come.
+ */
+export function resolveTimeExpression(expression: string, options: TimeResolveOptions = {}): ResolvedTime {
+  const timeZone = options.timeZone ?? defaultTimeZone();
+  if (!isValidTimeZone(timeZone)) {
+    throw new TimeExpressionError(expression, `unknown time zone "${timeZone}"`);
+  }
+  const now = options.now ?? new Date();
+  const result = (start: Date, end: Date | undefined, allDay: boolean): ResolvedTime => ({
+    start: formatIso(start, timeZone),
+    ...(end ? { end: formatIso(end, timeZone) } : {}),
+    allDay,
+    timeZone,
+  });
+
+  const trimmed = expression.trim();
+  if (!trimmed) throw new TimeExpressionError(expression, 'no date or time given');
+  if (ISO_INSTANT.test(trimmed)) {
+    const instant = new Date(trimmed);
+    if (isNaN(instant.getTime())) throw new TimeExpressionError(expression, 'not a valid date-time');
+    return result(instant, undefined, false);
+  }
+  const local = ISO_LOCAL.exec(trimmed);
+  if (local) {
+    const [year, month, day, hour, minute] = local.slice(1).map(Number);
+    const date = makeDate(year, month, day);
+    if (!date || hour > 23 || minute > 59) throw new TimeExpressionError(expression, 'not a valid date-time');
+    return result(toInstant(date, hour * 60 + minute, timeZone), undefined, false);
+  }
+
+  const { date: today, minutes: nowMinutes } = wallClock(now, timeZone);
+  const fail = (reason: string): TimeExpressionError => new TimeExpressionError(expression, reason);
+  const ambiguous = (dates: CalendarDate[]): AmbiguousTimeError => {
+    const choices = dates.map(date => describeDate(date, today));
+    return new AmbiguousTimeError(expression, `Do you mean ${listOptions(choices)}?`, choices);
+  };
+
+  let rest = ` ${normalize(trimmed)} `;
+  const take = (pattern: RegExp): RegExpExecArray | undefined => {
+    const match = pattern.exec(rest);
+    if (match) {
+      rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`;
+    }
+    return match ?? undefined;
+  };
+
+  let dates: CalendarDate[] | undefined;
+  let period: Period | undefined;
+  /** "today" and "this afternoon" are not moved to tomorrow once they have passed */
+  let explicitDay = false;
+  let offsetMs: number | undefined;
+  let durationMinutes: number | undefined;
+  let spanDays: number | undefined;
+  let allDay = false;
+  let part: DayPart | undefined;
+  let start: ClockTime | undefined;
+  let end: ClockTime | undefined;
+
+  const setDates = (...candidates: CalendarDate[]): void => {
+    if (dates || period) throw fail('it names more than one date');
+    dates = candidates.filter((date, index) => candidates.findIndex(other => compareDates(other, date) === 0) === index);
+  };
+  const setPeriod = (value: Period): void => {
+    if (dates || period) throw fail('it names more than one date');
+    period = value;
+  };
+  /** This year's date, or next year's once it has passed */
+  const upcoming = (month: number, day: number, year?: number): CalendarDate => {
+    const date = makeDate(year ?? today.year, month, day);
+    if (!date) throw fail(`${MONTHS[month - 1]} ${day} is not a date`);
+    if (year !== undefined || compareDates(date, today) >= 0) return date;
+    return makeDate(today.year + 1, month, day) ?? date;
+  };
+  const mondayOf = (date: CalendarDate): CalendarDate => addDays(date, -((weekdayOf(date) + 6) % 7));
+
+  // Durations and offsets first, so their numbers are not read as times
+  const duration = take(/\bfor (\d+(?:\.\d+)?) ?(minutes?|mins?|hours?|hrs?|h|days?)(?: and (\d+) ?(?:minutes?|mins?))?\b/);
+  if (duration) {
+    const amount = Number(duration[1]);
+    if (duration[2].startsWith('d')) {
+      if (!Number.isInteger(amount) || amount < 1) throw fail(`"${duration[0].trim()}" is not a whole number of days`);
+      spanDays = amount;
+    } else {
+      durationMinutes = Math.round(amount * (duration[2].startsWith('h') ? 60 : 1) + Number(duration[3] ?? 0));
+    }
+  }
+  if (take(/\ball day\b/)) allDay = true;
+
+  const offset = take(new RegExp(`\\bin (\\d+(?:\\.\\d+)?) ${UNIT}\\b`)) ??
+    take(new RegExp(`\\b(\\d+(?:\\.\\d+)?) ${UNIT} from (?:now|today)\\b`));
+  if (offset) {
+    const amount = Number(offset[1]);
+    const unit = offset[2];
+    if (unit.startsWith('m') && !unit.startsWith('mo')) {
+      offsetMs = amount * 60000;
+    } else if (unit.startsWith('h')) {
+      offsetMs = amount * 3600000;
+    } else if (!Number.isInteger(amount)) {
+      throw fail(`"${offset[0].trim()}" is not a whole number of ${unit}`);
+    } else if (unit.startsWith('mo')) {
+      setDates(addMonths(today, amount));
+    } else {
+      setDates(addDays(today, amount * (unit.startsWith('w') ? 7 : 1)));
+    }
+  }
+
+  const iso = take(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    const date = makeDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    if (!date) throw fail(`${iso[0].trim()} is not a date`);
+    setDates(date);
+  }
+
+  // 3/4 is March 4 or April 3; only one reading may be a real date
+  const numeric = take(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/);
+  if (numeric) {
+    const [first, second] = [Number(numeric[1]), Number(numeric[2])];
+    const year = numeric[3] === undefined ? undefined : Number(numeric[3]) + (numeric[3].length === 2 ? 2000 : 0);
+    const readings = [[first, second], [second, first]]
+      .filter(([month, day]) => month >= 1 && month <= 12 && makeDate(year ?? today.year, month, day))
+      .map(([month, day]) => upcoming(month, day, year));
+    if (readings.length === 0) throw fail(`${numeric[0].trim()} is not a date`);
+    setDates(...readings);
+  }
+
+  const monthOf = (name: string): number => MONTHS.indexOf(name.slice(0, 3)) + 1;
+  const yearOf = (text: string | undefined): number | undefined => text === undefined ? undefined : Number(text);
+  const named = take(new RegExp(`\\b${MONTH}\\.? (\\d{1,2})(?:st|nd|rd|th)?(?: (\\d{4}))?\\b`));
+  const dayFirst = named ? undefined : take(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH}(?: (\\d{4}))?\\b`));
+  if (named) {
+    setDates(upcoming(monthOf(named[1]), Number(named[2]), yearOf(named[3])));
+  } else if (dayFirst) {
+    setDates(upcoming(monthOf(dayFirst[2]), Number(dayFirst[1]), yearOf(dayFirst[3])));
+  }
+
+  // "the 24th": this month's, or the next month that has one
+  const ordinal = take(/\b(\d{1,2})(?:st|nd|rd|th)\b/);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    let date: CalendarDate | undefined;
+    for (let months = 0; months <= 12 && !date; months++) {
+      const month = addMonths({ ...today, day: 1 }, months);
+      const candidate = makeDate(month.year, month.month, day);
+      if (candidate && compareDates(candidate, today) >= 0) date = candidate;
+    }
+    if (!date) throw fail(`no month has a ${ordinal[0].trim()}`);
+    setDates(date);
+  }
+
+  if (take(/\b(?:the )?day after tomorrow\b/)) setDates(addDays(today, 2));
+  if (take(/\btomorrow\b/)) setDates(addDays(today, 1));
+  if (take(/\byesterday\b/)) setDates(addDays(today, -1));
+  if (take(/\btoday\b/)) {
+    setDates(today);
+    explicitDay = true;
+  }
+  if (take(/\btonight\b/)) {
+    setDates(today);
+    part = 'night';
+    explicitDay = true;
+  }
+
+  // "next week Friday" / "Friday next week" name the week; "next Friday" is relative to today
+  const weekFirst = take(new RegExp(`\\b(this|next|last) week'?s? ${WEEKDAY}\\b`));
+  const weekday = weekFirst ??
+    take(new RegExp(`\\b(?:(this|next|last|coming) )?${WEEKDAY}(?: (this|next|last) week)?\\b`));
+  if (weekday) {
+    const inWeek = weekFirst ? weekFirst[1] : weekday[3];
+    const modifier = weekFirst ? undefined : weekday[1];
+    const target = WEEKDAYS.indexOf(weekday[2].slice(0, 3));
+    const ahead = (target - weekdayOf(today) + 7) % 7;
+    const daysLeftInWeek = 6 - (weekdayOf(today) + 6) % 7;
+
+    if (inWeek) {
+      const weeks = inWeek === 'next' ? 1 : inWeek === 'last' ? -1 : 0;
+      setDates(addDays(mondayOf(today), weeks * 7 + (target + 6) % 7));
+    } else if (modifier === 'this') {
+      setDates(addDays(today, ahead));
+    } else if (modifier === 'coming') {
+      setDates(addDays(today, ahead || 7));
+    } else if (modifier === 'last') {
+      setDates(addDays(today, -((7 - ahead) % 7 || 7)));
+    } else if (modifier === 'next') {
+      // Said on a Monday, "next Friday" is this Friday to some and next week's to others
+      const first = ahead || 7;
+      setDates(...(first <= daysLeftInWeek ? [addDays(today, first), addDays(today, first + 7)] : [addDays(today, first)]));
+    } else {
+      // Said on a Friday, "Friday" is today or a week from now
+      setDates(...(ahead === 0 ? [today, addDays(today, 7)] : [addDays(today, ahead)]));
+    }
+  }
+
+  if (take(/\bnext week\b/)) setPeriod({ start: addDays(mondayOf(today), 7), days: 7, label: 'next week' });
+  if (take(/\bthis week\b/)) setPeriod({ start: today, days: 7 - (weekdayOf(today) + 6) % 7, label: 'this week' });
+  if (take(/\bthis weekend\b/)) {
+    const day = weekdayOf(today);
+    setPeriod(day === 0
+      ? { start: today, days: 1, label: 'this weekend' }
+      : { start: addDays(today, 6 - day), days: 2, label: 'this weekend' });
+  }
+  if (take(/\bnext weekend\b/)) {
+    const day = weekdayOf(today);
+    const saturday = addDays(today, day === 6 ? 7 : day === 0 ? 6 : 6 - day);
+    if (day !== 6 && day !== 0) {
+      const choices = [saturday, addDays(saturday, 7)].map(date => `the weekend starting ${describeDate(date, today)}`);
+      throw new AmbiguousTimeError(expression, `Do you mean ${listOptions(choices)}?`, choices);
+    }
+    setPeriod({ start: saturday, days: 2, label: 'next weekend' });
+  }
+  if (take(/\bnext month\b/)) {
+    const first = addMonths({ ...today, day: 1 }, 1);
+    setPeriod({ start: first, days: daysInMonth(first.year, first.month), label: 'next month' });
+  }
+
+  const point = take(/\b(end of (?:the )?day|eod|close of business|cob|first thing(?: in the morning)?)\b/);
+  if (point) {
+    start = point[1].startsWith('first') ? { hour: 9, minute: 0, fixed: true } : { hour: 17, minute: 0, fixed: true };
+  }
+  const dayPart = take(/\b(?:(this) |in the |at )?(morning|afternoon|evening|night|lunchtime|lunch)\b/);
+  if (dayPart) {
+    if (part) throw fail('it names more than one part of the day');
+    part = dayPart[2] === 'lunchtime' ? 'lunch' : dayPart[2] as DayPart;
+    explicitDay = explicitDay || dayPart[1] === 'this';
+  }
+
+  const range = take(new RegExp(`\\bbetween (${CLOCK}) and (${CLOCK})(?=\\s)`)) ??
+    take(new RegExp(`\\b(?:from )?(${CLOCK}) ?(?:-|to|until|till|through) ?(${CLOCK})(?=\\s)`));
+  if (range) {
+    if (start) throw fail('it names more than one time');
+    start = parseClock(expression, range[1]);
+    end = parseClock(expression, range[2]);
+  }
+  const single = take(new RegExp(`\\b(?:at |around |about )?(${CLOCK})(?=\\s)`));
+  if (single) {
+    if (start) throw fail('it names more than one time');
+    start = parseClock(expression, single[1]);
+  }
+
+  const leftover = rest.split(' ').filter(word => word && !FILLER.has(word));
+  if (leftover.length > 0) {
+    throw fail(`did not understand "${leftover.join(' ')}"`);
+  }
+
+  if (offsetMs !== undefined) {
+    if (dates || period || start || part) throw fail('it mixes a time from now with a date or time of day');
+    const at = new Date(Math.floor((now.getTime() + offsetMs) / 60000) * 60000);
+    return result(at, durationMinutes !== undefined ? new Date(at.getTime() + durationMinutes * 60000) : undefined, false);
+  }
+  if (dates && dates.length > 1) throw ambiguous(dates);
+
+  if (period) {
+    if (start || part || durationMinutes !== undefined) {
+      const days = Array.from({ length: period.days }, (_, index) => describeDate(addDays(period!.start, index), today));
+      throw new AmbiguousTimeError(expression, `Which day ${period.label}?`, days);
+    }
+    return result(
+      toInstant(period.start, 0, timeZone),
+      toInstant(addDays(period.start, spanDays ?? period.days), 0, timeZone),
+      true
+    );
+  }
+
+  const date = dates?.[0];
+  if (!start && !part) {
+    if (allDay || spanDays !== undefined || (date && durationMinutes === undefined)) {
+      const first = date ?? today;
+      return result(toInstant(first, 0, timeZone), toInstant(addDays(first, spanDays ?? 1), 0, timeZone), true);
+    }
+    if (date) {
+      throw new AmbiguousTimeError(expression, `What time on ${describeDate(date, today)}?`);
+    }
+    if (durationMinutes !== undefined) {
+      // "for an hour" on its own starts now
+      const at = new Date(Math.floor(now.getTime() / 60000) * 60000);
+      return result(at, new Date(at.getTime() + durationMinutes * 60000), false);
+    }
+    throw fail('no date or time given');
+  }
+  if (allDay || spanDays !== undefined) throw fail('it has both a time of day and whole days');
+
+  let from: number;
+  let to: number | undefined;
+  if (start) {
+    [from, to] = resolveClocks(expression, start, end, part === undefined ? undefined : part !== 'morning');
+  } else {
+    [from, to] = DAY_PARTS[part!];
+  }
+  if (durationMinutes !== undefined) {
+    if (end) throw fail('it has both an end time and a duration');
+    to = undefined;
+  }
+  if (to !== undefined && to <= from) to += 24 * 60;
+
+  // A time without a date is the next one to come
+  let day = date ?? today;
+  if (!date && !explicitDay && (to ?? from) <= nowMinutes) {
+    day = addDays(today, 1);
+  }
+
+  const startAt = toInstant(day, from, timeZone);
+  const endAt = to !== undefined
+    ? toInstant(day, to, timeZone)
+    : durationMinutes !== undefined ? new Date(startAt.getTime() + durationMinutes * 60000) : undefined;
+  return result(startAt, endAt, false);
+}
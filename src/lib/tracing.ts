@@ -0,0 +1,65 @@
+import { randomBytes } from 'crypto';
+import { performance } from 'perf_hooks';
+import { createLogger } from './logger';
+import type { LogFields } from './logger';
+import { metrics } from './metrics';
+
+/**
+ * Span-style timing of the phases of a request: transcribing speech,
+ * reasoning with the model, calling tools and synthesizing the answer.
+ * Finished spans are logged at debug level, with the request ID of the log
+ * context, and observed in `rube_span_duration_seconds`.
+ */
+
+export type SpanName = 'transcribe' | 'reason' | 'tool' | 'tts';
+
+export type SpanStatus = 'ok' | 'error';
+
+export interface Span {
+  readonly name: SpanName;
+  readonly spanId: string;
+  /**
+   * Finish the span and return its duration in ms. Only the first call counts.
+   */
+  end(status?: SpanStatus, fields?: LogFields): number;
+}
+
+const log = createLogger('trace');
+const spanDuration = metrics.histogram(
+  'rube_span_duration_seconds',
+  'Duration of request phases (transcribe, reason, tool, tts)',
+  ['span', 'status']
+);
+
+export function startSpan(name: SpanName, fields: LogFields = {}): Span {
+  const started = performance.now();
+  const spanId = randomBytes(8).toString('hex');
+  let durationMs: number | undefined;
+
+  return {
+    name,
+    spanId,
+    end(status: SpanStatus = 'ok', extra: LogFields = {}): number {
+      if (durationMs !== undefined) return durationMs;
+      durationMs = performance.now() - started;
+      spanDuration.observe({ span: name, status }, durationMs / 1000);
+      log.debug('span', { span: name, spanId, status, durationMs: Math.round(durationMs), ...fields, ...extra });
+      return durationMs;
+    },
+  };
+}
+
+/**
+ * Time `fn` as a span; it ends with status `error` when `fn` throws
+ */
+export async function withSpan<T>(name: SpanName, fields: LogFields, fn: () => Promise<T>): Promise<T> {
+  const span = startSpan(name, fields);
+  try {
+    const result = await fn();
+    span.end('ok');
+    return result;
+  } catch (error) {
+    span.end('error', { error });
+    throw error;
+  }
+}
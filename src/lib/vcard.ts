@@ -0,0 +1,89 @@
+/**
+ * Reading contacts from vCard files (RFC 6350, and the 2.1/3.0 variants
+ * address books still export)
+ */
+
+export interface VCard {
+  /** Formatted name, or given and family name when there is no FN */
+  name: string;
+  nicknames: string[];
+  emails: Array<{ address: string; type?: string }>;
+}
+
+/** TYPE values that say nothing useful about an address */
+const IGNORED_TYPES = new Set(['internet', 'pref', 'x400']);
+
+function unescape(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/** Split on separators that are not backslash-escaped */
+function splitUnescaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += value[i];
+    }
+  }
+  parts.push(current);
+  return parts.map(unescape);
+}
+
+/**
+ * `TYPE=work`, `TYPE=INTERNET,WORK` and 2.1's bare `WORK` all give "work"
+ */
+function emailType(params: string[]): string | undefined {
+  const types = params.flatMap(param => {
+    const [key, value] = param.includes('=') ? param.split('=', 2) : ['TYPE', param];
+    return key.toUpperCase() === 'TYPE' ? value.replace(/"/g, '').split(',') : [];
+  });
+  return types.map(type => type.toLowerCase()).find(type => !IGNORED_TYPES.has(type));
+}
+
+/**
+ * Every card in the text; cards without a name or email address are skipped
+ */
+export function parseVCards(text: string): VCard[] {
+  // Unfold continuation lines, which start with a space or tab
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const cards: VCard[] = [];
+  let card: (VCard & { structuredName?: string }) | undefined;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [property, ...params] = line.slice(0, colon).split(';');
+    // Drop group prefixes such as "item1."
+    const name = property.replace(/^.*\./, '').toUpperCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      card = { name: '', nicknames: [], emails: [] };
+    } else if (!card) {
+      continue;
+    } else if (name === 'END') {
+      card.name ||= card.structuredName ?? '';
+      if (card.name && card.emails.length > 0) {
+        cards.push({ name: card.name, nicknames: card.nicknames, emails: card.emails });
+      }
+      card = undefined;
+    } else if (name === 'FN') {
+      card.name = unescape(value);
+    } else if (name === 'N') {
+      const [family = '', given = ''] = splitUnescaped(value, ';');
+      card.structuredName = `${given} ${family}`.trim();
+    } else if (name === 'NICKNAME') {
+      card.nicknames.push(...splitUnescaped(value, ',').map(nickname => nickname.trim()).filter(Boolean));
+    } else if (name === 'EMAIL' && value) {
+      card.emails.push({ address: unescape(value).replace(/^mailto:/i, ''), type: emailType(params) });
+    }
+  }
+  return cards;
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+
+/**
+ * Breaker state transitions on a fake clock
+ */
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2026-10-19T07:00:00Z'));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+/** Record `count` failed calls */
+function fail(breaker: CircuitBreaker, count: number): void {
+  for (let i = 0; i < count; i++) {
+    breaker.acquire();
+    breaker.recordFailure();
+  }
+}
+
+describe('CircuitBreaker', () => {
+  test('opens after the threshold of consecutive failures', () => {
+    const breaker = new CircuitBreaker('rube', { failureThreshold: 3, cooldownMs: 10000 });
+    fail(breaker, 2);
+    expect(breaker.state).toBe('closed');
+
+    fail(breaker, 1);
+    expect(breaker.state).toBe('open');
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  test('a success resets the count', () => {
+    const breaker = new CircuitBreaker('rube', { failureThreshold: 3 });
+    fail(breaker, 2);
+    breaker.acquire();
+    breaker.recordSuccess();
+    fail(breaker, 2);
+    expect(breaker.state).toBe('closed');
+  });
+
+  test('says when to try again', () => {
+    const breaker = new CircuitBreaker('rube', { failureThreshold: 1, cooldownMs: 10000 });
+    fail(breaker, 1);
+    jest.setSystemTime(new Date('2026-10-19T07:00:04Z'));
+
+    let error: unknown;
+    try {
+      breaker.acquire();
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ server: 'rube', retryInMs: 6000 });
+    expect((error as Error).message).toBe("MCP server 'rube' is unavailable after repeated failures; retry in 6s");
+  });
+
+  test('lets one trial call through after the cooldown', () => {
+    const breaker = new CircuitBreaker('rube', { failureThreshold: 1, cooldownMs: 10000 });
+    fail(breaker, 1);
+    jest.setSystemTime(new Date('2026-10-19T07:00:10Z'));
+    expect(breaker.state).toBe('half-open');
+
+    breaker.acquire();
+    // Others wait for the trial's outcome
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    breaker.acquire();
+  });
+
+  test('a failed trial opens the circuit for another cooldown', () => {
+    const breaker = new CircuitBreaker('rube', { failureThreshold: 5, cooldownMs: 10000 });
+    fail(breaker, 5);
+    jest.setSystemTime(new Date('2026-10-19T07:00:10Z'));
+
+    breaker.acquire();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    jest.setSystemTime(new Date('2026-10-19T07:00:19Z'));
+    expect(breaker.state).toBe('open');
+    jest.setSystemTime(new Date('2026-10-19T07:00:20Z'));
+    expect(breaker.state).toBe('half-open');
+  });
+});
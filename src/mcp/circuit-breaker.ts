@@ -0,0 +1,87 @@
+import { createLogger } from '../lib/logger';
+
+/**
+ * Circuit breaker for a single MCP server
+ * After `failureThreshold` consecutive transient failures the circuit opens and
+ * calls fail fast for `cooldownMs`. Then one trial call is let through
+ * (half-open): success closes the circuit, failure opens it again.
+ */
+
+const log = createLogger('circuit-breaker');
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial call (default: 30000ms) */
+  cooldownMs?: number;
+}
+
+/**
+ * Thrown instead of calling a server whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  server: string;
+  retryInMs: number;
+
+  constructor(server: string, retryInMs: number) {
+    super(`MCP server '${server}' is unavailable after repeated failures; retry in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+    this.server = server;
+    this.retryInMs = retryInMs;
+  }
+}
+
+export class CircuitBreaker {
+  readonly server: string;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(server: string, options: CircuitBreakerOptions = {}) {
+    this.server = server;
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+  }
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Reserve a call; throws CircuitOpenError when the call must not go out
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'closed') return;
+
+    if (state === 'open' || this.trialInFlight) {
+      const retryInMs = Math.max(0, this.cooldownMs - (Date.now() - (this.openedAt ?? 0)));
+      throw new CircuitOpenError(this.server, retryInMs);
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      if (this.openedAt === undefined || this.trialInFlight) {
+        log.warn('Circuit opened', { server: this.server, failures: this.failures });
+      }
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+export default CircuitBreaker;
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { ConnectionError, ConnectionManager, ConnectionStore } from './connections';
+import type { IntegrationConfig, StoredConnection } from './connections';
+
+/**
+ * The encrypted token store in a temporary directory, and the connection
+ * flows against a local token endpoint that answers each request with the
+ * next `replies` entry.
+ */
+
+interface Reply {
+  status?: number;
+  body: Record<string, unknown>;
+}
+
+let dir: string;
+let file: string;
+let server: http.Server;
+let github: IntegrationConfig;
+let replies: Reply[];
+let forms: Record<string, string>[];
+
+const connection: StoredConnection = {
+  accessToken: 'access-1',
+  tokenType: 'Bearer',
+  refreshToken: 'refresh-1',
+  scope: 'repo',
+  connectedAt: '2026-10-19T07:00:00.000Z',
+};
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connections-test-'));
+  file = path.join(dir, 'connections.json');
+  replies = [];
+  forms = [];
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      forms.push({ path: req.url ?? '', ...Object.fromEntries(new URLSearchParams(body)) });
+      const reply = replies.shift() ?? { body: {} };
+      res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' }).end(JSON.stringify(reply.body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  github = { authorizationUrl: `${base}/authorize`, tokenUrl: `${base}/token`, clientId: 'rube', scopes: ['repo'] };
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('ConnectionStore', () => {
+  test('round-trips tokens through a key file', () => {
+    new ConnectionStore(file, '').set('github', connection);
+
+    const raw = fs.readFileSync(file, 'utf-8');
+    expect(raw).not.toContain('access-1');
+    expect(JSON.parse(raw)).toMatchObject({ version: 1, keySource: 'keyfile' });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.statSync(`${file}.key`).mode & 0o777).toBe(0o600);
+    expect(new ConnectionStore(file, '').get('github')).toEqual(connection);
+  });
+
+  test('round-trips tokens with a passphrase', () => {
+    new ConnectionStore(file, 'correct horse').set('github', connection);
+
+    expect(fs.existsSync(`${file}.key`)).toBe(false);
+    expect(new ConnectionStore(file, 'correct horse').list()).toEqual({ github: connection });
+  });
+
+  test('deletes one connection and keeps the rest', () => {
+    const store = new ConnectionStore(file, '');
+    store.set('github', connection);
+    store.set('slack', { ...connection, accessToken: 'access-2' });
+
+    expect(store.delete('github')).toBe(true);
+    expect(store.delete('github')).toBe(false);
+    expect(Object.keys(new ConnectionStore(file, '').list())).toEqual(['slack']);
+  });
+
+  test('hands out copies', () => {
+    const store = new ConnectionStore(file, '');
+    store.set('github', connection);
+    store.get('github')!.accessToken = 'changed';
+    expect(store.get('github')!.accessToken).toBe('access-1');
+  });
+
+  const failures: { name: string; write: string; read: string | undefined; message: string }[] = [
+    { name: 'a wrong passphrase', write: 'correct horse', read: 'battery staple', message: 'Cannot decrypt FILE: wrong key or corrupted file' },
+    { name: 'no passphrase', write: 'correct horse', read: undefined, message: 'FILE is encrypted with a passphrase; set RUBE_CONNECTIONS_KEY' },
+  ];
+  for (const { name, write, read, message } of failures) {
+    test(`refuses ${name}`, () => {
+      new ConnectionStore(file, write).set('github', connection);
+      expect(() => new ConnectionStore(file, read ?? '').get('github')).toThrow(message.replace('FILE', file));
+    });
+  }
+
+  test('refuses a file whose key file is gone', () => {
+    new ConnectionStore(file, '').set('github', connection);
+    fs.rmSync(`${file}.key`);
+    expect(() => new ConnectionStore(file, '').list()).toThrow(ConnectionError);
+  });
+
+  test('refuses a tampered file', () => {
+    new ConnectionStore(file, '').set('github', connection);
+    const encrypted = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const data = Buffer.from(encrypted.data, 'base64');
+    data[0] ^= 1;
+    fs.writeFileSync(file, JSON.stringify({ ...encrypted, data: data.toString('base64') }));
+    expect(() => new ConnectionStore(file, '').list()).toThrow('wrong key or corrupted file');
+  });
+});
+
+describe('ConnectionManager', () => {
+  let store: ConnectionStore;
+  let manager: ConnectionManager;
+
+  beforeEach(() => {
+    store = new ConnectionStore(file, '');
+    manager = new ConnectionManager({ github, calendar: { ...github, match: ['create_event'] } }, store);
+  });
+
+  test('finds the integration of a tool', () => {
+    expect(manager.integrationOf('github_create_issue')).toBe('github');
+    expect(manager.integrationOf('list_github_repos')).toBe('github');
+    expect(manager.integrationOf('create_event')).toBe('calendar');
+    expect(manager.integrationOf('calendar_list')).toBeUndefined();
+    expect(manager.isToolAvailable('calendar_list')).toBe(true);
+    expect(manager.isToolAvailable('github_create_issue')).toBe(false);
+  });
+
+  test('connects with the code from the redirect, once per state', async () => {
+    const { authorizationUrl, state } = manager.beginAuthorization('github', 'http://127.0.0.1:8765/callback');
+    const challenge = new URL(authorizationUrl).searchParams.get('code_challenge');
+    replies = [{ body: { access_token: 'access-1', refresh_token: 'refresh-1', scope: 'repo' } }];
+
+    expect(await manager.completeAuthorization('github', state, 'code-1')).toMatchObject({ integration: 'github', status: 'connected', scopes: ['repo'] });
+    expect(forms[0]).toMatchObject({ path: '/token', code: 'code-1', redirect_uri: 'http://127.0.0.1:8765/callback' });
+    expect(forms[0].code_verifier).not.toBe(challenge);
+    expect(await manager.accessToken('github')).toBe('access-1');
+    expect(manager.isToolAvailable('github_create_issue')).toBe(true);
+
+    await expect(manager.completeAuthorization('github', state, 'code-1')).rejects.toThrow('Unknown or expired authorization state');
+  });
+
+  test('refuses a redirect off this machine', () => {
+    expect(() => manager.beginAuthorization('github', 'https://example.com/callback')).toThrow(ConnectionError);
+  });
+
+  test('refreshes a token about to expire, sharing one request', async () => {
+    store.set('github', { ...connection, expiresAt: new Date(Date.now() + 30 * 1000).toISOString() });
+    replies = [{ body: { access_token: 'access-2', expires_in: 3600 } }];
+
+    expect(await Promise.all([manager.accessToken('github'), manager.accessToken('github')])).toEqual(['access-2', 'access-2']);
+    expect(forms).toHaveLength(1);
+    expect(store.get('github')).toMatchObject({ accessToken: 'access-2', refreshToken: 'refresh-1', scope: 'repo', connectedAt: connection.connectedAt });
+  });
+
+  test('marks a revoked grant as expired', async () => {
+    store.set('github', { ...connection, expiresAt: new Date(Date.now() - 1000).toISOString() });
+    replies = [{ status: 400, body: { error: 'invalid_grant' } }];
+
+    await expect(manager.accessToken('github')).rejects.toThrow('Token request failed: invalid_grant');
+    expect(manager.status('github')).toMatchObject({ status: 'expired', error: 'Token request failed: invalid_grant' });
+    await expect(manager.accessToken('github')).rejects.toThrow('github needs to be connected again');
+  });
+
+  test('reports an expired token that cannot be refreshed', async () => {
+    store.set('github', { ...connection, refreshToken: undefined, expiresAt: new Date(Date.now() - 1000).toISOString() });
+    expect(manager.status('github').status).toBe('expired');
+    await expect(manager.accessToken('github')).rejects.toThrow('The github token expired');
+  });
+
+  test('revokes the refresh token on disconnect', async () => {
+    manager = new ConnectionManager({ github: { ...github, revocationUrl: github.tokenUrl.replace('/token', '/revoke') } }, store);
+    store.set('github', connection);
+
+    expect(await manager.disconnect('github')).toBe(true);
+    expect(forms).toEqual([{ path: '/revoke', token: 'refresh-1', token_type_hint: 'refresh_token', client_id: 'rube' }]);
+    expect(manager.status('github').status).toBe('disconnected');
+    expect(await manager.disconnect('github')).toBe(false);
+  });
+});
@@ -0,0 +1,453 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { matchesGlob } from '../lib/glob';
+import {
+  OAuthError,
+  buildAuthorizationUrl,
+  createPkcePair,
+  createState,
+  exchangeAuthorizationCode,
+  isLoopbackRedirect,
+  refreshAccessToken,
+  revokeToken,
+} from '../lib/oauth';
+import type { OAuthClientConfig, OAuthTokens } from '../lib/oauth';
+import { expandEnv } from './server-registry';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('connections');
+
+/**
+ * Connections to the external services (integrations) behind MCP tools
+ *
+ * Integrations are configured under `integrations` in mcp.config.json:
+ * {
+ *   "integrations": {
+ *     "github": {
+ *       "authorizationUrl": "https://github.com/login/oauth/authorize",
+ *       "tokenUrl": "https://github.com/login/oauth/access_token",
+ *       "clientId": "${GITHUB_CLIENT_ID}",
+ *       "scopes": ["repo"]
+ *     }
+ *   }
+ * }
+ * As with rate limits, an integration covers tools named `<name>_*`,
+ * `*_<name>` or `*_<name>_*` unless it lists `match` globs. Tools of an
+ * integration that is not connected are hidden; tools no integration covers
+ * are always available. The access token goes to the MCP server in the
+ * `_meta.authorization` of each call.
+ */
+
+export interface IntegrationConfig extends OAuthClientConfig {
+  /** Tool name globs that need this connection */
+  match?: string[];
+  /** RFC 7009 endpoint, called on disconnect when set */
+  revocationUrl?: string;
+}
+
+export interface StoredConnection extends OAuthTokens {
+  connectedAt: string;
+  refreshedAt?: string;
+  /** Set when refreshing failed for good, e.g. the grant was revoked */
+  error?: string;
+}
+
+/**
+ * What /agent/connections reports; never includes tokens
+ */
+export interface ConnectionStatus {
+  integration: string;
+  /**
+   * `connected` (an expired access token is refreshed on use), `expired`
+   * when it can no longer be refreshed, or `disconnected`
+   */
+  status: 'connected' | 'expired' | 'disconnected';
+  scopes?: string[];
+  connectedAt?: string;
+  refreshedAt?: string;
+  expiresAt?: string;
+  error?: string;
+}
+
+export interface PendingAuthorization {
+  integration: string;
+  authorizationUrl: string;
+  state: string;
+  expiresAt: string;
+}
+
+/**
+ * A connection is missing, expired, or an authorization went wrong
+ */
+export class ConnectionError extends Error {
+  integration?: string;
+
+  constructor(message: string, integration?: string) {
+    super(message);
+    this.name = 'ConnectionError';
+    this.integration = integration;
+  }
+}
+
+interface EncryptedFile {
+  version: 1;
+  /** `passphrase` keys are derived from RUBE_CONNECTIONS_KEY, `keyfile` keys read from FILE.key */
+  keySource: 'passphrase' | 'keyfile';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Refresh access tokens this long before they expire */
+const REFRESH_MARGIN_MS = 60 * 1000;
+/** An authorization must be completed within this time */
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+export function defaultConnectionsPath(): string {
+  return process.env.RUBE_CONNECTIONS_FILE || path.join(os.homedir(), '.rube', 'connections.json');
+}
+
+/**
+ * Read the `integrations` section of an MCP config file, if any
+ */
+export function loadIntegrationConfig(filePath: string): Record<string, IntegrationConfig> | undefined {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { integrations?: Record<string, IntegrationConfig> };
+  if (!raw.integrations) return undefined;
+
+  const integrations: Record<string, IntegrationConfig> = {};
+  for (const [name, config] of Object.entries(raw.integrations)) {
+    for (const key of ['authorizationUrl', 'tokenUrl', 'clientId'] as const) {
+      if (typeof config[key] !== 'string' || !config[key]) {
+        throw new Error(`Integration '${name}' needs "${key}"`);
+      }
+    }
+    integrations[name] = expandEnv(config);
+  }
+  return integrations;
+}
+
+/**
+ * Connection tokens in one AES-256-GCM encrypted file. The key is derived
+ * from a passphrase when one is given, otherwise it is a random key kept
+ * next to the file (readable by the owner only).
+ */
+export class ConnectionStore {
+  readonly filePath: string;
+  private passphrase?: string;
+  private cache?: { mtimeMs: number; connections: Record<string, StoredConnection> };
+
+  constructor(filePath: string = defaultConnectionsPath(), passphrase: string | undefined = process.env.RUBE_CONNECTIONS_KEY) {
+    this.filePath = filePath;
+    this.passphrase = passphrase || undefined;
+  }
+
+  get(integration: string): StoredConnection | undefined {
+    const connection = this.load()[integration];
+    return connection && { ...connection };
+  }
+
+  list(): Record<string, StoredConnection> {
+    return this.load();
+  }
+
+  set(integration: string, connection: StoredConnection): void {
+    this.write({ ...this.load(), [integration]: connection });
+  }
+
+  delete(integration: string): boolean {
+    const connections = this.load();
+    if (!(integration in connections)) return false;
+    delete connections[integration];
+    this.write(connections);
+    return true;
+  }
+
+  private get keyPath(): string {
+    return `${this.filePath}.key`;
+  }
+
+  private key(keySource: EncryptedFile['keySource'], salt?: Buffer, create: boolean = false): Buffer {
+    if (keySource === 'passphrase') {
+      if (!this.passphrase) {
+        throw new ConnectionError(`${this.filePath} is encrypted with a passphrase; set RUBE_CONNECTIONS_KEY`);
+      }
+      return scryptSync(this.passphrase, salt!, 32);
+    }
+
+    try {
+      return Buffer.from(fs.readFileSync(this.keyPath, 'utf-8').trim(), 'hex');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    if (!create) {
+      throw new ConnectionError(`Key file ${this.keyPath} is missing; delete ${this.filePath} and connect again`);
+    }
+    const key = randomBytes(32);
+    fs.mkdirSync(path.dirname(this.keyPath), { recursive: true });
+    fs.writeFileSync(this.keyPath, key.toString('hex'), { encoding: 'utf-8', mode: 0o600, flag: 'wx' });
+    return key;
+  }
+
+  private load(): Record<string, StoredConnection> {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+
+    if (this.cache?.mtimeMs !== stat.mtimeMs) {
+      const file = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as EncryptedFile;
+      let plaintext: string;
+      try {
+        const key = this.key(file.keySource, file.salt ? Buffer.from(file.salt, 'base64') : undefined);
+        const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+        plaintext = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf-8');
+      } catch (error) {
+        if (error instanceof ConnectionError) throw error;
+        throw new ConnectionError(`Cannot decrypt ${this.filePath}: wrong key or corrupted file`);
+      }
+      this.cache = { mtimeMs: stat.mtimeMs, connections: JSON.parse(plaintext) as Record<string, StoredConnection> };
+    }
+    return Object.fromEntries(
+      Object.entries(this.cache.connections).map(([name, connection]) => [name, { ...connection }])
+    );
+  }
+
+  private write(connections: Record<string, StoredConnection>): void {
+    const keySource = this.passphrase ? 'passphrase' : 'keyfile';
+    const salt = keySource === 'passphrase' ? randomBytes(16) : undefined;
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key(keySource, salt, true), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(connections), 'utf-8'), cipher.final()]);
+    const file: EncryptedFile = {
+      version: 1,
+      keySource,
+      salt: salt?.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 });
+    fs.renameSync(temp, this.filePath);
+    this.cache = undefined;
+  }
+}
+
+/**
+ * Configured integrations, their stored tokens and the OAuth flows that
+ * connect them
+ */
+export class ConnectionManager {
+  private integrations: Record<string, IntegrationConfig>;
+  private store: ConnectionStore;
+  private pending = new Map<string, PendingAuthorization & { verifier: string; redirectUri: string }>();
+  private refreshing = new Map<string, Promise<StoredConnection>>();
+
+  constructor(integrations: Record<string, IntegrationConfig> = {}, store: ConnectionStore = new ConnectionStore()) {
+    this.integrations = integrations;
+    this.store = store;
+  }
+
+  /** Names of the configured integrations */
+  names(): string[] {
+    return Object.keys(this.integrations);
+  }
+
+  /**
+   * The integration a tool belongs to, if any is configured for it
+   */
+  integrationOf(toolName: string): string | undefined {
+    return Object.entries(this.integrations).find(([name, config]) => {
+      const globs = config.match ?? [`${name}_*`, `*_${name}`, `*_${name}_*`];
+      return globs.some(glob => matchesGlob(toolName, glob, true));
+    })?.[0];
+  }
+
+  /**
+   * Whether a tool can be called: it needs no connection, or its integration is connected
+   */
+  isToolAvailable(toolName: string): boolean {
+    const integration = this.integrationOf(toolName);
+    if (!integration) return true;
+    try {
+      return this.status(integration).status === 'connected';
+    } catch (error) {
+      // An unreadable store hides the tools; /agent/connections reports why
+      if (error instanceof ConnectionError) return false;
+      throw error;
+    }
+  }
+
+  status(integration: string): ConnectionStatus {
+    this.requireIntegration(integration);
+    const connection = this.store.get(integration);
+    if (!connection) return { integration, status: 'disconnected' };
+
+    const expired = connection.error !== undefined ||
+      (!connection.refreshToken && connection.expiresAt !== undefined && Date.parse(connection.expiresAt) <= Date.now());
+    return {
+      integration,
+      status: expired ? 'expired' : 'connected',
+      scopes: connection.scope?.split(/[\s,]+/).filter(Boolean),
+      connectedAt: connection.connectedAt,
+      refreshedAt: connection.refreshedAt,
+      expiresAt: connection.expiresAt,
+      error: connection.error,
+    };
+  }
+
+  list(): ConnectionStatus[] {
+    return this.names().map(name => this.status(name));
+  }
+
+  /**
+   * Start an authorization: the user opens the returned URL, and the provider
+   * redirects to `redirectUri` with the code and state
+   */
+  beginAuthorization(integration: string, redirectUri: string): PendingAuthorization {
+    const config = this.requireIntegration(integration);
+    if (!isLoopbackRedirect(redirectUri)) {
+      throw new ConnectionError('redirectUri must be an http://127.0.0.1 or http://localhost address', integration);
+    }
+    this.expirePending();
+
+    const { verifier, challenge } = createPkcePair();
+    const state = createState();
+    const authorization: PendingAuthorization = {
+      integration,
+      authorizationUrl: buildAuthorizationUrl(config, { redirectUri, state, challenge }),
+      state,
+      expiresAt: new Date(Date.now() + AUTHORIZATION_TTL_MS).toISOString(),
+    };
+    this.pending.set(state, { ...authorization, verifier, redirectUri });
+    return authorization;
+  }
+
+  /**
+   * Finish an authorization with the code from the redirect
+   */
+  async completeAuthorization(integration: string, state: string, code: string): Promise<ConnectionStatus> {
+    this.expirePending();
+    const pending = this.pending.get(state);
+    if (!pending || pending.integration !== integration) {
+      throw new ConnectionError('Unknown or expired authorization state; start again', integration);
+    }
+    // A state is good for one attempt, so a leaked redirect cannot be replayed
+    this.pending.delete(state);
+
+    const tokens = await exchangeAuthorizationCode(this.integrations[pending.integration], {
+      code,
+      redirectUri: pending.redirectUri,
+      verifier: pending.verifier,
+    });
+    this.store.set(pending.integration, { ...tokens, connectedAt: new Date().toISOString() });
+    return this.status(pending.integration);
+  }
+
+  /**
+   * A usable access token, refreshed first when it is about to expire
+   */
+  async accessToken(integration: string): Promise<string> {
+    this.requireIntegration(integration);
+    let connection = this.store.get(integration);
+    if (!connection) {
+      throw new ConnectionError(`${integration} is not connected; run: voice-cli connect ${integration}`, integration);
+    }
+    if (connection.error) {
+      throw new ConnectionError(`${integration} needs to be connected again (${connection.error})`, integration);
+    }
+
+    const expiresAt = connection.expiresAt ? Date.parse(connection.expiresAt) : Infinity;
+    if (expiresAt - REFRESH_MARGIN_MS <= Date.now()) {
+      if (!connection.refreshToken) {
+        if (expiresAt <= Date.now()) {
+          throw new ConnectionError(`The ${integration} token expired; run: voice-cli connect ${integration}`, integration);
+        }
+      } else {
+        connection = await this.refresh(integration);
+      }
+    }
+    return connection.accessToken;
+  }
+
+  /**
+   * Refresh the access token now. Concurrent callers share one request.
+   */
+  refresh(integration: string): Promise<StoredConnection> {
+    const config = this.requireIntegration(integration);
+    let refreshing = this.refreshing.get(integration);
+    if (refreshing) return refreshing;
+
+    refreshing = (async () => {
+      const connection = this.store.get(integration);
+      if (!connection?.refreshToken) {
+        throw new ConnectionError(`${integration} has no refresh token; run: voice-cli connect ${integration}`, integration);
+      }
+      try {
+        const tokens = await refreshAccessToken(config, connection.refreshToken);
+        const refreshed: StoredConnection = {
+          ...tokens,
+          scope: tokens.scope ?? connection.scope,
+          connectedAt: connection.connectedAt,
+          refreshedAt: new Date().toISOString(),
+        };
+        this.store.set(integration, refreshed);
+        return refreshed;
+      } catch (error) {
+        // A refused grant will not start working again; network errors might
+        if (error instanceof OAuthError && error.code === 'invalid_grant') {
+          this.store.set(integration, { ...connection, error: error.message });
+        }
+        throw error;
+      }
+    })().finally(() => this.refreshing.delete(integration));
+    this.refreshing.set(integration, refreshing);
+    return refreshing;
+  }
+
+  /**
+   * Forget an integration's tokens, revoking them first when the provider supports it
+   */
+  async disconnect(integration: string): Promise<boolean> {
+    const config = this.requireIntegration(integration);
+    const connection = this.store.get(integration);
+    if (!connection) return false;
+
+    if (config.revocationUrl) {
+      try {
+        await revokeToken({ ...config, revocationUrl: config.revocationUrl },
+          connection.refreshToken ?? connection.accessToken,
+          connection.refreshToken ? 'refresh_token' : 'access_token');
+      } catch (error) {
+        log.warn('Could not revoke the token', { integration, error });
+      }
+    }
+    return this.store.delete(integration);
+  }
+
+  private requireIntegration(integration: string): IntegrationConfig {
+    const config = this.integrations[integration];
+    if (!config) {
+      throw new ConnectionError(`Unknown integration '${integration}'`, integration);
+    }
+    return config;
+  }
+
+  private expirePending(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (Date.parse(pending.expiresAt) <= now) this.pending.delete(state);
+    }
+  }
+}
+
+export default ConnectionManager;
@@ -0,0 +1,250 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { StreamableHttpTransport } from './http-transport';
+import { MCPError, MCPTimeoutError, SessionExpiredError } from './transport';
+import type { JsonRpcMessage, JsonRpcNotification, JsonRpcRequest } from './transport';
+
+/**
+ * Runs the transport against a local Streamable HTTP MCP server. The stub
+ * hands out session ids on `initialize`, answers 404 for sessions it has
+ * forgotten and lets each test decide how `tools/call` is answered.
+ */
+
+interface Received {
+  message: JsonRpcMessage;
+  sessionId?: string;
+}
+
+type CallHandler = (request: JsonRpcRequest, res: http.ServerResponse) => void;
+
+class StubServer {
+  readonly received: Received[] = [];
+  readonly deleted: string[] = [];
+  sessions = new Set<string>();
+  refuseInitialize = false;
+  onCall: CallHandler = (request, res) => reply(res, request, { content: [{ type: 'text', text: 'ok' }] });
+  private server = http.createServer((req, res) => this.handle(req, res));
+  private sessionCount = 0;
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/mcp`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  /** Methods received, in order */
+  methods(): string[] {
+    return this.received.map(({ message }) => ('method' in message ? message.method : 'response'));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    if (req.method === 'GET') {
+      res.writeHead(405).end();
+      return;
+    }
+    if (req.method === 'DELETE') {
+      this.deleted.push(sessionId ?? '');
+      this.sessions.delete(sessionId ?? '');
+      res.writeHead(200).end();
+      return;
+    }
+
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const message = JSON.parse(body) as JsonRpcMessage;
+      this.received.push({ message, sessionId });
+
+      if ('method' in message && message.method === 'initialize') {
+        if (this.refuseInitialize) {
+          res.writeHead(500).end();
+          return;
+        }
+        const id = `session-${++this.sessionCount}`;
+        this.sessions.add(id);
+        res.setHeader('mcp-session-id', id);
+        reply(res, message as JsonRpcRequest, {
+          protocolVersion: '2025-03-26',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'stub', version: '1.0.0' },
+        });
+        return;
+      }
+      if (!sessionId || !this.sessions.has(sessionId)) {
+        res.writeHead(404).end();
+        return;
+      }
+      if (!('id' in message) || !('method' in message)) {
+        res.writeHead(202).end();
+        return;
+      }
+      if (message.method === 'tools/call') {
+        this.onCall(message, res);
+        return;
+      }
+      reply(res, message, {});
+    });
+  }
+}
+
+function reply(res: http.ServerResponse, request: JsonRpcRequest, result: unknown): void {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result }));
+}
+
+let stub: StubServer;
+let url: string;
+let transport: StreamableHttpTransport;
+
+async function connect(options: { timeout?: number } = {}): Promise<StreamableHttpTransport> {
+  transport = new StreamableHttpTransport(url, options);
+  await transport.request('initialize', { protocolVersion: '2025-03-26', capabilities: {} });
+  await transport.notify('notifications/initialized');
+  return transport;
+}
+
+beforeEach(async () => {
+  stub = new StubServer();
+  url = await stub.start();
+});
+
+afterEach(async () => {
+  await transport?.close();
+  await stub.stop();
+});
+
+describe('StreamableHttpTransport', () => {
+  test('keeps the session id from initialize on later messages', async () => {
+    await connect();
+    await transport.request('tools/call', { name: 'echo', arguments: {} });
+
+    expect(stub.methods()).toEqual(['initialize', 'notifications/initialized', 'tools/call']);
+    expect(stub.received.map(({ sessionId }) => sessionId)).toEqual([undefined, 'session-1', 'session-1']);
+  });
+
+  test('reads the response and notifications from an SSE body', async () => {
+    const notifications: JsonRpcNotification[] = [];
+    stub.onCall = (request, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`data: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } })}\n\n`);
+      res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: request.id, result: { content: [] } })}\n\n`);
+    };
+    await connect();
+    transport.onNotification(notification => notifications.push(notification));
+
+    expect(await transport.request('tools/call', { name: 'slow' })).toEqual({ content: [] });
+    expect(notifications).toEqual([{ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } }]);
+  });
+
+  test('rejects with the JSON-RPC error of the server', async () => {
+    stub.onCall = (request, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, error: { code: -32602, message: 'Unknown tool: nope' } }));
+    };
+    await connect();
+
+    const error = await transport.request('tools/call', { name: 'nope' }).catch(error => error);
+    expect(error).toBeInstanceOf(MCPError);
+    expect(error).toMatchObject({ code: -32602, message: 'Unknown tool: nope' });
+  });
+
+  test('reports HTTP errors with their status', async () => {
+    stub.onCall = (_request, res) => {
+      res.writeHead(429, { 'Retry-After': '3' }).end('slow down');
+    };
+    await connect();
+
+    const error = await transport.request('tools/call', { name: 'echo' }).catch(error => error);
+    expect(error).toMatchObject({ code: -32000, data: { status: 429, body: 'slow down', retryAfter: '3' } });
+  });
+
+  test('starts a new session and retries when the server forgets ours', async () => {
+    await connect();
+    stub.sessions.clear();
+
+    expect(await transport.request('tools/call', { name: 'echo' })).toEqual({ content: [{ type: 'text', text: 'ok' }] });
+    expect(stub.methods()).toEqual([
+      'initialize', 'notifications/initialized',
+      'tools/call', 'initialize', 'notifications/initialized', 'tools/call',
+    ]);
+    expect(stub.received.at(-1)!.sessionId).toBe('session-2');
+    // The replayed handshake carries the original params
+    expect((stub.received[3].message as JsonRpcRequest).params).toEqual({ protocolVersion: '2025-03-26', capabilities: {} });
+  });
+
+  test('concurrent requests share one renewal', async () => {
+    await connect();
+    stub.sessions.clear();
+
+    await Promise.all([
+      transport.request('tools/call', { name: 'a' }),
+      transport.request('tools/call', { name: 'b' }),
+    ]);
+    expect(stub.methods().filter(method => method === 'initialize')).toHaveLength(2);
+  });
+
+  test('closes with the error when a new session is refused', async () => {
+    const closed: (Error | undefined)[] = [];
+    await connect();
+    transport.onClose(error => closed.push(error));
+    stub.sessions.clear();
+    stub.refuseInitialize = true;
+
+    await expect(transport.request('tools/call', { name: 'echo' })).rejects.toThrow(MCPError);
+    expect(closed).toHaveLength(1);
+    expect(closed[0]).toBeInstanceOf(MCPError);
+    await expect(transport.request('ping')).rejects.toThrow('Transport is closed');
+  });
+
+  test('closes with SessionExpiredError when the new session is forgotten too', async () => {
+    const closed: (Error | undefined)[] = [];
+    stub.onCall = (_request, res) => {
+      stub.sessions.clear();
+      res.writeHead(404).end();
+    };
+    await connect();
+    transport.onClose(error => closed.push(error));
+
+    await expect(transport.request('tools/call', { name: 'echo' })).rejects.toThrow(SessionExpiredError);
+    expect(closed[0]).toBeInstanceOf(SessionExpiredError);
+  });
+
+  test('times out requests the server never answers', async () => {
+    stub.onCall = () => undefined;
+    await connect({ timeout: 200 });
+
+    await expect(transport.request('tools/call', { name: 'hang' })).rejects.toThrow(MCPTimeoutError);
+  });
+
+  test('tells the server when an aborted request is cancelled', async () => {
+    stub.onCall = () => undefined;
+    await connect();
+    const controller = new AbortController();
+    const pending = transport.request('tools/call', { name: 'hang' }, { signal: controller.signal });
+    await Bun.sleep(50);
+    controller.abort();
+
+    await expect(pending).rejects.toThrow();
+    await Bun.sleep(50);
+    const cancelled = stub.received.at(-1)!.message as JsonRpcNotification;
+    expect(cancelled.method).toBe('notifications/cancelled');
+    expect(cancelled.params).toEqual({ requestId: 2, reason: 'Client deadline exceeded' });
+  });
+
+  test('ends the session on close', async () => {
+    const closed: (Error | undefined)[] = [];
+    await connect();
+    transport.onClose(error => closed.push(error));
+
+    await transport.close();
+    expect(stub.deleted).toEqual(['session-1']);
+    expect(closed).toEqual([undefined]);
+  });
+});
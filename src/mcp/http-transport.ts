@@ -0,0 +1,395 @@
+import axios from 'axios';
+import type { AxiosInstance, AxiosResponse } from 'axios';
+import type { Readable } from 'stream';
+import { SseParser } from '../lib/sse';
+import {
+  MCPError,
+  MCPTimeoutError,
+  SessionExpiredError,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+} from './transport';
+import type {
+  CloseHandler,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcNotification,
+  JsonRpcResponse,
+  MCPTransport,
+  NotificationHandler,
+  RequestOptions,
+} from './transport';
+
+export interface HttpTransportOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+
+/** Consecutive requests that reach no server before the transport gives up */
+const MAX_CONNECTION_FAILURES = 3;
+
+/** Pause before reopening a notification stream the server ended */
+const LISTEN_REOPEN_DELAY_MS = 1000;
+
+
+/**
+ * MCP Streamable HTTP transport
+ * Every message is POSTed to the server endpoint; the server answers with either
+ * a single JSON body or an SSE stream carrying the response (and any notifications).
+ * A long-lived GET stream receives server-initiated notifications such as
+ * `notifications/tools/list_changed`.
+ *
+ * When the server expires the session, the `initialize` handshake is repeated
+ * and the request retried once. If that fails, the notification stream breaks
+ * or the server stays unreachable, the transport closes with the error so the
+ * owner can reconnect.
+ */
+export class StreamableHttpTransport implements MCPTransport {
+  private httpClient: AxiosInstance;
+  private endpoint: string;
+  private sessionId?: string;
+  private nextId = 1;
+  private handlers: NotificationHandler[] = [];
+  private closeHandlers: CloseHandler[] = [];
+  private listenStream?: Readable;
+  private listening = false;
+  private closed = false;
+  /** Params of the `initialize` request, replayed to start a new session */
+  private initializeParams?: Record<string, unknown>;
+  private renewing?: Promise<void>;
+  private connectionFailures = 0;
+  private reopenTimer?: NodeJS.Timeout;
+
+  constructor(endpoint: string, options: HttpTransportOptions = {}) {
+    this.endpoint = endpoint;
+    this.httpClient = axios.create({
+      timeout: options.timeout ?? 30000,
+      headers: options.headers,
+      validateStatus: () => true,
+    });
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    const id = this.nextId++;
+    if (method === 'initialize') {
+      this.initializeParams = params;
+    }
+    let response: AxiosResponse<string>;
+    try {
+      response = await this.send({ jsonrpc: '2.0', id, method, params }, options.signal);
+    } catch (error) {
+      if (options.signal?.aborted && !this.closed) {
+        // Let the server stop working on it
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Client deadline exceeded' }).catch(() => undefined);
+      }
+      throw error;
+    }
+    const message = this.findResponse(response, id);
+
+    if (!message) {
+      throw new MCPError(`No response received for '${method}'`);
+    }
+    if (message.error) {
+      throw new MCPError(message.error.message, message.error.code, message.error.data);
+    }
+    return message.result;
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const response = await this.send({ jsonrpc: '2.0', method, params });
+    // Notifications are acknowledged with 202; any body is still scanned for server messages
+    this.findResponse(response, null);
+  }
+
+  onNotification(handler: NotificationHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onClose(handler: CloseHandler): void {
+    this.closeHandlers.push(handler);
+  }
+
+  /**
+   * Open the server-to-client SSE stream.
+   * Servers that do not offer one answer 405, which is not an error.
+   */
+  async listen(): Promise<void> {
+    if (this.listenStream || this.closed) return;
+    this.listening = true;
+
+    const response = await this.httpClient.get<Readable>(this.endpoint, {
+      headers: this.buildHeaders({ Accept: 'text/event-stream' }),
+      responseType: 'stream',
+      timeout: 0,
+    });
+
+    if (response.status !== 200) {
+      response.data.destroy?.();
+      if (response.status === 404 && this.sessionId && this.initializeParams) {
+        this.sessionId = undefined;
+        // Failing to renew closes the transport
+        this.renewSession().catch(() => undefined);
+      }
+      return;
+    }
+
+    const stream = response.data;
+    const parser = new SseParser(data => this.dispatch(data));
+    this.listenStream = stream;
+
+    stream.setEncoding('utf-8');
+    stream.on('data', (chunk: string) => parser.push(chunk));
+    stream.on('end', () => {
+      parser.end();
+      if (this.listenStream !== stream) return;
+      this.listenStream = undefined;
+      // Servers may end the stream at any time; the client is expected to reopen it
+      this.reopenTimer = setTimeout(() => {
+        this.reopenTimer = undefined;
+        this.listen().catch(error => this.fail(error));
+      }, LISTEN_REOPEN_DELAY_MS);
+      this.reopenTimer.unref();
+    });
+    stream.on('error', error => {
+      if (this.listenStream !== stream) return;
+      this.listenStream = undefined;
+      this.fail(error);
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.reopenTimer);
+    this.listenStream?.destroy();
+    this.listenStream = undefined;
+
+    if (this.sessionId) {
+      // Best effort: tell the server the session is over
+      await this.httpClient
+        .delete(this.endpoint, { headers: this.buildHeaders({}) })
+        .catch(() => undefined);
+      this.sessionId = undefined;
+    }
+
+    for (const handler of this.closeHandlers) {
+      handler();
+    }
+  }
+
+  /**
+   * Close without a goodbye and tell the owner why
+   */
+  private fail(error: Error): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.reopenTimer);
+    this.listenStream?.destroy();
+    this.listenStream = undefined;
+    this.sessionId = undefined;
+
+    for (const handler of this.closeHandlers) {
+      handler(error);
+    }
+  }
+
+  /**
+   * POST a message, starting a new session and retrying once when the
+   * server has expired ours
+   */
+  private async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<AxiosResponse<string>> {
+    const session = this.sessionId;
+    try {
+      return await this.post(message, signal);
+    } catch (error) {
+      if (!(error instanceof SessionExpiredError) || !this.initializeParams || ('method' in message && message.method === 'initialize')) {
+        throw error;
+      }
+    }
+
+    // A concurrent request may have started the new session already
+    if (this.renewing || !this.sessionId || this.sessionId === session) {
+      await this.renewSession();
+    }
+    try {
+      return await this.post(message, signal);
+    } catch (error) {
+      if (error instanceof SessionExpiredError) {
+        this.fail(error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Repeat the initialize handshake; concurrent callers share one attempt
+   */
+  private renewSession(): Promise<void> {
+    this.renewing ??= (async () => {
+      try {
+        const id = this.nextId++;
+        const response = await this.post({ jsonrpc: '2.0', id, method: 'initialize', params: this.initializeParams });
+        const reply = this.findResponse(response, id);
+        if (!reply || reply.error) {
+          throw new MCPError(`Could not start a new MCP session: ${reply?.error?.message ?? 'no response'}`);
+        }
+        await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+        if (this.listening) {
+          const stale = this.listenStream;
+          this.listenStream = undefined;
+          stale?.destroy();
+          this.listen().catch(error => this.fail(error));
+        }
+      } catch (error) {
+        this.fail(error instanceof Error ? error : new MCPError(String(error)));
+        throw error;
+      } finally {
+        this.renewing = undefined;
+      }
+    })();
+    return this.renewing;
+  }
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...extra };
+    if (this.sessionId) {
+      headers[SESSION_HEADER] = this.sessionId;
+    }
+    return headers;
+  }
+
+  private async post(message: JsonRpcMessage, signal?: AbortSignal): Promise<AxiosResponse<string>> {
+    if (this.closed) {
+      throw new MCPError('Transport is closed');
+    }
+
+    const session = this.sessionId;
+    let response: AxiosResponse<string>;
+    try {
+      response = await this.httpClient.post<string>(this.endpoint, message, {
+        headers: this.buildHeaders({
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        }),
+        responseType: 'text',
+        transformResponse: data => data,
+        signal,
+      });
+    } catch (error) {
+      // Our own cancellations say nothing about the server
+      if (signal?.aborted) throw error;
+      const failure = axios.isAxiosError(error) && error.code === 'ECONNABORTED'
+        ? new MCPTimeoutError('method' in message ? message.method : 'response')
+        : error;
+      if (++this.connectionFailures >= MAX_CONNECTION_FAILURES) {
+        this.fail(failure instanceof Error ? failure : new MCPError(String(failure)));
+      }
+      throw failure;
+    }
+    this.connectionFailures = 0;
+
+    const sessionId = response.headers[SESSION_HEADER];
+    if (typeof sessionId === 'string' && sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 404 && session) {
+      // Leave a session that was renewed meanwhile alone
+      if (this.sessionId === session) {
+        this.sessionId = undefined;
+      }
+      throw new SessionExpiredError();
+    }
+    if (response.status >= 400) {
+      throw new MCPError(
+        `MCP server responded with HTTP ${response.status}`,
+        -32000,
+        { status: response.status, body: response.data, retryAfter: response.headers['retry-after'] }
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Parse a POST response body (JSON or SSE), dispatching notifications and
+   * returning the response matching `id`
+   */
+  private findResponse(
+    response: AxiosResponse<string>,
+    id: JsonRpcId | null
+  ): JsonRpcResponse | undefined {
+    const body = response.data;
+    if (!body) return undefined;
+
+    const contentType = String(response.headers['content-type'] ?? '');
+    const payloads: string[] = [];
+
+    if (contentType.includes('text/event-stream')) {
+      const parser = new SseParser(data => payloads.push(data));
+      parser.push(body);
+      parser.end();
+    } else {
+      payloads.push(body);
+    }
+
+    let match: JsonRpcResponse | undefined;
+    for (const payload of payloads) {
+      for (const message of this.parseMessages(payload)) {
+        if (isJsonRpcResponse(message)) {
+          if (id !== null && message.id === id) {
+            match = message;
+          }
+        } else {
+          this.handleServerMessage(message);
+        }
+      }
+    }
+    return match;
+  }
+
+  private dispatch(data: string): void {
+    for (const message of this.parseMessages(data)) {
+      if (!isJsonRpcResponse(message)) {
+        this.handleServerMessage(message);
+      }
+    }
+  }
+
+  private handleServerMessage(message: JsonRpcMessage): void {
+    if (isJsonRpcNotification(message)) {
+      for (const handler of this.handlers) {
+        handler(message as JsonRpcNotification);
+      }
+    } else if (isJsonRpcRequest(message)) {
+      // The only server-to-client request we support is ping
+      const reply: JsonRpcResponse = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : {
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: -32601, message: `Method not found: ${message.method}` },
+          };
+      this.post(reply).catch(() => undefined);
+    }
+  }
+
+  private parseMessages(payload: string): JsonRpcMessage[] {
+    try {
+      const parsed = JSON.parse(payload) as JsonRpcMessage | JsonRpcMessage[];
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return [];
+    }
+  }
+}
+
+export default StreamableHttpTransport;
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { MCPClient } from './mcp-client';
+import type { JsonRpcMessage, JsonRpcRequest } from './transport';
+
+/**
+ * Drives MCPClient retries against a local MCP server over HTTP. The stub
+ * serves one `send_email` tool and answers each `tools/call` with the next
+ * entry of `answers`: a result text, an HTTP status, or 'hang' to never reply.
+ */
+
+type Answer = string | number | 'hang';
+
+let server: http.Server;
+let url: string;
+let dir: string;
+let client: MCPClient;
+let answers: Answer[];
+let calls: JsonRpcRequest[];
+
+const sendEmail = {
+  name: 'send_email',
+  description: 'Send an email',
+  inputSchema: { type: 'object', properties: { to: { type: 'string' } }, required: ['to'] },
+};
+
+function handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+  if (req.method !== 'POST') {
+    res.writeHead(req.method === 'GET' ? 405 : 200).end();
+    return;
+  }
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const message = JSON.parse(body) as JsonRpcMessage;
+    if (!('id' in message) || !('method' in message)) {
+      res.writeHead(202).end();
+      return;
+    }
+    const respond = (result: unknown): void => {
+      res.writeHead(200, { 'Content-Type': 'application/json', 'mcp-session-id': 'session-1' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result }));
+    };
+
+    if (message.method === 'initialize') {
+      respond({ protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'stub', version: '1.0.0' } });
+    } else if (message.method === 'tools/list') {
+      respond({ tools: [sendEmail] });
+    } else if (message.method === 'tools/call') {
+      calls.push(message);
+      const answer = answers.shift() ?? 'sent';
+      if (answer === 'hang') return;
+      if (typeof answer === 'number') {
+        res.writeHead(answer).end();
+        return;
+      }
+      respond({ content: [{ type: 'text', text: answer }] });
+    } else {
+      respond({});
+    }
+  });
+}
+
+/** The idempotency key of each `tools/call` the server received */
+const keys = (): unknown[] => calls.map(call => (call.params?._meta as { idempotencyKey?: string } | undefined)?.idempotencyKey);
+
+beforeEach(async () => {
+  answers = [];
+  calls = [];
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mcp-client-test-'));
+  server = http.createServer(handle);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+
+  client = new MCPClient(url, {
+    timeout: 300,
+    retry: { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 50 },
+    connectionsPath: path.join(dir, 'connections.json'),
+  });
+  await client.connect();
+});
+
+afterEach(async () => {
+  await client.disconnect();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('MCPClient.executeTool', () => {
+  test('retries a timed-out call with the same idempotency key', async () => {
+    answers = ['hang', 'sent'];
+    const result = await client.executeTool('send_email', { to: 'ada@example.com' });
+
+    expect(result).toEqual({ success: true, result: 'sent', attempts: 2 });
+    expect(calls).toHaveLength(2);
+    expect(keys()[0]).toBeString();
+    expect(keys()[1]).toBe(keys()[0]);
+  });
+
+  test('gives separate calls separate keys', async () => {
+    await client.executeTool('send_email', { to: 'ada@example.com' });
+    await client.executeTool('send_email', { to: 'ada@example.com' });
+
+    expect(calls).toHaveLength(2);
+    expect(keys()[1]).not.toBe(keys()[0]);
+  });
+
+  test('forwards a given key and answers repeats from the first result', async () => {
+    answers = [503, 'sent', 'sent again'];
+    const first = await client.executeTool('send_email', { to: 'ada@example.com' }, { idempotencyKey: 'run-1:1:call-1' });
+    const repeat = await client.executeTool('send_email', { to: 'ada@example.com' }, { idempotencyKey: 'run-1:1:call-1' });
+
+    expect(first).toEqual({ success: true, result: 'sent', attempts: 2 });
+    expect(repeat).toBe(first);
+    expect(keys()).toEqual(['run-1:1:call-1', 'run-1:1:call-1']);
+  });
+
+  test('refuses a key reused for other arguments', async () => {
+    await client.executeTool('send_email', { to: 'ada@example.com' }, { idempotencyKey: 'key-1' });
+    const result = await client.executeTool('send_email', { to: 'bob@example.com' }, { idempotencyKey: 'key-1' });
+
+    expect(result).toEqual({ success: false, error: "Idempotency key 'key-1' was already used for a different request" });
+    expect(calls).toHaveLength(1);
+  });
+
+  test('does not retry permanent failures', async () => {
+    answers = [400];
+    const result = await client.executeTool('send_email', { to: 'ada@example.com' });
+
+    expect(result).toEqual({ success: false, error: 'MCP server responded with HTTP 400' });
+    expect(calls).toHaveLength(1);
+  });
+
+  test('reports the attempts of a call that keeps failing', async () => {
+    answers = [503, 503, 503];
+    const result = await client.executeTool('send_email', { to: 'ada@example.com' });
+
+    expect(result).toEqual({ success: false, error: 'MCP server responded with HTTP 503 (after 3 attempts)', retryable: true });
+    expect(new Set(keys()).size).toBe(1);
+  });
+});
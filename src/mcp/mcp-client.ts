@@ -1,5 +1,23 @@
-import axios from 'axios';
-import type { AxiosInstance } from 'axios';
+import { randomUUID } from 'crypto';
+import type { CallToolResult } from './mcp-connection';
+import { MCPServerRegistry } from './server-registry';
+import type { MCPServerConfig, ServerHealth } from './server-registry';
+import { formatValidationErrors, validateAgainstSchema } from './schema-validator';
+import type { ValidationError } from './schema-validator';
+import { CassetteMismatchError } from '../lib/cassette';
+import type { Cassette } from '../lib/cassette';
+import { DEFAULT_RETRY_POLICY, RetryableError, errorStatus, isRetryableError, retryAfterMs, withRetry } from '../lib/retry';
+import type { RetryPolicy } from '../lib/retry';
+import { IdempotencyCache, IdempotencyKeyReusedError } from '../lib/idempotency';
+import { createLogger, logContext } from '../lib/logger';
+import { metrics } from '../lib/metrics';
+import { startSpan } from '../lib/tracing';
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker';
+import type { CircuitBreakerOptions } from './circuit-breaker';
+import { RateLimitError, RateLimiter } from './rate-limiter';
+import type { LimitUsage, RateLimitConfig } from './rate-limiter';
+import { ConnectionManager, ConnectionStore } from './connections';
+import type { IntegrationConfig } from './connections';
 
 /**
  * MCP (Model Context Protocol) Client for Rube integration
@@ -18,40 +36,111 @@ import type { AxiosInstance } from 'axios';
 
 export interface MCPTool {
   name: string;
+  title?: string;
   description: string;
   inputSchema: {
     type: string;
     properties: Record<string, unknown>;
     required?: string[];
   };
+  annotations?: Record<string, unknown>;
 }
 
 export interface ToolResult {
   success: boolean;
   result?: unknown;
   error?: string;
+  /** Set when the arguments did not match the tool's inputSchema */
+  validationErrors?: ValidationError[];
+  /** Set on failures that may succeed if tried again later */
+  retryable?: boolean;
+  /** Attempts made, when the call was retried */
+  attempts?: number;
 }
 
+export interface ExecuteToolOptions {
+  /** Abort the call (including retries) when this fires */
+  signal?: AbortSignal;
+  /**
+   * Identifies one logical call across retries. The key is forwarded to the
+   * server, and a key that already succeeded returns the earlier result
+   * without calling the tool again. Without one, each call gets a fresh key.
+   */
+  idempotencyKey?: string;
+  /** Caller's `context.userId`, for per-user rate limits */
+  userId?: string;
+  /**
+   * Request the call is made for, forwarded to the server for correlation
+   * (default: the `requestId` of the log context)
+   */
+  requestId?: string;
+}
+
+export interface MCPClientOptions {
+  /** Serve the built-in mock tools instead of connecting to a server */
+  useMockTools?: boolean;
+  /** Extra HTTP headers (e.g. Authorization) sent to the Rube endpoint */
+  headers?: Record<string, string>;
+  timeout?: number;
+  /**
+   * Servers to aggregate (see server-registry.ts for the config format).
+   * Defaults to a single `rube` server at `serverUrl`.
+   */
+  servers?: Record<string, MCPServerConfig>;
+  /** Record tool listings and calls, or replay them without any server */
+  cassette?: Cassette;
+  /** Default retry policy; servers and tools can override it in their config */
+  retry?: Partial<RetryPolicy>;
+  /** Per-server circuit breaker settings */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Rate limits and daily quotas per tool, integration and user */
+  rateLimits?: RateLimitConfig;
+  /** Integrations whose tools need an OAuth connection (see connections.ts) */
+  integrations?: Record<string, IntegrationConfig>;
+  /** Encrypted connection token store (default: ~/.rube/connections.json) */
+  connectionsPath?: string;
+}
+
+const log = createLogger('mcp-client');
+const toolCalls = metrics.counter('rube_tool_calls_total', 'Tool calls by outcome', ['tool', 'status']);
+const toolCallDuration = metrics.histogram(
+  'rube_tool_call_duration_seconds',
+  'Tool call latency, including retries and rate limit waits',
+  ['tool']
+);
+
 export class MCPClient {
-  private httpClient: AxiosInstance;
   private tools: MCPTool[] = [];
   private serverUrl: string;
+  private options: MCPClientOptions;
+  private servers: Record<string, MCPServerConfig>;
+  private registry?: MCPServerRegistry;
+  private breakers = new Map<string, CircuitBreaker>();
+  private completedCalls = new IdempotencyCache<ToolResult>();
+  private limiter?: RateLimiter;
+  /** Integration connections; tools of disconnected integrations are hidden */
+  readonly connections: ConnectionManager;
 
-  constructor(serverUrl: string = 'http://localhost:3001') {
+  constructor(serverUrl: string = 'http://localhost:3001', options: MCPClientOptions = {}) {
     this.serverUrl = serverUrl;
-    this.httpClient = axios.create({
-      baseURL: serverUrl,
-      timeout: 30000,
-    });
-    this.initializeTools();
+    this.options = options;
+    this.servers = options.servers ?? {
+      rube: { url: serverUrl, headers: options.headers },
+    };
+    if (options.rateLimits) {
+      this.limiter = new RateLimiter(options.rateLimits);
+    }
+    this.connections = new ConnectionManager(options.integrations, new ConnectionStore(options.connectionsPath));
+    if (options.useMockTools) {
+      this.initializeMockTools();
+    }
   }
 
   /**
-   * Initialize available tools from Rube MCP server
-   * In a real implementation, these would be discovered from the actual MCP server
+   * Install the built-in mock tools
+   * Only used when explicitly requested via `useMockTools`
    */
-  private initializeTools(): void {
-    // Mock tools for MVP - in production these come from Rube
+  private initializeMockTools(): void {
     this.tools = [
       {
         name: 'send_email',
@@ -126,10 +215,43 @@ export class MCPClient {
   }
 
   /**
-   * Get available tools
+   * Get available tools, leaving out those whose integration is not connected
    */
   getAvailableTools(): MCPTool[] {
-    return this.tools;
+    const tools = this.allTools();
+    if (this.connections.names().length === 0) return tools;
+    return tools.filter(tool => this.connections.isToolAvailable(tool.name));
+  }
+
+  private allTools(): MCPTool[] {
+    if (this.options.useMockTools || this.replaying) {
+      return this.tools;
+    }
+    return this.registry?.getTools() ?? [];
+  }
+
+  /**
+   * Whether at least one MCP server session is live
+   */
+  isConnected(): boolean {
+    return this.registry?.hasConnectedServer() ?? false;
+  }
+
+  /**
+   * Per-server connection state
+   */
+  getServerHealth(): ServerHealth[] {
+    return (this.registry?.getHealth() ?? []).map(health => ({
+      ...health,
+      circuit: this.breakers.get(health.name)?.state ?? 'closed',
+    }));
+  }
+
+  /**
+   * Current rate limit and quota usage
+   */
+  getRateLimits(): LimitUsage[] {
+    return this.limiter?.snapshot() ?? [];
   }
 
   /**
@@ -138,41 +260,235 @@ export class MCPClient {
    */
   async executeTool(
     toolName: string,
-    input: Record<string, unknown>
+    input: Record<string, unknown>,
+    options: ExecuteToolOptions = {}
+  ): Promise<ToolResult> {
+    if (!options.idempotencyKey) {
+      // Still one logical call: retries carry the same key, so a server that
+      // saw a timed-out attempt does not run it twice
+      return this.executeToolOnce(toolName, input, { ...options, idempotencyKey: randomUUID() });
+    }
+    // Only successes are remembered, so a failed call can be tried again
+    return this.completedCalls.run(
+      options.idempotencyKey,
+      { tool: toolName, input },
+      () => this.executeToolOnce(toolName, input, options),
+      result => result.success
+    ).catch(error => {
+      if (error instanceof IdempotencyKeyReusedError) {
+        return { success: false, error: error.message };
+      }
+      throw error;
+    });
+  }
+
+  /**
+   * Time the call as a `tool` span and count it per tool and outcome
+   */
+  private async executeToolOnce(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: ExecuteToolOptions
   ): Promise<ToolResult> {
+    // Names the model made up would make label values unbounded
+    const tool = this.allTools().some(t => t.name === toolName) ? toolName : 'unknown';
+    const span = startSpan('tool', { tool: toolName });
+    let result: ToolResult | undefined;
     try {
-      const tool = this.tools.find(t => t.name === toolName);
+      result = await this.runTool(toolName, input, options);
+      return result;
+    } finally {
+      const status = result?.success ? 'success' : 'error';
+      const durationMs = span.end(result?.success ? 'ok' : 'error', { attempts: result?.attempts });
+      toolCalls.inc({ tool, status });
+      toolCallDuration.observe({ tool }, durationMs / 1000);
+    }
+  }
+
+  private async runTool(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: ExecuteToolOptions
+  ): Promise<ToolResult> {
+    try {
+      const tool = this.getAvailableTools().find(t => t.name === toolName);
       if (!tool) {
+        const integration = this.allTools().some(t => t.name === toolName)
+          ? this.connections.integrationOf(toolName)
+          : undefined;
         return {
           success: false,
-          error: `Tool '${toolName}' not found`,
+          error: integration
+            ? `'${toolName}' needs a ${integration} connection; run: voice-cli connect ${integration}`
+            : `Tool '${toolName}' not found`,
         };
       }
 
-      // Log tool execution (in MVP, this would actually call the Rube MCP server)
-      console.log(`Executing tool: ${toolName}`, JSON.stringify(input, null, 2));
+      const validation = validateAgainstSchema(input, tool.inputSchema);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: `Invalid arguments for '${toolName}': ${formatValidationErrors(validation.errors)}`,
+          validationErrors: validation.errors,
+        };
+      }
 
-      // In production, this would make a real call to the MCP server:
-      // const response = await this.httpClient.post('/tool/execute', {
-      //   toolName,
-      //   input,
-      // });
+      // Argument values can hold message bodies and credentials; keys are enough to debug
+      log.debug('Executing tool', { tool: toolName, argumentKeys: Object.keys(input) });
 
-      // Mock response for MVP
-      const mockResult = await this.executeMockTool(toolName, input);
-      return mockResult;
+      const cassette = this.options.cassette;
+      if (cassette) {
+        // The idempotency key is left out of the match so replays stay deterministic
+        return await cassette.intercept('mcp.call', { tool: toolName, arguments: input }, () =>
+          this.callTool(toolName, input, options)
+        );
+      }
+      return await this.callTool(toolName, input, options);
     } catch (error) {
-      console.error(`Error executing tool ${toolName}:`, error);
+      // A replay mismatch must fail the run, not become a tool error the model can paper over
+      if (error instanceof CassetteMismatchError) throw error;
+      log.warn('Tool call failed', { tool: toolName, error });
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: isRetryableError(error) ||
+          error instanceof CircuitOpenError ||
+          error instanceof RateLimitError ||
+          undefined,
       };
     }
   }
 
   /**
-   * Mock tool execution for MVP testing
-   * Replace with actual Rube MCP calls in production
+   * Call a tool on its server, retrying transient failures per the retry
+   * policy and failing fast while the server's circuit is open
+   */
+  private async callTool(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: ExecuteToolOptions
+  ): Promise<ToolResult> {
+    const integration = this.connections.integrationOf(toolName);
+    // Refreshed here if it is about to expire
+    const accessToken = integration ? await this.connections.accessToken(integration) : undefined;
+
+    // Counted once per logical call; retries below do not take extra tokens
+    await this.limiter?.acquire(toolName, options.userId, options.signal);
+
+    if (this.options.useMockTools) {
+      return this.executeMockTool(toolName, input);
+    }
+
+    const initialRoute = this.registry?.resolveTool(toolName);
+    const policy = this.retryPolicyFor(initialRoute?.server, initialRoute?.toolName ?? toolName);
+    let attempts = 0;
+
+    const result = await withRetry(async signal => {
+      attempts++;
+      // Re-resolve on every attempt: the server may have been restarted meanwhile
+      const route = this.registry?.resolveTool(toolName);
+      if (!route) {
+        throw new RetryableError(`Server providing '${toolName}' is not connected`);
+      }
+
+      const breaker = this.breakerFor(route.server);
+      breaker.acquire();
+      try {
+        const result = await route.connection.callTool(route.toolName, input, {
+          signal,
+          idempotencyKey: options.idempotencyKey,
+          requestId: options.requestId ?? logContext().requestId as string | undefined,
+          authorization: accessToken && `Bearer ${accessToken}`,
+        });
+        breaker.recordSuccess();
+        return this.toToolResult(result);
+      } catch (error) {
+        if (errorStatus(error) === 429) {
+          // Hold back other calls to the same integration, not just this one
+          this.limiter?.pause(toolName, retryAfterMs(error) ?? 1000);
+        }
+        // Only transient failures count against the server; a JSON-RPC error is still an answer
+        if (isRetryableError(error) || signal.aborted) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+        throw error;
+      }
+    }, policy, {
+      signal: options.signal,
+      onRetry: (error, attempt, delayMs) => {
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn('Tool call failed; retrying', {
+          tool: toolName,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          error: message,
+          delayMs,
+        });
+      },
+    }).catch(error => {
+      if (error instanceof Error && attempts > 1) {
+        error.message = `${error.message} (after ${attempts} attempts)`;
+      }
+      throw error;
+    });
+
+    return attempts > 1 ? { ...result, attempts } : result;
+  }
+
+  /**
+   * Client defaults, then the server's `retry`, then its `toolRetry` entry
+   */
+  private retryPolicyFor(server: string | undefined, toolName: string): RetryPolicy {
+    const config = server ? this.servers[server] : undefined;
+    return {
+      ...DEFAULT_RETRY_POLICY,
+      ...this.options.retry,
+      ...config?.retry,
+      ...config?.toolRetry?.[toolName],
+    };
+  }
+
+  private breakerFor(server: string): CircuitBreaker {
+    let breaker = this.breakers.get(server);
+    if (!breaker) {
+      breaker = new CircuitBreaker(server, this.options.circuitBreaker);
+      this.breakers.set(server, breaker);
+    }
+    return breaker;
+  }
+
+  private get replaying(): boolean {
+    return this.options.cassette?.mode === 'replay';
+  }
+
+  /**
+   * Convert an MCP `tools/call` result into a ToolResult
+   * Tool-level failures are reported in-band via `isError`
+   */
+  private toToolResult(result: CallToolResult): ToolResult {
+    const text = (result.content ?? [])
+      .filter(item => item.type === 'text' && typeof item.text === 'string')
+      .map(item => item.text)
+      .join('\n');
+
+    if (result.isError) {
+      return {
+        success: false,
+        error: text || 'Tool execution failed',
+      };
+    }
+
+    return {
+      success: true,
+      result: result.structuredContent ?? text,
+    };
+  }
+
+  /**
+   * Mock tool execution
+   * Used only when the client was created with `useMockTools`
    */
   private async executeMockTool(
     toolName: string,
@@ -221,17 +537,55 @@ export class MCPClient {
   }
 
   /**
-   * Connect to Rube MCP server (future implementation)
-   * This will handle the actual protocol handshake and initialization
+   * Start all configured MCP servers
+   * Stdio servers are spawned as child processes, HTTP servers are connected
+   * over Streamable HTTP. Servers that fail or crash are restarted in the background.
    */
-  async connectToRube(serverUrl: string): Promise<void> {
-    console.log(`Connecting to Rube MCP server at ${serverUrl}`);
-    // Implementation for connecting to actual Rube MCP server
-    // This would involve:
-    // 1. Protocol negotiation
-    // 2. Authentication
-    // 3. Tool discovery
-    // 4. Capability registration
+  async connect(): Promise<void> {
+    const cassette = this.options.cassette;
+    if (cassette && this.replaying) {
+      this.tools = await cassette.intercept<MCPTool[]>('mcp.tools', {}, async () => []);
+      log.info('Replaying MCP tools from cassette', { tools: this.tools.length, cassette: cassette.path });
+      return;
+    }
+
+    if (this.options.useMockTools) {
+      log.info('Using mock MCP tools; skipping MCP server connections');
+    } else {
+      await this.disconnect();
+
+      this.registry = new MCPServerRegistry(this.servers, {
+        timeout: this.options.timeout,
+      });
+      await this.registry.startAll();
+    }
+
+    if (cassette) {
+      await cassette.intercept('mcp.tools', {}, async () => this.getAvailableTools());
+    }
+  }
+
+  /**
+   * Connect to Rube MCP server
+   * Registers (or replaces) the `rube` server at `serverUrl` and starts all servers.
+   */
+  async connectToRube(serverUrl: string = this.serverUrl): Promise<void> {
+    this.serverUrl = serverUrl;
+    this.servers = {
+      ...this.servers,
+      rube: { url: serverUrl, headers: this.options.headers },
+    };
+    await this.connect();
+  }
+
+  /**
+   * Stop all MCP servers
+   */
+  async disconnect(): Promise<void> {
+    if (this.registry) {
+      await this.registry.stopAll();
+      this.registry = undefined;
+    }
   }
 }
 
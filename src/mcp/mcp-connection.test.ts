@@ -0,0 +1,139 @@
+import { describe, expect, test } from 'bun:test';
+import { MCPConnection } from './mcp-connection';
+import { MCPError } from './transport';
+import type { CloseHandler, MCPTransport, NotificationHandler } from './transport';
+import type { MCPTool } from './mcp-client';
+
+/**
+ * An in-process MCP server: requests are answered by `methods`, and every
+ * message the connection sends is recorded.
+ */
+class LoopbackTransport implements MCPTransport {
+  readonly sent: { method: string; params?: Record<string, unknown> }[] = [];
+  closed = false;
+  private handlers: NotificationHandler[] = [];
+
+  constructor(private methods: Record<string, (params?: Record<string, unknown>) => unknown>) {}
+
+  async request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+    this.sent.push({ method, params });
+    const handler = this.methods[method];
+    if (!handler) throw new MCPError(`Method not found: ${method}`, -32601);
+    return handler(params);
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    this.sent.push({ method, params });
+  }
+
+  onNotification(handler: NotificationHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onClose(_handler: CloseHandler): void {}
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  /** Deliver a server-initiated notification */
+  push(method: string): void {
+    for (const handler of this.handlers) handler({ jsonrpc: '2.0', method });
+  }
+}
+
+const tool = (name: string, inputSchema: MCPTool['inputSchema'] = { type: 'object', properties: {} }): MCPTool => ({
+  name,
+  description: `The ${name} tool`,
+  inputSchema,
+});
+
+const initializeResult = (protocolVersion = '2025-03-26') => ({
+  protocolVersion,
+  capabilities: { tools: { listChanged: true } },
+  serverInfo: { name: 'stub', version: '1.0.0' },
+});
+
+describe('MCPConnection.initialize', () => {
+  test('completes the handshake and discovers tools across pages', async () => {
+    const transport = new LoopbackTransport({
+      initialize: () => initializeResult(),
+      'tools/list': params => params?.cursor === 'page-2'
+        ? { tools: [tool('send_email')] }
+        : { tools: [tool('search')], nextCursor: 'page-2' },
+    });
+    const connection = new MCPConnection(transport);
+
+    await connection.initialize();
+    expect(connection.serverInfo).toEqual({ name: 'stub', version: '1.0.0' });
+    expect(connection.protocolVersion).toBe('2025-03-26');
+    expect(connection.getTools().map(({ name }) => name)).toEqual(['search', 'send_email']);
+    expect(transport.sent.map(({ method }) => method)).toEqual([
+      'initialize', 'notifications/initialized', 'tools/list', 'tools/list',
+    ]);
+    expect(transport.sent[0].params).toMatchObject({ protocolVersion: '2025-03-26', clientInfo: { name: 'rube-voice-cli' } });
+  });
+
+  test('accepts the previous protocol version', async () => {
+    const connection = new MCPConnection(new LoopbackTransport({
+      initialize: () => initializeResult('2024-11-05'),
+      'tools/list': () => ({ tools: [] }),
+    }));
+    await connection.initialize();
+    expect(connection.protocolVersion).toBe('2024-11-05');
+  });
+
+  test('closes on an unsupported protocol version', async () => {
+    const transport = new LoopbackTransport({ initialize: () => initializeResult('2023-01-01') });
+    const connection = new MCPConnection(transport);
+
+    await expect(connection.initialize()).rejects.toThrow('Unsupported MCP protocol version: 2023-01-01');
+    expect(transport.closed).toBe(true);
+  });
+
+  test('skips tools whose schema is malformed', async () => {
+    const connection = new MCPConnection(new LoopbackTransport({
+      initialize: () => initializeResult(),
+      'tools/list': () => ({ tools: [tool('good'), tool('bad', { type: 'object', properties: { to: { type: 'text' } } })] }),
+    }));
+    await connection.initialize();
+    expect(connection.getTools().map(({ name }) => name)).toEqual(['good']);
+  });
+});
+
+describe('MCPConnection', () => {
+  test('refreshes tools when the server says the list changed', async () => {
+    let tools = [tool('search')];
+    const transport = new LoopbackTransport({
+      initialize: () => initializeResult(),
+      'tools/list': () => ({ tools }),
+    });
+    const connection = new MCPConnection(transport);
+    await connection.initialize();
+
+    const changed = new Promise<MCPTool[]>(resolve => connection.onToolsChanged(resolve));
+    tools = [tool('search'), tool('send_email')];
+    transport.push('notifications/tools/list_changed');
+    expect((await changed).map(({ name }) => name)).toEqual(['search', 'send_email']);
+  });
+
+  test('passes the idempotency key, request id and authorization in _meta', async () => {
+    const transport = new LoopbackTransport({ 'tools/call': () => ({ content: [{ type: 'text', text: 'sent' }] }) });
+    const connection = new MCPConnection(transport);
+
+    const result = await connection.callTool('send_email', { to: 'ops@example.com' }, {
+      idempotencyKey: 'run-1:1:call-1',
+      requestId: 'req-1',
+      authorization: 'Bearer token',
+    });
+    expect(result.content[0].text).toBe('sent');
+    expect(transport.sent[0].params).toEqual({
+      name: 'send_email',
+      arguments: { to: 'ops@example.com' },
+      _meta: { idempotencyKey: 'run-1:1:call-1', requestId: 'req-1', authorization: 'Bearer token' },
+    });
+
+    await connection.callTool('search', {});
+    expect(transport.sent[1].params).toEqual({ name: 'search', arguments: {} });
+  });
+});
@@ -0,0 +1,169 @@
+import type { MCPTool } from './mcp-client';
+import { formatValidationErrors, validateToolSchema } from './schema-validator';
+import { MCPError } from './transport';
+import type { MCPTransport, RequestOptions } from './transport';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('mcp-connection');
+
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+const SUPPORTED_PROTOCOL_VERSIONS = [MCP_PROTOCOL_VERSION, '2024-11-05'];
+
+const CLIENT_INFO = {
+  name: 'rube-voice-cli',
+  version: '0.1.0',
+};
+
+export interface ServerInfo {
+  name: string;
+  version: string;
+}
+
+export interface InitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, unknown>;
+  serverInfo: ServerInfo;
+  instructions?: string;
+}
+
+export interface CallToolResult {
+  content: Array<{ type: string; text?: string; [key: string]: unknown }>;
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+/**
+ * An initialized MCP session with a single server
+ * Handles the lifecycle handshake, tool discovery and tool invocation
+ * on top of any MCPTransport.
+ */
+export class MCPConnection {
+  private transport: MCPTransport;
+  private tools: MCPTool[] = [];
+  private toolsChangedListeners: Array<(tools: MCPTool[]) => void> = [];
+  serverInfo?: ServerInfo;
+  serverCapabilities: Record<string, unknown> = {};
+  protocolVersion?: string;
+
+  constructor(transport: MCPTransport) {
+    this.transport = transport;
+    this.transport.onNotification(notification => {
+      if (notification.method === 'notifications/tools/list_changed') {
+        this.refreshTools().catch(error => {
+          log.error('Failed to refresh tools after list_changed', { error });
+        });
+      }
+    });
+  }
+
+  /**
+   * Perform the initialize handshake and discover tools
+   */
+  async initialize(): Promise<InitializeResult> {
+    const result = (await this.transport.request('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    })) as InitializeResult;
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      await this.transport.close();
+      throw new MCPError(
+        `Unsupported MCP protocol version: ${result.protocolVersion}`,
+        -32602
+      );
+    }
+
+    this.protocolVersion = result.protocolVersion;
+    this.serverInfo = result.serverInfo;
+    this.serverCapabilities = result.capabilities ?? {};
+
+    await this.transport.notify('notifications/initialized');
+
+    if (this.serverCapabilities.tools) {
+      await this.refreshTools();
+    }
+
+    return result;
+  }
+
+  getTools(): MCPTool[] {
+    return this.tools;
+  }
+
+  /**
+   * Subscribe to tool list changes (after `notifications/tools/list_changed`)
+   */
+  onToolsChanged(listener: (tools: MCPTool[]) => void): void {
+    this.toolsChangedListeners.push(listener);
+  }
+
+  /**
+   * Fetch the full tool list, following `nextCursor` pagination
+   * Tools with malformed input schemas are skipped.
+   */
+  async refreshTools(): Promise<MCPTool[]> {
+    const tools: MCPTool[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = (await this.transport.request(
+        'tools/list',
+        cursor ? { cursor } : {}
+      )) as { tools: MCPTool[]; nextCursor?: string };
+
+      for (const tool of page.tools ?? []) {
+        const validation = validateToolSchema(tool.inputSchema);
+        if (!validation.valid) {
+          log.warn('Skipping tool with an invalid schema', {
+            tool: tool.name,
+            server: this.serverInfo?.name,
+            errors: formatValidationErrors(validation.errors),
+          });
+          continue;
+        }
+        tools.push(tool);
+      }
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+
+    this.tools = tools;
+    for (const listener of this.toolsChangedListeners) {
+      listener(tools);
+    }
+    return tools;
+  }
+
+  /**
+   * Invoke a tool. An idempotency key is passed in `_meta` so servers that
+   * support it can drop a retried call they already carried out, along with
+   * the `requestId` for correlating logs and the `authorization` of the
+   * tool's integration connection.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    options: RequestOptions & { idempotencyKey?: string; requestId?: string; authorization?: string } = {}
+  ): Promise<CallToolResult> {
+    const params: Record<string, unknown> = { name, arguments: args };
+    if (options.idempotencyKey || options.requestId || options.authorization) {
+      params._meta = {
+        ...(options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : {}),
+        ...(options.requestId ? { requestId: options.requestId } : {}),
+        ...(options.authorization ? { authorization: options.authorization } : {}),
+      };
+    }
+    return (await this.transport.request('tools/call', params, { signal: options.signal })) as CallToolResult;
+  }
+
+  async ping(): Promise<void> {
+    await this.transport.request('ping');
+  }
+
+  async close(): Promise<void> {
+    await this.transport.close();
+  }
+}
+
+export default MCPConnection;
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, jest, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RateLimitError, RateLimiter, loadRateLimitConfig, parseRate } from './rate-limiter';
+import type { RateLimitConfig } from './rate-limiter';
+import { DeadlineExceededError } from '../lib/retry';
+
+/**
+ * Token buckets and daily quotas on fake timers, so refills and queued
+ * waits take no real time. Usage is kept in a fresh temporary file.
+ */
+
+const NOW = new Date('2026-10-19T07:00:00Z');
+
+let dir: string;
+let usageFile: string;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(NOW);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rate-limiter-test-'));
+  usageFile = path.join(dir, 'usage.json');
+});
+
+afterEach(async () => {
+  jest.useRealTimers();
+  // Usage is saved in the background; let it land before removing the directory
+  await Bun.sleep(20);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function limiter(config: RateLimitConfig): RateLimiter {
+  return new RateLimiter({ onLimit: 'reject', usageFile, ...config });
+}
+
+/** Move the fake clock forward by `ms` */
+function advance(ms: number): void {
+  jest.setSystemTime(new Date(Date.now() + ms));
+}
+
+/** Settle `promise`, firing timers one at a time while it waits on them */
+async function drive<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(() => (settled = true), () => (settled = true));
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+  while (!settled && jest.getTimerCount() > 0) {
+    jest.advanceTimersToNextTimer();
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  }
+  return promise;
+}
+
+describe('parseRate', () => {
+  const rows: { rate: string; count: number; intervalMs: number }[] = [
+    { rate: '10/min', count: 10, intervalMs: 60000 },
+    { rate: '1/s', count: 1, intervalMs: 1000 },
+    { rate: '500/hour', count: 500, intervalMs: 3600000 },
+    { rate: '2/5min', count: 2, intervalMs: 300000 },
+    { rate: '1.5 / seconds', count: 1.5, intervalMs: 1000 },
+    { rate: '100/day', count: 100, intervalMs: 86400000 },
+  ];
+  for (const { rate, count, intervalMs } of rows) {
+    test(rate, () => {
+      expect(parseRate(rate)).toEqual({ count, intervalMs });
+    });
+  }
+
+  for (const rate of ['ten/min', '0/s', '10/fortnight', '10']) {
+    test(`rejects ${rate}`, () => {
+      expect(() => parseRate(rate)).toThrow(`Invalid rate '${rate}'`);
+    });
+  }
+});
+
+describe('RateLimiter token buckets', () => {
+  test('allows the burst, then refills at the rate', async () => {
+    const limits = limiter({ tools: { send_email: { rate: '2/min' } } });
+    await limits.acquire('send_email');
+    await limits.acquire('send_email');
+
+    const error = await limits.acquire('send_email').catch(error => error);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error).toMatchObject({ scope: 'tool', key: 'send_email', retryAfterMs: 30000 });
+    expect(error.message).toBe("Rate limit for tool 'send_email' reached (2/min); retry in 30s");
+
+    advance(29999);
+    await expect(limits.acquire('send_email')).rejects.toThrow(RateLimitError);
+    advance(1);
+    await limits.acquire('send_email');
+  });
+
+  test('a larger burst than the rate', async () => {
+    const limits = limiter({ integrations: { slack: { rate: '1/s', burst: 3 } } });
+    for (let i = 0; i < 3; i++) await limits.acquire('send_slack_message');
+    await expect(limits.acquire('slack_post')).rejects.toThrow("Rate limit for integration 'slack' reached (1/s)");
+  });
+
+  test('tool keys may be globs', async () => {
+    const limits = limiter({ tools: { 'github_*': { rate: '1/min' } } });
+    await limits.acquire('github_create_issue');
+    await expect(limits.acquire('github_create_issue')).rejects.toThrow(RateLimitError);
+    // Each matching tool gets its own bucket
+    await limits.acquire('github_close_issue');
+  });
+
+  test('integrations cover tools by name unless they list globs', async () => {
+    const limits = limiter({
+      integrations: {
+        slack: { rate: '1/min' },
+        calendar: { rate: '1/min', match: ['create_calendar_event'] },
+      },
+    });
+    await limits.acquire('SLACK_SEND_MESSAGE');
+    await expect(limits.acquire('send_slack_message')).rejects.toThrow(RateLimitError);
+    await limits.acquire('send_email');
+    await limits.acquire('send_email');
+    await limits.acquire('create_calendar_event');
+    await expect(limits.acquire('create_calendar_event')).rejects.toThrow(RateLimitError);
+    await limits.acquire('calendar_list');
+  });
+
+  test('queues a call until the bucket refills', async () => {
+    const limits = limiter({ onLimit: 'queue', tools: { send_email: { rate: '1/s' } } });
+    await limits.acquire('send_email');
+
+    await drive(limits.acquire('send_email'));
+    expect(Date.now() - NOW.getTime()).toBe(1000);
+  });
+
+  test('rejects a queued call that would wait longer than maxQueueMs', async () => {
+    const limits = limiter({ onLimit: 'queue', maxQueueMs: 5000, tools: { send_email: { rate: '1/min' } } });
+    await limits.acquire('send_email');
+    await expect(drive(limits.acquire('send_email'))).rejects.toThrow(RateLimitError);
+    expect(Date.now()).toBe(NOW.getTime());
+  });
+
+  test('stops waiting when the caller aborts', async () => {
+    const limits = limiter({ onLimit: 'queue', tools: { send_email: { rate: '1/s' } } });
+    await limits.acquire('send_email');
+    const controller = new AbortController();
+    const pending = limits.acquire('send_email', undefined, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toThrow(DeadlineExceededError);
+  });
+});
+
+describe('RateLimiter quotas', () => {
+  test('counts daily calls per user until UTC midnight', async () => {
+    const limits = limiter({ users: { '*': { daily: 2 }, admin: { daily: 100 } } });
+    await limits.acquire('send_email', 'ada');
+    await limits.acquire('send_email', 'ada');
+
+    const error = await limits.acquire('send_email', 'ada').catch(error => error);
+    expect(error).toMatchObject({ scope: 'user', key: 'ada', retryAfterMs: 17 * 60 * 60 * 1000 });
+    expect(error.message).toContain('daily quota of 2');
+    await limits.acquire('send_email', 'bob');
+    await limits.acquire('send_email', 'admin');
+    await limits.acquire('send_email', 'admin');
+    await limits.acquire('send_email', 'admin');
+
+    jest.setSystemTime(new Date('2026-10-20T00:00:00Z'));
+    await limits.acquire('send_email', 'ada');
+  });
+
+  test('picks up today\'s usage from the file and ignores older days', async () => {
+    fs.writeFileSync(usageFile, JSON.stringify({ day: '2026-10-19', counts: { 'tool:send_email': 5 } }));
+    const today = limiter({ tools: { send_email: { daily: 5 } } });
+    await expect(today.acquire('send_email')).rejects.toThrow('daily quota of 5');
+
+    fs.writeFileSync(usageFile, JSON.stringify({ day: '2026-10-18', counts: { 'tool:send_email': 5 } }));
+    const fresh = limiter({ tools: { send_email: { daily: 5 } } });
+    await fresh.acquire('send_email');
+  });
+});
+
+describe('RateLimiter.pause', () => {
+  test('holds back the whole integration after an upstream 429', async () => {
+    const limits = limiter({ integrations: { slack: { rate: '100/min' } } });
+    limits.pause('send_slack_message', 5000);
+
+    await expect(limits.acquire('slack_post')).rejects.toThrow("Rate limit for integration 'slack' reached (upstream asked to retry later); retry in 5s");
+    expect(limits.snapshot()[0].pausedForMs).toBe(5000);
+    advance(5000);
+    await limits.acquire('slack_post');
+  });
+
+  test('holds back just the tool when it has no integration', async () => {
+    const limits = limiter({ tools: { send_email: { rate: '100/min' } } });
+    limits.pause('send_email', 2000);
+    await expect(limits.acquire('send_email')).rejects.toThrow("Rate limit for tool 'send_email'");
+    await limits.acquire('send_sms');
+  });
+});
+
+describe('RateLimiter.snapshot', () => {
+  test('reports configured limits before their first use', async () => {
+    const limits = limiter({
+      tools: { send_email: { rate: '10/min', daily: 200 }, 'github_*': { rate: '1/s' } },
+      integrations: { slack: { rate: '1/s', burst: 5 } },
+    });
+    await limits.acquire('send_email');
+
+    expect(limits.snapshot()).toEqual([
+      { scope: 'tool', key: 'send_email', rate: '10/min', burst: 10, available: 9, daily: 200, usedToday: 1, pausedForMs: undefined },
+      { scope: 'integration', key: 'slack', rate: '1/s', burst: 5, available: 5, daily: undefined, usedToday: 0, pausedForMs: undefined },
+    ]);
+  });
+});
+
+describe('loadRateLimitConfig', () => {
+  test('reads the rateLimits section and checks its rates', () => {
+    const file = path.join(dir, 'mcp.config.json');
+    fs.writeFileSync(file, JSON.stringify({ servers: {}, rateLimits: { tools: { send_email: { rate: '10/min' } } } }));
+    expect(loadRateLimitConfig(file)).toEqual({ tools: { send_email: { rate: '10/min' } } });
+
+    fs.writeFileSync(file, JSON.stringify({ rateLimits: { users: { '*': { rate: 'often' } } } }));
+    expect(() => loadRateLimitConfig(file)).toThrow("Invalid rate 'often'");
+
+    fs.writeFileSync(file, JSON.stringify({ servers: {} }));
+    expect(loadRateLimitConfig(file)).toBeUndefined();
+  });
+});
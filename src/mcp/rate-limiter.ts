@@ -0,0 +1,386 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { matchesGlob } from '../lib/glob';
+import { sleep } from '../lib/retry';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('rate-limiter');
+
+/**
+ * Token-bucket rate limits and daily quotas for tool calls
+ *
+ * Configured under `rateLimits` in mcp.config.json:
+ * {
+ *   "rateLimits": {
+ *     "onLimit": "queue",
+ *     "tools":        { "send_email": { "rate": "10/min", "daily": 200 } },
+ *     "integrations": { "slack": { "rate": "1/s", "burst": 5 } },
+ *     "users":        { "*": { "rate": "60/min", "daily": 1000 } }
+ *   }
+ * }
+ * Tool keys may be globs. An integration covers tools named `<name>_*`,
+ * `*_<name>` or `*_<name>_*` (case-insensitive) unless it lists `match` globs.
+ * User keys are `context.userId` values, with `*` applying to everyone else.
+ */
+
+export type LimitScope = 'tool' | 'integration' | 'user';
+
+export interface LimitRule {
+  /** Sustained rate such as `10/min`, `1/s` or `500/hour` */
+  rate?: string;
+  /** Calls allowed in a burst (default: the count in `rate`) */
+  burst?: number;
+  /** Calls allowed per UTC day */
+  daily?: number;
+}
+
+export interface IntegrationLimitRule extends LimitRule {
+  /** Tool name globs that belong to the integration */
+  match?: string[];
+}
+
+export interface RateLimitConfig {
+  tools?: Record<string, LimitRule>;
+  integrations?: Record<string, IntegrationLimitRule>;
+  users?: Record<string, LimitRule>;
+  /** Wait for capacity, or fail the call straight away (default: queue) */
+  onLimit?: 'queue' | 'reject';
+  /** Longest a queued call waits before it is rejected (default: 30000ms) */
+  maxQueueMs?: number;
+  /** Where daily usage is kept across restarts (default: ~/.rube/usage.json) */
+  usageFile?: string;
+}
+
+/**
+ * Current state of one limit, as reported by /agent/limits
+ */
+export interface LimitUsage {
+  scope: LimitScope;
+  key: string;
+  rate?: string;
+  burst?: number;
+  /** Calls that could go out right now */
+  available?: number;
+  daily?: number;
+  usedToday: number;
+  /** Set while an upstream Retry-After pause is in effect */
+  pausedForMs?: number;
+}
+
+/**
+ * A call went over a limit and was not (or could no longer be) queued
+ */
+export class RateLimitError extends Error {
+  scope: LimitScope;
+  key: string;
+  retryAfterMs: number;
+
+  constructor(scope: LimitScope, key: string, reason: string, retryAfterMs: number) {
+    super(`Rate limit for ${scope} '${key}' reached (${reason}); retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.scope = scope;
+    this.key = key;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const DEFAULT_MAX_QUEUE_MS = 30000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RATE_UNITS: Record<string, number> = {
+  s: 1000, sec: 1000, second: 1000,
+  m: 60000, min: 60000, minute: 60000,
+  h: 3600000, hr: 3600000, hour: 3600000,
+  d: DAY_MS, day: DAY_MS,
+};
+
+/**
+ * Parse `<count>/<unit>` into calls and interval
+ */
+export function parseRate(rate: string): { count: number; intervalMs: number } {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*\/\s*(\d+)?\s*([a-z]+?)s?\s*$/i.exec(rate);
+  const unit = match ? RATE_UNITS[match[3].toLowerCase()] : undefined;
+  if (!match || !unit || parseFloat(match[1]) <= 0) {
+    throw new Error(`Invalid rate '${rate}': expected e.g. 10/min, 1/s or 500/hour`);
+  }
+  return { count: parseFloat(match[1]), intervalMs: unit * (match[2] ? parseInt(match[2]) : 1) };
+}
+
+export function defaultUsagePath(): string {
+  return process.env.RUBE_USAGE_FILE || path.join(os.homedir(), '.rube', 'usage.json');
+}
+
+/**
+ * Read the `rateLimits` section of an MCP config file, if any
+ */
+export function loadRateLimitConfig(filePath: string): RateLimitConfig | undefined {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as { rateLimits?: RateLimitConfig };
+  if (!raw.rateLimits) return undefined;
+
+  const rules = [
+    ...Object.values(raw.rateLimits.tools ?? {}),
+    ...Object.values(raw.rateLimits.integrations ?? {}),
+    ...Object.values(raw.rateLimits.users ?? {}),
+  ];
+  for (const rule of rules) {
+    if (rule.rate) parseRate(rule.rate);
+  }
+  return raw.rateLimits;
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function msUntilUtcMidnight(now: number): number {
+  return DAY_MS - (now % DAY_MS);
+}
+
+class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, refillPerMs: number, now: number) {
+    this.capacity = capacity;
+    this.refillPerMs = refillPerMs;
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  available(now: number): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  /** Milliseconds until a token is available */
+  waitMs(now: number): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  take(now: number): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  private refill(now: number): void {
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+interface Limit {
+  scope: LimitScope;
+  key: string;
+  rule: LimitRule;
+  bucket?: TokenBucket;
+}
+
+interface UsageFile {
+  day: string;
+  counts: Record<string, number>;
+}
+
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private limits = new Map<string, Limit>();
+  private pausedUntil = new Map<string, number>();
+  private usage: UsageFile;
+  private usagePath: string;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+    this.usagePath = config.usageFile || defaultUsagePath();
+    this.usage = this.loadUsage();
+
+    // Report configured limits before their first use
+    for (const name of Object.keys(config.tools ?? {})) {
+      if (!name.includes('*')) this.limitFor('tool', name, config.tools![name]);
+    }
+    for (const [name, rule] of Object.entries(config.integrations ?? {})) {
+      this.limitFor('integration', name, rule);
+    }
+  }
+
+  /**
+   * Wait until every limit that applies to the call has capacity, then count
+   * the call against all of them. Throws RateLimitError when rejecting, or
+   * when the wait would exceed `maxQueueMs`.
+   */
+  async acquire(toolName: string, userId?: string, signal?: AbortSignal): Promise<void> {
+    const limits = this.limitsFor(toolName, userId);
+    const pauseKeys = [`tool:${toolName}`, ...this.integrationsOf(toolName).map(name => `integration:${name}`)];
+    const maxQueueMs = this.config.maxQueueMs ?? DEFAULT_MAX_QUEUE_MS;
+    const startedAt = Date.now();
+
+    while (true) {
+      const now = Date.now();
+      let wait = 0;
+      let blocker: { scope: LimitScope; key: string; reason: string } | undefined;
+
+      for (const key of pauseKeys) {
+        const pause = (this.pausedUntil.get(key) ?? 0) - now;
+        if (pause > wait) {
+          const [scope, name] = key.split(/:(.*)/) as [LimitScope, string];
+          wait = pause;
+          blocker = { scope, key: name, reason: 'upstream asked to retry later' };
+        }
+      }
+      for (const limit of limits) {
+        if (limit.rule.daily !== undefined && this.usedToday(limit, now) >= limit.rule.daily) {
+          const untilReset = msUntilUtcMidnight(now);
+          if (untilReset > wait) {
+            wait = untilReset;
+            blocker = { scope: limit.scope, key: limit.key, reason: `daily quota of ${limit.rule.daily}` };
+          }
+        }
+        const bucketWait = limit.bucket?.waitMs(now) ?? 0;
+        if (bucketWait > wait) {
+          wait = bucketWait;
+          blocker = { scope: limit.scope, key: limit.key, reason: limit.rule.rate ?? 'burst' };
+        }
+      }
+
+      if (wait === 0 || !blocker) {
+        for (const limit of limits) {
+          limit.bucket?.take(now);
+          this.count(limit, now);
+        }
+        if (limits.length > 0) this.saveUsage();
+        return;
+      }
+
+      if (this.config.onLimit === 'reject' || now - startedAt + wait > maxQueueMs) {
+        throw new RateLimitError(blocker.scope, blocker.key, blocker.reason, wait);
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Hold back calls to the tool's integration (or the tool itself) after an
+   * upstream 429, for as long as its Retry-After asked
+   */
+  pause(toolName: string, ms: number): void {
+    const integrations = this.integrationsOf(toolName);
+    const keys = integrations.length > 0
+      ? integrations.map(name => `integration:${name}`)
+      : [`tool:${toolName}`];
+    const until = Date.now() + ms;
+    for (const key of keys) {
+      this.pausedUntil.set(key, Math.max(this.pausedUntil.get(key) ?? 0, until));
+    }
+  }
+
+  /**
+   * Current usage of every limit seen so far
+   */
+  snapshot(): LimitUsage[] {
+    const now = Date.now();
+    return [...this.limits.values()].map(limit => {
+      const pausedFor = (this.pausedUntil.get(`${limit.scope}:${limit.key}`) ?? 0) - now;
+      return {
+        scope: limit.scope,
+        key: limit.key,
+        rate: limit.rule.rate,
+        burst: limit.bucket ? this.burstOf(limit.rule) : undefined,
+        available: limit.bucket ? Math.floor(limit.bucket.available(now)) : undefined,
+        daily: limit.rule.daily,
+        usedToday: this.usedToday(limit, now),
+        pausedForMs: pausedFor > 0 ? pausedFor : undefined,
+      };
+    });
+  }
+
+  private limitsFor(toolName: string, userId?: string): Limit[] {
+    const limits: Limit[] = [];
+
+    const toolRule = this.config.tools?.[toolName] ??
+      Object.entries(this.config.tools ?? {}).find(([glob]) => matchesGlob(toolName, glob))?.[1];
+    if (toolRule) limits.push(this.limitFor('tool', toolName, toolRule));
+
+    for (const name of this.integrationsOf(toolName)) {
+      limits.push(this.limitFor('integration', name, this.config.integrations![name]));
+    }
+
+    if (userId) {
+      const userRule = this.config.users?.[userId] ?? this.config.users?.['*'];
+      if (userRule) limits.push(this.limitFor('user', userId, userRule));
+    }
+    return limits;
+  }
+
+  private integrationsOf(toolName: string): string[] {
+    return Object.entries(this.config.integrations ?? {})
+      .filter(([name, rule]) => {
+        const globs = rule.match ?? [`${name}_*`, `*_${name}`, `*_${name}_*`];
+        return globs.some(glob => matchesGlob(toolName, glob, true));
+      })
+      .map(([name]) => name);
+  }
+
+  private limitFor(scope: LimitScope, key: string, rule: LimitRule): Limit {
+    const id = `${scope}:${key}`;
+    let limit = this.limits.get(id);
+    if (!limit) {
+      let bucket: TokenBucket | undefined;
+      if (rule.rate) {
+        const { count, intervalMs } = parseRate(rule.rate);
+        bucket = new TokenBucket(this.burstOf(rule), count / intervalMs, Date.now());
+      }
+      limit = { scope, key, rule, bucket };
+      this.limits.set(id, limit);
+    }
+    return limit;
+  }
+
+  private burstOf(rule: LimitRule): number {
+    return rule.burst ?? Math.max(1, Math.floor(parseRate(rule.rate!).count));
+  }
+
+  private usedToday(limit: Limit, now: number): number {
+    this.rollOver(now);
+    return this.usage.counts[`${limit.scope}:${limit.key}`] ?? 0;
+  }
+
+  private count(limit: Limit, now: number): void {
+    this.rollOver(now);
+    const id = `${limit.scope}:${limit.key}`;
+    this.usage.counts[id] = (this.usage.counts[id] ?? 0) + 1;
+  }
+
+  private rollOver(now: number): void {
+    const day = utcDay(now);
+    if (this.usage.day !== day) {
+      this.usage = { day, counts: {} };
+    }
+  }
+
+  private loadUsage(): UsageFile {
+    try {
+      const file = JSON.parse(fs.readFileSync(this.usagePath, 'utf-8')) as UsageFile;
+      if (file.day === utcDay(Date.now()) && file.counts) return file;
+    } catch {
+      // No usage recorded yet (or unreadable); start the day from zero
+    }
+    return { day: utcDay(Date.now()), counts: {} };
+  }
+
+  private saveUsage(): void {
+    const snapshot = JSON.stringify(this.usage);
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.usagePath), { recursive: true });
+        await fs.promises.writeFile(this.usagePath, snapshot, { encoding: 'utf-8', mode: 0o600 });
+      })
+      .catch(error => {
+        log.error('Failed to save rate limit usage', { file: this.usagePath, error });
+      });
+  }
+}
+
+export default RateLimiter;
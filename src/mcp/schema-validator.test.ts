@@ -0,0 +1,140 @@
+import { describe, expect, test } from 'bun:test';
+import { formatValidationErrors, validateAgainstSchema, validateToolSchema } from './schema-validator';
+import type { JsonSchema } from './schema-validator';
+
+/**
+ * Table-driven spec for the schema validator. Each row lists the messages
+ * expected for one value; an empty list means the value is valid.
+ */
+
+const sendEmail: JsonSchema = {
+  type: 'object',
+  properties: {
+    to: { type: 'string', format: 'email', description: 'Recipient address' },
+    cc: { type: 'array', items: { type: 'string', format: 'email' }, uniqueItems: true, maxItems: 2 },
+    subject: { type: 'string', minLength: 1, maxLength: 10 },
+    priority: { enum: ['low', 'normal', 'high'] },
+    sendAt: { type: 'string', format: 'date-time' },
+    retries: { type: 'integer', minimum: 0, exclusiveMaximum: 5 },
+  },
+  required: ['to', 'subject'],
+  additionalProperties: false,
+};
+
+/** A folder tree: recursive through `$defs` */
+const folder: JsonSchema = {
+  type: 'object',
+  properties: { root: { $ref: '#/$defs/folder' } },
+  $defs: {
+    folder: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', pattern: '^[a-z]+$' },
+        children: { type: 'array', items: { $ref: '#/$defs/folder' } },
+      },
+      required: ['name'],
+    },
+  },
+};
+
+const contact: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { oneOf: [{ type: 'string', format: 'uuid' }, { type: 'integer' }] },
+    channel: { anyOf: [{ const: 'email' }, { const: 'sms' }] },
+    phone: { not: { type: 'null' } },
+  },
+  if: { properties: { channel: { const: 'sms' } }, required: ['channel'] },
+  then: { required: ['phone'] },
+};
+
+interface Row {
+  name: string;
+  schema: JsonSchema;
+  value: unknown;
+  messages: string[];
+}
+
+const rows: Row[] = [
+  { name: 'a complete email', schema: sendEmail, value: { to: 'ada@example.com', subject: 'Hi', cc: ['bob@example.com'], priority: 'high', retries: 0 }, messages: [] },
+  { name: 'missing fields name their description', schema: sendEmail, value: { subject: 'Hi' }, messages: ["Missing required field 'to' (Recipient address)"] },
+  { name: 'wrong type', schema: sendEmail, value: { to: 42, subject: 'Hi' }, messages: ["'to' must be string, got integer"] },
+  { name: 'bad format', schema: sendEmail, value: { to: 'ada', subject: 'Hi', sendAt: '2026-02-30T10:00:00Z' }, messages: ["'to' must be a valid email", "'sendAt' must be a valid date-time"] },
+  { name: 'string length', schema: sendEmail, value: { to: 'ada@example.com', subject: 'A long subject' }, messages: ["'subject' must be at most 10 characters"] },
+  { name: 'enum', schema: sendEmail, value: { to: 'ada@example.com', subject: 'Hi', priority: 'urgent' }, messages: ['\'priority\' must be one of: "low", "normal", "high"'] },
+  { name: 'number bounds', schema: sendEmail, value: { to: 'ada@example.com', subject: 'Hi', retries: 5 }, messages: ["'retries' must be < 5"] },
+  { name: 'integer', schema: sendEmail, value: { to: 'ada@example.com', subject: 'Hi', retries: 1.5 }, messages: ["'retries' must be integer, got number"] },
+  {
+    name: 'array items, uniqueness and size',
+    schema: sendEmail,
+    value: { to: 'ada@example.com', subject: 'Hi', cc: ['bob@example.com', 'bob@example.com', 'eve'] },
+    messages: ["'cc' must have at most 2 items", "'cc' must not contain duplicates", "'cc.2' must be a valid email"],
+  },
+  { name: 'unexpected field', schema: sendEmail, value: { to: 'ada@example.com', subject: 'Hi', bcc: 'x' }, messages: ["Unexpected field 'bcc'"] },
+  { name: 'not an object', schema: sendEmail, value: 'ada@example.com', messages: ['value must be object, got string'] },
+
+  { name: 'a valid tree', schema: folder, value: { root: { name: 'home', children: [{ name: 'docs', children: [] }] } }, messages: [] },
+  { name: 'errors deep in a tree', schema: folder, value: { root: { name: 'home', children: [{ children: [{ name: 'Bad' }] }] } }, messages: ["Missing required field 'root.children.0.name'", "'root.children.0.children.0.name' must match pattern ^[a-z]+$"] },
+
+  { name: 'oneOf and anyOf', schema: contact, value: { id: 7, channel: 'email' }, messages: [] },
+  { name: 'no oneOf branch', schema: contact, value: { id: 'not-a-uuid' }, messages: ["'id' does not match any allowed schema"] },
+  { name: 'no anyOf branch', schema: contact, value: { channel: 'fax' }, messages: ["'channel' does not match any allowed schema"] },
+  { name: 'not', schema: contact, value: { phone: null }, messages: ["'phone' matches a disallowed schema"] },
+  { name: 'if/then', schema: contact, value: { channel: 'sms' }, messages: ["Missing required field 'phone'"] },
+];
+
+describe('validateAgainstSchema', () => {
+  for (const { name, schema, value, messages } of rows) {
+    test(name, () => {
+      const result = validateAgainstSchema(value, schema);
+      expect(result.errors.map(error => error.message)).toEqual(messages);
+      expect(result.valid).toBe(messages.length === 0);
+    });
+  }
+
+  test('errors carry a JSON pointer and the failing keyword', () => {
+    const { errors } = validateAgainstSchema({ root: { name: 'a/b' } }, folder);
+    expect(errors).toEqual([{ path: '/root/name', keyword: 'pattern', message: "'root.name' must match pattern ^[a-z]+$" }]);
+  });
+
+  test('stops at a reference cycle instead of recursing forever', () => {
+    const schema: JsonSchema = { type: 'object', properties: { a: { $ref: '#/$defs/loop' } }, $defs: { loop: { $ref: '#/$defs/loop' } } };
+    expect(formatValidationErrors(validateAgainstSchema({ a: 1 }, schema).errors)).toBe('Schema reference #/$defs/loop refers back to itself');
+  });
+
+  test('reports references it cannot resolve', () => {
+    const schema: JsonSchema = { type: 'object', properties: { a: { $ref: '#/$defs/missing' } } };
+    expect(validateAgainstSchema({ a: 1 }, schema).errors[0].message).toBe('Cannot resolve schema reference #/$defs/missing');
+  });
+});
+
+describe('validateToolSchema', () => {
+  const valid: JsonSchema[] = [sendEmail, folder, contact, { type: 'object', properties: {} }];
+  for (const schema of valid) {
+    test(`accepts ${JSON.stringify(schema).slice(0, 60)}`, () => {
+      expect(validateToolSchema(schema)).toEqual({ valid: true, errors: [] });
+    });
+  }
+
+  const invalid: { schema: unknown; messages: string[] }[] = [
+    { schema: null, messages: ['inputSchema must be an object'] },
+    { schema: { type: 'array' }, messages: ['inputSchema type must be "object"'] },
+    { schema: { type: 'object', properties: { to: { type: 'text' } } }, messages: ['Unknown type "text"'] },
+    { schema: { type: 'object', properties: { to: 'string' } }, messages: ['Schema must be an object or boolean'] },
+    { schema: { type: 'object', required: 'to' }, messages: ['required must be an array of strings'] },
+    { schema: { type: 'object', properties: { to: { pattern: '[' } } }, messages: ['Invalid pattern ['] },
+    { schema: { type: 'object', properties: { a: { $ref: '#/$defs/missing' } } }, messages: ['Cannot resolve schema reference #/$defs/missing'] },
+    {
+      schema: { type: 'object', properties: { a: { $ref: '#/$defs/a' } }, $defs: { a: { anyOf: [{ $ref: '#/$defs/b' }] }, b: { $ref: '#/$defs/a' } } },
+      // Reported where the loop is, not at the property that enters it
+      messages: ['Schema reference #/$defs/b refers back to itself', 'Schema reference #/$defs/a refers back to itself'],
+    },
+  ];
+  for (const { schema, messages } of invalid) {
+    test(`rejects ${JSON.stringify(schema)}`, () => {
+      const result = validateToolSchema(schema);
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(error => error.message)).toEqual(messages);
+    });
+  }
+});
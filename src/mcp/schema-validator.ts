@@ -0,0 +1,538 @@
+/**
+ * JSON Schema validation for MCP tool arguments
+ *
+ * Covers the subset of JSON Schema (draft 2020-12 / draft-07) that MCP servers
+ * use in `inputSchema`: types, required, nested objects and arrays, enum/const,
+ * string/number/array bounds, common formats, combinators and local `$ref`s.
+ *
+ * References:
+ * - JSON Schema: https://json-schema.org/draft/2020-12/json-schema-validation
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface ValidationError {
+  /** JSON Pointer-style path to the offending value (`` for the root) */
+  path: string;
+  /** Schema keyword that failed (e.g. `required`, `type`, `format`) */
+  keyword: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+}
+
+const JSON_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2}))$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IPV4_PATTERN = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+function isValidDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day;
+}
+
+function isValidTime(value: string): boolean {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) return false;
+  const [hour, minute, second] = [match[1], match[2], match[3]].map(Number);
+  return hour < 24 && minute < 60 && second <= 60;
+}
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  email: value => EMAIL_PATTERN.test(value),
+  date: isValidDate,
+  time: isValidTime,
+  'date-time': value => {
+    const match = DATE_TIME_PATTERN.exec(value);
+    return match !== null && isValidDate(match[1]) && isValidTime(match[2]);
+  },
+  uri: value => {
+    try {
+      return Boolean(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  },
+  uuid: value => UUID_PATTERN.test(value),
+  ipv4: value => IPV4_PATTERN.test(value),
+  hostname: value => HOSTNAME_PATTERN.test(value),
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === 'number') return actual === 'number' || actual === 'integer';
+  return actual === type;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a as object);
+  const keysB = Object.keys(b as object);
+  return keysA.length === keysB.length &&
+    keysA.every(key =>
+      deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    );
+}
+
+function joinPath(path: string, segment: string | number): string {
+  return `${path}/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function describe(path: string): string {
+  return path === '' ? 'value' : `'${path.slice(1).replace(/\//g, '.')}'`;
+}
+
+function isSchemaObject(value: unknown): value is JsonSchema {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Resolve a local `$ref` (`#`, `#/$defs/name`, ...) against the root schema
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  const segments = ref.slice(1).split('/').filter(Boolean)
+    .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  let current: unknown = root;
+  for (const segment of segments) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current && typeof current === 'object' ? (current as JsonSchema) : undefined;
+}
+
+/**
+ * Subschemas applied to the same value as `schema`, i.e. without descending
+ * into a property or item
+ */
+function sameValueSubschemas(root: JsonSchema, schema: JsonSchema): JsonSchema[] {
+  return [
+    typeof schema.$ref === 'string' ? resolveRef(root, schema.$ref) : undefined,
+    ...['allOf', 'anyOf', 'oneOf'].flatMap(keyword => {
+      const value = schema[keyword];
+      return Array.isArray(value) ? value : [];
+    }),
+    schema.not,
+    schema.if,
+    schema.then,
+    schema.else,
+  ].filter(isSchemaObject);
+}
+
+/**
+ * Whether following `$ref`s and combinators from `start` leads back to it
+ * before any value is consumed, which would never finish validating
+ */
+function refersBackToItself(root: JsonSchema, start: JsonSchema): boolean {
+  const seen = new Set<JsonSchema>();
+  const pending = sameValueSubschemas(root, start);
+  while (pending.length > 0) {
+    const schema = pending.pop()!;
+    if (schema === start) return true;
+    if (seen.has(schema)) continue;
+    seen.add(schema);
+    pending.push(...sameValueSubschemas(root, schema));
+  }
+  return false;
+}
+
+class Validator {
+  private errors: ValidationError[] = [];
+  /** `$ref`s being followed, by value path, to stop reference cycles */
+  private activeRefs = new Set<string>();
+
+  constructor(private root: JsonSchema) {}
+
+  run(value: unknown): ValidationResult {
+    this.errors = [];
+    this.validate(value, this.root, '');
+    return { valid: this.errors.length === 0, errors: this.errors };
+  }
+
+  private fail(path: string, keyword: string, message: string): void {
+    this.errors.push({ path, keyword, message });
+  }
+
+  /** Validate into a scratch list, for combinators */
+  private check(value: unknown, schema: JsonSchema, path: string): ValidationError[] {
+    const saved = this.errors;
+    this.errors = [];
+    this.validate(value, schema, path);
+    const errors = this.errors;
+    this.errors = saved;
+    return errors;
+  }
+
+  private validate(value: unknown, schema: JsonSchema | boolean, path: string): void {
+    if (schema === true) return;
+    if (schema === false) {
+      this.fail(path, 'false', `${describe(path)} is not allowed`);
+      return;
+    }
+
+    if (typeof schema.$ref === 'string') {
+      const target = resolveRef(this.root, schema.$ref);
+      if (!target) {
+        this.fail(path, '$ref', `Cannot resolve schema reference ${schema.$ref}`);
+        return;
+      }
+      const key = `${path}#${schema.$ref}`;
+      if (this.activeRefs.has(key)) {
+        this.fail(path, '$ref', `Schema reference ${schema.$ref} refers back to itself`);
+        return;
+      }
+      this.activeRefs.add(key);
+      try {
+        this.validate(value, target, path);
+      } finally {
+        this.activeRefs.delete(key);
+      }
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+      if (!types.some(type => matchesType(value, type))) {
+        this.fail(path, 'type', `${describe(path)} must be ${types.join(' or ')}, got ${typeOf(value)}`);
+        return;
+      }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => deepEqual(option, value))) {
+      this.fail(
+        path,
+        'enum',
+        `${describe(path)} must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`
+      );
+    }
+
+    if ('const' in schema && !deepEqual(schema.const, value)) {
+      this.fail(path, 'const', `${describe(path)} must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') this.validateString(value, schema, path);
+    if (typeof value === 'number') this.validateNumber(value, schema, path);
+    if (Array.isArray(value)) this.validateArray(value, schema, path);
+    if (typeOf(value) === 'object') this.validateObject(value as Record<string, unknown>, schema, path);
+
+    this.validateCombinators(value, schema, path);
+  }
+
+  private validateString(value: string, schema: JsonSchema, path: string): void {
+    const length = [...value].length;
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      this.fail(path, 'minLength', `${describe(path)} must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      this.fail(path, 'maxLength', `${describe(path)} must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      this.fail(path, 'pattern', `${describe(path)} must match pattern ${schema.pattern}`);
+    }
+    if (typeof schema.format === 'string') {
+      const check = FORMAT_CHECKS[schema.format];
+      // Unknown formats are annotations only
+      if (check && !check(value)) {
+        this.fail(path, 'format', `${describe(path)} must be a valid ${schema.format}`);
+      }
+    }
+  }
+
+  private validateNumber(value: number, schema: JsonSchema, path: string): void {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      this.fail(path, 'minimum', `${describe(path)} must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      this.fail(path, 'maximum', `${describe(path)} must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      this.fail(path, 'exclusiveMinimum', `${describe(path)} must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      this.fail(path, 'exclusiveMaximum', `${describe(path)} must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        this.fail(path, 'multipleOf', `${describe(path)} must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  private validateArray(value: unknown[], schema: JsonSchema, path: string): void {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      this.fail(path, 'minItems', `${describe(path)} must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      this.fail(path, 'maxItems', `${describe(path)} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, index) =>
+        value.slice(0, index).some(other => deepEqual(other, item))
+      );
+      if (duplicate !== -1) {
+        this.fail(joinPath(path, duplicate), 'uniqueItems', `${describe(path)} must not contain duplicates`);
+      }
+    }
+
+    const prefixItems = Array.isArray(schema.prefixItems) ? (schema.prefixItems as JsonSchema[]) : [];
+    prefixItems.forEach((itemSchema, index) => {
+      if (index < value.length) this.validate(value[index], itemSchema, joinPath(path, index));
+    });
+
+    if (schema.items !== undefined) {
+      if (Array.isArray(schema.items)) {
+        // draft-07 tuple form
+        (schema.items as JsonSchema[]).forEach((itemSchema, index) => {
+          if (index < value.length) this.validate(value[index], itemSchema, joinPath(path, index));
+        });
+      } else {
+        for (let index = prefixItems.length; index < value.length; index++) {
+          this.validate(value[index], schema.items as JsonSchema | boolean, joinPath(path, index));
+        }
+      }
+    }
+  }
+
+  private validateObject(value: Record<string, unknown>, schema: JsonSchema, path: string): void {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema | boolean>;
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (value[key] === undefined) {
+          const propertyPath = joinPath(path, key);
+          const property = properties[key];
+          const hint = property && typeof property === 'object' && typeof property.description === 'string'
+            ? ` (${property.description})`
+            : '';
+          this.fail(propertyPath, 'required', `Missing required field ${describe(propertyPath)}${hint}`);
+        }
+      }
+    }
+
+    const keys = Object.keys(value).filter(key => value[key] !== undefined);
+    if (typeof schema.minProperties === 'number' && keys.length < schema.minProperties) {
+      this.fail(path, 'minProperties', `${describe(path)} must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && keys.length > schema.maxProperties) {
+      this.fail(path, 'maxProperties', `${describe(path)} must have at most ${schema.maxProperties} properties`);
+    }
+
+    const patternProperties = Object.entries(
+      (schema.patternProperties ?? {}) as Record<string, JsonSchema | boolean>
+    ).map(([pattern, propertySchema]) => ({ regex: new RegExp(pattern, 'u'), schema: propertySchema }));
+
+    for (const key of keys) {
+      const propertyPath = joinPath(path, key);
+      let matched = false;
+
+      if (key in properties) {
+        matched = true;
+        this.validate(value[key], properties[key], propertyPath);
+      }
+      for (const pattern of patternProperties) {
+        if (pattern.regex.test(key)) {
+          matched = true;
+          this.validate(value[key], pattern.schema, propertyPath);
+        }
+      }
+
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          this.fail(propertyPath, 'additionalProperties', `Unexpected field ${describe(propertyPath)}`);
+        } else {
+          this.validate(value[key], schema.additionalProperties as JsonSchema | boolean, propertyPath);
+        }
+      }
+    }
+  }
+
+  private validateCombinators(value: unknown, schema: JsonSchema, path: string): void {
+    if (Array.isArray(schema.allOf)) {
+      for (const subschema of schema.allOf as JsonSchema[]) {
+        this.validate(value, subschema, path);
+      }
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+      const results = (schema.anyOf as JsonSchema[]).map(subschema => this.check(value, subschema, path));
+      if (!results.some(errors => errors.length === 0)) {
+        this.fail(path, 'anyOf', `${describe(path)} does not match any allowed schema`);
+      }
+    }
+
+    if (Array.isArray(schema.oneOf)) {
+      const matches = (schema.oneOf as JsonSchema[])
+        .filter(subschema => this.check(value, subschema, path).length === 0).length;
+      if (matches !== 1) {
+        this.fail(
+          path,
+          'oneOf',
+          matches === 0
+            ? `${describe(path)} does not match any allowed schema`
+            : `${describe(path)} matches more than one schema`
+        );
+      }
+    }
+
+    if (schema.not !== undefined && typeof schema.not === 'object') {
+      if (this.check(value, schema.not as JsonSchema, path).length === 0) {
+        this.fail(path, 'not', `${describe(path)} matches a disallowed schema`);
+      }
+    }
+
+    if (schema.if !== undefined && typeof schema.if === 'object') {
+      const branch = this.check(value, schema.if as JsonSchema, path).length === 0
+        ? schema.then
+        : schema.else;
+      if (branch !== undefined) {
+        this.validate(value, branch as JsonSchema | boolean, path);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value (typically tool arguments) against a JSON Schema
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema): ValidationResult {
+  return new Validator(schema).run(value);
+}
+
+/**
+ * Check that a tool `inputSchema` received during discovery is usable:
+ * an object schema with well-formed keywords throughout, whose `$ref`s
+ * resolve and do not loop back without descending into a value
+ */
+export function validateToolSchema(schema: unknown): ValidationResult {
+  const errors: ValidationError[] = [];
+
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return {
+      valid: false,
+      errors: [{ path: '', keyword: 'type', message: 'inputSchema must be an object' }],
+    };
+  }
+  if ((schema as JsonSchema).type !== 'object') {
+    errors.push({ path: '/type', keyword: 'type', message: 'inputSchema type must be "object"' });
+  }
+
+  const visit = (node: unknown, path: string): void => {
+    if (typeof node === 'boolean') return;
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      errors.push({ path, keyword: 'schema', message: 'Schema must be an object or boolean' });
+      return;
+    }
+    const current = node as JsonSchema;
+
+    if (current.$ref !== undefined) {
+      if (typeof current.$ref !== 'string') {
+        errors.push({ path: joinPath(path, '$ref'), keyword: '$ref', message: '$ref must be a string' });
+      } else if (!resolveRef(schema as JsonSchema, current.$ref)) {
+        errors.push({ path: joinPath(path, '$ref'), keyword: '$ref', message: `Cannot resolve schema reference ${current.$ref}` });
+      } else if (refersBackToItself(schema as JsonSchema, current)) {
+        errors.push({ path: joinPath(path, '$ref'), keyword: '$ref', message: `Schema reference ${current.$ref} refers back to itself` });
+      }
+    }
+
+    if (current.type !== undefined) {
+      const types = Array.isArray(current.type) ? current.type : [current.type];
+      for (const type of types) {
+        if (typeof type !== 'string' || !JSON_TYPES.includes(type)) {
+          errors.push({ path: joinPath(path, 'type'), keyword: 'type', message: `Unknown type ${JSON.stringify(type)}` });
+        }
+      }
+    }
+
+    if (current.properties !== undefined) {
+      if (!current.properties || typeof current.properties !== 'object' || Array.isArray(current.properties)) {
+        errors.push({ path: joinPath(path, 'properties'), keyword: 'properties', message: 'properties must be an object' });
+      } else {
+        for (const [key, child] of Object.entries(current.properties)) {
+          visit(child, joinPath(joinPath(path, 'properties'), key));
+        }
+      }
+    }
+
+    if (current.required !== undefined &&
+      (!Array.isArray(current.required) || current.required.some(key => typeof key !== 'string'))) {
+      errors.push({ path: joinPath(path, 'required'), keyword: 'required', message: 'required must be an array of strings' });
+    }
+
+    if (current.enum !== undefined && !Array.isArray(current.enum)) {
+      errors.push({ path: joinPath(path, 'enum'), keyword: 'enum', message: 'enum must be an array' });
+    }
+
+    if (typeof current.pattern === 'string') {
+      try {
+        new RegExp(current.pattern, 'u');
+      } catch {
+        errors.push({ path: joinPath(path, 'pattern'), keyword: 'pattern', message: `Invalid pattern ${current.pattern}` });
+      }
+    }
+
+    if (current.items !== undefined) {
+      if (Array.isArray(current.items)) {
+        current.items.forEach((child, index) => visit(child, joinPath(joinPath(path, 'items'), index)));
+      } else {
+        visit(current.items, joinPath(path, 'items'));
+      }
+    }
+
+    if (current.additionalProperties !== undefined) {
+      visit(current.additionalProperties, joinPath(path, 'additionalProperties'));
+    }
+
+    for (const keyword of ['allOf', 'anyOf', 'oneOf']) {
+      const value = current[keyword];
+      if (value === undefined) continue;
+      if (!Array.isArray(value)) {
+        errors.push({ path: joinPath(path, keyword), keyword, message: `${keyword} must be an array` });
+        continue;
+      }
+      value.forEach((child, index) => visit(child, joinPath(joinPath(path, keyword), index)));
+    }
+
+    for (const keyword of ['$defs', 'definitions']) {
+      const value = current[keyword];
+      if (value && typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+          visit(child, joinPath(joinPath(path, keyword), key));
+        }
+      }
+    }
+  };
+
+  visit(schema, '');
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * One-line summary of validation errors, suitable for ToolResult.error
+ */
+export function formatValidationErrors(errors: ValidationError[]): string {
+  return errors.map(error => error.message).join('; ');
+}
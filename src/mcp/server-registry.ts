@@ -0,0 +1,359 @@
+import * as fs from 'fs';
+import type { MCPTool } from './mcp-client';
+import { MCPConnection } from './mcp-connection';
+import { StreamableHttpTransport } from './http-transport';
+import { StdioTransport } from './stdio-transport';
+import type { MCPTransport } from './transport';
+import type { RetryPolicy } from '../lib/retry';
+import type { CircuitState } from './circuit-breaker';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('server-registry');
+
+/**
+ * Registry of MCP servers (Rube plus any local/internal servers)
+ *
+ * Config file format (same shape as other MCP hosts):
+ * {
+ *   "mcpServers": {
+ *     "rube":     { "url": "https://rube.app/mcp", "headers": { "Authorization": "Bearer ${RUBE_API_KEY}" } },
+ *     "internal": { "command": "node", "args": ["./servers/internal.js"], "env": { "LOG_LEVEL": "warn" } }
+ *   }
+ * }
+ * `${VAR}` references are expanded from the environment.
+ *
+ * Any server may also set `retry` (see RetryPolicy) and `toolRetry`, a map of
+ * tool name to retry overrides, e.g. `"toolRetry": { "send_email": { "maxAttempts": 1 } }`.
+ */
+
+export interface ServerRetryConfig {
+  retry?: Partial<RetryPolicy>;
+  toolRetry?: Record<string, Partial<RetryPolicy>>;
+}
+
+export interface StdioServerConfig extends ServerRetryConfig {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  disabled?: boolean;
+}
+
+export interface HttpServerConfig extends ServerRetryConfig {
+  url: string;
+  headers?: Record<string, string>;
+  disabled?: boolean;
+}
+
+export type MCPServerConfig = StdioServerConfig | HttpServerConfig;
+
+export type ServerStatus = 'stopped' | 'connecting' | 'connected' | 'crashed' | 'failed';
+
+export interface ServerHealth {
+  name: string;
+  transport: 'stdio' | 'http';
+  status: ServerStatus;
+  toolCount: number;
+  restarts: number;
+  pid?: number;
+  serverInfo?: { name: string; version: string };
+  lastError?: string;
+  /** Circuit breaker state for tool calls (filled in by MCPClient) */
+  circuit?: CircuitState;
+}
+
+export interface RegistryOptions {
+  timeout?: number;
+  /** Give up restarting a server after this many consecutive failures */
+  maxRestarts?: number;
+}
+
+/** Separator used to namespace tools whose names collide across servers */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30000;
+/** A server that ran at least this long before crashing is considered healthy again */
+const STABLE_UPTIME_MS = 30000;
+
+interface ServerEntry {
+  name: string;
+  config: MCPServerConfig;
+  status: ServerStatus;
+  connection?: MCPConnection;
+  transport?: MCPTransport;
+  restarts: number;
+  consecutiveFailures: number;
+  connectedAt?: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  lastError?: string;
+}
+
+interface ToolRoute {
+  server: string;
+  toolName: string;
+  tool: MCPTool;
+}
+
+export function isStdioConfig(config: MCPServerConfig): config is StdioServerConfig {
+  return 'command' in config;
+}
+
+export function expandEnv<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => expandEnv(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandEnv(item)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Load server definitions from a JSON config file
+ */
+export function loadServerConfig(filePath: string): Record<string, MCPServerConfig> {
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as {
+    mcpServers?: Record<string, MCPServerConfig>;
+  };
+
+  if (!raw.mcpServers || typeof raw.mcpServers !== 'object') {
+    throw new Error(`MCP config ${filePath} has no "mcpServers" section`);
+  }
+
+  const servers: Record<string, MCPServerConfig> = {};
+  for (const [name, config] of Object.entries(raw.mcpServers)) {
+    if (!('command' in config) && !('url' in config)) {
+      throw new Error(`MCP server '${name}' needs either "command" or "url"`);
+    }
+    servers[name] = expandEnv(config);
+  }
+  return servers;
+}
+
+export class MCPServerRegistry {
+  private entries = new Map<string, ServerEntry>();
+  private routes = new Map<string, ToolRoute>();
+  private options: RegistryOptions;
+  private stopped = false;
+
+  constructor(servers: Record<string, MCPServerConfig>, options: RegistryOptions = {}) {
+    this.options = options;
+    for (const [name, config] of Object.entries(servers)) {
+      if (config.disabled) continue;
+      this.entries.set(name, {
+        name,
+        config,
+        status: 'stopped',
+        restarts: 0,
+        consecutiveFailures: 0,
+      });
+    }
+  }
+
+  /**
+   * Start every configured server in parallel
+   * Servers that fail to come up are retried in the background.
+   */
+  async startAll(): Promise<void> {
+    this.stopped = false;
+    await Promise.all(
+      [...this.entries.values()].map(entry => this.startServer(entry))
+    );
+  }
+
+  async stopAll(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(
+      [...this.entries.values()].map(async entry => {
+        if (entry.restartTimer) {
+          clearTimeout(entry.restartTimer);
+          entry.restartTimer = undefined;
+        }
+        const connection = entry.connection;
+        entry.connection = undefined;
+        entry.transport = undefined;
+        entry.status = 'stopped';
+        await connection?.close().catch(() => undefined);
+      })
+    );
+    this.rebuildRoutes();
+  }
+
+  /**
+   * All tools across connected servers
+   * Names that collide between servers are prefixed with `<server>__`.
+   */
+  getTools(): MCPTool[] {
+    return [...this.routes.values()].map(route => route.tool);
+  }
+
+  /**
+   * Find the server and original tool name behind an exposed tool name
+   */
+  resolveTool(name: string): { server: string; toolName: string; connection: MCPConnection } | undefined {
+    const route = this.routes.get(name);
+    if (!route) return undefined;
+
+    const connection = this.entries.get(route.server)?.connection;
+    if (!connection) return undefined;
+
+    return { server: route.server, toolName: route.toolName, connection };
+  }
+
+  hasConnectedServer(): boolean {
+    return [...this.entries.values()].some(entry => entry.status === 'connected');
+  }
+
+  getHealth(): ServerHealth[] {
+    return [...this.entries.values()].map(entry => ({
+      name: entry.name,
+      transport: isStdioConfig(entry.config) ? 'stdio' : 'http',
+      status: entry.status,
+      toolCount: entry.connection?.getTools().length ?? 0,
+      restarts: entry.restarts,
+      pid: entry.transport instanceof StdioTransport ? entry.transport.pid : undefined,
+      serverInfo: entry.connection?.serverInfo,
+      lastError: entry.lastError,
+    }));
+  }
+
+  private createTransport(entry: ServerEntry): MCPTransport {
+    const { config } = entry;
+    if (isStdioConfig(config)) {
+      return new StdioTransport({
+        command: config.command,
+        args: config.args,
+        env: config.env,
+        cwd: config.cwd,
+        timeout: this.options.timeout,
+        logPrefix: entry.name,
+      });
+    }
+    return new StreamableHttpTransport(config.url, {
+      headers: config.headers,
+      timeout: this.options.timeout,
+    });
+  }
+
+  private async startServer(entry: ServerEntry): Promise<void> {
+    if (this.stopped) return;
+
+    entry.status = 'connecting';
+    const transport = this.createTransport(entry);
+    const connection = new MCPConnection(transport);
+
+    connection.onToolsChanged(() => this.rebuildRoutes());
+    transport.onClose(error => {
+      if (entry.transport !== transport) return;
+      entry.connection = undefined;
+      entry.transport = undefined;
+      this.rebuildRoutes();
+
+      if (error && !this.stopped) {
+        log.error('MCP server went away', { server: entry.name, error: error.message });
+        entry.status = 'crashed';
+        entry.lastError = error.message;
+        this.scheduleRestart(entry);
+      } else {
+        entry.status = 'stopped';
+      }
+    });
+
+    try {
+      if (transport instanceof StdioTransport) {
+        await transport.start();
+      }
+      entry.transport = transport;
+      await connection.initialize();
+
+      if (transport instanceof StreamableHttpTransport) {
+        transport.listen().catch(() => undefined);
+      }
+
+      entry.connection = connection;
+      entry.status = 'connected';
+      entry.connectedAt = Date.now();
+      entry.lastError = undefined;
+      this.rebuildRoutes();
+
+      log.info('MCP server connected', {
+        server: entry.name,
+        serverInfo: connection.serverInfo?.name,
+        tools: connection.getTools().length,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log.error('Failed to start MCP server', { server: entry.name, error: message });
+
+      entry.transport = undefined;
+      entry.status = 'failed';
+      entry.lastError = message;
+      await transport.close().catch(() => undefined);
+      this.scheduleRestart(entry);
+    }
+  }
+
+  private scheduleRestart(entry: ServerEntry): void {
+    if (this.stopped || entry.restartTimer) return;
+
+    const ranStably = entry.connectedAt !== undefined &&
+      Date.now() - entry.connectedAt >= STABLE_UPTIME_MS;
+    entry.consecutiveFailures = ranStably ? 1 : entry.consecutiveFailures + 1;
+    entry.connectedAt = undefined;
+
+    const maxRestarts = this.options.maxRestarts ?? 5;
+    if (entry.consecutiveFailures > maxRestarts) {
+      log.error('MCP server keeps failing; giving up', { server: entry.name, restarts: maxRestarts });
+      entry.status = 'failed';
+      return;
+    }
+
+    const delay = Math.min(
+      RESTART_BASE_DELAY_MS * 2 ** (entry.consecutiveFailures - 1),
+      RESTART_MAX_DELAY_MS
+    );
+
+    entry.restartTimer = setTimeout(() => {
+      entry.restartTimer = undefined;
+      entry.restarts++;
+      this.startServer(entry).catch(() => undefined);
+    }, delay);
+    entry.restartTimer.unref?.();
+  }
+
+  /**
+   * Recompute the exposed tool names and their owning servers
+   */
+  private rebuildRoutes(): void {
+    const owners = new Map<string, string[]>();
+    for (const entry of this.entries.values()) {
+      for (const tool of entry.connection?.getTools() ?? []) {
+        owners.set(tool.name, [...(owners.get(tool.name) ?? []), entry.name]);
+      }
+    }
+
+    this.routes.clear();
+    for (const entry of this.entries.values()) {
+      for (const tool of entry.connection?.getTools() ?? []) {
+        const collides = (owners.get(tool.name)?.length ?? 0) > 1;
+        const exposedName = collides
+          ? `${entry.name}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`
+          : tool.name;
+
+        this.routes.set(exposedName, {
+          server: entry.name,
+          toolName: tool.name,
+          tool: { ...tool, name: exposedName },
+        });
+      }
+    }
+  }
+}
+
+export default MCPServerRegistry;
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { StdioTransport } from './stdio-transport';
+import { MCPError, MCPTimeoutError } from './transport';
+import type { JsonRpcNotification } from './transport';
+
+/**
+ * Runs the transport against a small MCP server in a child process. The
+ * server echoes `echo` params, fails `fail`, never answers `hang`, exits on
+ * `exit` and pings the client on `ping_me`, reporting the reply as a
+ * notification.
+ */
+const SERVER = `
+const readline = require('readline');
+const send = message => process.stdout.write(JSON.stringify(message) + '\\n');
+readline.createInterface({ input: process.stdin }).on('line', line => {
+  const message = JSON.parse(line);
+  if (!message.method) {
+    send({ jsonrpc: '2.0', method: 'notifications/pong', params: { reply: message } });
+    return;
+  }
+  if (!('id' in message)) {
+    send({ jsonrpc: '2.0', method: 'notifications/seen', params: { method: message.method, params: message.params } });
+    return;
+  }
+  switch (message.method) {
+    case 'echo':
+      console.log('not JSON-RPC');
+      console.error('echoing', message.id);
+      send({ jsonrpc: '2.0', method: 'notifications/progress', params: { id: message.id } });
+      send({ jsonrpc: '2.0', id: message.id, result: message.params });
+      break;
+    case 'fail':
+      send({ jsonrpc: '2.0', id: message.id, error: { code: -32602, message: 'Bad params', data: { field: 'to' } } });
+      break;
+    case 'ping_me':
+      send({ jsonrpc: '2.0', id: 'server-1', method: 'ping' });
+      send({ jsonrpc: '2.0', id: message.id, result: {} });
+      break;
+    case 'exit':
+      process.exit(3);
+    case 'hang':
+      break;
+  }
+});
+`;
+
+let transport: StdioTransport;
+
+async function start(timeout?: number): Promise<StdioTransport> {
+  transport = new StdioTransport({ command: 'node', args: ['-e', SERVER], timeout, logPrefix: 'stub' });
+  await transport.start();
+  return transport;
+}
+
+/** Resolve with the first notification named `method` */
+function nextNotification(method: string): Promise<JsonRpcNotification> {
+  return new Promise(resolve => transport.onNotification(notification => {
+    if (notification.method === method) resolve(notification);
+  }));
+}
+
+afterEach(async () => {
+  await transport?.close();
+});
+
+describe('StdioTransport', () => {
+  test('matches responses to requests and skips other output', async () => {
+    await start();
+    const progress = nextNotification('notifications/progress');
+
+    const results = await Promise.all([
+      transport.request('echo', { n: 1 }),
+      transport.request('echo', { n: 2 }),
+    ]);
+    expect(results).toEqual([{ n: 1 }, { n: 2 }]);
+    expect((await progress).params).toEqual({ id: 1 });
+  });
+
+  test('rejects with the JSON-RPC error of the server', async () => {
+    await start();
+    const error = await transport.request('fail').catch(error => error);
+    expect(error).toBeInstanceOf(MCPError);
+    expect(error).toMatchObject({ code: -32602, message: 'Bad params', data: { field: 'to' } });
+  });
+
+  test('sends notifications without waiting for an answer', async () => {
+    await start();
+    const seen = nextNotification('notifications/seen');
+    await transport.notify('notifications/initialized', { ready: true });
+    expect((await seen).params).toEqual({ method: 'notifications/initialized', params: { ready: true } });
+  });
+
+  test('answers a ping from the server', async () => {
+    await start();
+    const pong = nextNotification('notifications/pong');
+    await transport.request('ping_me');
+    expect((await pong).params).toEqual({ reply: { jsonrpc: '2.0', id: 'server-1', result: {} } });
+  });
+
+  test('times out requests the server never answers', async () => {
+    await start(200);
+    await expect(transport.request('hang')).rejects.toThrow(MCPTimeoutError);
+  });
+
+  test('cancels an aborted request and tells the server', async () => {
+    await start();
+    const seen = nextNotification('notifications/seen');
+    const controller = new AbortController();
+    const pending = transport.request('hang', {}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toThrow("Request 'hang' was cancelled");
+    expect((await seen).params).toEqual({
+      method: 'notifications/cancelled',
+      params: { requestId: 1, reason: 'Client deadline exceeded' },
+    });
+  });
+
+  test('fails pending requests and reports the exit when the process dies', async () => {
+    await start();
+    const closed = new Promise<Error | undefined>(resolve => transport.onClose(resolve));
+    const pending = transport.request('hang').catch(error => error);
+
+    await expect(transport.request('exit')).rejects.toThrow('Server process exited (code 3, signal none)');
+    expect(await pending).toMatchObject({ message: 'Server process exited (code 3, signal none)' });
+    expect(await closed).toBeInstanceOf(MCPError);
+    await expect(transport.request('echo')).rejects.toThrow('Server process is not running');
+  });
+
+  test('closes without an error', async () => {
+    await start();
+    const closed = new Promise<Error | undefined>(resolve => transport.onClose(resolve));
+    const pid = transport.pid;
+
+    await transport.close();
+    expect(pid).toBeNumber();
+    expect(await closed).toBeUndefined();
+    expect(transport.pid).toBeUndefined();
+  });
+});
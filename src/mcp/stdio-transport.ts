@@ -0,0 +1,239 @@
+import { spawn } from 'child_process';
+import type { ChildProcessWithoutNullStreams } from 'child_process';
+import * as readline from 'readline';
+import {
+  MCPError,
+  MCPTimeoutError,
+  isJsonRpcNotification,
+  isJsonRpcRequest,
+  isJsonRpcResponse,
+} from './transport';
+import type {
+  CloseHandler,
+  JsonRpcId,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  MCPTransport,
+  NotificationHandler,
+  RequestOptions,
+} from './transport';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('stdio-transport');
+
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  timeout?: number;
+  /** Prefix for lines the server writes to stderr */
+  logPrefix?: string;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  /** Detaches the abort listener, if any */
+  release?: () => void;
+}
+
+/**
+ * MCP stdio transport
+ * Launches the server as a child process and exchanges newline-delimited
+ * JSON-RPC messages over its stdin/stdout. stderr is passed through as logs.
+ */
+export class StdioTransport implements MCPTransport {
+  private options: StdioTransportOptions;
+  private child?: ChildProcessWithoutNullStreams;
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private handlers: NotificationHandler[] = [];
+  private closeHandlers: CloseHandler[] = [];
+  private closing = false;
+
+  constructor(options: StdioTransportOptions) {
+    this.options = options;
+  }
+
+  get pid(): number | undefined {
+    return this.child?.pid;
+  }
+
+  /**
+   * Spawn the server process
+   */
+  async start(): Promise<void> {
+    if (this.child) return;
+
+    const child = spawn(this.options.command, this.options.args ?? [], {
+      cwd: this.options.cwd,
+      env: { ...process.env, ...this.options.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+
+    const stdout = readline.createInterface({ input: child.stdout });
+    stdout.on('line', line => this.handleLine(line));
+
+    const stderr = readline.createInterface({ input: child.stderr });
+    const prefix = this.options.logPrefix ?? this.options.command;
+    stderr.on('line', line => log.info(line, { server: prefix, stream: 'stderr' }));
+
+    child.on('error', error => this.handleExit(error));
+    child.on('exit', (code, signal) => {
+      this.handleExit(
+        this.closing
+          ? undefined
+          : new MCPError(`Server process exited (code ${code ?? 'null'}, signal ${signal ?? 'none'})`)
+      );
+    });
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>,
+    options: RequestOptions = {}
+  ): Promise<unknown> {
+    const id = this.nextId++;
+    const { signal } = options;
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new MCPError(`Request '${method}' was cancelled`));
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        this.pending.get(id)?.release?.();
+        this.pending.delete(id);
+        reject(new MCPTimeoutError(method));
+      }, this.options.timeout ?? 30000);
+
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(new MCPError(`Request '${method}' was cancelled`));
+        // Let the server stop working on it
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Client deadline exceeded' }).catch(() => undefined);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const release = signal ? () => signal.removeEventListener('abort', onAbort) : undefined;
+
+      this.pending.set(id, { resolve, reject, timer, release });
+
+      try {
+        this.send({ jsonrpc: '2.0', id, method, params });
+      } catch (error) {
+        clearTimeout(timer);
+        release?.();
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  onNotification(handler: NotificationHandler): void {
+    this.handlers.push(handler);
+  }
+
+  onClose(handler: CloseHandler): void {
+    this.closeHandlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    const child = this.child;
+    if (!child || this.closing) return;
+    this.closing = true;
+
+    child.stdin.end();
+    const exited = new Promise<void>(resolve => child.once('exit', () => resolve()));
+    const killTimer = setTimeout(() => child.kill('SIGTERM'), 2000);
+    await exited;
+    clearTimeout(killTimer);
+  }
+
+  private send(message: JsonRpcMessage): void {
+    if (!this.child || this.child.exitCode !== null || this.closing) {
+      throw new MCPError('Server process is not running');
+    }
+    this.child.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) return;
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      // Servers occasionally print non-protocol output; ignore it
+      return;
+    }
+
+    if (isJsonRpcResponse(message)) {
+      this.resolvePending(message);
+    } else if (isJsonRpcRequest(message)) {
+      const reply: JsonRpcResponse = message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : {
+            jsonrpc: '2.0',
+            id: message.id,
+            error: { code: -32601, message: `Method not found: ${message.method}` },
+          };
+      try {
+        this.send(reply);
+      } catch {
+        // Process went away; nothing to reply to
+      }
+    } else if (isJsonRpcNotification(message)) {
+      for (const handler of this.handlers) {
+        handler(message);
+      }
+    }
+  }
+
+  private resolvePending(message: JsonRpcResponse): void {
+    if (message.id === null) return;
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    pending.release?.();
+    this.pending.delete(message.id);
+
+    if (message.error) {
+      pending.reject(new MCPError(message.error.message, message.error.code, message.error.data));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private handleExit(error?: Error): void {
+    if (!this.child) return;
+    this.child = undefined;
+
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.release?.();
+      pending.reject(error ?? new MCPError('Server process closed'));
+      this.pending.delete(id);
+    }
+
+    for (const handler of this.closeHandlers) {
+      handler(error);
+    }
+  }
+}
+
+export default StdioTransport;
@@ -0,0 +1,38 @@
+import type { MCPTool } from './mcp-client';
+
+/**
+ * Side-effect classification for MCP tools
+ *
+ * MCP servers may describe tools with annotations:
+ * - `readOnlyHint: true`     the tool does not modify its environment
+ * - `destructiveHint: false` the tool only performs additive updates
+ * When annotations are missing we fall back to the tool name.
+ *
+ * Reference: https://modelcontextprotocol.io/specification/2025-03-26/server/tools#tool-annotations
+ */
+
+export type ToolSafety = 'read-only' | 'destructive';
+
+const READ_ONLY_PREFIXES = [
+  'get', 'list', 'search', 'find', 'fetch', 'read', 'lookup', 'query', 'describe', 'check',
+];
+
+function nameLooksReadOnly(name: string): boolean {
+  // Namespaced tools (`server__tool`) are judged by the tool part
+  const baseName = name.split('__').pop() ?? name;
+  const firstWord = baseName.split(/[_\-.]|(?=[A-Z])/)[0]?.toLowerCase() ?? '';
+  return READ_ONLY_PREFIXES.includes(firstWord);
+}
+
+export function classifyTool(tool: MCPTool): ToolSafety {
+  const annotations = tool.annotations ?? {};
+
+  if (annotations.readOnlyHint === true) return 'read-only';
+  if (annotations.readOnlyHint === false) return 'destructive';
+
+  return nameLooksReadOnly(tool.name) ? 'read-only' : 'destructive';
+}
+
+export function isReadOnlyTool(tool: MCPTool): boolean {
+  return classifyTool(tool) === 'read-only';
+}
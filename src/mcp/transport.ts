@@ -0,0 +1,116 @@
+/**
+ * JSON-RPC 2.0 message types and the transport contract used by MCP connections
+ *
+ * References:
+ * - JSON-RPC 2.0: https://www.jsonrpc.org/specification
+ * - MCP Transports: https://modelcontextprotocol.io/specification/2025-03-26/basic/transports
+ */
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+export type NotificationHandler = (notification: JsonRpcNotification) => void;
+
+export type CloseHandler = (error?: Error) => void;
+
+/**
+ * Error returned by an MCP server (JSON-RPC error object) or raised by a transport
+ */
+export class MCPError extends Error {
+  code: number;
+  data?: unknown;
+
+  constructor(message: string, code: number = -32603, data?: unknown) {
+    super(message);
+    this.name = 'MCPError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/** Code of MCPTimeoutError */
+export const MCP_REQUEST_TIMEOUT = -32001;
+
+/** Code of SessionExpiredError */
+export const MCP_SESSION_EXPIRED = -32002;
+
+/**
+ * A request got no answer within the transport's timeout; worth retrying
+ */
+export class MCPTimeoutError extends MCPError {
+  constructor(method: string) {
+    super(`Request '${method}' timed out`, MCP_REQUEST_TIMEOUT);
+    this.name = 'MCPTimeoutError';
+  }
+}
+
+/**
+ * The server no longer knows our session. Callers only see it once starting
+ * a new session failed too, so it is not worth retrying: the transport closes
+ * and its owner reconnects.
+ */
+export class SessionExpiredError extends MCPError {
+  constructor() {
+    super('MCP session expired', MCP_SESSION_EXPIRED);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+export interface RequestOptions {
+  /** Abandon the request when aborted; the server is sent `notifications/cancelled` */
+  signal?: AbortSignal;
+}
+
+/**
+ * A bidirectional channel to a single MCP server
+ */
+export interface MCPTransport {
+  /** Send a request and resolve with its `result` (rejects with MCPError) */
+  request(method: string, params?: Record<string, unknown>, options?: RequestOptions): Promise<unknown>;
+  /** Send a notification (no response expected) */
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  /** Register a handler for server-initiated notifications */
+  onNotification(handler: NotificationHandler): void;
+  /** Register a handler for when the channel goes away (process exit, close()) */
+  onClose(handler: CloseHandler): void;
+  close(): Promise<void>;
+}
+
+export function isJsonRpcResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+  return 'id' in message && !('method' in message);
+}
+
+export function isJsonRpcNotification(message: JsonRpcMessage): message is JsonRpcNotification {
+  return 'method' in message && !('id' in message);
+}
+
+export function isJsonRpcRequest(message: JsonRpcMessage): message is JsonRpcRequest {
+  return 'method' in message && 'id' in message;
+}
@@ -0,0 +1,109 @@
+import type { AudioFormat } from './audio-format';
+import { isMpegFrameHeader } from './audio-format';
+import { encodeWav, isPcm16, parseWav } from './wav';
+import type { WavInfo } from './wav';
+
+/** OpenAI's transcription endpoint rejects uploads over 25 MB */
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const WAV_HEADER_BYTES = 44;
+
+/**
+ * Split a recording into pieces no larger than `maxBytes`, each of which is
+ * a valid file of the same format. Only WAV and MP3 can be cut without
+ * re-encoding; other formats must already fit.
+ */
+export function splitAudio(
+  audio: Buffer,
+  format: AudioFormat,
+  maxBytes: number = MAX_UPLOAD_BYTES
+): Buffer[] {
+  if (audio.length <= maxBytes) return [audio];
+
+  switch (format.id) {
+    case 'wav':
+      return splitWav(parseWav(audio), maxBytes);
+    case 'mp3':
+      return splitMp3(audio, maxBytes);
+    default: {
+      const limit = Math.floor(maxBytes / (1024 * 1024));
+      throw new Error(
+        `${format.id.toUpperCase()} recordings over ${limit} MB cannot be split; convert to WAV or MP3 first`
+      );
+    }
+  }
+}
+
+/**
+ * Cut WAV audio into chunks, preferring the quietest moment near each cut
+ * so words are not split in half
+ */
+export function splitWav(wav: WavInfo, maxBytes: number = MAX_UPLOAD_BYTES): Buffer[] {
+  const blockAlign = wav.channels * (wav.bitsPerSample / 8);
+  const maxData = Math.floor((maxBytes - WAV_HEADER_BYTES) / blockAlign) * blockAlign;
+  if (maxData <= 0) {
+    throw new Error(`Chunk size ${maxBytes} is too small for WAV audio`);
+  }
+
+  const chunks: Buffer[] = [];
+  let start = 0;
+  while (start < wav.data.length) {
+    let end = Math.min(start + maxData, wav.data.length);
+    if (end < wav.data.length && isPcm16(wav)) {
+      end = quietestCut(wav, start, end);
+    }
+    chunks.push(encodeWav(wav.data.subarray(start, end), wav.sampleRate, wav.channels, wav.bitsPerSample));
+    start = end;
+  }
+  return chunks;
+}
+
+/**
+ * Find the lowest-energy 20ms window in the last tenth of [start, end)
+ * and return its start as the cut point
+ */
+function quietestCut(wav: WavInfo, start: number, end: number): number {
+  const blockAlign = wav.channels * 2;
+  const window = Math.max(1, Math.floor(wav.sampleRate / 50)) * blockAlign;
+  const searchFrom = end - Math.floor((end - start) / 10 / blockAlign) * blockAlign;
+
+  let best = end;
+  let bestEnergy = Infinity;
+  for (let offset = searchFrom; offset + window <= end; offset += window) {
+    let energy = 0;
+    for (let i = offset; i < offset + window; i += 2) {
+      const sample = wav.data.readInt16LE(i);
+      energy += sample * sample;
+    }
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = offset;
+    }
+  }
+  // Guard against a degenerate cut that would produce an empty chunk
+  return best > start ? best : end;
+}
+
+/**
+ * Cut an MP3 stream on frame boundaries. A leading ID3v2 tag stays with
+ * the first chunk; decoders resynchronise on the frame header of the rest.
+ */
+export function splitMp3(audio: Buffer, maxBytes: number = MAX_UPLOAD_BYTES): Buffer[] {
+  const chunks: Buffer[] = [];
+  let start = 0;
+
+  while (start < audio.length) {
+    let end = Math.min(start + maxBytes, audio.length);
+    if (end < audio.length) {
+      let cut = end;
+      while (cut > start && !isMpegFrameHeader(audio, cut)) {
+        cut--;
+      }
+      // No frame header in range (corrupt data): fall back to a hard cut
+      if (cut > start) end = cut;
+    }
+    chunks.push(audio.subarray(start, end));
+    start = end;
+  }
+  return chunks;
+}
@@ -0,0 +1,71 @@
+/**
+ * Audio container detection by magic bytes
+ * File extensions are unreliable (recorders happily write Opus into `.wav`),
+ * so uploads are labelled from their contents instead.
+ */
+
+export type AudioFormatId = 'wav' | 'webm' | 'mp3' | 'ogg' | 'flac' | 'm4a';
+
+export interface AudioFormat {
+  id: AudioFormatId;
+  mimeType: string;
+  extension: string;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormatId, AudioFormat> = {
+  wav: { id: 'wav', mimeType: 'audio/wav', extension: 'wav' },
+  webm: { id: 'webm', mimeType: 'audio/webm', extension: 'webm' },
+  mp3: { id: 'mp3', mimeType: 'audio/mpeg', extension: 'mp3' },
+  ogg: { id: 'ogg', mimeType: 'audio/ogg', extension: 'ogg' },
+  flac: { id: 'flac', mimeType: 'audio/flac', extension: 'flac' },
+  m4a: { id: 'm4a', mimeType: 'audio/mp4', extension: 'm4a' },
+};
+
+/** File extensions that are treated as audio when choosing an input mode */
+export const AUDIO_EXTENSIONS = ['.wav', '.webm', '.mp3', '.ogg', '.oga', '.opus', '.flac', '.m4a', '.mp4'];
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.length >= end ? buffer.toString('ascii', start, end) : '';
+}
+
+/**
+ * Whether the bytes start an MPEG audio frame (layer I-III; excludes AAC ADTS)
+ */
+export function isMpegFrameHeader(buffer: Buffer, offset: number = 0): boolean {
+  if (offset + 4 > buffer.length) return false;
+  const b1 = buffer[offset + 1];
+  const b2 = buffer[offset + 2];
+  return buffer[offset] === 0xff &&
+    (b1 & 0xe0) === 0xe0 &&
+    ((b1 >> 3) & 0x03) !== 0x01 && // reserved version
+    ((b1 >> 1) & 0x03) !== 0x00 && // layer 0 is ADTS
+    (b2 >> 4) !== 0x0f && // bad bitrate index
+    ((b2 >> 2) & 0x03) !== 0x03; // reserved sample rate
+}
+
+/**
+ * Identify the audio container, or undefined when the data is not a
+ * recognised audio format
+ */
+export function detectAudioFormat(buffer: Buffer): AudioFormat | undefined {
+  if (ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WAVE') {
+    return AUDIO_FORMATS.wav;
+  }
+  if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x1a45dfa3) {
+    // EBML header: WebM or Matroska, both accepted as audio/webm
+    return AUDIO_FORMATS.webm;
+  }
+  if (ascii(buffer, 0, 4) === 'OggS') {
+    return AUDIO_FORMATS.ogg;
+  }
+  if (ascii(buffer, 0, 4) === 'fLaC') {
+    return AUDIO_FORMATS.flac;
+  }
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    return AUDIO_FORMATS.m4a;
+  }
+  if (ascii(buffer, 0, 3) === 'ID3' || isMpegFrameHeader(buffer)) {
+    return AUDIO_FORMATS.mp3;
+  }
+  return undefined;
+}
@@ -0,0 +1,53 @@
+import type { SpeechToText, TextToSpeech } from '../speech-provider';
+import type { AudioFormat } from '../audio-format';
+import { digest } from '../../lib/cassette';
+import type { Cassette } from '../../lib/cassette';
+
+/**
+ * Records transcriptions, or replays them without running the provider
+ * Audio is matched by digest so cassettes stay small.
+ */
+export class CassetteSpeechToText implements SpeechToText {
+  readonly name: string;
+  private inner: SpeechToText;
+  private cassette: Cassette;
+
+  constructor(inner: SpeechToText, cassette: Cassette) {
+    this.inner = inner;
+    this.cassette = cassette;
+    this.name = inner.name;
+  }
+
+  transcribe(audio: Buffer): Promise<string> {
+    return this.cassette.intercept(
+      'transcription',
+      { provider: this.inner.name, audio: digest(audio) },
+      () => this.inner.transcribe(audio)
+    );
+  }
+}
+
+/**
+ * Records synthesized speech, or replays it without running the provider
+ */
+export class CassetteTextToSpeech implements TextToSpeech {
+  readonly name: string;
+  readonly format: AudioFormat;
+  private inner: TextToSpeech;
+  private cassette: Cassette;
+
+  constructor(inner: TextToSpeech, cassette: Cassette) {
+    this.inner = inner;
+    this.cassette = cassette;
+    this.name = inner.name;
+    this.format = inner.format;
+  }
+
+  synthesize(text: string): Promise<Buffer> {
+    return this.cassette.intercept(
+      'speech',
+      { provider: this.inner.name, text },
+      () => this.inner.synthesize(text)
+    );
+  }
+}
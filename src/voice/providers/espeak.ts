@@ -0,0 +1,33 @@
+import type { TextToSpeech } from '../speech-provider';
+import { AUDIO_FORMATS } from '../audio-format';
+import { runProcess } from './subprocess';
+
+export interface EspeakOptions {
+  /** espeak binary (default: espeak-ng) */
+  binary?: string;
+  /** Voice or language name, e.g. en-us (default: en) */
+  voice?: string;
+}
+
+/**
+ * Offline formant speech synthesis with espeak-ng; returns WAV
+ * Robotic, but tiny and available in every distribution.
+ */
+export class EspeakTextToSpeech implements TextToSpeech {
+  readonly name = 'espeak';
+  readonly format = AUDIO_FORMATS.wav;
+  private options: EspeakOptions;
+
+  constructor(options: EspeakOptions = {}) {
+    this.options = options;
+  }
+
+  async synthesize(text: string): Promise<Buffer> {
+    const { stdout } = await runProcess(
+      this.options.binary || 'espeak-ng',
+      ['--stdout', '-v', this.options.voice || 'en'],
+      text
+    );
+    return stdout;
+  }
+}
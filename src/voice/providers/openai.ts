@@ -0,0 +1,89 @@
+import { OpenAI, toFile } from 'openai';
+import type { SpeechToText, TextToSpeech } from '../speech-provider';
+import { AUDIO_FORMATS, detectAudioFormat } from '../audio-format';
+import { splitAudio } from '../audio-chunks';
+
+export interface OpenAISpeechOptions {
+  apiKey?: string;
+  baseURL?: string;
+  /** Transcription model (default: whisper-1) */
+  transcriptionModel?: string;
+  /** Speech model (default: tts-1) */
+  speechModel?: string;
+  /** Voice for speech (default: alloy) */
+  voice?: string;
+  language?: string;
+}
+
+function createClient(options: OpenAISpeechOptions): OpenAI {
+  return new OpenAI({
+    apiKey: options.apiKey || process.env.OPENAI_API_KEY,
+    baseURL: options.baseURL,
+  });
+}
+
+/**
+ * Transcription through the OpenAI audio API
+ */
+export class OpenAISpeechToText implements SpeechToText {
+  readonly name = 'openai';
+  private openai: OpenAI;
+  private options: OpenAISpeechOptions;
+
+  constructor(options: OpenAISpeechOptions = {}) {
+    this.openai = createClient(options);
+    this.options = options;
+  }
+
+  /**
+   * Recordings over the upload limit are split and the partial transcripts
+   * stitched together, each piece prompted with the end of the previous one
+   * so sentences carry across the cut.
+   */
+  async transcribe(audio: Buffer): Promise<string> {
+    const format = detectAudioFormat(audio);
+    if (!format) {
+      throw new Error('Unrecognised audio format (expected WAV, WebM, MP3, OGG, FLAC or M4A)');
+    }
+
+    const transcripts: string[] = [];
+    for (const chunk of splitAudio(audio, format)) {
+      const previous = transcripts.join(' ');
+      const transcript = await this.openai.audio.transcriptions.create({
+        file: await toFile(chunk, `audio.${format.extension}`, { type: format.mimeType }),
+        model: this.options.transcriptionModel || 'whisper-1',
+        language: this.options.language || 'en',
+        prompt: previous ? previous.slice(-200) : undefined,
+      });
+      const text = transcript.text.trim();
+      if (text) transcripts.push(text);
+    }
+
+    return transcripts.join(' ');
+  }
+}
+
+/**
+ * Speech synthesis through the OpenAI audio API; returns MP3
+ */
+export class OpenAITextToSpeech implements TextToSpeech {
+  readonly name = 'openai';
+  readonly format = AUDIO_FORMATS.mp3;
+  private openai: OpenAI;
+  private options: OpenAISpeechOptions;
+
+  constructor(options: OpenAISpeechOptions = {}) {
+    this.openai = createClient(options);
+    this.options = options;
+  }
+
+  async synthesize(text: string): Promise<Buffer> {
+    const mp3 = await this.openai.audio.speech.create({
+      model: this.options.speechModel || 'tts-1',
+      voice: this.options.voice || 'alloy',
+      input: text,
+      response_format: 'mp3',
+    });
+    return Buffer.from(await mp3.arrayBuffer());
+  }
+}
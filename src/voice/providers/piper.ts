@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { TextToSpeech } from '../speech-provider';
+import { AUDIO_FORMATS } from '../audio-format';
+import { runProcess } from './subprocess';
+
+export interface PiperOptions {
+  /** Piper binary (default: piper) */
+  binary?: string;
+  /** Path to a Piper voice model (.onnx, with its .onnx.json alongside) */
+  model?: string;
+}
+
+/**
+ * Offline neural speech synthesis with Piper; returns WAV
+ */
+export class PiperTextToSpeech implements TextToSpeech {
+  readonly name = 'piper';
+  readonly format = AUDIO_FORMATS.wav;
+  private options: PiperOptions;
+
+  constructor(options: PiperOptions = {}) {
+    if (!options.model) {
+      throw new Error('Piper needs a voice model path (PIPER_MODEL)');
+    }
+    this.options = options;
+  }
+
+  async synthesize(text: string): Promise<Buffer> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rube-piper-'));
+    const output = path.join(dir, 'speech.wav');
+
+    try {
+      await runProcess(
+        this.options.binary || 'piper',
+        ['--model', this.options.model!, '--output_file', output],
+        text
+      );
+      return await fs.promises.readFile(output);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { spawn } from 'child_process';
+
+export interface ProcessOutput {
+  stdout: Buffer;
+  stderr: string;
+}
+
+/**
+ * Run a local speech engine to completion, feeding `input` on stdin
+ * Rejects with the tail of stderr when the process exits non-zero, and with
+ * a readable message when the binary is not installed.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  input?: Buffer | string,
+  timeout: number = 120000
+): Promise<ProcessOutput> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+
+    const timer = setTimeout(() => {
+      child.kill('SIGKILL');
+      reject(new Error(`${command} timed out after ${timeout}ms`));
+    }, timeout);
+
+    child.stdout.on('data', chunk => stdout.push(chunk));
+    child.stderr.on('data', chunk => stderr.push(chunk));
+
+    child.on('error', error => {
+      clearTimeout(timer);
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new Error(`${command} not found; install it or set its path in the speech config`));
+      } else {
+        reject(error);
+      }
+    });
+
+    child.on('close', code => {
+      clearTimeout(timer);
+      const errorOutput = Buffer.concat(stderr).toString('utf-8');
+      if (code !== 0) {
+        const detail = errorOutput.trim().split('\n').slice(-5).join('\n');
+        reject(new Error(`${command} exited with code ${code}${detail ? `:\n${detail}` : ''}`));
+        return;
+      }
+      resolve({ stdout: Buffer.concat(stdout), stderr: errorOutput });
+    });
+
+    // Engines that do not read stdin may close it early
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
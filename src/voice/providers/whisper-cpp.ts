@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { SpeechToText } from '../speech-provider';
+import { detectAudioFormat } from '../audio-format';
+import { encodeWav, isPcm16, parseWav, toMonoPcm16 } from '../wav';
+import { runProcess } from './subprocess';
+
+/** whisper.cpp only accepts 16kHz mono 16-bit WAV */
+const WHISPER_SAMPLE_RATE = 16000;
+
+export interface WhisperCppOptions {
+  /** whisper.cpp CLI binary (default: whisper-cli) */
+  binary?: string;
+  /** Path to a ggml model file */
+  model?: string;
+  threads?: number;
+  language?: string;
+  /** ffmpeg binary for converting non-WAV input (default: ffmpeg) */
+  ffmpeg?: string;
+}
+
+/**
+ * Offline transcription with a local whisper.cpp build
+ */
+export class WhisperCppSpeechToText implements SpeechToText {
+  readonly name = 'whisper-cpp';
+  private options: WhisperCppOptions;
+
+  constructor(options: WhisperCppOptions = {}) {
+    if (!options.model) {
+      throw new Error('whisper.cpp needs a model path (WHISPER_CPP_MODEL)');
+    }
+    this.options = options;
+  }
+
+  async transcribe(audio: Buffer): Promise<string> {
+    const wav = await this.toWhisperWav(audio);
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'rube-whisper-'));
+    const input = path.join(dir, 'input.wav');
+
+    try {
+      await fs.promises.writeFile(input, wav);
+      const args = [
+        '-m', this.options.model!,
+        '-f', input,
+        '-l', this.options.language || 'en',
+        '--no-timestamps',
+        '--no-prints',
+      ];
+      if (this.options.threads) {
+        args.push('-t', String(this.options.threads));
+      }
+
+      const { stdout } = await runProcess(this.options.binary || 'whisper-cli', args);
+      return stdout
+        .toString('utf-8')
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .join(' ');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Resample PCM WAV in-process; anything else goes through ffmpeg
+   */
+  private async toWhisperWav(audio: Buffer): Promise<Buffer> {
+    const format = detectAudioFormat(audio);
+    if (!format) {
+      throw new Error('Unrecognised audio format (expected WAV, WebM, MP3, OGG, FLAC or M4A)');
+    }
+
+    if (format.id === 'wav') {
+      const info = parseWav(audio);
+      if (isPcm16(info)) {
+        if (info.channels === 1 && info.sampleRate === WHISPER_SAMPLE_RATE) return audio;
+        return encodeWav(toMonoPcm16(info, WHISPER_SAMPLE_RATE), WHISPER_SAMPLE_RATE);
+      }
+    }
+
+    const { stdout } = await runProcess(
+      this.options.ffmpeg || 'ffmpeg',
+      ['-hide_banner', '-loglevel', 'error', '-i', 'pipe:0', '-ar', String(WHISPER_SAMPLE_RATE), '-ac', '1', '-c:a', 'pcm_s16le', '-f', 'wav', 'pipe:1'],
+      audio
+    );
+    return stdout;
+  }
+}
@@ -1,8 +1,18 @@
-import { OpenAI } from 'openai';
 import * as fs from 'fs';
-import * as path from 'path';
+import { RealtimeSession, REALTIME_SAMPLE_RATE } from './realtime-session';
+import type { RealtimeSessionOptions } from './realtime-session';
+import { encodeWav } from './wav';
+import type { AudioFormat } from './audio-format';
+import { createSpeechToText, createTextToSpeech } from './speech-provider';
+import type { SpeechConfig, SpeechToText, TextToSpeech } from './speech-provider';
+import { CassetteSpeechToText, CassetteTextToSpeech } from './providers/cassette';
+import type { Cassette } from '../lib/cassette';
+import { createLogger } from '../lib/logger';
+import { withSpan } from '../lib/tracing';
 
-const SAMPLE_RATE = 24000;
+const SAMPLE_RATE = REALTIME_SAMPLE_RATE;
+
+const log = createLogger('voice');
 
 export interface VoiceInput {
   text: string;
@@ -14,48 +24,89 @@ export interface VoiceOutput {
   audioData?: Buffer;
 }
 
+/**
+ * Callbacks for progress during a realtime interaction
+ */
+export interface RealtimeInteractionHandlers {
+  onTranscriptDelta?: (delta: string) => void;
+  onUserTurn?: (text: string) => void;
+  /** PCM16 audio at 24kHz, delivered as soon as it is synthesized */
+  onAudio?: (audio: Buffer) => void;
+  onResponseTranscriptDelta?: (delta: string) => void;
+  /** The user spoke over the response; stop local playback */
+  onInterrupted?: () => void;
+}
+
+export type RealtimeInteractionOptions = Omit<RealtimeSessionOptions, 'apiKey'> & {
+  /** Give up when no turn completes within this many ms (default: 60000) */
+  turnTimeout?: number;
+};
+
 export class RealtimeVoiceClient {
-  private openai: OpenAI;
+  private apiKey: string;
+  private stt: SpeechToText;
+  private tts: TextToSpeech;
+
+  /**
+   * @param speech Provider selection; defaults to OpenAI for both directions
+   * @param cassette Record speech calls, or replay them instead of running the providers
+   */
+  constructor(apiKey: string, speech: SpeechConfig = {}, cassette?: Cassette) {
+    this.apiKey = apiKey;
+    const openai = { ...speech.openai, apiKey: speech.openai?.apiKey || apiKey };
+    this.stt = createSpeechToText({ ...speech, openai });
+    this.tts = createTextToSpeech({ ...speech, openai });
+
+    if (cassette) {
+      this.stt = new CassetteSpeechToText(this.stt, cassette);
+      this.tts = new CassetteTextToSpeech(this.tts, cassette);
+    }
+  }
+
+  /** Container format of audio returned by `generateSpeech` */
+  get speechFormat(): AudioFormat {
+    return this.tts.format;
+  }
+
+  /** Names of the active speech-to-text and text-to-speech providers */
+  get providers(): { stt: string; tts: string } {
+    return { stt: this.stt.name, tts: this.tts.name };
+  }
 
-  constructor(apiKey: string) {
-    this.openai = new OpenAI({ apiKey });
+  /**
+   * Open a Realtime WebSocket session with this client's credentials
+   */
+  createRealtimeSession(options: Omit<RealtimeSessionOptions, 'apiKey'> = {}): RealtimeSession {
+    return new RealtimeSession({ ...options, apiKey: this.apiKey });
   }
 
   /**
    * Process audio input and get text transcription
-   * Using OpenAI Realtime API for streaming speech-to-text
    */
   async processAudioInput(audioPath: string): Promise<string> {
     try {
-      const audioBuffer = fs.readFileSync(audioPath);
-
-      // Use OpenAI Whisper for transcription
-      // Note: In production, this would use the Realtime API for streaming
-      const transcript = await this.openai.audio.transcriptions.create({
-        file: new File([audioBuffer], 'audio.webm', { type: 'audio/webm' }),
-        model: 'whisper-1',
-        language: 'en',
-      });
-
-      return transcript.text;
+      return await this.transcribeAudio(fs.readFileSync(audioPath));
     } catch (error) {
-      console.error('Error processing audio:', error);
+      log.error('Error processing audio', { file: audioPath, error });
       throw error;
     }
   }
 
   /**
-   * Generate speech from text using OpenAI TTS
+   * Transcribe a recording in any supported container format
+   */
+  async transcribeAudio(audio: Buffer): Promise<string> {
+    return withSpan('transcribe', { provider: this.stt.name, bytes: audio.length }, () => this.stt.transcribe(audio));
+  }
+
+  /**
+   * Generate speech from text with the configured TTS provider
    */
   async generateSpeech(text: string, outputPath?: string): Promise<Buffer> {
     try {
-      const mp3 = await this.openai.audio.speech.create({
-        model: 'tts-1',
-        voice: 'alloy',
-        input: text,
-      });
-
-      const buffer = Buffer.from(await mp3.arrayBuffer());
+      const buffer = await withSpan('tts', { provider: this.tts.name, characters: text.length }, () =>
+        this.tts.synthesize(text)
+      );
 
       if (outputPath) {
         fs.writeFileSync(outputPath, buffer);
@@ -63,7 +114,7 @@ export class RealtimeVoiceClient {
 
       return buffer;
     } catch (error) {
-      console.error('Error generating speech:', error);
+      log.error('Error generating speech', { error });
       throw error;
     }
   }
@@ -80,11 +131,11 @@ export class RealtimeVoiceClient {
   ): Promise<VoiceOutput> {
     // Step 1: Transcribe audio input
     const userText = await this.processAudioInput(audioPath);
-    console.log(`User said: "${userText}"`);
+    log.info('User said', { text: userText });
 
     // Step 2: Send to agent for processing
     const agentResponse = await agentHandler(userText);
-    console.log(`Agent response: "${agentResponse}"`);
+    log.info('Agent response', { text: agentResponse });
 
     // Step 3: Generate speech output
     const audioData = await this.generateSpeech(agentResponse);
@@ -94,6 +145,122 @@ export class RealtimeVoiceClient {
       audioData,
     };
   }
+
+  /**
+   * Streaming voice interaction over the Realtime API:
+   * 1. Stream PCM16 (24kHz mono) audio up while the server transcribes it
+   * 2. Hand each completed user turn to the agent
+   * 3. Stream the spoken answer back, cancelling it if the user barges in
+   *
+   * Resolves once the input has ended and every turn has been answered.
+   * The returned audio is the concatenated response audio as a WAV file.
+   */
+  async realtimeInteraction(
+    audio: AsyncIterable<Buffer>,
+    agentHandler: (text: string) => Promise<string>,
+    handlers: RealtimeInteractionHandlers = {},
+    options: RealtimeInteractionOptions = {}
+  ): Promise<VoiceOutput> {
+    const session = this.createRealtimeSession(options);
+    const responses: string[] = [];
+    const audioChunks: Buffer[] = [];
+    const turnTimeout = options.turnTimeout ?? 60000;
+
+    let speaking = false;
+    let detectedTurns = 0;
+    let pendingTranscripts = 0;
+    let turns: Promise<void> = Promise.resolve();
+    let failure: Error | undefined;
+    let wake: () => void = () => {};
+
+    const speak = (text: string) => new Promise<void>(resolve => {
+      const finish = () => {
+        session.off('response.done', finish);
+        session.off('interrupted', finish);
+        session.off('close', finish);
+        resolve();
+      };
+      session.on('response.done', finish);
+      session.on('interrupted', finish);
+      session.on('close', finish);
+      session.say(text);
+    });
+
+    session.on('error', error => {
+      failure = error;
+      wake();
+    });
+    session.on('speech.started', () => { speaking = true; });
+    session.on('speech.stopped', () => {
+      speaking = false;
+      detectedTurns++;
+      pendingTranscripts++;
+    });
+    session.on('transcript.delta', delta => handlers.onTranscriptDelta?.(delta));
+    session.on('transcript.completed', transcript => {
+      pendingTranscripts = Math.max(0, pendingTranscripts - 1);
+      const text = transcript.trim();
+      if (text) {
+        handlers.onUserTurn?.(text);
+        turns = turns.then(async () => {
+          const response = await agentHandler(text);
+          responses.push(response);
+          if (session.connected) await speak(response);
+        }).catch(error => {
+          failure = error as Error;
+        });
+      }
+      turns.then(() => wake());
+    });
+    session.on('audio.delta', chunk => {
+      audioChunks.push(chunk);
+      handlers.onAudio?.(chunk);
+    });
+    session.on('response.transcript.delta', delta => handlers.onResponseTranscriptDelta?.(delta));
+    session.on('interrupted', () => handlers.onInterrupted?.());
+
+    await session.connect();
+
+    try {
+      let streamedBytes = 0;
+      for await (const chunk of audio) {
+        if (failure) throw failure;
+        session.appendAudio(chunk);
+        streamedBytes += chunk.length;
+      }
+
+      // Flush speech the server has not closed off yet (or everything, when VAD never fired)
+      if (streamedBytes > 0 && (speaking || detectedTurns === 0)) {
+        session.commitAudio();
+        speaking = false;
+        pendingTranscripts++;
+      }
+
+      // Wait for outstanding transcripts and answers
+      const deadline = Date.now() + turnTimeout;
+      while (pendingTranscripts > 0 && !failure) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new Error('Timed out waiting for the realtime transcript');
+        }
+        await new Promise<void>(resolve => {
+          wake = resolve;
+          setTimeout(resolve, Math.min(remaining, 250));
+        });
+      }
+      await turns;
+      if (failure) throw failure;
+    } finally {
+      session.close();
+    }
+
+    return {
+      text: responses.join('\n'),
+      audioData: audioChunks.length > 0
+        ? encodeWav(Buffer.concat(audioChunks), SAMPLE_RATE)
+        : undefined,
+    };
+  }
 }
 
 export default RealtimeVoiceClient;
@@ -0,0 +1,248 @@
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import type {
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+} from 'openai/resources/realtime/realtime';
+
+/** Realtime audio is 16-bit mono PCM at 24kHz in both directions */
+export const REALTIME_SAMPLE_RATE = 24000;
+
+const BYTES_PER_MS = (REALTIME_SAMPLE_RATE * 2) / 1000;
+
+export interface RealtimeSessionOptions {
+  apiKey: string;
+  /** Realtime model (default: gpt-realtime) */
+  model?: string;
+  /** Full WebSocket URL; overrides the model-derived default, e.g. for a local stand-in */
+  url?: string;
+  /** Model used for input transcription (default: gpt-4o-mini-transcribe) */
+  transcriptionModel?: string;
+  voice?: string;
+  /** Let the server detect the end of each user turn (default: true) */
+  serverVad?: boolean;
+  /** Cancel the assistant's response when the user starts speaking over it (default: true) */
+  bargeIn?: boolean;
+  connectTimeout?: number;
+}
+
+/**
+ * Events emitted by a RealtimeSession
+ */
+export interface RealtimeSessionEvents {
+  'speech.started': [];
+  'speech.stopped': [];
+  /** Partial transcript of the user's speech */
+  'transcript.delta': [delta: string];
+  /** Final transcript of one user turn */
+  'transcript.completed': [transcript: string];
+  /** PCM16 audio of the assistant's response */
+  'audio.delta': [audio: Buffer];
+  'response.transcript.delta': [delta: string];
+  'response.done': [status: string];
+  /** The user barged in; `playedMs` is how much response audio had been received */
+  'interrupted': [playedMs: number];
+  'error': [error: Error];
+  'close': [];
+}
+
+/**
+ * Client for the Realtime WebSocket event protocol
+ * Streams microphone audio up and response audio down over a single
+ * connection, so transcription and speech start while the user is still
+ * talking instead of after a whole file has been uploaded.
+ */
+export class RealtimeSession extends EventEmitter<RealtimeSessionEvents> {
+  private options: RealtimeSessionOptions;
+  private socket?: WebSocket;
+  private activeResponseId?: string;
+  private responseAudioBytes = 0;
+
+  constructor(options: RealtimeSessionOptions) {
+    super();
+    this.options = options;
+  }
+
+  get connected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /** Whether the assistant is currently producing a response */
+  get responding(): boolean {
+    return this.activeResponseId !== undefined;
+  }
+
+  /**
+   * Open the socket and configure the session
+   */
+  async connect(): Promise<void> {
+    const model = this.options.model || 'gpt-realtime';
+    const url = this.options.url ||
+      process.env.OPENAI_REALTIME_URL ||
+      `wss://api.openai.com/v1/realtime?model=${encodeURIComponent(model)}`;
+
+    const socket = new WebSocket(url, {
+      headers: { Authorization: `Bearer ${this.options.apiKey}` },
+      handshakeTimeout: this.options.connectTimeout ?? 10000,
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once('open', () => resolve());
+      socket.once('error', reject);
+    });
+
+    this.socket = socket;
+    socket.on('message', data => this.handleMessage(data.toString()));
+    socket.on('error', error => this.emit('error', error));
+    socket.on('close', () => {
+      this.socket = undefined;
+      this.activeResponseId = undefined;
+      this.emit('close');
+    });
+
+    this.send({
+      type: 'session.update',
+      session: {
+        type: 'realtime',
+        model,
+        output_modalities: ['audio'],
+        audio: {
+          input: {
+            format: { type: 'audio/pcm', rate: REALTIME_SAMPLE_RATE },
+            transcription: { model: this.options.transcriptionModel || 'gpt-4o-mini-transcribe' },
+            // Responses are produced by the agent, so VAD only marks turn boundaries
+            turn_detection: this.options.serverVad === false ? null : {
+              type: 'server_vad',
+              create_response: false,
+              interrupt_response: false,
+            },
+          },
+          output: {
+            format: { type: 'audio/pcm', rate: REALTIME_SAMPLE_RATE },
+            voice: this.options.voice || 'alloy',
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Stream a chunk of PCM16 microphone audio
+   */
+  appendAudio(pcm: Buffer): void {
+    if (pcm.length === 0) return;
+    this.send({ type: 'input_audio_buffer.append', audio: pcm.toString('base64') });
+  }
+
+  /**
+   * End the current user turn manually (needed when server VAD is off, or
+   * when the input ends before the server detected silence)
+   */
+  commitAudio(): void {
+    this.send({ type: 'input_audio_buffer.commit' });
+  }
+
+  clearAudio(): void {
+    this.send({ type: 'input_audio_buffer.clear' });
+  }
+
+  /**
+   * Speak the given text verbatim as an out-of-band response, so the agent's
+   * answer is voiced without being added to the realtime conversation
+   */
+  say(text: string): void {
+    this.send({
+      type: 'response.create',
+      response: {
+        conversation: 'none',
+        output_modalities: ['audio'],
+        instructions: 'Read the following text aloud exactly as written, without adding or omitting anything.',
+        input: [{
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text }],
+        }],
+      },
+    });
+  }
+
+  /**
+   * Stop the response that is currently being spoken (barge-in)
+   */
+  interrupt(): void {
+    if (!this.activeResponseId) return;
+
+    const playedMs = Math.round(this.responseAudioBytes / BYTES_PER_MS);
+    this.send({ type: 'response.cancel', response_id: this.activeResponseId });
+    this.activeResponseId = undefined;
+    this.emit('interrupted', playedMs);
+  }
+
+  close(): void {
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private send(event: RealtimeClientEvent): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Realtime session is not connected');
+    }
+    this.socket.send(JSON.stringify(event));
+  }
+
+  private handleMessage(raw: string): void {
+    let event: RealtimeServerEvent;
+    try {
+      event = JSON.parse(raw) as RealtimeServerEvent;
+    } catch {
+      this.emit('error', new Error('Received malformed realtime event'));
+      return;
+    }
+
+    switch (event.type) {
+      case 'input_audio_buffer.speech_started':
+        if (this.activeResponseId && this.options.bargeIn !== false) {
+          this.interrupt();
+        }
+        this.emit('speech.started');
+        break;
+      case 'input_audio_buffer.speech_stopped':
+        this.emit('speech.stopped');
+        break;
+      case 'conversation.item.input_audio_transcription.delta':
+        if (event.delta) this.emit('transcript.delta', event.delta);
+        break;
+      case 'conversation.item.input_audio_transcription.completed':
+        this.emit('transcript.completed', event.transcript);
+        break;
+      case 'response.created':
+        this.activeResponseId = event.response.id;
+        this.responseAudioBytes = 0;
+        break;
+      case 'response.output_audio.delta': {
+        // Audio still in flight after a cancel is dropped
+        if (event.response_id !== this.activeResponseId) break;
+        const audio = Buffer.from(event.delta, 'base64');
+        this.responseAudioBytes += audio.length;
+        this.emit('audio.delta', audio);
+        break;
+      }
+      case 'response.output_audio_transcript.delta':
+        if (event.response_id === this.activeResponseId) {
+          this.emit('response.transcript.delta', event.delta);
+        }
+        break;
+      case 'response.done':
+        if (event.response.id === this.activeResponseId) {
+          this.activeResponseId = undefined;
+        }
+        this.emit('response.done', event.response.status || 'completed');
+        break;
+      case 'error':
+        this.emit('error', new Error(event.error.message));
+        break;
+    }
+  }
+}
+
+export default RealtimeSession;
@@ -0,0 +1,52 @@
+/**
+ * Splits streamed text into complete sentences so speech synthesis can start
+ * on the first sentence while the rest of the answer is still arriving
+ */
+export class SentenceChunker {
+  private buffer = '';
+  private minLength: number;
+
+  /**
+   * @param minLength Sentences shorter than this are merged with the next one,
+   *                  which avoids synthesizing tiny fragments like "Sure."
+   */
+  constructor(minLength: number = 20) {
+    this.minLength = minLength;
+  }
+
+  /**
+   * Add a text delta and return any sentences it completed
+   */
+  push(delta: string): string[] {
+    this.buffer += delta;
+    const sentences: string[] = [];
+
+    // A boundary is terminal punctuation (optionally closed by a quote/bracket) followed by whitespace
+    const boundary = /[.!?…]+["')\]]*\s+/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end).trim();
+      if (candidate.length >= this.minLength) {
+        sentences.push(candidate);
+        start = end;
+      }
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return sentences;
+  }
+
+  /**
+   * Return whatever text is left once the stream has finished
+   */
+  flush(): string | undefined {
+    const rest = this.buffer.trim();
+    this.buffer = '';
+    return rest || undefined;
+  }
+}
+
+export default SentenceChunker;
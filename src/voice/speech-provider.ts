@@ -0,0 +1,115 @@
+import type { AudioFormat } from './audio-format';
+import { OpenAISpeechToText, OpenAITextToSpeech } from './providers/openai';
+import { WhisperCppSpeechToText } from './providers/whisper-cpp';
+import { PiperTextToSpeech } from './providers/piper';
+import { EspeakTextToSpeech } from './providers/espeak';
+
+/**
+ * Speech-to-text backend
+ */
+export interface SpeechToText {
+  readonly name: string;
+  /** Transcribe a recording in any supported container format */
+  transcribe(audio: Buffer): Promise<string>;
+}
+
+/**
+ * Text-to-speech backend
+ */
+export interface TextToSpeech {
+  readonly name: string;
+  /** Container format of the audio returned by `synthesize` */
+  readonly format: AudioFormat;
+  synthesize(text: string): Promise<Buffer>;
+}
+
+export type SpeechToTextProviderId = 'openai' | 'whisper-cpp';
+export type TextToSpeechProviderId = 'openai' | 'piper' | 'espeak';
+
+export const STT_PROVIDERS: SpeechToTextProviderId[] = ['openai', 'whisper-cpp'];
+export const TTS_PROVIDERS: TextToSpeechProviderId[] = ['openai', 'piper', 'espeak'];
+
+/**
+ * Provider selection and per-provider settings
+ * Local providers run as subprocesses and need no network access.
+ */
+export interface SpeechConfig {
+  stt?: SpeechToTextProviderId;
+  tts?: TextToSpeechProviderId;
+  /** Spoken language as an ISO-639-1 code (default: en) */
+  language?: string;
+  openai?: {
+    apiKey?: string;
+    baseURL?: string;
+    transcriptionModel?: string;
+    speechModel?: string;
+    voice?: string;
+  };
+  whisperCpp?: {
+    binary?: string;
+    /** Path to a ggml model file, e.g. ggml-base.en.bin */
+    model?: string;
+    threads?: number;
+  };
+  piper?: {
+    binary?: string;
+    /** Path to a Piper voice, e.g. en_US-lessac-medium.onnx */
+    model?: string;
+  };
+  espeak?: {
+    binary?: string;
+    voice?: string;
+  };
+  /** ffmpeg binary used to convert compressed audio for local engines */
+  ffmpeg?: string;
+}
+
+/**
+ * Read speech settings from the environment
+ */
+export function speechConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SpeechConfig {
+  return {
+    stt: env.STT_PROVIDER as SpeechToTextProviderId | undefined,
+    tts: env.TTS_PROVIDER as TextToSpeechProviderId | undefined,
+    language: env.SPEECH_LANGUAGE,
+    openai: {
+      transcriptionModel: env.OPENAI_STT_MODEL,
+      speechModel: env.OPENAI_TTS_MODEL,
+      voice: env.OPENAI_TTS_VOICE,
+    },
+    whisperCpp: {
+      binary: env.WHISPER_CPP_BIN,
+      model: env.WHISPER_CPP_MODEL,
+      threads: env.WHISPER_CPP_THREADS ? parseInt(env.WHISPER_CPP_THREADS) : undefined,
+    },
+    piper: { binary: env.PIPER_BIN, model: env.PIPER_MODEL },
+    espeak: { binary: env.ESPEAK_BIN, voice: env.ESPEAK_VOICE },
+    ffmpeg: env.FFMPEG_BIN,
+  };
+}
+
+export function createSpeechToText(config: SpeechConfig = {}): SpeechToText {
+  const language = config.language || 'en';
+
+  switch (config.stt || 'openai') {
+    case 'openai':
+      return new OpenAISpeechToText({ ...config.openai, language });
+    case 'whisper-cpp':
+      return new WhisperCppSpeechToText({ ...config.whisperCpp, language, ffmpeg: config.ffmpeg });
+    default:
+      throw new Error(`Unknown speech-to-text provider: ${config.stt} (expected ${STT_PROVIDERS.join(', ')})`);
+  }
+}
+
+export function createTextToSpeech(config: SpeechConfig = {}): TextToSpeech {
+  switch (config.tts || 'openai') {
+    case 'openai':
+      return new OpenAITextToSpeech(config.openai);
+    case 'piper':
+      return new PiperTextToSpeech(config.piper);
+    case 'espeak':
+      return new EspeakTextToSpeech({ ...config.espeak, voice: config.espeak?.voice || config.language });
+    default:
+      throw new Error(`Unknown text-to-speech provider: ${config.tts} (expected ${TTS_PROVIDERS.join(', ')})`);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Minimal RIFF/WAVE reading and writing for PCM audio
+ */
+
+export interface WavInfo {
+  audioFormat: number;
+  channels: number;
+  sampleRate: number;
+  bitsPerSample: number;
+  /** Raw sample data (the `data` chunk) */
+  data: Buffer;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function isWav(buffer: Buffer): boolean {
+  return buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WAVE';
+}
+
+/**
+ * Parse a WAV file; throws when the container is malformed
+ */
+export function parseWav(buffer: Buffer): WavInfo {
+  if (!isWav(buffer)) {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: Omit<WavInfo, 'data'> | undefined;
+  let data: Buffer | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    // Streaming writers sometimes leave the data size at 0 or 0xFFFFFFFF
+    const end = Math.min(body + chunkSize, buffer.length);
+
+    if (chunkId === 'fmt ') {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (chunkId === 'data') {
+      data = buffer.subarray(body, chunkSize === 0 ? buffer.length : end);
+      break;
+    }
+
+    // Chunks are word-aligned
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  if (!format) throw new Error('WAV file has no fmt chunk');
+  if (!data) throw new Error('WAV file has no data chunk');
+
+  return { ...format, data };
+}
+
+/**
+ * Whether the WAV holds 16-bit little-endian PCM
+ */
+export function isPcm16(info: WavInfo): boolean {
+  return (info.audioFormat === WAVE_FORMAT_PCM || info.audioFormat === WAVE_FORMAT_EXTENSIBLE) &&
+    info.bitsPerSample === 16;
+}
+
+/**
+ * Wrap raw PCM samples (16-bit unless stated) in a WAV container
+ */
+export function encodeWav(
+  pcm: Buffer,
+  sampleRate: number,
+  channels: number = 1,
+  bitsPerSample: number = 16
+): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * (bitsPerSample / 8);
+  const byteRate = sampleRate * blockAlign;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(byteRate, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(bitsPerSample, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcm.length, 40);
+
+  return Buffer.concat([header, pcm]);
+}
+
+/**
+ * Convert 16-bit PCM to mono at the given sample rate (channel average,
+ * linear interpolation), as local speech engines expect
+ */
+export function toMonoPcm16(info: WavInfo, sampleRate: number): Buffer {
+  const frameBytes = info.channels * 2;
+  const frames = Math.floor(info.data.length / frameBytes);
+
+  const mono = new Float64Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < info.channels; channel++) {
+      sum += info.data.readInt16LE(frame * frameBytes + channel * 2);
+    }
+    mono[frame] = sum / info.channels;
+  }
+
+  const ratio = info.sampleRate / sampleRate;
+  const length = Math.floor(frames / ratio);
+  const output = Buffer.alloc(length * 2);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, frames - 1);
+    const value = mono[index] + (mono[next] - mono[index]) * (position - index);
+    output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(value))), i * 2);
+  }
+  return output;
+}
+
+/**
+ * Join WAV files that share a sample format into one
+ */
+export function concatWav(files: Buffer[]): Buffer {
+  const parsed = files.map(parseWav);
+  const [first] = parsed;
+  if (!first) throw new Error('No WAV files to join');
+
+  for (const info of parsed) {
+    if (info.sampleRate !== first.sampleRate || info.channels !== first.channels || info.bitsPerSample !== first.bitsPerSample) {
+      throw new Error('Cannot join WAV files with different sample formats');
+    }
+  }
+
+  return encodeWav(
+    Buffer.concat(parsed.map(info => info.data)),
+    first.sampleRate,
+    first.channels,
+    first.bitsPerSample
+  );
+}